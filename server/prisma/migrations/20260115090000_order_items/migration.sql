@@ -0,0 +1,92 @@
+-- Normalize order line items into their own table.
+--
+-- Existing orders are backfilled from the serialized "itemsJson" column before
+-- it (and the single "primary" productId/sku/quantity columns) are dropped.
+
+-- CreateTable
+CREATE TABLE "OrderItem" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "productId" TEXT,
+    "sku" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "unitPriceCents" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "taxCents" INTEGER NOT NULL DEFAULT 0,
+    "discountCents" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderItem_orderId_idx" ON "OrderItem"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderItem_productId_idx" ON "OrderItem"("productId");
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: one OrderItem per itemsJson entry.
+-- Manual orders stored productId/sku; Stripe orders only stored the line item
+-- description, so fall back to matching on product name, and for single-item
+-- orders to the order's primary product.
+INSERT INTO "OrderItem" ("id", "orderId", "productId", "sku", "name", "unitPriceCents", "quantity", "taxCents", "discountCents", "createdAt")
+SELECT
+    'oi_' || md5(o."id" || ':' || e.idx::text),
+    o."id",
+    p."id",
+    COALESCE(NULLIF(e.item->>'sku', ''), p."sku", o."sku"),
+    COALESCE(NULLIF(e.item->>'description', ''), p."name", 'Item'),
+    ROUND(
+      COALESCE((e.item->>'amountSubtotal')::numeric, (e.item->>'amountTotal')::numeric, 0)
+      / GREATEST(COALESCE((e.item->>'quantity')::int, 1), 1)
+    )::int,
+    GREATEST(COALESCE((e.item->>'quantity')::int, 1), 1),
+    GREATEST(COALESCE((e.item->>'amountTotal')::int, 0) - COALESCE((e.item->>'amountSubtotal')::int, 0), 0),
+    GREATEST(COALESCE((e.item->>'amountSubtotal')::int, 0) - COALESCE((e.item->>'amountTotal')::int, 0), 0),
+    o."createdAt"
+FROM "Order" o
+CROSS JOIN LATERAL jsonb_array_elements(o."itemsJson"::jsonb) WITH ORDINALITY AS e(item, idx)
+LEFT JOIN LATERAL (
+    SELECT pr."id", pr."sku", pr."name"
+    FROM "Product" pr
+    WHERE pr."id" = e.item->>'productId'
+       OR pr."sku" = e.item->>'sku'
+       OR pr."name" = e.item->>'description'
+       OR (jsonb_array_length(o."itemsJson"::jsonb) = 1 AND pr."id" = o."productId")
+    ORDER BY
+      (pr."id" = e.item->>'productId') DESC NULLS LAST,
+      (pr."sku" = e.item->>'sku') DESC NULLS LAST,
+      (pr."name" = e.item->>'description') DESC NULLS LAST
+    LIMIT 1
+) p ON TRUE
+WHERE o."itemsJson" LIKE '[%';
+
+-- Orders whose itemsJson was empty or unparseable keep their primary product.
+INSERT INTO "OrderItem" ("id", "orderId", "productId", "sku", "name", "unitPriceCents", "quantity", "createdAt")
+SELECT
+    'oi_' || md5(o."id" || ':0'),
+    o."id",
+    o."productId",
+    o."sku",
+    COALESCE(p."name", o."sku"),
+    COALESCE(p."priceCents", 0),
+    o."quantity",
+    o."createdAt"
+FROM "Order" o
+LEFT JOIN "Product" p ON p."id" = o."productId"
+WHERE NOT EXISTS (SELECT 1 FROM "OrderItem" oi WHERE oi."orderId" = o."id");
+
+-- DropForeignKey
+ALTER TABLE "Order" DROP CONSTRAINT "Order_productId_fkey";
+
+-- AlterTable
+ALTER TABLE "Order" DROP COLUMN "itemsJson",
+DROP COLUMN "productId",
+DROP COLUMN "quantity",
+DROP COLUMN "sku";
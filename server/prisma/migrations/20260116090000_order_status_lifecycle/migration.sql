@@ -0,0 +1,39 @@
+-- Normalize free-text order statuses onto the lifecycle:
+-- pending -> paid -> packed -> shipped -> delivered (+ cancelled / refunded)
+UPDATE "Order" SET "status" = LOWER(TRIM("status"));
+UPDATE "Order" SET "status" = 'packed' WHERE "status" = 'processing';
+UPDATE "Order" SET "status" = 'delivered' WHERE "status" = 'completed';
+UPDATE "Order" SET "status" = 'pending'
+WHERE "status" NOT IN ('pending', 'paid', 'packed', 'shipped', 'delivered', 'cancelled', 'refunded');
+
+-- AlterTable
+ALTER TABLE "Order" ALTER COLUMN "status" SET DEFAULT 'pending',
+ADD COLUMN     "trackingCarrier" TEXT,
+ADD COLUMN     "trackingNumber" TEXT,
+ADD COLUMN     "packedAt" TIMESTAMP(3),
+ADD COLUMN     "shippedAt" TIMESTAMP(3),
+ADD COLUMN     "deliveredAt" TIMESTAMP(3),
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "OrderEvent" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT,
+    "note" TEXT,
+    "adminUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderEvent_orderId_createdAt_idx" ON "OrderEvent"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "OrderEvent" ADD CONSTRAINT "OrderEvent_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderEvent" ADD CONSTRAINT "OrderEvent_adminUserId_fkey" FOREIGN KEY ("adminUserId") REFERENCES "AdminUser"("id") ON DELETE SET NULL ON UPDATE CASCADE;
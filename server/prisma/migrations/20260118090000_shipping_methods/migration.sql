@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "ShippingMethod" (
+    "id" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "minDays" INTEGER,
+    "maxDays" INTEGER,
+    "freeShippingMin" INTEGER,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingMethod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShippingMethod_zoneId_sortOrder_idx" ON "ShippingMethod"("zoneId", "sortOrder");
+
+-- AddForeignKey
+ALTER TABLE "ShippingMethod" ADD CONSTRAINT "ShippingMethod_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "ShippingZone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Every existing zone's rate ladder becomes its "Standard" method.
+INSERT INTO "ShippingMethod" ("id", "zoneId", "name", "minDays", "maxDays", "freeShippingMin", "enabled", "sortOrder", "updatedAt")
+SELECT 'sm_' || md5(z."id"), z."id", 'Standard', 3, 7, z."freeShippingMin", true, 0, CURRENT_TIMESTAMP
+FROM "ShippingZone" z;
+
+-- AlterTable
+ALTER TABLE "WeightTier" ADD COLUMN "methodId" TEXT;
+
+UPDATE "WeightTier" SET "methodId" = 'sm_' || md5("zoneId");
+
+ALTER TABLE "WeightTier" ALTER COLUMN "methodId" SET NOT NULL;
+
+-- DropForeignKey
+ALTER TABLE "WeightTier" DROP CONSTRAINT "WeightTier_zoneId_fkey";
+
+-- DropIndex
+DROP INDEX "WeightTier_zoneId_minWeightG_idx";
+
+-- AlterTable
+ALTER TABLE "WeightTier" DROP COLUMN "zoneId";
+
+-- AlterTable
+ALTER TABLE "ShippingZone" DROP COLUMN "freeShippingMin";
+
+-- CreateIndex
+CREATE INDEX "WeightTier_methodId_minWeightG_idx" ON "WeightTier"("methodId", "minWeightG");
+
+-- AddForeignKey
+ALTER TABLE "WeightTier" ADD CONSTRAINT "WeightTier_methodId_fkey" FOREIGN KEY ("methodId") REFERENCES "ShippingMethod"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "shippingCents" INTEGER,
+ADD COLUMN "shippingMethod" TEXT;
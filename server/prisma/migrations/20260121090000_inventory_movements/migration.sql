@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "InventoryMovement" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "stockAfter" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "orderId" TEXT,
+    "adminUserId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InventoryMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryMovement_productId_createdAt_idx" ON "InventoryMovement"("productId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "InventoryMovement_orderId_idx" ON "InventoryMovement"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "InventoryMovement" ADD CONSTRAINT "InventoryMovement_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryMovement" ADD CONSTRAINT "InventoryMovement_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryMovement" ADD CONSTRAINT "InventoryMovement_adminUserId_fkey" FOREIGN KEY ("adminUserId") REFERENCES "AdminUser"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: open the ledger with each product's current stock so the
+-- movements always sum to Product.stock.
+INSERT INTO "InventoryMovement" ("id", "productId", "delta", "stockAfter", "reason", "note")
+SELECT 'invmov_' || md5("id"), "id", "stock", "stock", 'count', 'Opening balance'
+FROM "Product";
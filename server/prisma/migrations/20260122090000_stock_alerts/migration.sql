@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "lowStockThreshold" INTEGER,
+ADD COLUMN "stockAlertLevel" TEXT;
+
+-- AlterTable
+ALTER TABLE "AdminAlert" ADD COLUMN "productId" TEXT,
+ADD COLUMN "notifiedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "AdminAlert_productId_idx" ON "AdminAlert"("productId");
+
+-- AddForeignKey
+ALTER TABLE "AdminAlert" ADD CONSTRAINT "AdminAlert_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "discountCents" INTEGER,
+ADD COLUMN "discountCode" TEXT;
+
+-- CreateTable
+CREATE TABLE "Discount" (
+    "id" TEXT NOT NULL,
+    "code" TEXT,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "automatic" BOOLEAN NOT NULL DEFAULT false,
+    "value" INTEGER NOT NULL DEFAULT 0,
+    "buyQuantity" INTEGER,
+    "getQuantity" INTEGER,
+    "minSubtotalCents" INTEGER,
+    "productIds" TEXT[],
+    "categoryIds" TEXT[],
+    "usageLimit" INTEGER,
+    "perCustomerLimit" INTEGER,
+    "usageCount" INTEGER NOT NULL DEFAULT 0,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Discount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DiscountRedemption" (
+    "id" TEXT NOT NULL,
+    "discountId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "code" TEXT,
+    "email" TEXT,
+    "amountCents" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DiscountRedemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Discount_code_key" ON "Discount"("code");
+
+-- CreateIndex
+CREATE INDEX "Discount_automatic_active_idx" ON "Discount"("automatic", "active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DiscountRedemption_orderId_key" ON "DiscountRedemption"("orderId");
+
+-- CreateIndex
+CREATE INDEX "DiscountRedemption_discountId_email_idx" ON "DiscountRedemption"("discountId", "email");
+
+-- AddForeignKey
+ALTER TABLE "DiscountRedemption" ADD CONSTRAINT "DiscountRedemption_discountId_fkey" FOREIGN KEY ("discountId") REFERENCES "Discount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DiscountRedemption" ADD CONSTRAINT "DiscountRedemption_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "CheckoutAttempt" (
+    "id" TEXT NOT NULL,
+    "stripeSessionId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "email" TEXT,
+    "items" JSONB NOT NULL,
+    "subtotalCents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "discountCode" TEXT,
+    "orderId" TEXT,
+    "recoveryToken" TEXT NOT NULL,
+    "recoveredFromId" TEXT,
+    "recoveryEmailSentAt" TIMESTAMP(3),
+    "recoveredAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "expiredAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CheckoutAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CheckoutAttempt_stripeSessionId_key" ON "CheckoutAttempt"("stripeSessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CheckoutAttempt_orderId_key" ON "CheckoutAttempt"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CheckoutAttempt_recoveryToken_key" ON "CheckoutAttempt"("recoveryToken");
+
+-- CreateIndex
+CREATE INDEX "CheckoutAttempt_status_createdAt_idx" ON "CheckoutAttempt"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CheckoutAttempt_createdAt_idx" ON "CheckoutAttempt"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "CheckoutAttempt" ADD CONSTRAINT "CheckoutAttempt_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CheckoutAttempt" ADD CONSTRAINT "CheckoutAttempt_recoveredFromId_fkey" FOREIGN KEY ("recoveredFromId") REFERENCES "CheckoutAttempt"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,99 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "customerId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Cart" ADD COLUMN "customerId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Customer" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "phone" TEXT,
+    "passwordHash" TEXT,
+    "emailVerifiedAt" TIMESTAMP(3),
+    "marketingConsent" BOOLEAN NOT NULL DEFAULT false,
+    "marketingConsentAt" TIMESTAMP(3),
+    "lastLoginAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Customer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CustomerAddress" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "line1" TEXT NOT NULL,
+    "line2" TEXT,
+    "city" TEXT NOT NULL,
+    "state" TEXT,
+    "postalCode" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "phone" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomerAddress_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CustomerLoginToken" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CustomerLoginToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Order_customerId_idx" ON "Order"("customerId");
+
+-- CreateIndex
+CREATE INDEX "Cart_customerId_idx" ON "Cart"("customerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Customer_email_key" ON "Customer"("email");
+
+-- CreateIndex
+CREATE INDEX "CustomerAddress_customerId_idx" ON "CustomerAddress"("customerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomerLoginToken_tokenHash_key" ON "CustomerLoginToken"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "CustomerLoginToken_email_idx" ON "CustomerLoginToken"("email");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Cart" ADD CONSTRAINT "Cart_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CustomerAddress" ADD CONSTRAINT "CustomerAddress_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: one customer per distinct order email, named from their latest
+-- order's shipping name, then link the orders.
+INSERT INTO "Customer" ("id", "email", "name", "phone", "createdAt", "updatedAt")
+SELECT DISTINCT ON (lower(trim("email")))
+    gen_random_uuid()::text,
+    lower(trim("email")),
+    "shippingName",
+    "phone",
+    (SELECT min(o2."createdAt") FROM "Order" o2 WHERE lower(trim(o2."email")) = lower(trim("Order"."email"))),
+    CURRENT_TIMESTAMP
+FROM "Order"
+WHERE "email" IS NOT NULL AND trim("email") <> ''
+ORDER BY lower(trim("email")), "createdAt" DESC;
+
+UPDATE "Order" o
+SET "customerId" = c."id"
+FROM "Customer" c
+WHERE o."email" IS NOT NULL AND lower(trim(o."email")) = c."email";
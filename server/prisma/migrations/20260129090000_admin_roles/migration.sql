@@ -0,0 +1,3 @@
+-- AlterTable
+-- Existing admins had full access, so they start as owners.
+ALTER TABLE "AdminUser" ADD COLUMN "role" TEXT NOT NULL DEFAULT 'owner';
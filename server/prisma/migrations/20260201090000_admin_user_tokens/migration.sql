@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "AdminUser" ADD COLUMN     "invitedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "AdminUserToken" (
+    "id" TEXT NOT NULL,
+    "adminUserId" TEXT NOT NULL,
+    "purpose" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AdminUserToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AdminUserToken_tokenHash_key" ON "AdminUserToken"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "AdminUserToken_adminUserId_purpose_idx" ON "AdminUserToken"("adminUserId", "purpose");
+
+-- AddForeignKey
+ALTER TABLE "AdminUserToken" ADD CONSTRAINT "AdminUserToken_adminUserId_fkey" FOREIGN KEY ("adminUserId") REFERENCES "AdminUser"("id") ON DELETE CASCADE ON UPDATE CASCADE;
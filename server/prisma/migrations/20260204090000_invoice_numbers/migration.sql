@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "invoiceNumber" INTEGER,
+ADD COLUMN     "invoicedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_invoiceNumber_key" ON "Order"("invoiceNumber");
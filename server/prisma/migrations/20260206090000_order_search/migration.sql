@@ -0,0 +1,15 @@
+-- AlterTable
+-- The email goes in whole and with "@" split out, so both "alex@example.com"
+-- and "example.com" match.
+ALTER TABLE "Order" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  to_tsvector(
+    'simple',
+    "id" || ' ' ||
+    coalesce("email", '') || ' ' ||
+    replace(coalesce("email", ''), '@', ' ') || ' ' ||
+    coalesce("shippingName", '')
+  )
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Order_searchVector_idx" ON "Order" USING GIN ("searchVector");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "DiscountHold" (
+    "id" TEXT NOT NULL,
+    "discountId" TEXT NOT NULL,
+    "checkoutKey" TEXT NOT NULL,
+    "email" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DiscountHold_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DiscountHold_checkoutKey_key" ON "DiscountHold"("checkoutKey");
+
+-- CreateIndex
+CREATE INDEX "DiscountHold_discountId_expiresAt_idx" ON "DiscountHold"("discountId", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "DiscountHold" ADD CONSTRAINT "DiscountHold_discountId_fkey" FOREIGN KEY ("discountId") REFERENCES "Discount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -120,6 +120,14 @@ async function main(): Promise<void> {
           requiresShipping: true,
           weightGrams: 450,
           active: true,
+          inventoryMovements: {
+            create: {
+              delta: p.stock,
+              stockAfter: p.stock,
+              reason: "count",
+              note: "Opening balance",
+            },
+          },
         },
       })
     )
@@ -147,6 +147,7 @@ async function createAdminUser(input: AdminInput): Promise<void> {
       email,
       passwordHash,
       name: name || null,
+      role: "owner",
       active: true,
     },
   });
@@ -154,6 +155,7 @@ async function createAdminUser(input: AdminInput): Promise<void> {
   console.log("\n✅ Admin user created successfully!");
   console.log(`   ID: ${admin.id}`);
   console.log(`   Email: ${admin.email}`);
+  console.log(`   Role: ${admin.role}`);
   if (admin.name) {
     console.log(`   Name: ${admin.name}`);
   }
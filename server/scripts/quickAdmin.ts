@@ -33,6 +33,7 @@ async function quickCreateAdmin(email: string, password: string, name?: string)
         email,
         passwordHash,
         name: name || null,
+        role: "owner",
         active: true,
       },
     });
@@ -0,0 +1,104 @@
+#!/usr/bin/env tsx
+/**
+ * Reconcile Orders Script
+ *
+ * Usage:
+ *   npm run reconcile -- [--days 7] [--dry-run]
+ *   or
+ *   npx tsx scripts/reconcileOrders.ts [--days 7] [--dry-run]
+ *
+ * Pages through recent Stripe checkout sessions, creates orders missed
+ * webhooks never did, restores truncated line items and reports orders whose
+ * totals don't match Stripe. Set STRIPE_API_BASE to run against stripe-mock.
+ */
+
+import { prisma } from "../src/db";
+import { createStripeClient } from "../src/stripe/client";
+import {
+  DEFAULT_RECONCILE_DAYS,
+  MAX_RECONCILE_DAYS,
+  reconcileCheckoutSessions,
+} from "../src/orders/reconcile";
+
+function parseArgs(argv: string[]): { days: number; dryRun: boolean } {
+  let days = DEFAULT_RECONCILE_DAYS;
+  let dryRun = false;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--dry-run") {
+      dryRun = true;
+    } else if (argv[i] === "--days") {
+      days = Number(argv[++i]);
+    } else {
+      throw new Error(`Unknown argument "${argv[i]}"`);
+    }
+  }
+  if (!Number.isInteger(days) || days < 1 || days > MAX_RECONCILE_DAYS) {
+    throw new Error(
+      `--days must be a whole number from 1 to ${MAX_RECONCILE_DAYS}`
+    );
+  }
+  return { days, dryRun };
+}
+
+function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+async function main() {
+  const { days, dryRun } = parseArgs(process.argv.slice(2));
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  console.log(
+    `⏳ Reconciling checkout sessions since ${since.toISOString()}${
+      dryRun ? " (dry run)" : ""
+    }...\n`
+  );
+  const report = await reconcileCheckoutSessions(createStripeClient(), {
+    since,
+    dryRun,
+  });
+
+  console.log(`Scanned ${report.scanned} completed sessions`);
+
+  console.log(
+    `\n${dryRun ? "Would create" : "Created"}: ${report.created.length}`
+  );
+  for (const entry of report.created) {
+    console.log(
+      `   ${entry.sessionId} → ${entry.orderId ?? "-"}  ${entry.detail}`
+    );
+  }
+
+  console.log(
+    `\n${dryRun ? "Would repair" : "Repaired"}: ${report.repaired.length}`
+  );
+  for (const entry of report.repaired) {
+    console.log(`   ${entry.sessionId} → ${entry.orderId}  ${entry.detail}`);
+  }
+
+  console.log(`\nAmount mismatches: ${report.mismatches.length}`);
+  for (const m of report.mismatches) {
+    console.log(
+      `   ${m.sessionId} → ${m.orderId}  Stripe ${formatCents(
+        m.stripeCents
+      )}, order ${formatCents(m.orderCents)}${
+        m.itemsCents === null ? "" : `, items ${formatCents(m.itemsCents)}`
+      }`
+    );
+  }
+
+  if (report.errors.length > 0) {
+    console.log(`\n❌ Errors: ${report.errors.length}`);
+    for (const entry of report.errors) {
+      console.log(`   ${entry.sessionId}  ${entry.detail}`);
+    }
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("❌ Error:", (error as Error).message);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
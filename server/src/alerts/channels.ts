@@ -0,0 +1,164 @@
+import type { AdminAlert } from "@prisma/client";
+import { prisma } from "../db.js";
+import {
+  isMailConfigured,
+  sendMail,
+  splitRecipients,
+} from "../email/transport.js";
+import { getStoreSetting } from "../settings.js";
+
+/**
+ * A destination admin alerts are delivered to. To add one (Slack, SMS, ...),
+ * implement this and return it from `alertChannels()`.
+ */
+export interface AlertChannel {
+  name: string;
+  send(alert: AdminAlert, storeName: string): Promise<void>;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+function emailChannel(recipients: string[]): AlertChannel {
+  return {
+    name: "email",
+    async send(alert, storeName) {
+      await sendMail({
+        to: recipients,
+        subject: `[${storeName}] ${alert.message}`,
+        text: [
+          alert.message,
+          "",
+          `Severity: ${alert.severity}`,
+          `Raised: ${alert.createdAt.toISOString()}`,
+        ].join("\n"),
+      });
+    },
+  };
+}
+
+function webhookChannel(url: string): AlertChannel {
+  return {
+    name: "webhook",
+    async send(alert, storeName) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          store: storeName,
+          id: alert.id,
+          type: alert.type,
+          severity: alert.severity,
+          message: alert.message,
+          orderId: alert.orderId,
+          productId: alert.productId,
+          createdAt: alert.createdAt,
+        }),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new Error(`Webhook responded ${res.status}`);
+    },
+  };
+}
+
+/**
+ * Channels enabled by the store settings: email to `alertEmail` (falling back
+ * to `supportEmail`) when SMTP is configured, and a POST to `alertWebhookUrl`.
+ */
+export async function alertChannels(): Promise<AlertChannel[]> {
+  const [alertEmail, supportEmail, webhookUrl] = await Promise.all([
+    getStoreSetting<string>("alertEmail", ""),
+    getStoreSetting<string>("supportEmail", ""),
+    getStoreSetting<string>("alertWebhookUrl", ""),
+  ]);
+
+  const channels: AlertChannel[] = [];
+  const recipients = splitRecipients(String(alertEmail || supportEmail || ""));
+  if (isMailConfigured() && recipients.length > 0) {
+    channels.push(emailChannel(recipients));
+  }
+  if (typeof webhookUrl === "string" && webhookUrl.trim()) {
+    channels.push(webhookChannel(webhookUrl.trim()));
+  }
+  return channels;
+}
+
+/**
+ * Deliver an alert through every enabled channel. A failing channel is logged
+ * and doesn't stop the others; the alert is marked notified if any succeeded.
+ */
+export async function deliverAlert(alert: AdminAlert): Promise<void> {
+  const [channels, storeName] = await Promise.all([
+    alertChannels(),
+    getStoreSetting<string>("storeName", "Red Ember"),
+  ]);
+
+  let delivered = false;
+  for (const channel of channels) {
+    try {
+      await channel.send(alert, storeName);
+      delivered = true;
+    } catch (err) {
+      console.error(`Alert delivery via ${channel.name} failed:`, err);
+    }
+  }
+
+  if (delivered) {
+    await prisma.adminAlert.update({
+      where: { id: alert.id },
+      data: { notifiedAt: new Date() },
+    });
+  }
+}
+
+/**
+ * Deliver an order's alerts that no channel has taken yet, e.g. when the
+ * webhook that raised them failed before delivering and Stripe retries it.
+ */
+export async function deliverPendingOrderAlerts(
+  orderId: string
+): Promise<void> {
+  const pending = await prisma.adminAlert.findMany({
+    where: { orderId, notifiedAt: null, resolvedAt: null },
+    orderBy: { createdAt: "asc" },
+  });
+  for (const alert of pending) await deliverAlert(alert);
+}
+
+/**
+ * Send a sample alert through every enabled channel and report how each did,
+ * e.g. to check SMTP settings against a local stub.
+ */
+export async function testAlertChannels(): Promise<
+  Array<{ channel: string; ok: boolean; error?: string }>
+> {
+  const [channels, storeName] = await Promise.all([
+    alertChannels(),
+    getStoreSetting<string>("storeName", "Red Ember"),
+  ]);
+  const sample: AdminAlert = {
+    id: "test",
+    type: "test",
+    severity: "info",
+    message: "Test alert",
+    orderId: null,
+    productId: null,
+    notifiedAt: null,
+    resolvedAt: null,
+    createdAt: new Date(),
+  };
+
+  const results: Array<{ channel: string; ok: boolean; error?: string }> = [];
+  for (const channel of channels) {
+    try {
+      await channel.send(sample, storeName);
+      results.push({ channel: channel.name, ok: true });
+    } catch (err) {
+      results.push({
+        channel: channel.name,
+        ok: false,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return results;
+}
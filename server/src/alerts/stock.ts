@@ -0,0 +1,123 @@
+import type { AdminAlert } from "@prisma/client";
+import { prisma } from "../db.js";
+import { getStoreSetting } from "../settings.js";
+import { deliverAlert } from "./channels.js";
+
+export const STOCK_ALERT_TYPES = ["low_stock", "out_of_stock"] as const;
+export type StockAlertType = (typeof STOCK_ALERT_TYPES)[number];
+
+// Catches changes that don't go through a stock movement, like a new
+// threshold setting.
+const SWEEP_INTERVAL_MS = 15 * 60_000;
+
+export function stockAlertLevel(
+  stock: number,
+  threshold: number
+): StockAlertType | null {
+  if (stock <= 0) return "out_of_stock";
+  if (stock <= threshold) return "low_stock";
+  return null;
+}
+
+/**
+ * Raise, replace or resolve stock alerts for products whose level (healthy,
+ * low, out) changed since they were last evaluated. Alerts are raised once per
+ * level change, not on every sale. Omit `productIds` to check every product.
+ */
+export async function evaluateStockAlerts(
+  productIds?: string[]
+): Promise<void> {
+  const [enabled, defaultThreshold] = await Promise.all([
+    getStoreSetting<boolean>("enableLowStockAlerts", true),
+    getStoreSetting<number>("lowStockThreshold", 10),
+  ]);
+
+  const products = await prisma.product.findMany({
+    where: productIds ? { id: { in: productIds } } : {},
+    select: {
+      id: true,
+      name: true,
+      sku: true,
+      stock: true,
+      active: true,
+      lowStockThreshold: true,
+      stockAlertLevel: true,
+    },
+  });
+
+  for (const product of products) {
+    const threshold =
+      product.lowStockThreshold ?? (Number(defaultThreshold) || 0);
+    const level =
+      enabled !== false && product.active
+        ? stockAlertLevel(product.stock, threshold)
+        : null;
+    if (level === product.stockAlertLevel) continue;
+
+    const alert = await prisma.$transaction(
+      async (tx): Promise<AdminAlert | null> => {
+        // Only one concurrent evaluation wins the level change.
+        const claimed = await tx.product.updateMany({
+          where: { id: product.id, stockAlertLevel: product.stockAlertLevel },
+          data: { stockAlertLevel: level },
+        });
+        if (claimed.count !== 1) return null;
+
+        await tx.adminAlert.updateMany({
+          where: {
+            productId: product.id,
+            type: { in: [...STOCK_ALERT_TYPES] },
+            resolvedAt: null,
+          },
+          data: { resolvedAt: new Date() },
+        });
+        if (!level) return null;
+
+        return tx.adminAlert.create({
+          data: {
+            type: level,
+            severity: level === "out_of_stock" ? "critical" : "warning",
+            message:
+              level === "out_of_stock"
+                ? `${product.name} (${product.sku}) is out of stock`
+                : `${product.name} (${product.sku}) is low on stock: ${product.stock} left`,
+            productId: product.id,
+          },
+        });
+      }
+    );
+
+    if (alert) await deliverAlert(alert);
+  }
+}
+
+let pending: Set<string> | "all" | null = null;
+
+/**
+ * Queue a stock alert check to run after the current request, once the stock
+ * change has committed. Checks queued together are batched.
+ */
+export function scheduleStockAlertCheck(productIds?: string[]): void {
+  const first = pending === null;
+  if (!productIds) {
+    pending = "all";
+  } else if (pending !== "all") {
+    pending = pending ?? new Set();
+    for (const id of productIds) pending.add(id);
+  }
+  if (!first) return;
+
+  setImmediate(() => {
+    const batch = pending;
+    pending = null;
+    if (!batch) return;
+    evaluateStockAlerts(batch === "all" ? undefined : Array.from(batch)).catch(
+      (err) => console.error("Stock alert check failed:", err)
+    );
+  });
+}
+
+export function startStockAlertSweep(): void {
+  scheduleStockAlertCheck();
+  setInterval(() => scheduleStockAlertCheck(), SWEEP_INTERVAL_MS).unref();
+}
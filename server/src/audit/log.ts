@@ -0,0 +1,440 @@
+import type { NextFunction, Request, Response } from "express";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../db.js";
+import { clientIp } from "../auth/loginProtection.js";
+
+export const AUDIT_ACTIONS = ["create", "update", "delete"] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+// Never written to the log, wherever they appear.
+const REDACTED_KEY = /password|secret|token|recoverycode/i;
+// Change on every write, so they'd show up in every diff.
+const IGNORED_KEYS = new Set(["createdAt", "updatedAt"]);
+
+type Snapshot = Record<string, unknown>;
+type SnapshotLoader = (id: string | null) => Promise<unknown>;
+
+const SNAPSHOTS: Record<string, SnapshotLoader> = {
+  Product: (id) =>
+    id
+      ? prisma.product.findUnique({
+          where: { id },
+          include: {
+            variantValues: { select: { variantTypeId: true, value: true } },
+          },
+        })
+      : Promise.resolve(null),
+  ProductCategory: (id) =>
+    id
+      ? prisma.productCategory.findUnique({ where: { id } })
+      : Promise.resolve(null),
+  ProductVariantType: (id) =>
+    id
+      ? prisma.productVariantType.findUnique({ where: { id } })
+      : Promise.resolve(null),
+  ProductImage: (id) =>
+    id
+      ? prisma.productImage.findUnique({ where: { id } })
+      : Promise.resolve(null),
+  Order: (id) =>
+    id ? prisma.order.findUnique({ where: { id } }) : Promise.resolve(null),
+  Customer: (id) =>
+    id ? prisma.customer.findUnique({ where: { id } }) : Promise.resolve(null),
+  CustomerNote: (id) =>
+    id
+      ? prisma.customerNote.findUnique({ where: { id } })
+      : Promise.resolve(null),
+  AdminUser: (id) =>
+    id
+      ? prisma.adminUser.findUnique({
+          where: { id },
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            role: true,
+            active: true,
+            invitedAt: true,
+            totpEnabledAt: true,
+            failedLoginCount: true,
+            lockedUntil: true,
+          },
+        })
+      : Promise.resolve(null),
+  ShippingZone: (id) =>
+    id
+      ? prisma.shippingZone.findUnique({
+          where: { id },
+          include: {
+            methods: {
+              orderBy: { sortOrder: "asc" },
+              include: { weightTiers: { orderBy: { minWeightG: "asc" } } },
+            },
+          },
+        })
+      : Promise.resolve(null),
+  TaxRate: (id) =>
+    id ? prisma.taxRate.findUnique({ where: { id } }) : Promise.resolve(null),
+  Discount: (id) =>
+    id ? prisma.discount.findUnique({ where: { id } }) : Promise.resolve(null),
+  AdminAlert: (id) =>
+    id
+      ? prisma.adminAlert.findUnique({ where: { id } })
+      : Promise.resolve(null),
+  EmailMessage: (id) =>
+    id
+      ? prisma.emailMessage.findUnique({
+          where: { id },
+          select: {
+            id: true,
+            template: true,
+            to: true,
+            status: true,
+            attempts: true,
+            lastError: true,
+            sentAt: true,
+          },
+        })
+      : Promise.resolve(null),
+  CheckoutAttempt: (id) =>
+    id
+      ? prisma.checkoutAttempt.findUnique({ where: { id } })
+      : Promise.resolve(null),
+  // Settings are one record, keyed by setting name.
+  StoreSetting: async () => {
+    const settings = await prisma.storeSetting.findMany();
+    return Object.fromEntries(
+      settings.map((setting) => {
+        try {
+          return [setting.key, JSON.parse(setting.value)];
+        } catch {
+          return [setting.key, setting.value];
+        }
+      })
+    );
+  },
+};
+
+interface AuditedRoute {
+  // Relative to /api/admin. ":name" matches one path segment.
+  path: string;
+  entityType: string;
+  // Path parameter with the entity id. Without one, the id comes from the
+  // response, as for creates.
+  idParam?: string;
+  action?: AuditAction;
+}
+
+// Checked in order, so literal paths go before parameterised ones of the
+// same length. Unlisted routes are still logged, with the request body.
+const AUDITED_ROUTES: AuditedRoute[] = [
+  { path: "/categories", entityType: "ProductCategory" },
+  { path: "/categories/:id", entityType: "ProductCategory", idParam: "id" },
+  { path: "/variant-types", entityType: "ProductVariantType" },
+  {
+    path: "/variant-types/:typeId",
+    entityType: "ProductVariantType",
+    idParam: "typeId",
+  },
+  {
+    path: "/categories/:categoryId/variant-types",
+    entityType: "ProductVariantType",
+  },
+  {
+    path: "/categories/:categoryId/variant-types/:typeId",
+    entityType: "ProductVariantType",
+    idParam: "typeId",
+  },
+  {
+    path: "/categories/:categoryId/images/reorder",
+    entityType: "ProductCategory",
+    idParam: "categoryId",
+    action: "update",
+  },
+  { path: "/categories/:categoryId/images", entityType: "ProductImage" },
+  {
+    path: "/categories/:categoryId/images/:id",
+    entityType: "ProductImage",
+    idParam: "id",
+  },
+  {
+    path: "/products/:productId/variant-values",
+    entityType: "Product",
+    idParam: "productId",
+  },
+  {
+    path: "/products/:productId/images/reorder",
+    entityType: "Product",
+    idParam: "productId",
+    action: "update",
+  },
+  { path: "/products/:productId/images", entityType: "ProductImage" },
+  {
+    path: "/products/:productId/images/:id",
+    entityType: "ProductImage",
+    idParam: "id",
+  },
+  { path: "/products", entityType: "Product" },
+  { path: "/products/:id", entityType: "Product", idParam: "id" },
+  {
+    path: "/products/:id/stock-movements",
+    entityType: "Product",
+    idParam: "id",
+    action: "update",
+  },
+  { path: "/orders/manual", entityType: "Order" },
+  { path: "/orders/bulk-status", entityType: "Order", action: "update" },
+  { path: "/orders/:id/status", entityType: "Order", idParam: "id" },
+  {
+    path: "/orders/:id/refunds",
+    entityType: "Order",
+    idParam: "id",
+    action: "update",
+  },
+  {
+    path: "/alerts/:id/resolve",
+    entityType: "AdminAlert",
+    idParam: "id",
+    action: "update",
+  },
+  {
+    path: "/emails/:id/retry",
+    entityType: "EmailMessage",
+    idParam: "id",
+    action: "update",
+  },
+  { path: "/customers/:id/tags", entityType: "Customer", idParam: "id" },
+  { path: "/customers/:id/notes", entityType: "CustomerNote" },
+  {
+    path: "/customers/:id/notes/:noteId",
+    entityType: "CustomerNote",
+    idParam: "noteId",
+  },
+  { path: "/users", entityType: "AdminUser" },
+  { path: "/users/invite", entityType: "AdminUser" },
+  { path: "/users/:id", entityType: "AdminUser", idParam: "id" },
+  {
+    path: "/users/:id/:change",
+    entityType: "AdminUser",
+    idParam: "id",
+    action: "update",
+  },
+  { path: "/sessions/:id", entityType: "AdminSession", idParam: "id" },
+  { path: "/shipping/zones", entityType: "ShippingZone" },
+  { path: "/shipping/zones/:id", entityType: "ShippingZone", idParam: "id" },
+  { path: "/tax/regions", entityType: "TaxRate" },
+  { path: "/tax/regions/:id", entityType: "TaxRate", idParam: "id" },
+  { path: "/discounts", entityType: "Discount" },
+  { path: "/discounts/:id", entityType: "Discount", idParam: "id" },
+  {
+    path: "/abandoned-checkouts/:id/recovery-email",
+    entityType: "CheckoutAttempt",
+    idParam: "id",
+    action: "update",
+  },
+  { path: "/settings", entityType: "StoreSetting", action: "update" },
+];
+
+interface MatchedRoute {
+  entityType: string;
+  entityId: string | null;
+  action: AuditAction;
+  hasIdParam: boolean;
+}
+
+// A malformed escape such as "%E0%A4%A" is kept as typed rather than thrown.
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function matchRoute(method: string, path: string): MatchedRoute {
+  const segments = path.split("/").filter(Boolean);
+  const defaultAction = (hasId: boolean): AuditAction =>
+    method === "DELETE"
+      ? "delete"
+      : method === "POST" && !hasId
+      ? "create"
+      : "update";
+
+  for (const route of AUDITED_ROUTES) {
+    const parts = route.path.split("/").filter(Boolean);
+    if (parts.length !== segments.length) continue;
+    const params: Record<string, string> = {};
+    const matches = parts.every((part, i) => {
+      if (part.startsWith(":")) {
+        params[part.slice(1)] = decodeSegment(segments[i]);
+        return true;
+      }
+      return part === segments[i];
+    });
+    if (!matches) continue;
+
+    const entityId = route.idParam ? params[route.idParam] ?? null : null;
+    return {
+      entityType: route.entityType,
+      entityId,
+      action: route.action ?? defaultAction(Boolean(route.idParam)),
+      hasIdParam: Boolean(route.idParam),
+    };
+  }
+
+  // e.g. /media/uploads%2Fpepper.jpg
+  return {
+    entityType: segments[0] ?? "unknown",
+    entityId:
+      segments.length > 1 ? decodeSegment(segments.slice(1).join("/")) : null,
+    action: defaultAction(segments.length > 1),
+    hasIdParam: segments.length > 1,
+  };
+}
+
+/**
+ * Plain JSON with secrets masked and timestamps that change on every write
+ * left out.
+ */
+function toSnapshot(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(toSnapshot);
+  if (typeof value === "object") {
+    const out: Snapshot = {};
+    for (const [key, v] of Object.entries(value as Snapshot)) {
+      if (IGNORED_KEYS.has(key)) continue;
+      out[key] = REDACTED_KEY.test(key) ? "[redacted]" : toSnapshot(v);
+    }
+    return out;
+  }
+  return value;
+}
+
+function isRecord(value: unknown): value is Snapshot {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * For updates, only the fields that changed on each side. Creates keep the
+ * whole new record and deletes the whole old one.
+ */
+export function diffSnapshots(
+  before: unknown,
+  after: unknown
+): { before: Snapshot | null; after: Snapshot | null } {
+  const from = isRecord(before) ? before : null;
+  const to = isRecord(after) ? after : null;
+  if (!from || !to) return { before: from, after: to };
+
+  const changedBefore: Snapshot = {};
+  const changedAfter: Snapshot = {};
+  for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (JSON.stringify(from[key]) === JSON.stringify(to[key])) continue;
+    changedBefore[key] = from[key] ?? null;
+    changedAfter[key] = to[key] ?? null;
+  }
+  return { before: changedBefore, after: changedAfter };
+}
+
+async function loadSnapshot(
+  entityType: string,
+  entityId: string | null
+): Promise<unknown> {
+  const load = SNAPSHOTS[entityType];
+  return load ? toSnapshot(await load(entityId)) : null;
+}
+
+/**
+ * Records every successful POST/PUT/PATCH/DELETE under /api/admin in the
+ * audit log. Mount before the admin routes; the record is written once the
+ * response has gone out, when requireAuth has set req.user.
+ */
+export async function auditAdminChanges(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  // Unauthenticated requests are refused by requireAuth, so don't bother
+  // loading anything for them.
+  if (!MUTATING_METHODS.has(req.method) || !req.session?.userId) {
+    next();
+    return;
+  }
+
+  // Express 4 doesn't catch a rejected promise from async middleware, and an
+  // unhandled rejection stops the process.
+  try {
+    const route = matchRoute(req.method, req.path);
+    const path = req.originalUrl.split("?")[0];
+    let before: unknown = null;
+    try {
+      before = await loadSnapshot(route.entityType, route.entityId);
+    } catch (err) {
+      console.error("Audit snapshot error:", err);
+    }
+
+    let responseBody: unknown;
+    const json = res.json.bind(res);
+    res.json = (body?: unknown) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    res.on("finish", () => {
+      if (!req.user || res.statusCode >= 400) return;
+      void (async () => {
+        try {
+          const createdId =
+            !route.hasIdParam &&
+            isRecord(responseBody) &&
+            typeof responseBody.id === "string"
+              ? responseBody.id
+              : null;
+          const entityId = route.entityId ?? createdId;
+          const after =
+            route.action === "delete"
+              ? null
+              : await loadSnapshot(route.entityType, entityId);
+          const diff =
+            before === null && after === null
+              ? {
+                  before: null,
+                  after: isRecord(req.body)
+                    ? (toSnapshot(req.body) as Snapshot)
+                    : null,
+                }
+              : diffSnapshots(before, after);
+
+          await prisma.auditLog.create({
+            data: {
+              adminUserId: req.user!.userId,
+              actorEmail: req.user!.email,
+              action: route.action,
+              entityType: route.entityType,
+              entityId,
+              method: req.method,
+              path,
+              before: (diff.before ?? undefined) as
+                | Prisma.InputJsonValue
+                | undefined,
+              after: (diff.after ?? undefined) as
+                | Prisma.InputJsonValue
+                | undefined,
+              ip: clientIp(req),
+            },
+          });
+        } catch (err) {
+          console.error("Audit log error:", err);
+        }
+      })();
+    });
+  } catch (err) {
+    next(err);
+    return;
+  }
+
+  next();
+}
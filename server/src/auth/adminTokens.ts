@@ -0,0 +1,146 @@
+import { randomBytes } from "node:crypto";
+import type { AdminUser, AdminUserToken } from "@prisma/client";
+import { config } from "../config.js";
+import { prisma } from "../db.js";
+import { hashToken } from "../customers/accounts.js";
+import { enqueueEmail } from "../email/queue.js";
+import {
+  loadEmailBranding,
+  renderAdminInviteEmail,
+  renderPasswordResetEmail,
+} from "../email/templates.js";
+
+export const ADMIN_TOKEN_PURPOSES = ["invite", "password_reset"] as const;
+export type AdminTokenPurpose = (typeof ADMIN_TOKEN_PURPOSES)[number];
+
+const INVITE_DAYS = 7;
+const PASSWORD_RESET_MINUTES = 60;
+// At most one reset email per admin this often.
+const PASSWORD_RESET_COOLDOWN_MS = 2 * 60 * 1000;
+
+/**
+ * Issue a token, revoking any earlier unused one for the same purpose so
+ * only the newest link works.
+ */
+async function issueAdminToken(
+  adminUserId: string,
+  purpose: AdminTokenPurpose,
+  validMs: number
+): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.adminUserToken.updateMany({
+      where: { adminUserId, purpose, usedAt: null },
+      data: { usedAt: now },
+    }),
+    prisma.adminUserToken.create({
+      data: {
+        adminUserId,
+        purpose,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now.getTime() + validMs),
+      },
+    }),
+  ]);
+  return token;
+}
+
+function passwordLinkUrl(token: string): string {
+  const url = new URL("/admin/reset-password", config.clientUrl);
+  url.searchParams.set("token", token);
+  return url.toString();
+}
+
+export async function sendAdminInvite(admin: AdminUser): Promise<void> {
+  const token = await issueAdminToken(
+    admin.id,
+    "invite",
+    INVITE_DAYS * 24 * 60 * 60 * 1000
+  );
+  const rendered = renderAdminInviteEmail(
+    passwordLinkUrl(token),
+    INVITE_DAYS,
+    await loadEmailBranding()
+  );
+  await enqueueEmail({
+    template: "admin_invite",
+    to: admin.email,
+    ...rendered,
+  });
+}
+
+/**
+ * Queue a reset link for an active admin. Returns quietly for unknown or
+ * inactive emails so the endpoint can't be used to probe for accounts.
+ */
+export async function sendPasswordReset(email: string): Promise<void> {
+  const admin = await prisma.adminUser.findUnique({ where: { email } });
+  if (!admin || !admin.active) return;
+
+  const recent = await prisma.adminUserToken.findFirst({
+    where: {
+      adminUserId: admin.id,
+      purpose: "password_reset",
+      createdAt: { gt: new Date(Date.now() - PASSWORD_RESET_COOLDOWN_MS) },
+    },
+    select: { id: true },
+  });
+  if (recent) return;
+
+  const token = await issueAdminToken(
+    admin.id,
+    "password_reset",
+    PASSWORD_RESET_MINUTES * 60 * 1000
+  );
+  const rendered = renderPasswordResetEmail(
+    passwordLinkUrl(token),
+    PASSWORD_RESET_MINUTES,
+    await loadEmailBranding()
+  );
+  await enqueueEmail({
+    template: "admin_password_reset",
+    to: admin.email,
+    ...rendered,
+  });
+}
+
+type TokenWithAdmin = AdminUserToken & { adminUser: AdminUser };
+
+/**
+ * The unused, unexpired token and its admin, or null.
+ */
+export async function findAdminToken(
+  token: string
+): Promise<TokenWithAdmin | null> {
+  const record = await prisma.adminUserToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { adminUser: true },
+  });
+  if (!record || record.usedAt || record.expiresAt <= new Date()) return null;
+  if (!record.adminUser.active) return null;
+  return record;
+}
+
+/**
+ * Claim a token atomically so it can't be used twice, along with every
+ * other outstanding token for the admin.
+ */
+export async function consumeAdminToken(
+  token: string
+): Promise<TokenWithAdmin | null> {
+  const record = await findAdminToken(token);
+  if (!record) return null;
+
+  const claimed = await prisma.adminUserToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (claimed.count === 0) return null;
+
+  await prisma.adminUserToken.updateMany({
+    where: { adminUserId: record.adminUserId, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return record;
+}
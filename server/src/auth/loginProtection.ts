@@ -0,0 +1,219 @@
+import type { Request } from "express";
+import { prisma } from "../db.js";
+
+// Failures from one IP are counted over this window.
+const IP_WINDOW_MS = 15 * 60 * 1000;
+// Failures allowed before each further attempt has to wait, doubling the
+// wait every time, up to MAX_BACKOFF_SECONDS.
+const IP_FREE_FAILURES = 5;
+const ACCOUNT_FREE_FAILURES = 3;
+const MAX_BACKOFF_SECONDS = 5 * 60;
+// Past this many failures in the window an IP is refused outright.
+const IP_MAX_FAILURES = 50;
+// Consecutive failures that lock an account, and for how long.
+const LOCKOUT_THRESHOLD = 10;
+const LOCKOUT_MS = 30 * 60 * 1000;
+
+export const LOGIN_ATTEMPT_REASONS = [
+  "invalid_password",
+  "unknown_user",
+  "inactive",
+  "locked",
+  "throttled",
+  "invalid_code",
+] as const;
+export type LoginAttemptReason = (typeof LOGIN_ATTEMPT_REASONS)[number];
+
+// Refused attempts never reached the password check, so they don't make
+// the backoff any longer.
+const REFUSED_REASONS: LoginAttemptReason[] = ["locked", "throttled"];
+
+interface AccountLoginState {
+  failedLoginCount: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+}
+
+export type LoginThrottleResult =
+  | { ok: true }
+  | {
+      ok: false;
+      reason: "locked" | "throttled";
+      retryAfterSeconds: number;
+      error: string;
+    };
+
+export function clientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
+
+function backoffSeconds(failures: number, freeFailures: number): number {
+  if (failures < freeFailures) return 0;
+  return Math.min(2 ** (failures - freeFailures), MAX_BACKOFF_SECONDS);
+}
+
+function waitMessage(seconds: number): string {
+  return seconds < 60
+    ? `${seconds} second${seconds === 1 ? "" : "s"}`
+    : `${Math.ceil(seconds / 60)} minutes`;
+}
+
+function throttled(
+  retryAfterSeconds: number,
+  reason: "locked" | "throttled"
+): LoginThrottleResult {
+  return {
+    ok: false,
+    reason,
+    retryAfterSeconds,
+    error:
+      reason === "locked"
+        ? `Too many failed sign ins. This account is locked for ${waitMessage(
+            retryAfterSeconds
+          )}, or until an owner unlocks it.`
+        : `Too many sign in attempts. Try again in ${waitMessage(
+            retryAfterSeconds
+          )}.`,
+  };
+}
+
+/**
+ * Whether a sign in may be tried now, before the password is checked.
+ * `account` is null when the email doesn't match an admin (or customer).
+ */
+export async function checkLoginThrottle(
+  ip: string,
+  account: AccountLoginState | null,
+  now = new Date()
+): Promise<LoginThrottleResult> {
+  if (account?.lockedUntil && account.lockedUntil > now) {
+    const seconds = Math.ceil(
+      (account.lockedUntil.getTime() - now.getTime()) / 1000
+    );
+    return throttled(seconds, "locked");
+  }
+
+  if (account?.lastFailedLoginAt) {
+    const wait = backoffSeconds(
+      account.failedLoginCount,
+      ACCOUNT_FREE_FAILURES
+    );
+    const readyAt = account.lastFailedLoginAt.getTime() + wait * 1000;
+    if (readyAt > now.getTime()) {
+      return throttled(
+        Math.ceil((readyAt - now.getTime()) / 1000),
+        "throttled"
+      );
+    }
+  }
+
+  const recentFailures = await prisma.loginAttempt.findMany({
+    where: {
+      ip,
+      success: false,
+      reason: { notIn: REFUSED_REASONS },
+      createdAt: { gte: new Date(now.getTime() - IP_WINDOW_MS) },
+    },
+    select: { createdAt: true },
+    orderBy: { createdAt: "desc" },
+    take: IP_MAX_FAILURES,
+  });
+  if (recentFailures.length >= IP_MAX_FAILURES) {
+    // Open again once the oldest of these leaves the window.
+    const oldest = recentFailures[recentFailures.length - 1].createdAt;
+    const seconds = Math.ceil(
+      (oldest.getTime() + IP_WINDOW_MS - now.getTime()) / 1000
+    );
+    return throttled(Math.max(seconds, 1), "throttled");
+  }
+  if (recentFailures.length > 0) {
+    const wait = backoffSeconds(recentFailures.length, IP_FREE_FAILURES);
+    const readyAt = recentFailures[0].createdAt.getTime() + wait * 1000;
+    if (readyAt > now.getTime()) {
+      return throttled(
+        Math.ceil((readyAt - now.getTime()) / 1000),
+        "throttled"
+      );
+    }
+  }
+
+  return { ok: true };
+}
+
+export async function recordLoginAttempt(
+  req: Request,
+  attempt: {
+    email: string;
+    adminUserId?: string | null;
+    customerId?: string | null;
+    success: boolean;
+    reason?: LoginAttemptReason;
+  }
+): Promise<void> {
+  await prisma.loginAttempt.create({
+    data: {
+      email: attempt.email,
+      adminUserId: attempt.adminUserId ?? null,
+      customerId: attempt.customerId ?? null,
+      ip: clientIp(req),
+      userAgent: req.get("user-agent")?.slice(0, 500) ?? null,
+      success: attempt.success,
+      reason: attempt.reason ?? null,
+    },
+  });
+}
+
+/**
+ * Count a wrong password or code against the account, locking it once
+ * LOCKOUT_THRESHOLD failures in a row are reached.
+ */
+export async function registerLoginFailure(adminUserId: string): Promise<void> {
+  const now = new Date();
+  const admin = await prisma.adminUser.update({
+    where: { id: adminUserId },
+    data: { failedLoginCount: { increment: 1 }, lastFailedLoginAt: now },
+    select: { failedLoginCount: true },
+  });
+  if (admin.failedLoginCount >= LOCKOUT_THRESHOLD) {
+    await prisma.adminUser.update({
+      where: { id: adminUserId },
+      data: { lockedUntil: new Date(now.getTime() + LOCKOUT_MS) },
+    });
+  }
+}
+
+// Also what an owner's "unlock" does.
+export async function clearLoginFailures(adminUserId: string): Promise<void> {
+  await prisma.adminUser.update({
+    where: { id: adminUserId },
+    data: { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
+  });
+}
+
+// The same lockout for customer password sign ins. Customers can still sign
+// in by email link while locked.
+export async function registerCustomerLoginFailure(
+  customerId: string
+): Promise<void> {
+  const now = new Date();
+  const customer = await prisma.customer.update({
+    where: { id: customerId },
+    data: { failedLoginCount: { increment: 1 }, lastFailedLoginAt: now },
+    select: { failedLoginCount: true },
+  });
+  if (customer.failedLoginCount >= LOCKOUT_THRESHOLD) {
+    await prisma.customer.update({
+      where: { id: customerId },
+      data: { lockedUntil: new Date(now.getTime() + LOCKOUT_MS) },
+    });
+  }
+}
+
+export async function clearCustomerLoginFailures(
+  customerId: string
+): Promise<void> {
+  await prisma.customer.update({
+    where: { id: customerId },
+    data: { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
+  });
+}
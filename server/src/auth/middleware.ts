@@ -1,10 +1,20 @@
-import type { Request, Response, NextFunction } from "express";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { prisma } from "../db.js";
+import { hasPermission, type Permission } from "./permissions.js";
+import { touchAdminSession } from "./sessions.js";
+import { getStoreSetting } from "../settings.js";
 
-export function requireAuth(
+/**
+ * The admin is looked up on every request, so a deactivated or deleted
+ * admin is signed out straight away rather than when the session expires.
+ * The same goes for an admin without two-factor while the store requires it,
+ * however their session began; they enroll at their next sign in.
+ */
+export async function requireAuth(
   req: Request,
   res: Response,
   next: NextFunction
-): void {
+): Promise<void> {
   const userId = req.session?.userId;
   const email = req.session?.email;
 
@@ -13,7 +23,47 @@ export function requireAuth(
     return;
   }
 
-  req.user = { userId, email };
+  try {
+    const admin = await prisma.adminUser.findUnique({
+      where: { id: userId },
+      select: { email: true, role: true, active: true, totpEnabledAt: true },
+    });
+    const missingTwoFactor =
+      admin?.active &&
+      !admin.totpEnabledAt &&
+      (await getStoreSetting<boolean>("requireAdminTwoFactor", false));
+    if (!admin || !admin.active || missingTwoFactor) {
+      req.session.destroy((err) => {
+        if (err) console.error("Destroy stale admin session error:", err);
+        res.status(401).json({ error: "Authentication required" });
+      });
+      return;
+    }
 
-  next();
+    touchAdminSession(req);
+    req.user = { userId, email: admin.email, role: admin.role };
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Use after requireAuth, which reads the role on every request so a change
+ * applies immediately, without signing the admin out.
+ */
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user?.role) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      res
+        .status(403)
+        .json({ error: "You don't have permission to do that", permission });
+      return;
+    }
+    next();
+  };
 }
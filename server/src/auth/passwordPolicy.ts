@@ -0,0 +1,92 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+export const MIN_PASSWORD_LENGTH = 12;
+// bcrypt ignores everything past 72 bytes.
+const MAX_PASSWORD_BYTES = 72;
+
+// The server package root, found by walking up from this file so the path is
+// the same under tsx (src/auth) and the build (dist/src/auth).
+function packageRoot(): string {
+  let dir = path.dirname(fileURLToPath(import.meta.url));
+  while (!fs.existsSync(path.join(dir, "package.json"))) {
+    const parent = path.dirname(dir);
+    if (parent === dir) throw new Error("Server package root not found");
+    dir = parent;
+  }
+  return dir;
+}
+
+const BREACHED_PASSWORDS_FILE = path.join(
+  packageRoot(),
+  "data",
+  "breached-passwords.txt"
+);
+
+let breachedPasswords: Set<string> | null = null;
+
+/**
+ * Load the breached password list. Called at startup so a missing or
+ * unreadable file stops the server instead of quietly skipping the check.
+ */
+export function loadBreachedPasswords(): Set<string> {
+  if (breachedPasswords) return breachedPasswords;
+  const lines = fs.readFileSync(BREACHED_PASSWORDS_FILE, "utf8").split("\n");
+  breachedPasswords = new Set(
+    lines
+      .map((line) => line.trim().toLowerCase())
+      .filter((line) => line && !line.startsWith("#"))
+  );
+  return breachedPasswords;
+}
+
+/**
+ * Whether the password, or the password minus trailing digits and symbols
+ * ("password2024!"), is on the bundled list of common breached passwords.
+ */
+export function isBreachedPassword(password: string): boolean {
+  const list = loadBreachedPasswords();
+  const normalized = password.toLowerCase();
+  const stem = normalized.replace(/[^a-z]+$/, "");
+  return list.has(normalized) || (stem.length >= 4 && list.has(stem));
+}
+
+/**
+ * Password rules for admin accounts. Returns the first rule broken, or
+ * null when the password is acceptable.
+ */
+export function checkPasswordStrength(
+  password: unknown,
+  context: { email?: string | null; name?: string | null } = {}
+): string | null {
+  if (typeof password !== "string" || !password) {
+    return "Password is required";
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (Buffer.byteLength(password, "utf8") > MAX_PASSWORD_BYTES) {
+    return `Password must be at most ${MAX_PASSWORD_BYTES} bytes`;
+  }
+  if (!/[a-z]/i.test(password) || !/[^a-z]/i.test(password)) {
+    return "Password must mix letters with numbers or symbols";
+  }
+  if (new Set(password.toLowerCase()).size < 5) {
+    return "Password has too many repeated characters";
+  }
+
+  const lower = password.toLowerCase();
+  const personal = [
+    context.email?.split("@")[0],
+    ...(context.name?.split(/\s+/) ?? []),
+  ].filter((part): part is string => Boolean(part && part.length >= 3));
+  if (personal.some((part) => lower.includes(part.toLowerCase()))) {
+    return "Password can't contain your name or email";
+  }
+
+  if (isBreachedPassword(password)) {
+    return "That password appears in known data breaches. Choose another.";
+  }
+  return null;
+}
@@ -0,0 +1,60 @@
+export const ADMIN_ROLES = [
+  "owner",
+  "manager",
+  "fulfillment",
+  "content_editor",
+] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+const VALID_ADMIN_ROLES = new Set<string>(ADMIN_ROLES);
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === "string" && VALID_ADMIN_ROLES.has(value);
+}
+
+export const PERMISSIONS = [
+  "analytics:read",
+  "orders:read",
+  "orders:write",
+  "orders:refund",
+  "payments:manage",
+  "inventory:read",
+  "inventory:write",
+  "products:write",
+  "customers:read",
+  "customers:write",
+  "discounts:manage",
+  "shipping:manage",
+  "emails:manage",
+  "alerts:manage",
+  "settings:manage",
+  "users:manage",
+  "audit:read",
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Owners can do everything; managers everything but admin users, store
+// settings and the audit log. Fulfillment staff pack and ship; content
+// editors maintain the catalog without touching stock.
+const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  manager: PERMISSIONS.filter(
+    (p) => p !== "users:manage" && p !== "settings:manage" && p !== "audit:read"
+  ),
+  fulfillment: [
+    "orders:read",
+    "orders:write",
+    "inventory:read",
+    "inventory:write",
+    "alerts:manage",
+  ],
+  content_editor: ["inventory:read", "products:write"],
+};
+
+export function permissionsFor(role: string): readonly Permission[] {
+  return isAdminRole(role) ? ROLE_PERMISSIONS[role] : [];
+}
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  return permissionsFor(role).includes(permission);
+}
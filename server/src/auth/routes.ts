@@ -1,10 +1,143 @@
 import express, { Router, Request, Response } from "express";
 import bcrypt from "bcrypt";
-import { PrismaClient } from "@prisma/client";
+import { PrismaClient, type AdminUser } from "@prisma/client";
+import { permissionsFor } from "./permissions.js";
+import {
+  regenerateSession,
+  saveSession,
+  signOutAdmins,
+  touchAdminSession,
+} from "./sessions.js";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  totpQrCode,
+  totpUri,
+  verifyTotp,
+} from "./totp.js";
+import {
+  checkLoginThrottle,
+  clearLoginFailures,
+  clientIp,
+  recordLoginAttempt,
+  registerLoginFailure,
+  type LoginThrottleResult,
+} from "./loginProtection.js";
+import { checkPasswordStrength } from "./passwordPolicy.js";
+import {
+  consumeAdminToken,
+  findAdminToken,
+  sendPasswordReset,
+} from "./adminTokens.js";
+import { normalizeEmail } from "../customers/accounts.js";
+import { getStoreSetting } from "../settings.js";
 
 const router: Router = express.Router();
 const prisma = new PrismaClient();
 
+// How long a password-checked login waits for its second factor.
+const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+function adminUserPayload(admin: AdminUser) {
+  return {
+    id: admin.id,
+    email: admin.email,
+    name: admin.name,
+    role: admin.role,
+    permissions: permissionsFor(admin.role),
+    twoFactorEnabled: Boolean(admin.totpEnabledAt),
+  };
+}
+
+async function completeLogin(req: Request, admin: AdminUser): Promise<void> {
+  // Prevent session fixation
+  await regenerateSession(req);
+  req.session.userId = admin.id;
+  req.session.email = admin.email;
+  touchAdminSession(req);
+  await saveSession(req);
+
+  await clearLoginFailures(admin.id);
+  await recordLoginAttempt(req, {
+    email: admin.email,
+    adminUserId: admin.id,
+    success: true,
+  });
+}
+
+function sendThrottled(
+  res: Response,
+  throttle: Extract<LoginThrottleResult, { ok: false }>
+): void {
+  res.set("Retry-After", String(throttle.retryAfterSeconds));
+  res.status(429).json({
+    error: throttle.error,
+    retryAfterSeconds: throttle.retryAfterSeconds,
+  });
+}
+
+/**
+ * The admin whose password was checked and who still owes a second factor
+ * (or, for "setup", an enrollment).
+ */
+async function pendingLoginAdmin(
+  req: Request,
+  stage: "verify" | "setup"
+): Promise<AdminUser | null> {
+  const { pendingAdminId, pendingTwoFactor, pendingLoginExpiresAt } =
+    req.session;
+  if (!pendingAdminId || pendingTwoFactor !== stage) return null;
+  if (!pendingLoginExpiresAt || pendingLoginExpiresAt < Date.now()) {
+    return null;
+  }
+  const admin = await prisma.adminUser.findUnique({
+    where: { id: pendingAdminId },
+  });
+  return admin && admin.active ? admin : null;
+}
+
+async function signedInAdmin(req: Request): Promise<AdminUser | null> {
+  const userId = req.session?.userId;
+  if (!userId) return null;
+  const admin = await prisma.adminUser.findUnique({ where: { id: userId } });
+  return admin && admin.active ? admin : null;
+}
+
+/**
+ * Accept an authenticator code or an unused recovery code, and burn it.
+ */
+async function consumeSecondFactor(
+  admin: AdminUser,
+  code: string
+): Promise<boolean> {
+  if (!admin.totpSecret || !admin.totpEnabledAt) return false;
+
+  const step = verifyTotp(admin.totpSecret, code);
+  if (step !== null) {
+    // Conditional on the last step, so two logins racing with the same code
+    // can't both use it.
+    const claimed = await prisma.adminUser.updateMany({
+      where: {
+        id: admin.id,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+      },
+      data: { totpLastUsedStep: step },
+    });
+    return claimed.count === 1;
+  }
+
+  // Removed in one statement, and only if still there, for the same reason.
+  const hash = hashRecoveryCode(code);
+  const removed = await prisma.$executeRaw`
+    UPDATE "AdminUser"
+    SET "recoveryCodeHashes" = array_remove("recoveryCodeHashes", ${hash}),
+      "updatedAt" = CURRENT_TIMESTAMP
+    WHERE "id" = ${admin.id} AND ${hash} = ANY("recoveryCodeHashes")`;
+  return removed === 1;
+}
+
 // Login endpoint
 router.post("/login", async (req: Request, res: Response): Promise<void> => {
   try {
@@ -15,55 +148,238 @@ router.post("/login", async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    const normalizedEmail = String(email).toLowerCase().trim();
+
     // Find admin user
     const admin = await prisma.adminUser.findUnique({
-      where: { email: email.toLowerCase().trim() },
+      where: { email: normalizedEmail },
     });
 
+    // Throttle before the password is even compared.
+    const throttle = await checkLoginThrottle(clientIp(req), admin);
+    if (!throttle.ok) {
+      await recordLoginAttempt(req, {
+        email: normalizedEmail,
+        adminUserId: admin?.id,
+        success: false,
+        reason: throttle.reason,
+      });
+      sendThrottled(res, throttle);
+      return;
+    }
+
     if (!admin || !admin.active) {
+      await recordLoginAttempt(req, {
+        email: normalizedEmail,
+        adminUserId: admin?.id,
+        success: false,
+        reason: admin ? "inactive" : "unknown_user",
+      });
       res.status(401).json({ error: "Invalid credentials" });
       return;
     }
 
-    // Verify password
-    const validPassword = await bcrypt.compare(password, admin.passwordHash);
+    // Verify password. Invited admins have none until they accept.
+    const validPassword =
+      Boolean(admin.passwordHash) &&
+      (await bcrypt.compare(password, admin.passwordHash));
     if (!validPassword) {
+      await registerLoginFailure(admin.id);
+      await recordLoginAttempt(req, {
+        email: normalizedEmail,
+        adminUserId: admin.id,
+        success: false,
+        reason: "invalid_password",
+      });
       res.status(401).json({ error: "Invalid credentials" });
       return;
     }
 
-    // Prevent session fixation
-    await new Promise<void>((resolve, reject) => {
-      req.session.regenerate((err) => {
-        if (err) reject(err);
-        else resolve();
-      });
-    });
+    // Failures are only cleared once the second factor is in too.
 
-    req.session.userId = admin.id;
-    req.session.email = admin.email;
+    const twoFactorRequired = await getStoreSetting<boolean>(
+      "requireAdminTwoFactor",
+      false
+    );
+    if (admin.totpEnabledAt || twoFactorRequired) {
+      await regenerateSession(req);
+      req.session.pendingAdminId = admin.id;
+      req.session.pendingTwoFactor = admin.totpEnabledAt ? "verify" : "setup";
+      req.session.pendingLoginExpiresAt = Date.now() + PENDING_LOGIN_TTL_MS;
+      req.session.twoFactorAttempts = 0;
+      await saveSession(req);
 
-    await new Promise<void>((resolve, reject) => {
-      req.session.save((err) => {
-        if (err) reject(err);
-        else resolve();
-      });
-    });
+      res.json(
+        admin.totpEnabledAt
+          ? { twoFactorRequired: true }
+          : { twoFactorSetupRequired: true }
+      );
+      return;
+    }
 
-    res.json({
-      success: true,
-      user: {
-        id: admin.id,
-        email: admin.email,
-        name: admin.name,
-      },
-    });
+    await completeLogin(req, admin);
+
+    res.json({ success: true, user: adminUserPayload(admin) });
   } catch (err) {
     console.error("Login error:", err);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
+// Second step of the login for admins with two-factor turned on
+router.post(
+  "/login/two-factor",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { code } = req.body;
+      if (!code || typeof code !== "string") {
+        res.status(400).json({ error: "Code is required" });
+        return;
+      }
+
+      const admin = await pendingLoginAdmin(req, "verify");
+      if (!admin) {
+        res
+          .status(401)
+          .json({ error: "Your sign in expired. Please sign in again." });
+        return;
+      }
+
+      const throttle = await checkLoginThrottle(clientIp(req), admin);
+      if (!throttle.ok) {
+        delete req.session.pendingAdminId;
+        delete req.session.pendingTwoFactor;
+        await saveSession(req);
+        sendThrottled(res, throttle);
+        return;
+      }
+
+      if (!(await consumeSecondFactor(admin, code))) {
+        await registerLoginFailure(admin.id);
+        await recordLoginAttempt(req, {
+          email: admin.email,
+          adminUserId: admin.id,
+          success: false,
+          reason: "invalid_code",
+        });
+        const attempts = (req.session.twoFactorAttempts ?? 0) + 1;
+        if (attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingAdminId;
+          delete req.session.pendingTwoFactor;
+          await saveSession(req);
+          res
+            .status(401)
+            .json({ error: "Too many attempts. Please sign in again." });
+          return;
+        }
+        req.session.twoFactorAttempts = attempts;
+        await saveSession(req);
+        res.status(401).json({ error: "Invalid code" });
+        return;
+      }
+
+      await completeLogin(req, admin);
+
+      res.json({ success: true, user: adminUserPayload(admin) });
+    } catch (err) {
+      console.error("Two-factor login error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// Email a password reset link. Always succeeds so it can't be used to probe
+// for accounts.
+router.post(
+  "/forgot-password",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const email = normalizeEmail(req.body?.email);
+      if (!email) {
+        res.status(400).json({ error: "A valid email is required" });
+        return;
+      }
+      await sendPasswordReset(email);
+      res.json({ ok: true });
+    } catch (err) {
+      console.error("Forgot password error:", err);
+      res.status(500).json({ error: "Failed to send reset link" });
+    }
+  }
+);
+
+// Look up an invitation or reset link before showing the password form.
+router.post(
+  "/password-token",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const token = req.body?.token;
+      const record =
+        typeof token === "string" && token ? await findAdminToken(token) : null;
+      if (!record) {
+        res.status(400).json({ error: "This link is invalid or has expired" });
+        return;
+      }
+
+      res.json({
+        purpose: record.purpose,
+        email: record.adminUser.email,
+        name: record.adminUser.name,
+      });
+    } catch (err) {
+      console.error("Password token lookup error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// Set a password from an invitation or reset link. Signs the admin out
+// everywhere; they sign in again with the new password.
+router.post(
+  "/reset-password",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { token, password } = req.body;
+      if (!token || typeof token !== "string") {
+        res.status(400).json({ error: "Token is required" });
+        return;
+      }
+
+      const pending = await findAdminToken(token);
+      if (!pending) {
+        res.status(400).json({ error: "This link is invalid or has expired" });
+        return;
+      }
+      const passwordError = checkPasswordStrength(password, pending.adminUser);
+      if (passwordError) {
+        res.status(400).json({ error: passwordError });
+        return;
+      }
+
+      const record = await consumeAdminToken(token);
+      if (!record) {
+        res.status(400).json({ error: "This link is invalid or has expired" });
+        return;
+      }
+
+      await prisma.adminUser.update({
+        where: { id: record.adminUserId },
+        data: {
+          passwordHash: await bcrypt.hash(password, 10),
+          invitedAt: null,
+        },
+      });
+      await clearLoginFailures(record.adminUserId);
+      await signOutAdmins([record.adminUserId]);
+
+      res.json({ success: true, email: record.adminUser.email });
+    } catch (err) {
+      console.error("Reset password error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
 // Logout endpoint
 router.post("/logout", (_req: Request, res: Response): void => {
   _req.session.destroy((err) => {
@@ -84,19 +400,235 @@ router.get("/me", async (req: Request, res: Response): Promise<void> => {
 
     const admin = await prisma.adminUser.findUnique({
       where: { id: userId },
-      select: { id: true, email: true, name: true, active: true },
     });
 
     if (!admin || !admin.active) {
       res.status(401).json({ error: "User not found" });
       return;
     }
+    // requireAuth refuses these sessions too; signing in again enrolls.
+    if (
+      !admin.totpEnabledAt &&
+      (await getStoreSetting<boolean>("requireAdminTwoFactor", false))
+    ) {
+      delete req.session.userId;
+      delete req.session.email;
+      await saveSession(req);
+      res.status(401).json({ error: "Two-factor authentication is required" });
+      return;
+    }
 
-    res.json({ user: admin });
+    res.json({ user: adminUserPayload(admin) });
   } catch (err) {
     console.error("Get user error:", err);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
+// Two-factor status for the signed-in admin
+router.get(
+  "/two-factor",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const admin = await signedInAdmin(req);
+      if (!admin) {
+        res.status(401).json({ error: "Not authenticated" });
+        return;
+      }
+
+      res.json({
+        enabled: Boolean(admin.totpEnabledAt),
+        enabledAt: admin.totpEnabledAt,
+        recoveryCodesRemaining: admin.recoveryCodeHashes.length,
+        required: await getStoreSetting<boolean>(
+          "requireAdminTwoFactor",
+          false
+        ),
+      });
+    } catch (err) {
+      console.error("Two-factor status error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// Start enrollment: a new secret to scan. Also open to a login that is
+// waiting on enrollment because the store requires two-factor.
+router.post(
+  "/two-factor/setup",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const admin =
+        (await signedInAdmin(req)) ?? (await pendingLoginAdmin(req, "setup"));
+      if (!admin) {
+        res.status(401).json({ error: "Not authenticated" });
+        return;
+      }
+      if (admin.totpEnabledAt) {
+        res
+          .status(400)
+          .json({ error: "Two-factor authentication is already on" });
+        return;
+      }
+
+      const secret = generateTotpSecret();
+      await prisma.adminUser.update({
+        where: { id: admin.id },
+        data: { totpSecret: secret, totpLastUsedStep: null },
+      });
+
+      const issuer = await getStoreSetting<string>("storeName", "Red Ember");
+      const otpauthUrl = totpUri(secret, admin.email, `${issuer} Admin`);
+      res.json({ secret, otpauthUrl, qrCode: await totpQrCode(otpauthUrl) });
+    } catch (err) {
+      console.error("Two-factor setup error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// Finish enrollment with a code from the app. Recovery codes are returned
+// once and only their hashes are kept.
+router.post(
+  "/two-factor/enable",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { code } = req.body;
+      if (!code || typeof code !== "string") {
+        res.status(400).json({ error: "Code is required" });
+        return;
+      }
+
+      const signedIn = await signedInAdmin(req);
+      const admin = signedIn ?? (await pendingLoginAdmin(req, "setup"));
+      if (!admin) {
+        res.status(401).json({ error: "Not authenticated" });
+        return;
+      }
+      if (admin.totpEnabledAt) {
+        res
+          .status(400)
+          .json({ error: "Two-factor authentication is already on" });
+        return;
+      }
+      if (!admin.totpSecret) {
+        res.status(400).json({ error: "Start two-factor setup first" });
+        return;
+      }
+
+      const step = verifyTotp(admin.totpSecret, code);
+      if (step === null) {
+        res.status(400).json({ error: "Invalid code" });
+        return;
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      const updated = await prisma.adminUser.update({
+        where: { id: admin.id },
+        data: {
+          totpEnabledAt: new Date(),
+          totpLastUsedStep: step,
+          recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+        },
+      });
+
+      // Enrolling was the last step of a login.
+      if (!signedIn) {
+        await completeLogin(req, updated);
+        res.json({ recoveryCodes, user: adminUserPayload(updated) });
+        return;
+      }
+
+      res.json({ recoveryCodes });
+    } catch (err) {
+      console.error("Two-factor enable error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// Replace all recovery codes; needs a current code.
+router.post(
+  "/two-factor/recovery-codes",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { code } = req.body;
+      if (!code || typeof code !== "string") {
+        res.status(400).json({ error: "Code is required" });
+        return;
+      }
+
+      const admin = await signedInAdmin(req);
+      if (!admin) {
+        res.status(401).json({ error: "Not authenticated" });
+        return;
+      }
+      if (!admin.totpEnabledAt) {
+        res.status(400).json({ error: "Two-factor authentication is off" });
+        return;
+      }
+      if (!(await consumeSecondFactor(admin, code))) {
+        res.status(400).json({ error: "Invalid code" });
+        return;
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await prisma.adminUser.update({
+        where: { id: admin.id },
+        data: { recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) },
+      });
+
+      res.json({ recoveryCodes });
+    } catch (err) {
+      console.error("Recovery codes error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// Turn two-factor off; needs the password.
+router.post(
+  "/two-factor/disable",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { password } = req.body;
+      if (!password) {
+        res.status(400).json({ error: "Password is required" });
+        return;
+      }
+
+      const admin = await signedInAdmin(req);
+      if (!admin) {
+        res.status(401).json({ error: "Not authenticated" });
+        return;
+      }
+      if (await getStoreSetting<boolean>("requireAdminTwoFactor", false)) {
+        res.status(400).json({
+          error: "This store requires two-factor authentication for admins",
+        });
+        return;
+      }
+      if (!(await bcrypt.compare(password, admin.passwordHash))) {
+        res.status(400).json({ error: "Incorrect password" });
+        return;
+      }
+
+      await prisma.adminUser.update({
+        where: { id: admin.id },
+        data: {
+          totpSecret: null,
+          totpEnabledAt: null,
+          totpLastUsedStep: null,
+          recoveryCodeHashes: [],
+        },
+      });
+
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Two-factor disable error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
 export default router;
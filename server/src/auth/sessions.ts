@@ -0,0 +1,151 @@
+import type { Request } from "express";
+import { prisma } from "../db.js";
+import { hashToken } from "../customers/accounts.js";
+import { clientIp } from "./loginProtection.js";
+
+export function regenerateSession(req: Request): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+}
+
+export function saveSession(req: Request): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    req.session.save((err) => {
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+}
+
+/**
+ * Delete every stored session belonging to these admins, signing them out
+ * everywhere on their next request. `exceptSessionId` keeps the caller's own
+ * session, e.g. when an admin changes their own password.
+ */
+export async function signOutAdmins(
+  adminUserIds: string[],
+  exceptSessionId?: string
+): Promise<number> {
+  if (adminUserIds.length === 0) return 0;
+  const result = await prisma.session.deleteMany({
+    where: {
+      // Logins still waiting on a second factor go too.
+      OR: adminUserIds.flatMap((id) => [
+        { sess: { path: ["userId"], equals: id } },
+        { sess: { path: ["pendingAdminId"], equals: id } },
+      ]),
+      ...(exceptSessionId ? { NOT: { sid: exceptSessionId } } : {}),
+    },
+  });
+  return result.count;
+}
+
+// How often a signed-in request refreshes lastSeenAt, so that not every
+// request rewrites the session row.
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Note where and when an admin session was last used. Called on sign in and
+ * by requireAuth; express-session saves the change with the response.
+ */
+export function touchAdminSession(req: Request, now = Date.now()): void {
+  const ip = clientIp(req);
+  const userAgent = req.get("user-agent")?.slice(0, 500);
+  if (
+    req.session.lastSeenAt &&
+    now - req.session.lastSeenAt < LAST_SEEN_INTERVAL_MS &&
+    req.session.ip === ip
+  ) {
+    return;
+  }
+  req.session.signedInAt ??= now;
+  req.session.lastSeenAt = now;
+  req.session.ip = ip;
+  req.session.userAgent = userAgent;
+}
+
+export interface AdminSessionSummary {
+  // A hash of the session id, which itself never leaves the server.
+  id: string;
+  adminUserId: string;
+  ip: string | null;
+  userAgent: string | null;
+  signedInAt: Date | null;
+  lastSeenAt: Date | null;
+  expiresAt: Date;
+  current: boolean;
+}
+
+interface StoredAdminSession {
+  userId: string;
+  signedInAt?: number;
+  lastSeenAt?: number;
+  ip?: string;
+  userAgent?: string;
+}
+
+async function loadAdminSessions(
+  adminUserIds: string[],
+  currentSessionId?: string
+): Promise<(AdminSessionSummary & { sid: string })[]> {
+  if (adminUserIds.length === 0) return [];
+  const rows = await prisma.session.findMany({
+    where: {
+      OR: adminUserIds.map((id) => ({
+        sess: { path: ["userId"], equals: id },
+      })),
+      expire: { gt: new Date() },
+    },
+  });
+
+  return rows.map((row) => {
+    const sess = row.sess as unknown as StoredAdminSession;
+    return {
+      sid: row.sid,
+      id: hashToken(row.sid),
+      adminUserId: sess.userId,
+      ip: sess.ip ?? null,
+      userAgent: sess.userAgent ?? null,
+      signedInAt: sess.signedInAt ? new Date(sess.signedInAt) : null,
+      lastSeenAt: sess.lastSeenAt ? new Date(sess.lastSeenAt) : null,
+      expiresAt: row.expire,
+      current: row.sid === currentSessionId,
+    };
+  });
+}
+
+/**
+ * Unexpired signed-in sessions of these admins, most recently used first.
+ */
+export async function listAdminSessions(
+  adminUserIds: string[],
+  currentSessionId?: string
+): Promise<AdminSessionSummary[]> {
+  const sessions = await loadAdminSessions(adminUserIds, currentSessionId);
+  return sessions
+    .map(({ sid: _sid, ...session }) => session)
+    .sort(
+      (a, b) => (b.lastSeenAt?.getTime() ?? 0) - (a.lastSeenAt?.getTime() ?? 0)
+    );
+}
+
+/**
+ * Sign out one admin session, given its id from listAdminSessions.
+ * Returns the session, or null when it doesn't exist or has already ended.
+ */
+export async function revokeAdminSession(
+  id: string
+): Promise<AdminSessionSummary | null> {
+  const admins = await prisma.adminUser.findMany({ select: { id: true } });
+  const sessions = await loadAdminSessions(admins.map((admin) => admin.id));
+  const match = sessions.find((session) => session.id === id);
+  if (!match) return null;
+
+  const { sid, ...session } = match;
+  const result = await prisma.session.deleteMany({ where: { sid } });
+  return result.count > 0 ? session : null;
+}
@@ -0,0 +1,218 @@
+import express, { Router, Request, Response } from "express";
+import type { CookieOptions } from "express";
+import { prisma } from "../db.js";
+import { recoveryLines } from "../checkouts.js";
+import {
+  EMPTY_CART,
+  addCartLine,
+  cartDto,
+  createCart,
+  findCart,
+  isPurchasable,
+  mergeCartLines,
+  parseCartLines,
+  removeCartLine,
+  replaceCartLines,
+  setCartLineQuantity,
+} from "./store.js";
+
+const router: Router = express.Router();
+
+export const CART_COOKIE = "redember_cart";
+
+const CART_COOKIE_OPTIONS: CookieOptions = {
+  httpOnly: true,
+  sameSite: "lax",
+  secure: process.env.NODE_ENV === "production",
+  maxAge: 60 * 24 * 60 * 60 * 1000, // 60 days
+};
+
+export function setCartCookie(res: Response, token: string): void {
+  res.cookie(CART_COOKIE, token, CART_COOKIE_OPTIONS);
+}
+
+export function clearCartCookie(res: Response): void {
+  res.clearCookie(CART_COOKIE, { path: "/" });
+}
+
+export function cartToken(req: Request): string | undefined {
+  const token = req.cookies?.[CART_COOKIE];
+  return typeof token === "string" && token ? token : undefined;
+}
+
+// The shopper's cart, created (and the cookie set) on first write. Every
+// write refreshes the cookie so active carts don't expire.
+async function cartForWrite(req: Request, res: Response) {
+  const cart =
+    (await findCart(cartToken(req))) ??
+    (await createCart(req.session?.customerId));
+  setCartCookie(res, cart.token);
+  return cart;
+}
+
+function parseQuantity(value: unknown): number | null {
+  return Number.isInteger(value) && (value as number) >= 1
+    ? (value as number)
+    : null;
+}
+
+// Get the current cart
+router.get("/", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const cart = await findCart(cartToken(req));
+    res.json(cart ? cartDto(cart) : EMPTY_CART);
+  } catch (error) {
+    console.error("Get cart error:", error);
+    res.status(500).json({ error: "Failed to load cart" });
+  }
+});
+
+// Replace all lines (a client that was offline pushing its local cart)
+router.put("/", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = parseCartLines(req.body?.lines);
+    if ("error" in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    const cart = await cartForWrite(req, res);
+    res.json(cartDto(await replaceCartLines(cart.id, parsed.lines)));
+  } catch (error) {
+    console.error("Replace cart error:", error);
+    res.status(500).json({ error: "Failed to save cart" });
+  }
+});
+
+// Empty the cart
+router.delete("/", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const cart = await findCart(cartToken(req));
+    if (!cart) {
+      res.json(EMPTY_CART);
+      return;
+    }
+    res.json(cartDto(await replaceCartLines(cart.id, [])));
+  } catch (error) {
+    console.error("Clear cart error:", error);
+    res.status(500).json({ error: "Failed to clear cart" });
+  }
+});
+
+// Add a product (quantities add up, capped per line)
+router.post("/lines", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const productId = req.body?.productId;
+    const quantity = parseQuantity(req.body?.quantity ?? 1);
+    if (typeof productId !== "string" || !productId.trim()) {
+      res.status(400).json({ error: "productId is required" });
+      return;
+    }
+    if (quantity === null) {
+      res.status(400).json({ error: "quantity must be a positive integer" });
+      return;
+    }
+    if (!(await isPurchasable(productId))) {
+      res.status(404).json({ error: "Product not found" });
+      return;
+    }
+
+    const cart = await cartForWrite(req, res);
+    res.json(cartDto(await addCartLine(cart.id, { productId, quantity })));
+  } catch (error) {
+    console.error("Add cart line error:", error);
+    res.status(500).json({ error: "Failed to add to cart" });
+  }
+});
+
+// Set a line's quantity
+router.patch(
+  "/lines/:productId",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const productId = req.params.productId as string;
+      const quantity = parseQuantity(req.body?.quantity);
+      if (quantity === null) {
+        res.status(400).json({ error: "quantity must be a positive integer" });
+        return;
+      }
+
+      const cart = await findCart(cartToken(req));
+      const updated = cart
+        ? await setCartLineQuantity(cart.id, productId, quantity)
+        : null;
+      if (!updated) {
+        res.status(404).json({ error: "Item not in cart" });
+        return;
+      }
+      setCartCookie(res, updated.token);
+      res.json(cartDto(updated));
+    } catch (error) {
+      console.error("Update cart line error:", error);
+      res.status(500).json({ error: "Failed to update cart" });
+    }
+  }
+);
+
+// Remove a line
+router.delete(
+  "/lines/:productId",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const productId = req.params.productId as string;
+      const cart = await findCart(cartToken(req));
+      if (!cart) {
+        res.json(EMPTY_CART);
+        return;
+      }
+      res.json(cartDto(await removeCartLine(cart.id, productId)));
+    } catch (error) {
+      console.error("Remove cart line error:", error);
+      res.status(500).json({ error: "Failed to update cart" });
+    }
+  }
+);
+
+// Merge another cart into this one: `lines` from the client's local copy,
+// `cartId` from a shared cart link, or `recoveryToken` from an abandoned
+// checkout's recovery email.
+router.post("/merge", async (req: Request, res: Response): Promise<void> => {
+  try {
+    let lines;
+    if (typeof req.body?.cartId === "string") {
+      const source = await prisma.cart.findUnique({
+        where: { id: req.body.cartId },
+        include: { lines: true },
+      });
+      if (!source) {
+        res.status(404).json({ error: "Shared cart not found" });
+        return;
+      }
+      lines = source.lines.map((l) => ({
+        productId: l.productId,
+        quantity: l.quantity,
+      }));
+    } else if (typeof req.body?.recoveryToken === "string") {
+      const recovered = await recoveryLines(req.body.recoveryToken);
+      if (!recovered) {
+        res.status(404).json({ error: "This cart link has expired" });
+        return;
+      }
+      lines = recovered;
+    } else {
+      const parsed = parseCartLines(req.body?.lines);
+      if ("error" in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+      lines = parsed.lines;
+    }
+
+    const cart = await cartForWrite(req, res);
+    res.json(cartDto(await mergeCartLines(cart.id, lines)));
+  } catch (error) {
+    console.error("Merge cart error:", error);
+    res.status(500).json({ error: "Failed to merge cart" });
+  }
+});
+
+export default router;
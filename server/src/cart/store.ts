@@ -0,0 +1,258 @@
+import { randomBytes } from "node:crypto";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../db.js";
+
+// Same per-line cap as checkout.
+export const MAX_LINE_QUANTITY = 10;
+
+export interface CartLineInput {
+  productId: string;
+  quantity: number;
+}
+
+export interface CartDto {
+  // Null until the first line is added.
+  id: string | null;
+  lines: CartLineInput[];
+  updatedAt: string | null;
+}
+
+type CartWithLines = Prisma.CartGetPayload<{ include: { lines: true } }>;
+
+const CART_INCLUDE = {
+  lines: { orderBy: { createdAt: "asc" } },
+} satisfies Prisma.CartInclude;
+
+export const EMPTY_CART: CartDto = { id: null, lines: [], updatedAt: null };
+
+export function cartDto(cart: CartWithLines): CartDto {
+  return {
+    id: cart.id,
+    lines: cart.lines.map((l) => ({
+      productId: l.productId,
+      quantity: l.quantity,
+    })),
+    updatedAt: cart.updatedAt.toISOString(),
+  };
+}
+
+function clampQuantity(quantity: number): number {
+  return Math.max(1, Math.min(MAX_LINE_QUANTITY, quantity));
+}
+
+/**
+ * Validate a list of cart lines from a request body, combining duplicates.
+ */
+export function parseCartLines(
+  raw: unknown
+): { lines: CartLineInput[] } | { error: string } {
+  if (!Array.isArray(raw)) return { error: "lines must be an array" };
+
+  const combined = new Map<string, number>();
+  for (const item of raw) {
+    const productId = item?.productId;
+    const quantity = item?.quantity;
+    if (typeof productId !== "string" || productId.trim().length === 0) {
+      return { error: "Each line needs a productId" };
+    }
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      return { error: "Each line quantity must be a positive integer" };
+    }
+    combined.set(
+      productId,
+      clampQuantity((combined.get(productId) || 0) + quantity)
+    );
+  }
+  return {
+    lines: Array.from(combined, ([productId, quantity]) => ({
+      productId,
+      quantity,
+    })),
+  };
+}
+
+export async function findCart(
+  token: string | undefined
+): Promise<CartWithLines | null> {
+  if (!token) return null;
+  return prisma.cart.findUnique({ where: { token }, include: CART_INCLUDE });
+}
+
+export async function createCart(
+  customerId?: string | null
+): Promise<CartWithLines> {
+  return prisma.cart.create({
+    data: {
+      token: randomBytes(32).toString("base64url"),
+      customerId: customerId || null,
+    },
+    include: CART_INCLUDE,
+  });
+}
+
+async function reloadCart(cartId: string): Promise<CartWithLines> {
+  return prisma.cart.findUniqueOrThrow({
+    where: { id: cartId },
+    include: CART_INCLUDE,
+  });
+}
+
+// Lines whose product still exists and is for sale.
+async function purchasableLines(
+  lines: CartLineInput[]
+): Promise<CartLineInput[]> {
+  const products = await prisma.product.findMany({
+    where: { id: { in: lines.map((l) => l.productId) }, active: true },
+    select: { id: true },
+  });
+  const ids = new Set(products.map((p) => p.id));
+  return lines.filter((l) => ids.has(l.productId));
+}
+
+export async function isPurchasable(productId: string): Promise<boolean> {
+  const count = await prisma.product.count({
+    where: { id: productId, active: true },
+  });
+  return count > 0;
+}
+
+/**
+ * Add to a line, capped at MAX_LINE_QUANTITY.
+ */
+export async function addCartLine(
+  cartId: string,
+  line: CartLineInput
+): Promise<CartWithLines> {
+  await prisma.$transaction(async (tx) => {
+    const existing = await tx.cartLine.findUnique({
+      where: { cartId_productId: { cartId, productId: line.productId } },
+    });
+    await tx.cartLine.upsert({
+      where: { cartId_productId: { cartId, productId: line.productId } },
+      create: {
+        cartId,
+        productId: line.productId,
+        quantity: clampQuantity(line.quantity),
+      },
+      update: {
+        quantity: clampQuantity((existing?.quantity || 0) + line.quantity),
+      },
+    });
+    await tx.cart.update({ where: { id: cartId }, data: {} });
+  });
+  return reloadCart(cartId);
+}
+
+/**
+ * Set a line's quantity. Returns null when the cart has no such line.
+ */
+export async function setCartLineQuantity(
+  cartId: string,
+  productId: string,
+  quantity: number
+): Promise<CartWithLines | null> {
+  const updated = await prisma.cartLine.updateMany({
+    where: { cartId, productId },
+    data: { quantity: clampQuantity(quantity) },
+  });
+  if (updated.count === 0) return null;
+  await prisma.cart.update({ where: { id: cartId }, data: {} });
+  return reloadCart(cartId);
+}
+
+export async function removeCartLine(
+  cartId: string,
+  productId: string
+): Promise<CartWithLines> {
+  await prisma.cartLine.deleteMany({ where: { cartId, productId } });
+  await prisma.cart.update({ where: { id: cartId }, data: {} });
+  return reloadCart(cartId);
+}
+
+/**
+ * Replace every line, e.g. when a client that was offline pushes the cart it
+ * kept locally. Products no longer for sale are dropped.
+ */
+export async function replaceCartLines(
+  cartId: string,
+  lines: CartLineInput[]
+): Promise<CartWithLines> {
+  const keep = await purchasableLines(lines);
+  await prisma.$transaction([
+    prisma.cartLine.deleteMany({ where: { cartId } }),
+    prisma.cartLine.createMany({
+      data: keep.map((l) => ({ cartId, ...l })),
+    }),
+    prisma.cart.update({ where: { id: cartId }, data: {} }),
+  ]);
+  return reloadCart(cartId);
+}
+
+/**
+ * Merge lines into a cart, e.g. a cart kept in localStorage from before carts
+ * were stored on the server, or one shared from another device. The larger
+ * quantity wins rather than adding up, so merging the same cart twice
+ * doesn't double it.
+ */
+export async function mergeCartLines(
+  cartId: string,
+  lines: CartLineInput[]
+): Promise<CartWithLines> {
+  const incoming = await purchasableLines(lines);
+  await prisma.$transaction(async (tx) => {
+    const existing = await tx.cartLine.findMany({ where: { cartId } });
+    const quantityByProduct = new Map(
+      existing.map((l) => [l.productId, l.quantity])
+    );
+    for (const line of incoming) {
+      const quantity = clampQuantity(
+        Math.max(quantityByProduct.get(line.productId) || 0, line.quantity)
+      );
+      await tx.cartLine.upsert({
+        where: { cartId_productId: { cartId, productId: line.productId } },
+        create: { cartId, productId: line.productId, quantity },
+        update: { quantity },
+      });
+    }
+    await tx.cart.update({ where: { id: cartId }, data: {} });
+  });
+  return reloadCart(cartId);
+}
+
+/**
+ * Attach the shopper's current cart to a customer who just signed in. A cart
+ * they left on another device is merged in; with no current cart, that one
+ * is picked up instead. Returns the cart to continue with, if any.
+ */
+export async function linkCartToCustomer(
+  token: string | undefined,
+  customerId: string
+): Promise<CartWithLines | null> {
+  const current = await findCart(token);
+  const previous = await prisma.cart.findFirst({
+    where: {
+      customerId,
+      ...(current ? { id: { not: current.id } } : {}),
+    },
+    orderBy: { updatedAt: "desc" },
+    include: CART_INCLUDE,
+  });
+
+  if (!current) return previous;
+
+  await prisma.cart.update({
+    where: { id: current.id },
+    data: { customerId },
+  });
+  if (!previous) return reloadCart(current.id);
+
+  const merged = await mergeCartLines(
+    current.id,
+    previous.lines.map((l) => ({
+      productId: l.productId,
+      quantity: l.quantity,
+    }))
+  );
+  await prisma.cart.delete({ where: { id: previous.id } });
+  return merged;
+}
@@ -0,0 +1,295 @@
+import { randomBytes } from "node:crypto";
+import type Stripe from "stripe";
+import type { CheckoutAttempt, Prisma } from "@prisma/client";
+import { config } from "./config.js";
+import { prisma } from "./db.js";
+import { getStoreSetting } from "./settings.js";
+import { enqueueEmail } from "./email/queue.js";
+import { loadEmailBranding, renderRecoveryEmail } from "./email/templates.js";
+
+export const CHECKOUT_STATUSES = ["open", "completed", "expired"] as const;
+export type CheckoutStatus = (typeof CHECKOUT_STATUSES)[number];
+
+const VALID_CHECKOUT_STATUSES = new Set<string>(CHECKOUT_STATUSES);
+
+export function isCheckoutStatus(value: unknown): value is CheckoutStatus {
+  return typeof value === "string" && VALID_CHECKOUT_STATUSES.has(value);
+}
+
+export interface CheckoutLine {
+  productId: string;
+  quantity: number;
+}
+
+export function checkoutLines(items: Prisma.JsonValue): CheckoutLine[] {
+  if (!Array.isArray(items)) return [];
+  return items.flatMap((item: any) =>
+    item &&
+    typeof item.productId === "string" &&
+    Number.isInteger(item.quantity) &&
+    item.quantity > 0
+      ? [{ productId: item.productId, quantity: item.quantity }]
+      : []
+  );
+}
+
+export function recoveryUrl(token: string): string {
+  const url = new URL("/cart", config.clientUrl);
+  url.searchParams.set("recover", token);
+  return url.toString();
+}
+
+/**
+ * Record a Checkout session we just created. `recoveryToken` is set when the
+ * shopper came back through an abandoned checkout's recovery link.
+ *
+ * Failures are logged and never propagate: the session already exists and
+ * the shopper should still be sent to it.
+ */
+export async function recordCheckoutAttempt(
+  session: Stripe.Checkout.Session,
+  attempt: {
+    items: CheckoutLine[];
+    subtotalCents: number;
+    currency: string;
+    email: string | null;
+    discountCode: string | null;
+    recoveryToken?: unknown;
+  }
+): Promise<void> {
+  try {
+    const recoveredFrom =
+      typeof attempt.recoveryToken === "string" && attempt.recoveryToken
+        ? await prisma.checkoutAttempt.findUnique({
+            where: { recoveryToken: attempt.recoveryToken },
+            select: { id: true },
+          })
+        : null;
+
+    await prisma.checkoutAttempt.create({
+      data: {
+        stripeSessionId: session.id,
+        email: attempt.email,
+        items: attempt.items as unknown as Prisma.InputJsonValue,
+        subtotalCents: attempt.subtotalCents,
+        currency: attempt.currency,
+        discountCode: attempt.discountCode,
+        recoveryToken: randomBytes(24).toString("base64url"),
+        recoveredFromId: recoveredFrom?.id ?? null,
+        expiresAt: session.expires_at
+          ? new Date(session.expires_at * 1000)
+          : null,
+      },
+    });
+  } catch (err) {
+    console.error("Failed to record checkout attempt:", err);
+  }
+}
+
+/**
+ * Mark the attempt for a paid session completed, and credit the recovery to
+ * the abandoned checkout it came from. Runs inside the order transaction;
+ * sessions created before attempts were recorded have nothing to update.
+ */
+export async function completeCheckoutAttempt(
+  tx: Prisma.TransactionClient,
+  session: Stripe.Checkout.Session,
+  orderId: string
+): Promise<void> {
+  const attempt = await tx.checkoutAttempt.findUnique({
+    where: { stripeSessionId: session.id },
+  });
+  if (!attempt) return;
+
+  const now = new Date();
+  await tx.checkoutAttempt.update({
+    where: { id: attempt.id },
+    data: {
+      status: "completed",
+      completedAt: now,
+      orderId,
+      email: session.customer_details?.email || attempt.email,
+    },
+  });
+  if (attempt.recoveredFromId) {
+    await tx.checkoutAttempt.updateMany({
+      where: { id: attempt.recoveredFromId, recoveredAt: null },
+      data: { recoveredAt: now },
+    });
+  }
+}
+
+/**
+ * Mark the attempt for an expired session abandoned and, when the store has
+ * recovery emails turned on, queue one.
+ */
+export async function expireCheckoutAttempt(
+  session: Stripe.Checkout.Session
+): Promise<void> {
+  const attempt = await prisma.checkoutAttempt.findUnique({
+    where: { stripeSessionId: session.id },
+  });
+  if (!attempt || attempt.status !== "open") return;
+
+  const expired = await prisma.checkoutAttempt.update({
+    where: { id: attempt.id },
+    data: {
+      status: "expired",
+      expiredAt: new Date(),
+      email: session.customer_details?.email || attempt.email,
+    },
+  });
+
+  const enabled = await getStoreSetting<boolean>("enableRecoveryEmails", false);
+  if (enabled !== true || !expired.email) return;
+
+  // Don't nag a shopper who has since paid for another checkout.
+  const paidSince = await prisma.checkoutAttempt.count({
+    where: {
+      email: { equals: expired.email, mode: "insensitive" },
+      status: "completed",
+      createdAt: { gt: expired.createdAt },
+    },
+  });
+  if (paidSince > 0) return;
+
+  await sendRecoveryEmail(expired.id);
+}
+
+export type RecoveryEmailResult =
+  | { ok: true; attempt: CheckoutAttempt }
+  | { ok: false; httpStatus: number; error: string };
+
+/**
+ * Queue the recovery email for an abandoned checkout. Never throws.
+ */
+export async function sendRecoveryEmail(
+  attemptId: string
+): Promise<RecoveryEmailResult> {
+  try {
+    const attempt = await prisma.checkoutAttempt.findUnique({
+      where: { id: attemptId },
+    });
+    if (!attempt) {
+      return { ok: false, httpStatus: 404, error: "Checkout not found" };
+    }
+    if (attempt.status !== "expired") {
+      return {
+        ok: false,
+        httpStatus: 400,
+        error: "Only abandoned checkouts can be recovered",
+      };
+    }
+    if (!attempt.email) {
+      return {
+        ok: false,
+        httpStatus: 400,
+        error: "No email address was collected for this checkout",
+      };
+    }
+
+    const lines = checkoutLines(attempt.items);
+    const products = await prisma.product.findMany({
+      where: { id: { in: lines.map((l) => l.productId) } },
+      select: { id: true, name: true, priceCents: true },
+    });
+    const productById = new Map(products.map((p) => [p.id, p]));
+    const rendered = renderRecoveryEmail(
+      {
+        lines: lines.flatMap((l) => {
+          const product = productById.get(l.productId);
+          return product
+            ? [
+                {
+                  name: product.name,
+                  quantity: l.quantity,
+                  unitPriceCents: product.priceCents,
+                },
+              ]
+            : [];
+        }),
+        currency: attempt.currency,
+        recoveryUrl: recoveryUrl(attempt.recoveryToken),
+      },
+      await loadEmailBranding()
+    );
+
+    await enqueueEmail({
+      template: "checkout_recovery",
+      to: attempt.email,
+      ...rendered,
+    });
+    const updated = await prisma.checkoutAttempt.update({
+      where: { id: attempt.id },
+      data: { recoveryEmailSentAt: new Date() },
+    });
+    return { ok: true, attempt: updated };
+  } catch (err) {
+    console.error("Failed to queue recovery email:", err);
+    return { ok: false, httpStatus: 500, error: "Failed to send email" };
+  }
+}
+
+/**
+ * The lines of the checkout behind a recovery link, for rebuilding the cart.
+ */
+export async function recoveryLines(
+  token: string
+): Promise<CheckoutLine[] | null> {
+  const attempt = await prisma.checkoutAttempt.findUnique({
+    where: { recoveryToken: token },
+  });
+  return attempt ? checkoutLines(attempt.items) : null;
+}
+
+export interface CheckoutStats {
+  started: number;
+  completed: number;
+  abandoned: number;
+  emailed: number;
+  recovered: number;
+  // Share of abandoned checkouts later paid through their recovery link.
+  recoveryRate: number;
+  recoveredRevenueCents: number;
+}
+
+/**
+ * Funnel counts for checkouts started since `since`.
+ */
+export async function checkoutStats(since: Date): Promise<CheckoutStats> {
+  const where = { createdAt: { gte: since } };
+  const [started, completed, abandoned, emailed, recovered, recoveries] =
+    await Promise.all([
+      prisma.checkoutAttempt.count({ where }),
+      prisma.checkoutAttempt.count({
+        where: { ...where, status: "completed" },
+      }),
+      prisma.checkoutAttempt.count({ where: { ...where, status: "expired" } }),
+      prisma.checkoutAttempt.count({
+        where: { ...where, recoveryEmailSentAt: { not: null } },
+      }),
+      prisma.checkoutAttempt.count({
+        where: { ...where, recoveredAt: { not: null } },
+      }),
+      prisma.checkoutAttempt.findMany({
+        where: {
+          status: "completed",
+          recoveredFrom: { createdAt: { gte: since } },
+        },
+        select: { order: { select: { amountTotal: true } } },
+      }),
+    ]);
+
+  return {
+    started,
+    completed,
+    abandoned,
+    emailed,
+    recovered,
+    recoveryRate: abandoned > 0 ? recovered / abandoned : 0,
+    recoveredRevenueCents: recoveries.reduce(
+      (sum, r) => sum + (r.order?.amountTotal || 0),
+      0
+    ),
+  };
+}
@@ -23,7 +23,21 @@ export const config: Config = {
   jwtRefreshSecret: required("JWT_REFRESH_SECRET"),
   stripeSecretKey: required("STRIPE_SECRET_KEY"),
   stripeWebhookSecret: required("STRIPE_WEBHOOK_SECRET"),
+  stripeApiBase: optional("STRIPE_API_BASE"),
   sessionSecret: optional("SESSION_SECRET"),
+  trustProxy: optional("TRUST_PROXY"),
+  ...(optional("SMTP_HOST")
+    ? {
+        smtp: {
+          host: required("SMTP_HOST"),
+          port: parseInt(process.env.SMTP_PORT || "587", 10),
+          secure: process.env.SMTP_SECURE === "true",
+          user: optional("SMTP_USER"),
+          pass: optional("SMTP_PASS"),
+          from: optional("SMTP_FROM") || "Red Ember <no-reply@redember.com>",
+        },
+      }
+    : {}),
   ...(optional("R2_BUCKET")
     ? {
         r2: {
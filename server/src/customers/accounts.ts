@@ -0,0 +1,214 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { Customer, Prisma } from "@prisma/client";
+import { config } from "../config.js";
+import { prisma } from "../db.js";
+import { enqueueEmail } from "../email/queue.js";
+import { loadEmailBranding, renderLoginLinkEmail } from "../email/templates.js";
+
+export const MIN_PASSWORD_LENGTH = 8;
+const LOGIN_LINK_MINUTES = 15;
+
+export function normalizeEmail(value: unknown): string | null {
+  const email = String(value || "")
+    .trim()
+    .toLowerCase();
+  return /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email) ? email : null;
+}
+
+export function passwordError(password: unknown): string | null {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function customerDto(customer: Customer) {
+  return {
+    id: customer.id,
+    email: customer.email,
+    name: customer.name,
+    phone: customer.phone,
+    marketingConsent: customer.marketingConsent,
+    hasPassword: Boolean(customer.passwordHash),
+    emailVerified: Boolean(customer.emailVerifiedAt),
+    createdAt: customer.createdAt,
+  };
+}
+
+/**
+ * Link past guest orders placed with the customer's email. Only for verified
+ * emails: anyone can sign up with an address they don't own.
+ */
+export async function linkOrdersByEmail(customer: Customer): Promise<void> {
+  if (!customer.emailVerifiedAt) return;
+  await prisma.order.updateMany({
+    where: {
+      customerId: null,
+      email: { equals: customer.email, mode: "insensitive" },
+    },
+    data: { customerId: customer.id },
+  });
+}
+
+/**
+ * The customer a paid order belongs to: the signed-in customer who started
+ * checkout, otherwise the one with the order's email, created if new.
+ */
+export async function customerForOrder(
+  tx: Prisma.TransactionClient,
+  order: {
+    customerId?: string | null;
+    email: string | null;
+    name: string | null;
+    phone: string | null;
+  }
+): Promise<string | null> {
+  if (order.customerId) {
+    const existing = await tx.customer.findUnique({
+      where: { id: order.customerId },
+      select: { id: true },
+    });
+    if (existing) return existing.id;
+  }
+
+  const email = normalizeEmail(order.email);
+  if (!email) return null;
+  const customer = await tx.customer.upsert({
+    where: { email },
+    create: { email, name: order.name, phone: order.phone },
+    update: {},
+  });
+  return customer.id;
+}
+
+/**
+ * Queue a single-use sign-in link. The customer record is created when the
+ * link is used, so requesting one reveals nothing about existing accounts.
+ */
+export async function sendLoginLink(email: string): Promise<void> {
+  const token = randomBytes(32).toString("base64url");
+  await prisma.customerLoginToken.create({
+    data: {
+      email,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + LOGIN_LINK_MINUTES * 60 * 1000),
+    },
+  });
+
+  const url = new URL("/account/login", config.clientUrl);
+  url.searchParams.set("token", token);
+  const rendered = renderLoginLinkEmail(
+    url.toString(),
+    LOGIN_LINK_MINUTES,
+    await loadEmailBranding()
+  );
+  await enqueueEmail({ template: "login_link", to: email, ...rendered });
+}
+
+/**
+ * Delete every stored session signed in as this customer.
+ */
+export async function signOutCustomer(customerId: string): Promise<number> {
+  const result = await prisma.session.deleteMany({
+    where: { sess: { path: ["customerId"], equals: customerId } },
+  });
+  return result.count;
+}
+
+/**
+ * Use a sign-in link token, which also verifies the email. Returns the
+ * customer, created on first sign-in, or null when the token is unknown,
+ * used or expired.
+ *
+ * `sessionCustomerId` is the customer the browser opening the link is
+ * already signed in as. A password chosen at signup is only kept when the
+ * link is opened by that same signup session: otherwise whoever chose it
+ * never showed they own the email, so it is dropped and their sessions are
+ * signed out before the account is verified and gets the email's orders.
+ */
+export async function consumeLoginToken(
+  token: string,
+  sessionCustomerId?: string
+): Promise<Customer | null> {
+  const record = await prisma.customerLoginToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+  if (!record || record.usedAt || record.expiresAt <= new Date()) return null;
+
+  // Claim the token atomically so it can't be used twice.
+  const claimed = await prisma.customerLoginToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (claimed.count === 0) return null;
+
+  const existing = await prisma.customer.findUnique({
+    where: { email: record.email },
+  });
+  if (existing?.emailVerifiedAt) return existing;
+  if (existing?.passwordHash && existing.id !== sessionCustomerId) {
+    await signOutCustomer(existing.id);
+    return prisma.customer.update({
+      where: { id: existing.id },
+      data: { emailVerifiedAt: new Date(), passwordHash: null },
+    });
+  }
+  return prisma.customer.upsert({
+    where: { email: record.email },
+    create: { email: record.email, emailVerifiedAt: new Date() },
+    update: { emailVerifiedAt: new Date() },
+  });
+}
+
+export interface AddressInput {
+  name: string;
+  line1: string;
+  line2: string | null;
+  city: string;
+  state: string | null;
+  postalCode: string;
+  country: string;
+  phone: string | null;
+  isDefault: boolean;
+}
+
+function optionalText(value: unknown): string | null {
+  const text = String(value ?? "").trim();
+  return text ? text : null;
+}
+
+export function parseAddress(
+  body: any
+): { data: AddressInput } | { error: string } {
+  const name = optionalText(body?.name);
+  const line1 = optionalText(body?.line1);
+  const city = optionalText(body?.city);
+  const postalCode = optionalText(body?.postalCode);
+  const country = String(body?.country || "")
+    .trim()
+    .toUpperCase();
+
+  if (!name || !line1 || !city || !postalCode) {
+    return { error: "Name, street, city and postal code are required" };
+  }
+  if (!/^[A-Z]{2}$/.test(country)) {
+    return { error: "Country must be a 2-letter code" };
+  }
+  return {
+    data: {
+      name,
+      line1,
+      line2: optionalText(body?.line2),
+      city,
+      state: optionalText(body?.state),
+      postalCode,
+      country,
+      phone: optionalText(body?.phone),
+      isDefault: body?.isDefault === true,
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import type { Prisma } from "@prisma/client";
+
+const MAX_CUSTOMER_TAGS = 20;
+const MAX_TAG_LENGTH = 32;
+const FAVORITE_PRODUCT_COUNT = 3;
+
+// Orders that never turned into a sale don't count toward the metrics.
+const UNCOUNTED_ORDER_STATUSES = new Set(["pending", "cancelled"]);
+
+export const CUSTOMER_ORDER_INCLUDE = {
+  items: {
+    include: { product: { select: { heatProfile: true } } },
+  },
+  refunds: {
+    where: { status: "succeeded" },
+    select: { amountCents: true },
+  },
+} satisfies Prisma.OrderInclude;
+
+export type CustomerOrder = Prisma.OrderGetPayload<{
+  include: typeof CUSTOMER_ORDER_INCLUDE;
+}>;
+
+export interface FavoriteProduct {
+  productId: string | null;
+  name: string;
+  quantity: number;
+  orders: number;
+}
+
+export interface CustomerInsights {
+  orderCount: number;
+  // Paid order totals less succeeded refunds.
+  lifetimeValueCents: number;
+  averageOrderValueCents: number;
+  refundedCents: number;
+  firstOrderAt: Date | null;
+  lastOrderAt: Date | null;
+  favoriteProducts: FavoriteProduct[];
+  // Heat profile of most of the bottles bought, with its share of them.
+  heatProfile: { profile: string; share: number } | null;
+  heatProfileBreakdown: Record<string, number>;
+}
+
+/**
+ * Lifetime metrics for a customer's orders, in any order.
+ */
+export function customerInsights(orders: CustomerOrder[]): CustomerInsights {
+  const counted = orders.filter((o) => !UNCOUNTED_ORDER_STATUSES.has(o.status));
+
+  let grossCents = 0;
+  let refundedCents = 0;
+  let firstOrderAt: Date | null = null;
+  let lastOrderAt: Date | null = null;
+  const products = new Map<string, FavoriteProduct>();
+  const heat: Record<string, number> = {};
+
+  for (const order of counted) {
+    grossCents += order.amountTotal;
+    refundedCents += order.refunds.reduce((sum, r) => sum + r.amountCents, 0);
+    if (!firstOrderAt || order.createdAt < firstOrderAt) {
+      firstOrderAt = order.createdAt;
+    }
+    if (!lastOrderAt || order.createdAt > lastOrderAt) {
+      lastOrderAt = order.createdAt;
+    }
+
+    const seen = new Set<string>();
+    for (const item of order.items) {
+      // Legacy rows without a product are grouped by name.
+      const key = item.productId ?? `name:${item.name}`;
+      const entry = products.get(key) ?? {
+        productId: item.productId,
+        name: item.name,
+        quantity: 0,
+        orders: 0,
+      };
+      entry.quantity += item.quantity;
+      if (!seen.has(key)) entry.orders += 1;
+      seen.add(key);
+      products.set(key, entry);
+
+      const profile = item.product?.heatProfile;
+      if (profile) heat[profile] = (heat[profile] || 0) + item.quantity;
+    }
+  }
+
+  const lifetimeValueCents = Math.max(0, grossCents - refundedCents);
+  const heatTotal = Object.values(heat).reduce((sum, n) => sum + n, 0);
+  const topHeat = Object.entries(heat).sort((a, b) => b[1] - a[1])[0];
+
+  return {
+    orderCount: counted.length,
+    lifetimeValueCents,
+    averageOrderValueCents: counted.length
+      ? Math.round(lifetimeValueCents / counted.length)
+      : 0,
+    refundedCents,
+    firstOrderAt,
+    lastOrderAt,
+    favoriteProducts: [...products.values()]
+      .sort((a, b) => b.quantity - a.quantity || b.orders - a.orders)
+      .slice(0, FAVORITE_PRODUCT_COUNT),
+    heatProfile: topHeat
+      ? { profile: topHeat[0], share: topHeat[1] / heatTotal }
+      : null,
+    heatProfileBreakdown: heat,
+  };
+}
+
+/**
+ * Staff tags: trimmed, lowercased and de-duplicated.
+ */
+export function parseTags(
+  raw: unknown
+): { tags: string[] } | { error: string } {
+  if (!Array.isArray(raw)) return { error: "tags must be an array" };
+  const tags = new Set<string>();
+  for (const value of raw) {
+    if (typeof value !== "string") return { error: "tags must be strings" };
+    const tag = value.trim().toLowerCase();
+    if (!tag) continue;
+    if (tag.length > MAX_TAG_LENGTH) {
+      return { error: `Tags can be at most ${MAX_TAG_LENGTH} characters` };
+    }
+    tags.add(tag);
+  }
+  if (tags.size > MAX_CUSTOMER_TAGS) {
+    return { error: `A customer can have at most ${MAX_CUSTOMER_TAGS} tags` };
+  }
+  return { tags: [...tags] };
+}
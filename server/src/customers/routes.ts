@@ -0,0 +1,504 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import bcrypt from "bcrypt";
+import type { Customer } from "@prisma/client";
+import { prisma } from "../db.js";
+import { linkCartToCustomer } from "../cart/store.js";
+import { cartToken, clearCartCookie, setCartCookie } from "../cart/routes.js";
+import { orderItemTotalCents } from "../orders/items.js";
+import {
+  checkLoginThrottle,
+  clearCustomerLoginFailures,
+  clientIp,
+  recordLoginAttempt,
+  registerCustomerLoginFailure,
+} from "../auth/loginProtection.js";
+import {
+  consumeLoginToken,
+  customerDto,
+  linkOrdersByEmail,
+  normalizeEmail,
+  parseAddress,
+  passwordError,
+  sendLoginLink,
+} from "./accounts.js";
+
+const router: Router = express.Router();
+
+function requireCustomer(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  if (!req.session?.customerId) {
+    res.status(401).json({ error: "Please sign in" });
+    return;
+  }
+  next();
+}
+
+// Start a customer session. The session id is regenerated to prevent
+// fixation; an admin signed in on the same browser stays signed in.
+async function signIn(
+  req: Request,
+  res: Response,
+  customer: Customer
+): Promise<void> {
+  const { userId, email } = req.session;
+  await new Promise<void>((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+  if (userId) req.session.userId = userId;
+  if (email) req.session.email = email;
+  req.session.customerId = customer.id;
+  await new Promise<void>((resolve, reject) => {
+    req.session.save((err) => {
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+
+  await prisma.customer.update({
+    where: { id: customer.id },
+    data: { lastLoginAt: new Date() },
+  });
+  await linkOrdersByEmail(customer);
+  const cart = await linkCartToCustomer(cartToken(req), customer.id);
+  if (cart) setCartCookie(res, cart.token);
+}
+
+// Create an account with a password. The email is verified by the sign-in
+// link sent with it. Existing customers (including guest checkouts) sign in
+// by email link and can set a password from their account.
+router.post("/signup", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const email = normalizeEmail(req.body?.email);
+    if (!email) {
+      res.status(400).json({ error: "A valid email is required" });
+      return;
+    }
+    const invalidPassword = passwordError(req.body?.password);
+    if (invalidPassword) {
+      res.status(400).json({ error: invalidPassword });
+      return;
+    }
+
+    const existing = await prisma.customer.findUnique({ where: { email } });
+    if (existing) {
+      res.status(409).json({
+        error:
+          "An account with this email already exists. Sign in with an email link instead.",
+      });
+      return;
+    }
+
+    const marketingConsent = req.body?.marketingConsent === true;
+    const customer = await prisma.customer.create({
+      data: {
+        email,
+        name: String(req.body?.name || "").trim() || null,
+        passwordHash: await bcrypt.hash(req.body.password, 10),
+        marketingConsent,
+        marketingConsentAt: marketingConsent ? new Date() : null,
+      },
+    });
+
+    await signIn(req, res, customer);
+    await sendLoginLink(email);
+    res.status(201).json({ customer: customerDto(customer) });
+  } catch (err) {
+    console.error("Customer signup error:", err);
+    res.status(500).json({ error: "Failed to create account" });
+  }
+});
+
+router.post("/login", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const email = normalizeEmail(req.body?.email);
+    const password = req.body?.password;
+    if (!email || typeof password !== "string" || !password) {
+      res.status(400).json({ error: "Email and password required" });
+      return;
+    }
+
+    const customer = await prisma.customer.findUnique({ where: { email } });
+
+    // The admin sign in's per-IP and per-account backoff, checked before the
+    // password is compared.
+    const throttle = await checkLoginThrottle(clientIp(req), customer);
+    if (!throttle.ok) {
+      await recordLoginAttempt(req, {
+        email,
+        customerId: customer?.id,
+        success: false,
+        reason: throttle.reason,
+      });
+      res.set("Retry-After", String(throttle.retryAfterSeconds));
+      res.status(429).json({
+        error:
+          throttle.reason === "locked"
+            ? "Too many failed sign ins. Sign in with an email link, or try your password again later."
+            : throttle.error,
+        retryAfterSeconds: throttle.retryAfterSeconds,
+      });
+      return;
+    }
+
+    if (
+      !customer?.passwordHash ||
+      !(await bcrypt.compare(password, customer.passwordHash))
+    ) {
+      if (customer) await registerCustomerLoginFailure(customer.id);
+      await recordLoginAttempt(req, {
+        email,
+        customerId: customer?.id,
+        success: false,
+        reason: customer ? "invalid_password" : "unknown_user",
+      });
+      res.status(401).json({ error: "Invalid email or password" });
+      return;
+    }
+
+    if (customer.failedLoginCount > 0 || customer.lockedUntil) {
+      await clearCustomerLoginFailures(customer.id);
+    }
+    await recordLoginAttempt(req, {
+      email,
+      customerId: customer.id,
+      success: true,
+    });
+    await signIn(req, res, customer);
+    res.json({ customer: customerDto(customer) });
+  } catch (err) {
+    console.error("Customer login error:", err);
+    res.status(500).json({ error: "Failed to sign in" });
+  }
+});
+
+// Email a sign-in link. Always succeeds so it can't be used to probe for
+// accounts.
+router.post(
+  "/login-link",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const email = normalizeEmail(req.body?.email);
+      if (!email) {
+        res.status(400).json({ error: "A valid email is required" });
+        return;
+      }
+      await sendLoginLink(email);
+      res.json({ ok: true });
+    } catch (err) {
+      console.error("Send login link error:", err);
+      res.status(500).json({ error: "Failed to send sign-in link" });
+    }
+  }
+);
+
+router.post(
+  "/login-link/verify",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const token = req.body?.token;
+      const customer =
+        typeof token === "string" && token
+          ? await consumeLoginToken(token, req.session?.customerId)
+          : null;
+      if (!customer) {
+        res
+          .status(400)
+          .json({ error: "This sign-in link is invalid or has expired" });
+        return;
+      }
+
+      await signIn(req, res, customer);
+      res.json({ customer: customerDto(customer) });
+    } catch (err) {
+      console.error("Verify login link error:", err);
+      res.status(500).json({ error: "Failed to sign in" });
+    }
+  }
+);
+
+// Sign out of the customer account. The cart stays with the account, so a
+// shared device starts a fresh one.
+router.post("/logout", async (req: Request, res: Response): Promise<void> => {
+  try {
+    delete req.session.customerId;
+    await new Promise<void>((resolve, reject) => {
+      req.session.save((err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+    clearCartCookie(res);
+    res.json({ success: true });
+  } catch (err) {
+    console.error("Customer logout error:", err);
+    res.status(500).json({ error: "Failed to sign out" });
+  }
+});
+
+router.get(
+  "/",
+  requireCustomer,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const customer = await prisma.customer.findUnique({
+        where: { id: req.session.customerId },
+      });
+      if (!customer) {
+        delete req.session.customerId;
+        res.status(401).json({ error: "Please sign in" });
+        return;
+      }
+      res.json({ customer: customerDto(customer) });
+    } catch (err) {
+      console.error("Get account error:", err);
+      res.status(500).json({ error: "Failed to load account" });
+    }
+  }
+);
+
+router.patch(
+  "/",
+  requireCustomer,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data: Record<string, unknown> = {};
+      if ("name" in (req.body || {})) {
+        data.name = String(req.body.name || "").trim() || null;
+      }
+      if ("phone" in (req.body || {})) {
+        data.phone = String(req.body.phone || "").trim() || null;
+      }
+      if (typeof req.body?.marketingConsent === "boolean") {
+        data.marketingConsent = req.body.marketingConsent;
+        data.marketingConsentAt = req.body.marketingConsent ? new Date() : null;
+      }
+      if (req.body?.password !== undefined) {
+        const invalidPassword = passwordError(req.body.password);
+        if (invalidPassword) {
+          res.status(400).json({ error: invalidPassword });
+          return;
+        }
+        // Replacing a password needs the old one, so a session left signed
+        // in can't be used to take the account over. Accounts that only
+        // sign in by email link have none to give.
+        const current = await prisma.customer.findUnique({
+          where: { id: req.session.customerId },
+          select: { passwordHash: true },
+        });
+        if (current?.passwordHash) {
+          const currentPassword = req.body.currentPassword;
+          if (
+            typeof currentPassword !== "string" ||
+            !(await bcrypt.compare(currentPassword, current.passwordHash))
+          ) {
+            res.status(400).json({ error: "Current password is incorrect" });
+            return;
+          }
+        }
+        data.passwordHash = await bcrypt.hash(req.body.password, 10);
+      }
+
+      const customer = await prisma.customer.update({
+        where: { id: req.session.customerId },
+        data,
+      });
+      res.json({ customer: customerDto(customer) });
+    } catch (err) {
+      console.error("Update account error:", err);
+      res.status(500).json({ error: "Failed to update account" });
+    }
+  }
+);
+
+router.get(
+  "/orders",
+  requireCustomer,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const customer = await prisma.customer.findUnique({
+        where: { id: req.session.customerId },
+        select: { emailVerifiedAt: true },
+      });
+      if (!customer?.emailVerifiedAt) {
+        res.status(403).json({
+          error: "Verify your email to see your orders",
+          verificationRequired: true,
+        });
+        return;
+      }
+
+      const orders = await prisma.order.findMany({
+        where: { customerId: req.session.customerId },
+        orderBy: { createdAt: "desc" },
+        include: { items: true },
+      });
+      res.json({
+        orders: orders.map((o) => ({
+          id: o.id,
+          status: o.status,
+          amountTotal: o.amountTotal,
+          currency: o.currency,
+          shippingMethod: o.shippingMethod,
+          trackingCarrier: o.trackingCarrier,
+          trackingNumber: o.trackingNumber,
+          createdAt: o.createdAt,
+          shippedAt: o.shippedAt,
+          deliveredAt: o.deliveredAt,
+          items: o.items.map((it) => ({
+            productId: it.productId,
+            name: it.name,
+            quantity: it.quantity,
+            unitPriceCents: it.unitPriceCents,
+            totalCents: orderItemTotalCents(it),
+          })),
+        })),
+      });
+    } catch (err) {
+      console.error("List account orders error:", err);
+      res.status(500).json({ error: "Failed to load orders" });
+    }
+  }
+);
+
+router.get(
+  "/addresses",
+  requireCustomer,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const addresses = await prisma.customerAddress.findMany({
+        where: { customerId: req.session.customerId },
+        orderBy: [{ isDefault: "desc" }, { createdAt: "asc" }],
+      });
+      res.json({ addresses });
+    } catch (err) {
+      console.error("List addresses error:", err);
+      res.status(500).json({ error: "Failed to load addresses" });
+    }
+  }
+);
+
+router.post(
+  "/addresses",
+  requireCustomer,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const parsed = parseAddress(req.body);
+      if ("error" in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+      const customerId = req.session.customerId!;
+      const count = await prisma.customerAddress.count({
+        where: { customerId },
+      });
+      // The first address is the default.
+      const isDefault = parsed.data.isDefault || count === 0;
+
+      const address = await prisma.$transaction(async (tx) => {
+        if (isDefault) {
+          await tx.customerAddress.updateMany({
+            where: { customerId },
+            data: { isDefault: false },
+          });
+        }
+        return tx.customerAddress.create({
+          data: { ...parsed.data, isDefault, customerId },
+        });
+      });
+      res.status(201).json({ address });
+    } catch (err) {
+      console.error("Create address error:", err);
+      res.status(500).json({ error: "Failed to save address" });
+    }
+  }
+);
+
+router.put(
+  "/addresses/:id",
+  requireCustomer,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const customerId = req.session.customerId!;
+      const parsed = parseAddress(req.body);
+      if ("error" in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+      const existing = await prisma.customerAddress.findFirst({
+        where: { id, customerId },
+      });
+      if (!existing) {
+        res.status(404).json({ error: "Address not found" });
+        return;
+      }
+
+      const address = await prisma.$transaction(async (tx) => {
+        if (parsed.data.isDefault) {
+          await tx.customerAddress.updateMany({
+            where: { customerId, id: { not: id } },
+            data: { isDefault: false },
+          });
+        }
+        return tx.customerAddress.update({
+          where: { id },
+          // The default can only move to another address, not be cleared.
+          data: {
+            ...parsed.data,
+            isDefault: parsed.data.isDefault || existing.isDefault,
+          },
+        });
+      });
+      res.json({ address });
+    } catch (err) {
+      console.error("Update address error:", err);
+      res.status(500).json({ error: "Failed to save address" });
+    }
+  }
+);
+
+router.delete(
+  "/addresses/:id",
+  requireCustomer,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const customerId = req.session.customerId!;
+      const existing = await prisma.customerAddress.findFirst({
+        where: { id, customerId },
+      });
+      if (!existing) {
+        res.status(404).json({ error: "Address not found" });
+        return;
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.customerAddress.delete({ where: { id } });
+        if (existing.isDefault) {
+          const next = await tx.customerAddress.findFirst({
+            where: { customerId },
+            orderBy: { createdAt: "asc" },
+          });
+          if (next) {
+            await tx.customerAddress.update({
+              where: { id: next.id },
+              data: { isDefault: true },
+            });
+          }
+        }
+      });
+      res.json({ ok: true });
+    } catch (err) {
+      console.error("Delete address error:", err);
+      res.status(500).json({ error: "Failed to delete address" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,439 @@
+import type Stripe from "stripe";
+import type { Discount, Prisma } from "@prisma/client";
+import { prisma } from "./db.js";
+import { allocateTax } from "./tax.js";
+
+export const DISCOUNT_TYPES = [
+  "percentage",
+  "fixed_amount",
+  "free_shipping",
+  "buy_x_get_y",
+] as const;
+export type DiscountType = (typeof DISCOUNT_TYPES)[number];
+
+const VALID_DISCOUNT_TYPES = new Set<string>(DISCOUNT_TYPES);
+
+export function isDiscountType(value: unknown): value is DiscountType {
+  return typeof value === "string" && VALID_DISCOUNT_TYPES.has(value);
+}
+
+export function normalizeDiscountCode(value: unknown): string {
+  return String(value || "")
+    .trim()
+    .toUpperCase();
+}
+
+export interface DiscountLine {
+  productId: string;
+  discountCents: number;
+}
+
+export interface AppliedDiscount {
+  discountId: string;
+  code: string | null;
+  name: string;
+  type: DiscountType;
+  // Taken off the items; zero for free shipping.
+  amountCents: number;
+  freeShipping: boolean;
+  lines: DiscountLine[];
+}
+
+export type DiscountResult =
+  | { ok: true; discount: AppliedDiscount | null }
+  | { ok: false; httpStatus: number; error: string; emailRequired?: boolean };
+
+// A cart line priced from the catalog.
+export interface PricedLine {
+  productId: string;
+  categoryId: string | null;
+  unitPriceCents: number;
+  quantity: number;
+}
+
+type PriceOutcome =
+  | { ok: true; applied: AppliedDiscount }
+  | { ok: false; error: string };
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function inScope(discount: Discount, line: PricedLine): boolean {
+  if (discount.productIds.length === 0 && discount.categoryIds.length === 0) {
+    return true;
+  }
+  return (
+    discount.productIds.includes(line.productId) ||
+    Boolean(line.categoryId && discount.categoryIds.includes(line.categoryId))
+  );
+}
+
+// For every buy+get eligible units, the `get` cheapest are discounted.
+function buyXGetYLines(
+  discount: Discount,
+  eligible: PricedLine[]
+): DiscountLine[] {
+  const buy = discount.buyQuantity || 0;
+  const get = discount.getQuantity || 0;
+  const units = eligible
+    .flatMap((l) =>
+      Array.from({ length: l.quantity }, () => ({
+        productId: l.productId,
+        unitPriceCents: l.unitPriceCents,
+      }))
+    )
+    .sort((a, b) => a.unitPriceCents - b.unitPriceCents);
+  const freeUnits = Math.floor(units.length / (buy + get)) * get;
+
+  const byProduct = new Map<string, number>();
+  for (const unit of units.slice(0, freeUnits)) {
+    const off = Math.round((unit.unitPriceCents * discount.value) / 100);
+    byProduct.set(unit.productId, (byProduct.get(unit.productId) || 0) + off);
+  }
+  return Array.from(byProduct, ([productId, discountCents]) => ({
+    productId,
+    discountCents,
+  }));
+}
+
+/**
+ * Price a discount against a cart, without any usage checks. Pure, so the
+ * checkout webhook can rely on the same numbers the customer was shown.
+ */
+export function priceDiscount(
+  discount: Discount,
+  lines: PricedLine[]
+): PriceOutcome {
+  const subtotalCents = lines.reduce(
+    (sum, l) => sum + l.unitPriceCents * l.quantity,
+    0
+  );
+  if (discount.minSubtotalCents && subtotalCents < discount.minSubtotalCents) {
+    return {
+      ok: false,
+      error: `Spend at least ${formatCents(
+        discount.minSubtotalCents
+      )} to use this discount`,
+    };
+  }
+
+  const eligible = lines.filter((l) => inScope(discount, l));
+  if (eligible.length === 0) {
+    return {
+      ok: false,
+      error: "This discount doesn't apply to the items in your cart",
+    };
+  }
+
+  const type = discount.type as DiscountType;
+  let discountLines: DiscountLine[] = [];
+  if (type === "percentage") {
+    discountLines = eligible.map((l) => ({
+      productId: l.productId,
+      discountCents: Math.round(
+        (l.unitPriceCents * l.quantity * discount.value) / 100
+      ),
+    }));
+  } else if (type === "fixed_amount") {
+    const eligibleCents = eligible.map((l) => l.unitPriceCents * l.quantity);
+    const total = Math.min(
+      discount.value,
+      eligibleCents.reduce((sum, c) => sum + c, 0)
+    );
+    const shares = allocateTax(total, eligibleCents);
+    discountLines = eligible.map((l, idx) => ({
+      productId: l.productId,
+      discountCents: shares[idx],
+    }));
+  } else if (type === "buy_x_get_y") {
+    discountLines = buyXGetYLines(discount, eligible);
+    if (discountLines.length === 0) {
+      const needed = (discount.buyQuantity || 0) + (discount.getQuantity || 0);
+      return {
+        ok: false,
+        error: `Add ${needed} eligible items to your cart to use this discount`,
+      };
+    }
+  }
+
+  discountLines = discountLines.filter((l) => l.discountCents > 0);
+  return {
+    ok: true,
+    applied: {
+      discountId: discount.id,
+      code: discount.code,
+      name: discount.name,
+      type,
+      amountCents: discountLines.reduce((sum, l) => sum + l.discountCents, 0),
+      freeShipping: type === "free_shipping",
+      lines: discountLines,
+    },
+  };
+}
+
+// Uses counted against a discount's limits: redemptions on paid orders plus
+// holds by checkouts still open.
+async function discountUses(
+  db: Prisma.TransactionClient,
+  discount: Discount,
+  email: string | null,
+  now: Date
+): Promise<{ total: number; byEmail: number }> {
+  const held = await db.discountHold.count({
+    where: { discountId: discount.id, expiresAt: { gt: now } },
+  });
+  const byEmail = email
+    ? (await db.discountRedemption.count({
+        where: { discountId: discount.id, email },
+      })) +
+      (await db.discountHold.count({
+        where: { discountId: discount.id, email, expiresAt: { gt: now } },
+      }))
+    : 0;
+  return { total: discount.usageCount + held, byEmail };
+}
+
+// Date window and usage checks that don't depend on the cart.
+async function availabilityError(
+  discount: Discount,
+  email: string | null,
+  db: Prisma.TransactionClient = prisma
+): Promise<{ error: string; emailRequired?: boolean } | null> {
+  const now = new Date();
+  if (!discount.active) return { error: "This discount is no longer active" };
+  if (discount.startsAt && discount.startsAt > now) {
+    return { error: "This discount isn't active yet" };
+  }
+  if (discount.endsAt && discount.endsAt <= now) {
+    return { error: "This discount has expired" };
+  }
+  if (discount.perCustomerLimit !== null && !email) {
+    return {
+      error: "Enter your email to use this discount",
+      emailRequired: true,
+    };
+  }
+  if (discount.usageLimit === null && discount.perCustomerLimit === null) {
+    return null;
+  }
+  const uses = await discountUses(db, discount, email, now);
+  if (discount.usageLimit !== null && uses.total >= discount.usageLimit) {
+    return { error: "This discount has reached its usage limit" };
+  }
+  if (
+    discount.perCustomerLimit !== null &&
+    uses.byEmail >= discount.perCustomerLimit
+  ) {
+    return { error: "You've already used this discount" };
+  }
+  return null;
+}
+
+/**
+ * Hold one use of a discount for a checkout about to be created, checking
+ * its limits again under a lock so open sessions can't share the last use.
+ * `checkoutKey` is the stock reservation key, and the hold lapses at
+ * `expiresAt` if neither the order nor the expiry event releases it.
+ */
+export async function holdDiscount(params: {
+  discountId: string;
+  checkoutKey: string;
+  email: string | null;
+  expiresAt: Date;
+}): Promise<{ ok: true } | { ok: false; error: string }> {
+  const email = params.email ? params.email.trim().toLowerCase() : null;
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT "id" FROM "Discount" WHERE "id" = ${params.discountId} FOR UPDATE`;
+    const discount = await tx.discount.findUnique({
+      where: { id: params.discountId },
+    });
+    if (!discount) return { ok: false, error: "Discount code not found" };
+    // Unlimited discounts need no hold.
+    if (discount.usageLimit === null && discount.perCustomerLimit === null) {
+      return { ok: true };
+    }
+    const unavailable = await availabilityError(discount, email, tx);
+    if (unavailable) return { ok: false, error: unavailable.error };
+
+    await tx.discountHold.create({
+      data: {
+        discountId: discount.id,
+        checkoutKey: params.checkoutKey,
+        email,
+        expiresAt: params.expiresAt,
+      },
+    });
+    return { ok: true };
+  });
+}
+
+// Give a held use back, e.g. when the checkout expires or couldn't be
+// created.
+export async function releaseDiscountHold(
+  checkoutKey: string | null | undefined
+): Promise<void> {
+  if (!checkoutKey) return;
+  await prisma.discountHold.deleteMany({ where: { checkoutKey } });
+}
+
+/**
+ * Resolve the discount for a cart: the entered code, or when there is none,
+ * the automatic promotion saving the most. Discounts don't stack.
+ */
+export async function resolveDiscount(params: {
+  items: Array<{ productId: string; quantity: number }>;
+  code?: string | null;
+  email?: string | null;
+}): Promise<DiscountResult> {
+  const code = normalizeDiscountCode(params.code);
+  const email = params.email ? params.email.trim().toLowerCase() : null;
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: params.items.map((i) => i.productId) } },
+    select: { id: true, categoryId: true, priceCents: true },
+  });
+  const productById = new Map(products.map((p) => [p.id, p]));
+  const lines: PricedLine[] = params.items.flatMap((item) => {
+    const product = productById.get(item.productId);
+    if (!product) return [];
+    return [
+      {
+        productId: product.id,
+        categoryId: product.categoryId,
+        unitPriceCents: product.priceCents,
+        quantity: item.quantity,
+      },
+    ];
+  });
+
+  if (code) {
+    const discount = await prisma.discount.findUnique({ where: { code } });
+    if (!discount) {
+      return { ok: false, httpStatus: 404, error: "Discount code not found" };
+    }
+    const unavailable = await availabilityError(discount, email);
+    if (unavailable) {
+      return { ok: false, httpStatus: 400, ...unavailable };
+    }
+    const priced = priceDiscount(discount, lines);
+    if (!priced.ok) return { ok: false, httpStatus: 400, error: priced.error };
+    return { ok: true, discount: priced.applied };
+  }
+
+  const automatic = await prisma.discount.findMany({
+    where: { automatic: true, active: true },
+  });
+  let best: AppliedDiscount | null = null;
+  for (const discount of automatic) {
+    if (await availabilityError(discount, email)) continue;
+    const priced = priceDiscount(discount, lines);
+    if (!priced.ok) continue;
+    // Free shipping only wins over a discount worth nothing.
+    if (
+      !best ||
+      priced.applied.amountCents > best.amountCents ||
+      (priced.applied.amountCents === best.amountCents &&
+        priced.applied.freeShipping)
+    ) {
+      best = priced.applied;
+    }
+  }
+  return { ok: true, discount: best };
+}
+
+/**
+ * Checkout session params carrying a discount: a single-use Stripe coupon for
+ * the amount off, plus metadata the webhook uses to record the redemption
+ * and split the discount across order items.
+ */
+export async function checkoutDiscountParams(
+  stripe: Stripe,
+  applied: AppliedDiscount | null,
+  currency: string
+): Promise<{
+  discounts?: Stripe.Checkout.SessionCreateParams.Discount[];
+  metadata: Record<string, string>;
+}> {
+  if (!applied) return { metadata: {} };
+
+  const metadata: Record<string, string> = {
+    discountId: applied.discountId,
+    discountCode: applied.code || applied.name,
+    discountCents: String(applied.amountCents),
+    discountLines: JSON.stringify(
+      Object.fromEntries(
+        applied.lines.map((l) => [l.productId, l.discountCents])
+      )
+    ),
+  };
+  if (applied.amountCents <= 0) return { metadata };
+
+  const coupon = await stripe.coupons.create({
+    amount_off: applied.amountCents,
+    currency,
+    duration: "once",
+    max_redemptions: 1,
+    // Stripe caps coupon names at 40 characters.
+    name: (applied.code || applied.name).slice(0, 40),
+    metadata: { discountId: applied.discountId },
+  });
+  return { discounts: [{ coupon: coupon.id }], metadata };
+}
+
+// Per-product discount recorded on a Checkout session by checkoutDiscountParams.
+export function sessionDiscountLines(
+  metadata: Stripe.Metadata | null | undefined
+): Map<string, number> {
+  const lines = new Map<string, number>();
+  try {
+    const parsed = JSON.parse(metadata?.discountLines || "{}");
+    for (const [productId, cents] of Object.entries(parsed)) {
+      if (Number.isInteger(cents)) lines.set(productId, cents as number);
+    }
+  } catch {
+    // Missing or malformed: items keep Stripe's own split.
+  }
+  return lines;
+}
+
+/**
+ * Record a discount used on a paid order and count it towards the usage
+ * limit, replacing the checkout's hold. Limits are checked (and the use
+ * held) before checkout; a paid order always records.
+ */
+export async function recordRedemption(
+  tx: Prisma.TransactionClient,
+  redemption: {
+    discountId: string;
+    orderId: string;
+    email: string | null;
+    amountCents: number;
+    checkoutKey?: string | null;
+  }
+): Promise<void> {
+  if (redemption.checkoutKey) {
+    await tx.discountHold.deleteMany({
+      where: { checkoutKey: redemption.checkoutKey },
+    });
+  }
+
+  const discount = await tx.discount.findUnique({
+    where: { id: redemption.discountId },
+  });
+  if (!discount) return;
+
+  await tx.discountRedemption.create({
+    data: {
+      discountId: discount.id,
+      orderId: redemption.orderId,
+      code: discount.code,
+      email: redemption.email ? redemption.email.toLowerCase() : null,
+      amountCents: redemption.amountCents,
+    },
+  });
+  await tx.discount.update({
+    where: { id: discount.id },
+    data: { usageCount: { increment: 1 } },
+  });
+}
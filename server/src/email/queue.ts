@@ -0,0 +1,193 @@
+import type { EmailMessage } from "@prisma/client";
+import { prisma } from "../db.js";
+import { getStoreSetting } from "../settings.js";
+import { isMailConfigured, sendMail, splitRecipients } from "./transport.js";
+import {
+  loadEmailBranding,
+  renderOrderEmail,
+  type EmailExtras,
+  type EmailTemplate,
+} from "./templates.js";
+
+export const EMAIL_STATUSES = ["pending", "sent", "failed"] as const;
+export type EmailStatus = (typeof EMAIL_STATUSES)[number];
+
+const VALID_EMAIL_STATUSES = new Set<string>(EMAIL_STATUSES);
+
+export function isEmailStatus(value: unknown): value is EmailStatus {
+  return typeof value === "string" && VALID_EMAIL_STATUSES.has(value);
+}
+
+// Delay before each retry; a message is failed once these run out.
+const RETRY_DELAYS_MS = [
+  60_000, // 1m
+  5 * 60_000, // 5m
+  30 * 60_000, // 30m
+  2 * 60 * 60_000, // 2h
+];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const BATCH_SIZE = 20;
+const WORKER_INTERVAL_MS = 30_000;
+
+export interface EmailInput {
+  template: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  orderId?: string | null;
+}
+
+/**
+ * Queue an already-rendered email and nudge the worker to send it.
+ */
+export async function enqueueEmail(input: EmailInput): Promise<EmailMessage> {
+  const message = await prisma.emailMessage.create({
+    data: {
+      template: input.template,
+      to: input.to,
+      subject: input.subject,
+      html: input.html,
+      text: input.text,
+      orderId: input.orderId || null,
+    },
+  });
+  scheduleEmailQueue();
+  return message;
+}
+
+async function orderEmailRecipients(
+  template: EmailTemplate,
+  orderEmail: string | null
+): Promise<string[]> {
+  if (template !== "admin_new_order") return orderEmail ? [orderEmail] : [];
+
+  const [enabled, alertEmail, supportEmail] = await Promise.all([
+    getStoreSetting<boolean>("enableOrderNotifications", true),
+    getStoreSetting<string>("alertEmail", ""),
+    getStoreSetting<string>("supportEmail", ""),
+  ]);
+  if (enabled === false) return [];
+  return splitRecipients(String(alertEmail || supportEmail || ""));
+}
+
+/**
+ * Render an order template with the current store branding and queue it for
+ * the customer (or the store staff, for `admin_new_order`).
+ *
+ * Called after the order change has committed; failures are logged and never
+ * propagate, so an email problem can't fail a checkout or refund.
+ */
+export async function enqueueOrderEmail(
+  template: EmailTemplate,
+  orderId: string,
+  extras: EmailExtras = {}
+): Promise<void> {
+  try {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: { items: true },
+    });
+    if (!order) return;
+
+    const recipients = await orderEmailRecipients(template, order.email);
+    if (recipients.length === 0) return;
+
+    const branding = await loadEmailBranding();
+    const rendered = renderOrderEmail(template, order, branding, extras);
+    for (const to of recipients) {
+      await enqueueEmail({ template, to, orderId, ...rendered });
+    }
+  } catch (err) {
+    console.error(`Failed to queue ${template} email:`, err);
+  }
+}
+
+let running = false;
+let scheduled = false;
+
+/**
+ * Send due pending messages. Failed sends are retried with backoff and
+ * marked failed after MAX_ATTEMPTS. Does nothing while SMTP is unconfigured,
+ * so messages wait in the queue until it is.
+ */
+export async function processEmailQueue(): Promise<void> {
+  if (running || !isMailConfigured()) return;
+  running = true;
+  try {
+    const due = await prisma.emailMessage.findMany({
+      where: { status: "pending", nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    for (const message of due) {
+      const attempts = message.attempts + 1;
+      try {
+        await sendMail({
+          to: message.to,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+        });
+        await prisma.emailMessage.update({
+          where: { id: message.id },
+          data: {
+            status: "sent",
+            attempts,
+            sentAt: new Date(),
+            lastError: null,
+          },
+        });
+      } catch (err) {
+        const lastError = err instanceof Error ? err.message : String(err);
+        const delay = RETRY_DELAYS_MS[attempts - 1];
+        await prisma.emailMessage.update({
+          where: { id: message.id },
+          data:
+            attempts >= MAX_ATTEMPTS || delay === undefined
+              ? { status: "failed", attempts, lastError }
+              : {
+                  attempts,
+                  lastError,
+                  nextAttemptAt: new Date(Date.now() + delay),
+                },
+        });
+        console.error(`Email ${message.id} send failed:`, lastError);
+      }
+    }
+  } catch (err) {
+    console.error("Email queue error:", err);
+  } finally {
+    running = false;
+  }
+}
+
+export function scheduleEmailQueue(): void {
+  if (scheduled) return;
+  scheduled = true;
+  setImmediate(() => {
+    scheduled = false;
+    processEmailQueue();
+  });
+}
+
+/**
+ * Put a failed (or stuck) message back in the queue to send now.
+ */
+export async function retryEmail(id: string): Promise<EmailMessage | null> {
+  const message = await prisma.emailMessage.findUnique({ where: { id } });
+  if (!message || message.status === "sent") return null;
+
+  const updated = await prisma.emailMessage.update({
+    where: { id },
+    data: { status: "pending", attempts: 0, nextAttemptAt: new Date() },
+  });
+  scheduleEmailQueue();
+  return updated;
+}
+
+export function startEmailWorker(): void {
+  scheduleEmailQueue();
+  setInterval(() => processEmailQueue(), WORKER_INTERVAL_MS).unref();
+}
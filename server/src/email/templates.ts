@@ -0,0 +1,548 @@
+import type { Prisma } from "@prisma/client";
+import { config } from "../config.js";
+import { getStoreSetting } from "../settings.js";
+
+export const EMAIL_TEMPLATES = [
+  "order_confirmation",
+  "order_shipped",
+  "refund_issued",
+  "admin_new_order",
+] as const;
+export type EmailTemplate = (typeof EMAIL_TEMPLATES)[number];
+
+const VALID_EMAIL_TEMPLATES = new Set<string>(EMAIL_TEMPLATES);
+
+export function isEmailTemplate(value: unknown): value is EmailTemplate {
+  return typeof value === "string" && VALID_EMAIL_TEMPLATES.has(value);
+}
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplate, string> = {
+  order_confirmation: "Order confirmation",
+  order_shipped: "Order shipped",
+  refund_issued: "Refund issued",
+  admin_new_order: "New order (admin)",
+};
+
+export interface EmailBranding {
+  storeName: string;
+  logoUrl: string | null;
+  primaryColor: string;
+  supportEmail: string | null;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export type OrderForEmail = Prisma.OrderGetPayload<{
+  include: { items: true };
+}>;
+
+// Template-specific values not stored on the order.
+export interface EmailExtras {
+  refundCents?: number;
+}
+
+export async function loadEmailBranding(): Promise<EmailBranding> {
+  const [storeName, logoUrl, primaryColor, supportEmail] = await Promise.all([
+    getStoreSetting<string>("storeName", "Red Ember"),
+    getStoreSetting<string>("logoUrl", ""),
+    getStoreSetting<string>("primaryColor", "#ec131e"),
+    getStoreSetting<string>("supportEmail", ""),
+  ]);
+  return {
+    storeName: storeName || "Red Ember",
+    // Uploaded logos are stored as relative paths; mail clients need absolute.
+    logoUrl: logoUrl ? new URL(logoUrl, config.clientUrl).toString() : null,
+    primaryColor: /^#[0-9a-f]{3,8}$/i.test(primaryColor)
+      ? primaryColor
+      : "#ec131e",
+    supportEmail: supportEmail || null,
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatMoney(cents: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(cents / 100);
+}
+
+export function orderNumber(order: { id: string }): string {
+  return `#${order.id.toUpperCase().slice(0, 8)}`;
+}
+
+const TRACKING_URLS: Record<string, (n: string) => string> = {
+  usps: (n) => `https://tools.usps.com/go/TrackConfirmAction?tLabels=${n}`,
+  ups: (n) => `https://www.ups.com/track?tracknum=${n}`,
+  fedex: (n) => `https://www.fedex.com/fedextrack/?trknbr=${n}`,
+  dhl: (n) =>
+    `https://www.dhl.com/global-en/home/tracking/tracking-express.html?tracking-id=${n}`,
+};
+
+function trackingUrl(carrier: string | null, number: string): string | null {
+  const build = TRACKING_URLS[(carrier || "").trim().toLowerCase()];
+  return build ? build(encodeURIComponent(number)) : null;
+}
+
+function addressLines(order: OrderForEmail): string[] {
+  return [
+    order.shippingName,
+    order.shippingLine1,
+    order.shippingLine2,
+    [order.shippingCity, order.shippingState, order.shippingPostal]
+      .filter(Boolean)
+      .join(", "),
+    order.shippingCountry,
+  ].filter((l): l is string => Boolean(l));
+}
+
+// Shared layout: logo or store name header in the brand color, then content.
+function layout(branding: EmailBranding, bodyHtml: string): string {
+  const header = branding.logoUrl
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(
+        branding.storeName
+      )}" style="max-height:48px;max-width:200px;">`
+    : `<span style="font-size:22px;font-weight:bold;color:#ffffff;">${escapeHtml(
+        branding.storeName
+      )}</span>`;
+  const footer = branding.supportEmail
+    ? `Questions? Reply to this email or contact <a href="mailto:${escapeHtml(
+        branding.supportEmail
+      )}" style="color:${branding.primaryColor};">${escapeHtml(
+        branding.supportEmail
+      )}</a>.`
+    : "";
+
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:0;background:#f5f5f4;font-family:Helvetica,Arial,sans-serif;color:#1c1917;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f5f5f4;padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;background:#ffffff;border-radius:8px;overflow:hidden;">
+<tr><td style="background:${branding.primaryColor};padding:20px 24px;">${header}</td></tr>
+<tr><td style="padding:24px;font-size:14px;line-height:1.5;">${bodyHtml}</td></tr>
+<tr><td style="padding:16px 24px;font-size:12px;color:#78716c;border-top:1px solid #e7e5e4;">${footer}</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+function itemsTableHtml(order: OrderForEmail): string {
+  const rows = order.items
+    .map(
+      (it) =>
+        `<tr><td style="padding:6px 0;">${escapeHtml(it.name)} &times; ${
+          it.quantity
+        }</td><td align="right" style="padding:6px 0;">${formatMoney(
+          it.unitPriceCents * it.quantity,
+          order.currency
+        )}</td></tr>`
+    )
+    .join("");
+  const totals: Array<[string, number | null]> = [
+    [
+      order.discountCode ? `Discount (${order.discountCode})` : "Discount",
+      order.discountCents ? -order.discountCents : null,
+    ],
+    ["Shipping", order.shippingCents],
+    ["Tax", order.taxCents],
+  ];
+  const totalRows = totals
+    .filter(([, cents]) => cents !== null)
+    .map(
+      ([label, cents]) =>
+        `<tr><td style="padding:4px 0;color:#78716c;">${label}</td><td align="right" style="padding:4px 0;color:#78716c;">${formatMoney(
+          cents!,
+          order.currency
+        )}</td></tr>`
+    )
+    .join("");
+
+  return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-top:1px solid #e7e5e4;border-bottom:1px solid #e7e5e4;margin:16px 0;">
+${rows}${totalRows}
+<tr><td style="padding:8px 0;font-weight:bold;">Total</td><td align="right" style="padding:8px 0;font-weight:bold;">${formatMoney(
+    order.amountTotal,
+    order.currency
+  )}</td></tr>
+</table>`;
+}
+
+function itemsText(order: OrderForEmail): string {
+  const lines = order.items.map(
+    (it) =>
+      `- ${it.name} x ${it.quantity}: ${formatMoney(
+        it.unitPriceCents * it.quantity,
+        order.currency
+      )}`
+  );
+  if (order.discountCents)
+    lines.push(
+      `Discount${
+        order.discountCode ? ` (${order.discountCode})` : ""
+      }: -${formatMoney(order.discountCents, order.currency)}`
+    );
+  if (order.shippingCents !== null)
+    lines.push(`Shipping: ${formatMoney(order.shippingCents, order.currency)}`);
+  if (order.taxCents !== null)
+    lines.push(`Tax: ${formatMoney(order.taxCents, order.currency)}`);
+  lines.push(`Total: ${formatMoney(order.amountTotal, order.currency)}`);
+  return lines.join("\n");
+}
+
+function greeting(order: OrderForEmail): string {
+  const first = (order.shippingName || "").trim().split(/\s+/)[0];
+  return first ? `Hi ${first},` : "Hi,";
+}
+
+/**
+ * Render one of the order templates. Pure: all data comes from the arguments,
+ * which is what lets the admin preview any template against sample data.
+ */
+export function renderOrderEmail(
+  template: EmailTemplate,
+  order: OrderForEmail,
+  branding: EmailBranding,
+  extras: EmailExtras = {}
+): RenderedEmail {
+  const number = orderNumber(order);
+  const address = addressLines(order);
+  const addressHtml = address.length
+    ? `<p style="margin:16px 0 0;"><strong>Shipping to</strong><br>${address
+        .map(escapeHtml)
+        .join("<br>")}</p>`
+    : "";
+
+  switch (template) {
+    case "order_confirmation":
+      return {
+        subject: `${branding.storeName} order ${number} confirmed`,
+        html: layout(
+          branding,
+          `<p>${escapeHtml(greeting(order))}</p>
+<p>Thanks for your order! We've received your payment and will let you know when it ships.</p>
+<p><strong>Order ${number}</strong></p>
+${itemsTableHtml(order)}${addressHtml}`
+        ),
+        text: `${greeting(order)}
+
+Thanks for your order! We've received your payment and will let you know when it ships.
+
+Order ${number}
+${itemsText(order)}
+${address.length ? `\nShipping to:\n${address.join("\n")}\n` : ""}`,
+      };
+
+    case "order_shipped": {
+      const tracking = order.trackingNumber
+        ? {
+            carrier: order.trackingCarrier,
+            number: order.trackingNumber,
+            url: trackingUrl(order.trackingCarrier, order.trackingNumber),
+          }
+        : null;
+      const trackingLabel = tracking
+        ? `${tracking.carrier ? `${tracking.carrier} ` : ""}${tracking.number}`
+        : "";
+      const trackingHtml = tracking
+        ? `<p>Tracking: ${
+            tracking.url
+              ? `<a href="${escapeHtml(tracking.url)}" style="color:${
+                  branding.primaryColor
+                };">${escapeHtml(trackingLabel)}</a>`
+              : escapeHtml(trackingLabel)
+          }</p>`
+        : "";
+      return {
+        subject: `Your ${branding.storeName} order ${number} has shipped`,
+        html: layout(
+          branding,
+          `<p>${escapeHtml(greeting(order))}</p>
+<p>Good news: order ${number} is on its way${
+            order.shippingMethod
+              ? ` via ${escapeHtml(order.shippingMethod)}`
+              : ""
+          }.</p>
+${trackingHtml}${itemsTableHtml(order)}${addressHtml}`
+        ),
+        text: `${greeting(order)}
+
+Good news: order ${number} is on its way${
+          order.shippingMethod ? ` via ${order.shippingMethod}` : ""
+        }.
+${
+  tracking
+    ? `\nTracking: ${trackingLabel}${tracking.url ? `\n${tracking.url}` : ""}\n`
+    : ""
+}
+${itemsText(order)}
+`,
+      };
+    }
+
+    case "refund_issued": {
+      const amount = formatMoney(
+        extras.refundCents ?? order.amountTotal,
+        order.currency
+      );
+      return {
+        subject: `Refund issued for ${branding.storeName} order ${number}`,
+        html: layout(
+          branding,
+          `<p>${escapeHtml(greeting(order))}</p>
+<p>We've issued a refund of <strong>${amount}</strong> for order ${number}. It usually appears on your statement within 5-10 business days.</p>`
+        ),
+        text: `${greeting(order)}
+
+We've issued a refund of ${amount} for order ${number}. It usually appears on your statement within 5-10 business days.
+`,
+      };
+    }
+
+    case "admin_new_order":
+      return {
+        subject: `New order ${number} - ${formatMoney(
+          order.amountTotal,
+          order.currency
+        )}`,
+        html: layout(
+          branding,
+          `<p>A new order was placed${
+            order.email ? ` by ${escapeHtml(order.email)}` : ""
+          }.</p>
+<p><strong>Order ${number}</strong></p>
+${itemsTableHtml(order)}${addressHtml}
+<p><a href="${escapeHtml(
+            new URL("/admin/orders", config.clientUrl).toString()
+          )}" style="color:${branding.primaryColor};">View orders</a></p>`
+        ),
+        text: `A new order was placed${order.email ? ` by ${order.email}` : ""}.
+
+Order ${number}
+${itemsText(order)}
+
+${new URL("/admin/orders", config.clientUrl).toString()}
+`,
+      };
+  }
+}
+
+export interface RecoveryEmailCheckout {
+  lines: Array<{ name: string; quantity: number; unitPriceCents: number }>;
+  currency: string;
+  recoveryUrl: string;
+}
+
+/**
+ * The abandoned checkout reminder, linking back to a rebuilt cart.
+ */
+export function renderRecoveryEmail(
+  checkout: RecoveryEmailCheckout,
+  branding: EmailBranding
+): RenderedEmail {
+  const rows = checkout.lines
+    .map(
+      (l) =>
+        `<tr><td style="padding:6px 0;">${escapeHtml(l.name)} &times; ${
+          l.quantity
+        }</td><td align="right" style="padding:6px 0;">${formatMoney(
+          l.unitPriceCents * l.quantity,
+          checkout.currency
+        )}</td></tr>`
+    )
+    .join("");
+  const text = checkout.lines
+    .map(
+      (l) =>
+        `- ${l.name} x ${l.quantity}: ${formatMoney(
+          l.unitPriceCents * l.quantity,
+          checkout.currency
+        )}`
+    )
+    .join("\n");
+
+  return {
+    subject: `You left something in your ${branding.storeName} cart`,
+    html: layout(
+      branding,
+      `<p>Hi,</p>
+<p>Your checkout didn't go through, so we saved your cart for you.</p>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-top:1px solid #e7e5e4;border-bottom:1px solid #e7e5e4;margin:16px 0;">
+${rows}
+</table>
+<p><a href="${escapeHtml(
+        checkout.recoveryUrl
+      )}" style="display:inline-block;background:${
+        branding.primaryColor
+      };color:#ffffff;padding:10px 18px;border-radius:6px;text-decoration:none;font-weight:bold;">Return to your cart</a></p>`
+    ),
+    text: `Hi,
+
+Your checkout didn't go through, so we saved your cart for you.
+
+${text}
+
+Return to your cart: ${checkout.recoveryUrl}
+`,
+  };
+}
+
+/**
+ * The customer sign-in link.
+ */
+export function renderLoginLinkEmail(
+  url: string,
+  validMinutes: number,
+  branding: EmailBranding
+): RenderedEmail {
+  return {
+    subject: `Sign in to ${branding.storeName}`,
+    html: layout(
+      branding,
+      `<p>Hi,</p>
+<p>Use the button below to sign in to your account. The link works once and expires in ${validMinutes} minutes.</p>
+<p><a href="${escapeHtml(url)}" style="display:inline-block;background:${
+        branding.primaryColor
+      };color:#ffffff;padding:10px 18px;border-radius:6px;text-decoration:none;font-weight:bold;">Sign in</a></p>
+<p style="color:#78716c;">If you didn't ask to sign in, you can ignore this email.</p>`
+    ),
+    text: `Hi,
+
+Use this link to sign in to your account. It works once and expires in ${validMinutes} minutes.
+
+${url}
+
+If you didn't ask to sign in, you can ignore this email.
+`,
+  };
+}
+
+/**
+ * The invitation to set up an admin account.
+ */
+export function renderAdminInviteEmail(
+  url: string,
+  validDays: number,
+  branding: EmailBranding
+): RenderedEmail {
+  return {
+    subject: `You're invited to the ${branding.storeName} admin`,
+    html: layout(
+      branding,
+      `<p>Hi,</p>
+<p>You've been invited to help run the ${escapeHtml(
+        branding.storeName
+      )} store. Use the button below to choose a password for your admin account. The link works once and expires in ${validDays} days.</p>
+<p><a href="${escapeHtml(url)}" style="display:inline-block;background:${
+        branding.primaryColor
+      };color:#ffffff;padding:10px 18px;border-radius:6px;text-decoration:none;font-weight:bold;">Set up your account</a></p>
+<p style="color:#78716c;">If you weren't expecting this, you can ignore this email.</p>`
+    ),
+    text: `Hi,
+
+You've been invited to help run the ${branding.storeName} store. Use this link to choose a password for your admin account. It works once and expires in ${validDays} days.
+
+${url}
+
+If you weren't expecting this, you can ignore this email.
+`,
+  };
+}
+
+/**
+ * The admin "forgot password" link.
+ */
+export function renderPasswordResetEmail(
+  url: string,
+  validMinutes: number,
+  branding: EmailBranding
+): RenderedEmail {
+  return {
+    subject: `Reset your ${branding.storeName} admin password`,
+    html: layout(
+      branding,
+      `<p>Hi,</p>
+<p>Use the button below to choose a new password for your admin account. The link works once and expires in ${validMinutes} minutes.</p>
+<p><a href="${escapeHtml(url)}" style="display:inline-block;background:${
+        branding.primaryColor
+      };color:#ffffff;padding:10px 18px;border-radius:6px;text-decoration:none;font-weight:bold;">Reset password</a></p>
+<p style="color:#78716c;">If you didn't ask for this, you can ignore this email. Your password won't change.</p>`
+    ),
+    text: `Hi,
+
+Use this link to choose a new password for your admin account. It works once and expires in ${validMinutes} minutes.
+
+${url}
+
+If you didn't ask for this, you can ignore this email. Your password won't change.
+`,
+  };
+}
+
+/**
+ * A made-up order for previewing templates before any real order exists.
+ */
+export function sampleOrder(): OrderForEmail {
+  const now = new Date();
+  return {
+    id: "sample0rder",
+    stripeSessionId: "cs_test_sample",
+    paymentIntentId: null,
+    status: "shipped",
+    customerId: null,
+    email: "customer@example.com",
+    phone: null,
+    shippingName: "Alex Customer",
+    shippingLine1: "123 Main St",
+    shippingLine2: null,
+    shippingCity: "Portland",
+    shippingState: "OR",
+    shippingPostal: "97201",
+    shippingCountry: "US",
+    amountTotal: 3347,
+    currency: "usd",
+    shippingCents: 875,
+    shippingMethod: "Standard",
+    taxCents: 0,
+    discountCents: null,
+    discountCode: null,
+    unfulfillable: false,
+    trackingCarrier: "USPS",
+    trackingNumber: "9400100000000000000000",
+    packedAt: now,
+    shippedAt: now,
+    deliveredAt: null,
+    cancelledAt: null,
+    invoiceNumber: null,
+    invoicedAt: null,
+    createdAt: now,
+    updatedAt: now,
+    items: [
+      {
+        id: "sample-item",
+        orderId: "sample0rder",
+        productId: null,
+        sku: "RE-ORIG-50",
+        name: "Red Ember Original Chili Oil",
+        unitPriceCents: 1236,
+        quantity: 2,
+        taxCents: 0,
+        discountCents: 0,
+        createdAt: now,
+      },
+    ],
+  };
+}
@@ -0,0 +1,52 @@
+import nodemailer from "nodemailer";
+import type { Transporter } from "nodemailer";
+import { config } from "../config.js";
+
+export interface MailMessage {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Settings hold recipient lists as free text ("a@x.com, b@x.com").
+export function splitRecipients(value: string): string[] {
+  return value
+    .split(/[,;\s]+/)
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+let transporter: Transporter | null = null;
+
+export function isMailConfigured(): boolean {
+  return Boolean(config.smtp);
+}
+
+function mailTransport(): Transporter {
+  if (!config.smtp) throw new Error("SMTP is not configured (set SMTP_HOST)");
+  if (!transporter) {
+    const { host, port, secure, user, pass } = config.smtp;
+    transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      ...(user ? { auth: { user, pass } } : {}),
+    });
+  }
+  return transporter;
+}
+
+/**
+ * Send an email through the configured SMTP server. Throws when SMTP isn't
+ * configured or the server rejects the message.
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await mailTransport().sendMail({
+    from: config.smtp!.from,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    ...(message.html ? { html: message.html } : {}),
+  });
+}
@@ -24,14 +24,137 @@ import type { Prisma } from "@prisma/client";
 import { config } from "./config";
 import { prisma } from "./db";
 import { ensureDefaultShippingZone } from "./seedShipping.js";
+import {
+  checkoutTaxLineItem,
+  checkoutTaxMetadata,
+  normalizeTaxDestination,
+  quoteTax,
+} from "./tax.js";
+import {
+  checkoutShippingParams,
+  quoteShipping,
+  selectShippingOption,
+  shippableCountries,
+} from "./shipping.js";
+import {
+  DISCOUNT_TYPES,
+  checkoutDiscountParams,
+  holdDiscount,
+  isDiscountType,
+  normalizeDiscountCode,
+  releaseDiscountHold,
+  resolveDiscount,
+} from "./discounts.js";
+import type { AppliedDiscount } from "./discounts.js";
+import {
+  checkoutLines,
+  checkoutStats,
+  isCheckoutStatus,
+  recordCheckoutAttempt,
+  recoveryUrl,
+  sendRecoveryEmail,
+} from "./checkouts.js";
 import authRoutes from "./auth/routes";
-import { requireAuth } from "./auth/middleware";
+import cartRoutes from "./cart/routes.js";
+import customerRoutes from "./customers/routes.js";
+import { customerForOrder, normalizeEmail } from "./customers/accounts.js";
+import {
+  CUSTOMER_ORDER_INCLUDE,
+  customerInsights,
+  parseTags,
+} from "./customers/insights.js";
+import { requireAuth, requirePermission } from "./auth/middleware";
+import { ADMIN_ROLES, hasPermission, isAdminRole } from "./auth/permissions.js";
+import {
+  AUDIT_ACTIONS,
+  auditAdminChanges,
+  type AuditAction,
+} from "./audit/log.js";
+import {
+  listAdminSessions,
+  revokeAdminSession,
+  signOutAdmins,
+} from "./auth/sessions.js";
+import {
+  checkPasswordStrength,
+  loadBreachedPasswords,
+} from "./auth/passwordPolicy.js";
+import { clearLoginFailures } from "./auth/loginProtection.js";
+import { sendAdminInvite } from "./auth/adminTokens.js";
+import { getStoreSetting } from "./settings.js";
+import { orderItemsFromCart, orderItemTotalCents } from "./orders/items.js";
+import {
+  ORDER_STATUSES,
+  INITIAL_ORDER_STATUSES,
+  isOrderStatus,
+  nextOrderStatuses,
+  changeOrderStatus,
+} from "./orders/status.js";
+import type { StatusChange, StatusChangeResult } from "./orders/status.js";
+import { REFUND_REASONS, createOrderRefund } from "./orders/refunds.js";
+import type { RefundReason } from "./orders/refunds.js";
+import {
+  HOLD_GRACE_MINUTES,
+  attachReservations,
+  releaseReservations,
+  reserveStock,
+} from "./inventory/reservations.js";
+import {
+  STOCK_MOVEMENT_REASONS,
+  isStockMovementReason,
+  lockProducts,
+  recordStockMovement,
+  setStockLevel,
+} from "./inventory/movements.js";
+import { testAlertChannels } from "./alerts/channels.js";
+import {
+  STOCK_ALERT_TYPES,
+  scheduleStockAlertCheck,
+  startStockAlertSweep,
+} from "./alerts/stock.js";
+import {
+  EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_LABELS,
+  isEmailTemplate,
+  loadEmailBranding,
+  orderNumber,
+  renderOrderEmail,
+  sampleOrder,
+} from "./email/templates.js";
+import { isEmailStatus, retryEmail, startEmailWorker } from "./email/queue.js";
+import { isMailConfigured } from "./email/transport.js";
+import {
+  STRIPE_EVENT_STATUSES,
+  isStripeEventStatus,
+  processStripeEvent,
+  recordStripeEvent,
+} from "./stripe/events.js";
+import { createStripeClient } from "./stripe/client.js";
+import { listOrders, parseOrderListQuery } from "./orders/list.js";
+import {
+  assignInvoiceNumbers,
+  canInvoice,
+  loadDocumentBranding,
+  renderInvoices,
+  renderPackingSlips,
+} from "./orders/documents.js";
+import {
+  DEFAULT_RECONCILE_DAYS,
+  MAX_RECONCILE_DAYS,
+  reconcileCheckoutSessions,
+} from "./orders/reconcile.js";
 
-const stripe = new Stripe(config.stripeSecretKey, {
-  apiVersion: "2024-06-20",
-});
+const stripe = createStripeClient();
 
 const app = express();
+if (config.trustProxy) {
+  app.set(
+    "trust proxy",
+    /^\d+$/.test(config.trustProxy)
+      ? Number(config.trustProxy)
+      : config.trustProxy
+  );
+}
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -234,154 +357,12 @@ app.post(
     }
 
     try {
-      if (event.type === "checkout.session.completed") {
-        const session = event.data.object as Stripe.Checkout.Session;
-
-        // Idempotency requirement: if order with stripeSessionId exists, do nothing.
-        const existing = await prisma.order.findUnique({
-          where: { stripeSessionId: session.id },
-        });
-        if (existing) {
-          res.json({ received: true });
-          return;
-        }
-
-        if (session.payment_status !== "paid") {
-          res.json({ received: true });
-          return;
-        }
-
-        interface CartItem {
-          productId: string;
-          quantity: number;
-        }
-
-        let cartItems: CartItem[] | null = null;
-        const rawCart = session.metadata?.items;
-        if (rawCart) {
-          try {
-            const parsed = JSON.parse(rawCart);
-            if (Array.isArray(parsed)) {
-              cartItems = parsed
-                .filter((i: any) => i && typeof i.productId === "string")
-                .map((i: any) => ({
-                  productId: i.productId,
-                  quantity: parseInt(i.quantity || "0", 10),
-                }))
-                .filter((i) => Number.isInteger(i.quantity) && i.quantity > 0);
-
-              if (cartItems.length === 0) cartItems = null;
-            }
-          } catch {
-            cartItems = null;
-          }
-        }
-
-        // Backwards-compatible single-product metadata
-        const productId = session.metadata?.productId;
-        const sku = session.metadata?.sku;
-        const metadataQty = parseInt(session.metadata?.quantity || "0", 10);
-
-        if (!cartItems) {
-          if (
-            !productId ||
-            !sku ||
-            !Number.isInteger(metadataQty) ||
-            metadataQty <= 0
-          ) {
-            // Store nothing if metadata is missing; in a real app you'd alert.
-            res.status(400).json({ error: "Missing required metadata" });
-            return;
-          }
-          cartItems = [{ productId, quantity: metadataQty }];
-        }
-
-        const lineItems = await stripe.checkout.sessions.listLineItems(
-          session.id,
-          {
-            limit: 10,
-          }
-        );
-
-        const purchasedQty = lineItems.data.reduce(
-          (sum, li) => sum + (li.quantity || 0),
-          0
-        );
-
-        // Prefer Stripe total quantity when dealing with a single item.
-        const primaryItem = cartItems[0];
-        const primaryQuantity =
-          cartItems.length === 1
-            ? purchasedQty || primaryItem.quantity
-            : primaryItem.quantity;
-
-        const customerEmail = session.customer_details?.email || null;
-        const customerPhone = session.customer_details?.phone || null;
-
-        const shipping = session.shipping_details || null;
-        const address = shipping?.address || null;
-
-        const itemsJson = JSON.stringify(
-          lineItems.data.map((li) => ({
-            description: li.description,
-            quantity: li.quantity,
-            amountSubtotal: li.amount_subtotal,
-            amountTotal: li.amount_total,
-            currency: li.currency,
-          })),
-          null,
-          0
-        );
-
-        // Decrement stock safely (won't go negative) + create order.
-        // Note: There is still an MVP oversell risk under heavy concurrency.
-        await prisma.$transaction(async (tx) => {
-          for (const item of cartItems!) {
-            const updated = await tx.product.updateMany({
-              where: {
-                id: item.productId,
-                stock: { gte: item.quantity },
-              },
-              data: {
-                stock: { decrement: item.quantity },
-              },
-            });
-
-            if (updated.count !== 1) {
-              throw new Error(`Insufficient stock for ${item.productId}`);
-            }
-          }
-
-          const primaryProduct = await tx.product.findUnique({
-            where: { id: primaryItem.productId },
-          });
-
-          await tx.order.create({
-            data: {
-              stripeSessionId: session.id,
-              paymentIntentId:
-                typeof session.payment_intent === "string"
-                  ? session.payment_intent
-                  : session.payment_intent?.toString() || null,
-              status: "PAID",
-              productId: primaryItem.productId,
-              sku: primaryProduct?.sku || "UNKNOWN",
-              quantity: primaryQuantity,
-              email: customerEmail,
-              phone: customerPhone,
-              shippingName: shipping?.name || null,
-              shippingLine1: address?.line1 || null,
-              shippingLine2: address?.line2 || null,
-              shippingCity: address?.city || null,
-              shippingState: address?.state || null,
-              shippingPostal: address?.postal_code || null,
-              shippingCountry: address?.country || null,
-              amountTotal: session.amount_total || 0,
-              currency: session.currency || "usd",
-              itemsJson,
-            },
-          });
-        });
+      await recordStripeEvent(event);
+      const result = await processStripeEvent(stripe, event.id);
+      if (!result.ok) {
+        // Stripe retries; the event can also be replayed from the admin.
+        res.status(500).json({ error: "Webhook handler failed" });
+        return;
       }
 
       res.json({ received: true });
@@ -395,9 +376,12 @@ app.post(
 );
 
 app.use(express.json());
+app.use("/api/admin", auditAdminChanges);
 
 // Auth routes
 app.use("/api/auth", authRoutes);
+app.use("/api/cart", cartRoutes);
+app.use("/api/account", customerRoutes);
 
 app.get("/api/health", (_req: Request, res: Response): void => {
   res.json({
@@ -420,6 +404,7 @@ interface Product {
   priceCents: number;
   currency: string;
   stock: number;
+  lowStockThreshold: number | null;
   description: string | null;
   imageUrl: string | null;
   heatIntensity: number;
@@ -428,6 +413,7 @@ interface Product {
   categoryId: string | null;
   variantName: string | null;
   requiresShipping: boolean;
+  taxExempt: boolean;
   weightGrams: number | null;
   weightOz: number | null;
   weightG: number | null;
@@ -457,6 +443,7 @@ function serializeProduct(product: Product): Product {
     priceCents: product.priceCents,
     currency: product.currency,
     stock: product.stock,
+    lowStockThreshold: product.lowStockThreshold ?? null,
     description: product.description || null,
     imageUrl: product.imageUrl || null,
     heatIntensity:
@@ -466,6 +453,7 @@ function serializeProduct(product: Product): Product {
     categoryId: product.categoryId || null,
     variantName: product.variantName || null,
     requiresShipping: product.requiresShipping,
+    taxExempt: product.taxExempt,
     weightGrams: product.weightGrams || null,
     weightOz: product.weightOz || null,
     weightG: product.weightG || null,
@@ -616,6 +604,42 @@ app.get("/api/product", async (_req: Request, res: Response): Promise<void> => {
   res.json(serializeProduct(fallback));
 });
 
+// Optional customer email from the cart, or the signed-in customer's.
+// Prefilled in Stripe Checkout and used for per-customer discount limits.
+async function checkoutEmail(req: Request): Promise<string | null> {
+  const email = String(req.body?.email || "").trim();
+  if (/^[^@\s]+@[^@\s]+$/.test(email)) return email;
+  if (!req.session?.customerId) return null;
+  const customer = await prisma.customer.findUnique({
+    where: { id: req.session.customerId },
+    select: { email: true },
+  });
+  return customer?.email ?? null;
+}
+
+/**
+ * Hold a use of the checkout's discount for as long as its stock hold, so
+ * usage limits count open sessions. Gives the stock back when the discount
+ * has no uses left.
+ */
+async function holdCheckoutDiscount(
+  applied: AppliedDiscount | null,
+  hold: { checkoutKey: string; sessionExpiresAt: number },
+  email: string | null
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  if (!applied) return { ok: true };
+  const held = await holdDiscount({
+    discountId: applied.discountId,
+    checkoutKey: hold.checkoutKey,
+    email,
+    expiresAt: new Date(
+      hold.sessionExpiresAt * 1000 + HOLD_GRACE_MINUTES * 60_000
+    ),
+  });
+  if (!held.ok) await releaseReservations({ checkoutKey: hold.checkoutKey });
+  return held;
+}
+
 // B) Checkout session creation
 app.post(
   "/api/checkout",
@@ -645,62 +669,121 @@ app.post(
         return;
       }
 
-      if (quantity > product.stock) {
-        res.status(400).json({ error: `Only ${product.stock} left` });
+      const destination = normalizeTaxDestination(req.body);
+      const lines = [{ productId: product.id, quantity }];
+      const quote = await quoteShipping({
+        items: lines,
+        country: destination.country,
+      });
+      if (!quote) {
+        res
+          .status(400)
+          .json({ error: `We don't ship to ${destination.country}` });
         return;
       }
 
-      const session = await stripe.checkout.sessions.create({
-        mode: "payment",
-        line_items: [
-          {
-            price_data: {
-              currency: product.currency,
-              unit_amount: product.priceCents,
-              product_data: {
-                name: product.name,
-              },
-            },
-            quantity,
-          },
-        ],
-        shipping_address_collection: {
-          allowed_countries: ["US"],
-        },
-        phone_number_collection: {
-          enabled: true,
-        },
-        shipping_options: [
-          {
-            shipping_rate_data: {
-              type: "fixed_amount",
-              fixed_amount: { amount: 499, currency: product.currency },
-              display_name: "Standard",
-              delivery_estimate: {
-                minimum: { unit: "business_day", value: 3 },
-                maximum: { unit: "business_day", value: 5 },
+      const email = await checkoutEmail(req);
+      const discount = await resolveDiscount({
+        items: lines,
+        code: req.body?.discountCode,
+        email,
+      });
+      if (!discount.ok) {
+        res.status(discount.httpStatus).json({
+          error: discount.error,
+          emailRequired: discount.emailRequired,
+        });
+        return;
+      }
+
+      const tax = await quoteTax({
+        items: lines,
+        destination,
+        lineDiscounts: discount.discount?.lines,
+      });
+      const taxLine = checkoutTaxLineItem(tax, product.currency);
+
+      // Hold the stock until the session is paid or expires.
+      const hold = await reserveStock(lines);
+      if (!hold.ok) {
+        res.status(hold.httpStatus).json({ error: hold.error });
+        return;
+      }
+      const discountHold = await holdCheckoutDiscount(
+        discount.discount,
+        hold,
+        email
+      );
+      if (!discountHold.ok) {
+        res.status(400).json({ error: discountHold.error });
+        return;
+      }
+
+      let session: Stripe.Checkout.Session;
+      try {
+        const discountParams = await checkoutDiscountParams(
+          stripe,
+          discount.discount,
+          product.currency
+        );
+        session = await stripe.checkout.sessions.create({
+          mode: "payment",
+          ...(discountParams.discounts
+            ? { discounts: discountParams.discounts }
+            : {}),
+          ...(email ? { customer_email: email } : {}),
+          line_items: [
+            {
+              price_data: {
+                currency: product.currency,
+                unit_amount: product.priceCents,
+                product_data: {
+                  name: product.name,
+                  metadata: { productId: product.id, sku: product.sku },
+                },
               },
+              quantity,
             },
+            ...(taxLine ? [taxLine] : []),
+          ],
+          ...checkoutShippingParams(quote, {
+            currency: product.currency,
+            preferredMethodId: req.body?.shippingMethodId,
+            shippingTaxBps: tax.taxShipping ? tax.rateBps : 0,
+            freeShipping: discount.discount?.freeShipping,
+          }),
+          phone_number_collection: {
+            enabled: true,
           },
-          {
-            shipping_rate_data: {
-              type: "fixed_amount",
-              fixed_amount: { amount: 1299, currency: product.currency },
-              display_name: "Express",
-              delivery_estimate: {
-                minimum: { unit: "business_day", value: 1 },
-                maximum: { unit: "business_day", value: 2 },
-              },
-            },
+          success_url: `${config.clientUrl}/success?session_id={CHECKOUT_SESSION_ID}`,
+          cancel_url: `${config.clientUrl}/cancel`,
+          expires_at: hold.sessionExpiresAt,
+          metadata: {
+            productId: product.id,
+            sku: product.sku,
+            quantity: quantity.toString(),
+            reservationKey: hold.checkoutKey,
+            ...(req.session?.customerId
+              ? { customerId: req.session.customerId }
+              : {}),
+            ...discountParams.metadata,
+            ...checkoutTaxMetadata(destination, tax),
           },
-        ],
-        success_url: `${config.clientUrl}/success?session_id={CHECKOUT_SESSION_ID}`,
-        cancel_url: `${config.clientUrl}/cancel`,
-        metadata: {
-          productId: product.id,
-          sku: product.sku,
-          quantity: quantity.toString(),
-        },
+        });
+      } catch (err) {
+        await releaseReservations({ checkoutKey: hold.checkoutKey });
+        await releaseDiscountHold(hold.checkoutKey);
+        throw err;
+      }
+      await attachReservations(hold.checkoutKey, session.id);
+      await recordCheckoutAttempt(session, {
+        items: lines,
+        subtotalCents: product.priceCents * quantity,
+        currency: product.currency,
+        email,
+        discountCode: discount.discount
+          ? discount.discount.code || discount.discount.name
+          : null,
       });
 
       res.json({ url: session.url });
@@ -768,10 +851,6 @@ app.post(
             .json({ error: `Product not found: ${item.productId}` });
           return;
         }
-        if (item.quantity > p.stock) {
-          res.status(400).json({ error: `Only ${p.stock} left of ${p.name}` });
-          return;
-        }
       }
 
       const currencies = new Set(products.map((p) => p.currency));
@@ -783,6 +862,40 @@ app.post(
       }
       const currency = products[0]?.currency || "usd";
 
+      // Tax is quoted for the destination entered in the cart.
+      const destination = normalizeTaxDestination(req.body);
+      const quote = await quoteShipping({
+        items,
+        country: destination.country,
+      });
+      if (!quote) {
+        res
+          .status(400)
+          .json({ error: `We don't ship to ${destination.country}` });
+        return;
+      }
+
+      const email = await checkoutEmail(req);
+      const discount = await resolveDiscount({
+        items,
+        code: req.body?.discountCode,
+        email,
+      });
+      if (!discount.ok) {
+        res.status(discount.httpStatus).json({
+          error: discount.error,
+          emailRequired: discount.emailRequired,
+        });
+        return;
+      }
+
+      const tax = await quoteTax({
+        items,
+        destination,
+        lineDiscounts: discount.discount?.lines,
+      });
+      const taxLine = checkoutTaxLineItem(tax, currency);
+
       const line_items = items.map((i) => {
         const p = productById.get(i.productId)!;
         return {
@@ -791,6 +904,7 @@ app.post(
             unit_amount: p.priceCents,
             product_data: {
               name: p.name,
+              metadata: { productId: p.id, sku: p.sku },
             },
           },
           quantity: i.quantity,
@@ -800,49 +914,82 @@ app.post(
       const primary = items[0];
       const primaryProduct = productById.get(primary.productId);
 
-      const session = await stripe.checkout.sessions.create({
-        mode: "payment",
-        line_items,
-        shipping_address_collection: {
-          allowed_countries: ["US"],
-        },
-        phone_number_collection: {
-          enabled: true,
-        },
-        shipping_options: [
-          {
-            shipping_rate_data: {
-              type: "fixed_amount",
-              fixed_amount: { amount: 499, currency },
-              display_name: "Standard",
-              delivery_estimate: {
-                minimum: { unit: "business_day", value: 3 },
-                maximum: { unit: "business_day", value: 5 },
-              },
-            },
+      // Hold the stock until the session is paid or expires.
+      const hold = await reserveStock(items);
+      if (!hold.ok) {
+        res.status(hold.httpStatus).json({ error: hold.error });
+        return;
+      }
+      const discountHold = await holdCheckoutDiscount(
+        discount.discount,
+        hold,
+        email
+      );
+      if (!discountHold.ok) {
+        res.status(400).json({ error: discountHold.error });
+        return;
+      }
+
+      let session: Stripe.Checkout.Session;
+      try {
+        const discountParams = await checkoutDiscountParams(
+          stripe,
+          discount.discount,
+          currency
+        );
+        session = await stripe.checkout.sessions.create({
+          mode: "payment",
+          line_items: [...line_items, ...(taxLine ? [taxLine] : [])],
+          ...(discountParams.discounts
+            ? { discounts: discountParams.discounts }
+            : {}),
+          ...(email ? { customer_email: email } : {}),
+          ...checkoutShippingParams(quote, {
+            currency,
+            preferredMethodId: req.body?.shippingMethodId,
+            shippingTaxBps: tax.taxShipping ? tax.rateBps : 0,
+            freeShipping: discount.discount?.freeShipping,
+          }),
+          phone_number_collection: {
+            enabled: true,
           },
-          {
-            shipping_rate_data: {
-              type: "fixed_amount",
-              fixed_amount: { amount: 1299, currency },
-              display_name: "Express",
-              delivery_estimate: {
-                minimum: { unit: "business_day", value: 1 },
-                maximum: { unit: "business_day", value: 2 },
-              },
-            },
+          success_url: `${config.clientUrl}/success?session_id={CHECKOUT_SESSION_ID}`,
+          cancel_url: `${config.clientUrl}/cancel`,
+          expires_at: hold.sessionExpiresAt,
+          metadata: {
+            // Backwards compatibility fields
+            productId: primary.productId,
+            sku: primaryProduct?.sku || "UNKNOWN",
+            quantity: primary.quantity.toString(),
+            // Cart payload
+            items: JSON.stringify(items),
+            reservationKey: hold.checkoutKey,
+            ...(req.session?.customerId
+              ? { customerId: req.session.customerId }
+              : {}),
+            ...discountParams.metadata,
+            ...checkoutTaxMetadata(destination, tax),
           },
-        ],
-        success_url: `${config.clientUrl}/success?session_id={CHECKOUT_SESSION_ID}`,
-        cancel_url: `${config.clientUrl}/cancel`,
-        metadata: {
-          // Backwards compatibility fields
-          productId: primary.productId,
-          sku: primaryProduct?.sku || "UNKNOWN",
-          quantity: primary.quantity.toString(),
-          // Cart payload
-          items: JSON.stringify(items),
-        },
+        });
+      } catch (err) {
+        await releaseReservations({ checkoutKey: hold.checkoutKey });
+        await releaseDiscountHold(hold.checkoutKey);
+        throw err;
+      }
+      await attachReservations(hold.checkoutKey, session.id);
+      await recordCheckoutAttempt(session, {
+        items,
+        subtotalCents: items.reduce(
+          (sum, i) =>
+            sum + productById.get(i.productId)!.priceCents * i.quantity,
+          0
+        ),
+        currency,
+        email,
+        discountCode: discount.discount
+          ? discount.discount.code || discount.discount.name
+          : null,
+        recoveryToken: req.body?.recoveryToken,
       });
 
       res.json({ url: session.url });
@@ -859,6 +1006,7 @@ app.post(
 app.get(
   "/api/admin/inventory",
   requireAuth,
+  requirePermission("inventory:read"),
   async (_req: Request, res: Response): Promise<void> => {
     const products = await prisma.product.findMany({
       orderBy: { createdAt: "asc" },
@@ -891,6 +1039,7 @@ app.get(
 app.get(
   "/api/admin/categories",
   requireAuth,
+  requirePermission("inventory:read"),
   async (_req: Request, res: Response): Promise<void> => {
     const categories = await prisma.productCategory.findMany({
       orderBy: { createdAt: "asc" },
@@ -902,6 +1051,7 @@ app.get(
 app.post(
   "/api/admin/categories",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const name = (req.body?.name || "").trim();
     const handle = (req.body?.handle || "").trim();
@@ -931,6 +1081,7 @@ app.post(
 app.put(
   "/api/admin/categories/:id",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const id = req.params.id as string;
     const name = (req.body?.name || "").trim();
@@ -964,6 +1115,7 @@ app.put(
 app.delete(
   "/api/admin/categories/:id",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const id = req.params.id as string;
 
@@ -1015,6 +1167,7 @@ async function ensureDefaultVariantTypes(): Promise<void> {
 app.get(
   "/api/admin/variant-types",
   requireAuth,
+  requirePermission("inventory:read"),
   async (_req: Request, res: Response): Promise<void> => {
     await ensureDefaultVariantTypes();
     const types = await prisma.productVariantType.findMany({
@@ -1034,6 +1187,7 @@ app.get(
 app.post(
   "/api/admin/variant-types",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const { name, displayOrder } = req.body;
 
@@ -1068,6 +1222,7 @@ app.post(
 app.delete(
   "/api/admin/variant-types/:typeId",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const typeId = String((req.params as any).typeId || "");
     const found = await prisma.productVariantType.findUnique({
@@ -1091,6 +1246,7 @@ app.delete(
 app.get(
   "/api/admin/categories/:categoryId/variant-types",
   requireAuth,
+  requirePermission("inventory:read"),
   async (req: Request, res: Response): Promise<void> => {
     const categoryId = req.params.categoryId as string;
     const categoryScope = `category:${categoryId}`;
@@ -1112,6 +1268,7 @@ app.get(
 app.post(
   "/api/admin/categories/:categoryId/variant-types",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const categoryId = req.params.categoryId as string;
     const { name, displayOrder } = req.body;
@@ -1137,6 +1294,7 @@ app.post(
 app.delete(
   "/api/admin/categories/:categoryId/variant-types/:typeId",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const typeId = String((req.params as any).typeId || "");
     const found = await prisma.productVariantType.findUnique({
@@ -1161,6 +1319,7 @@ app.delete(
 app.put(
   "/api/admin/products/:productId/variant-values",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     try {
       const productId = req.params.productId as string;
@@ -1213,6 +1372,7 @@ app.put(
 app.get(
   "/api/admin/categories/:categoryId/images",
   requireAuth,
+  requirePermission("inventory:read"),
   async (req: Request, res: Response): Promise<void> => {
     const categoryId = req.params.categoryId as string;
     const images = await prisma.productImage.findMany({
@@ -1229,6 +1389,7 @@ app.get(
 app.post(
   "/api/admin/categories/:categoryId/images",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const categoryId = req.params.categoryId as string;
     const mediaId = (req.body?.mediaId || "").trim();
@@ -1280,6 +1441,7 @@ app.post(
 app.put(
   "/api/admin/categories/:categoryId/images/:id",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const id = req.params.id as string;
     const categoryId = req.params.categoryId as string;
@@ -1305,6 +1467,7 @@ app.put(
 app.delete(
   "/api/admin/categories/:categoryId/images/:id",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const id = req.params.id as string;
     const categoryId = req.params.categoryId as string;
@@ -1324,6 +1487,7 @@ app.delete(
 app.post(
   "/api/admin/categories/:categoryId/images/reorder",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const categoryId = req.params.categoryId as string;
     const updates = req.body?.updates || [];
@@ -1356,6 +1520,7 @@ app.post(
 app.get(
   "/api/admin/media",
   requireAuth,
+  requirePermission("products:write"),
   async (_req: Request, res: Response): Promise<void> => {
     const media = await prisma.media.findMany({
       orderBy: { createdAt: "desc" },
@@ -1391,6 +1556,7 @@ app.get(
 app.post(
   "/api/admin/media",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const url = (req.body?.url || "").trim();
     const filename = (req.body?.filename || "").trim() || null;
@@ -1428,6 +1594,7 @@ app.post(
 app.get(
   "/api/admin/products/:productId/images",
   requireAuth,
+  requirePermission("inventory:read"),
   async (req: Request, res: Response): Promise<void> => {
     const productId = req.params.productId as string;
     const images = await prisma.productImage.findMany({
@@ -1442,6 +1609,7 @@ app.get(
 app.post(
   "/api/admin/products/:productId/images",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const productId = req.params.productId as string;
     const mediaId = (req.body?.mediaId || "").trim();
@@ -1506,6 +1674,7 @@ app.post(
 app.patch(
   "/api/admin/products/:productId/images/:id",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const id = req.params.id as string;
     const productId = req.params.productId as string;
@@ -1542,6 +1711,7 @@ app.patch(
 app.delete(
   "/api/admin/products/:productId/images/:id",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const id = req.params.id as string;
     const productId = req.params.productId as string;
@@ -1560,6 +1730,7 @@ app.delete(
 app.post(
   "/api/admin/products/:productId/images/reorder",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const productId = req.params.productId as string;
     const imageIds = req.body?.imageIds || [];
@@ -1591,6 +1762,7 @@ app.post(
 app.get(
   "/api/admin/products",
   requireAuth,
+  requirePermission("inventory:read"),
   async (_req: Request, res: Response): Promise<void> => {
     const products = await prisma.product.findMany({
       orderBy: { createdAt: "asc" },
@@ -1608,6 +1780,7 @@ app.get(
 app.post(
   "/api/admin/products",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const body = req.body || {};
     const id = (body.id || "").trim();
@@ -1650,6 +1823,19 @@ app.post(
       res.status(400).json({ error: "stock must be an integer >= 0" });
       return;
     }
+    const lowStockThreshold =
+      body.lowStockThreshold === undefined || body.lowStockThreshold === null
+        ? null
+        : Number(body.lowStockThreshold);
+    if (
+      lowStockThreshold !== null &&
+      (!Number.isInteger(lowStockThreshold) || lowStockThreshold < 0)
+    ) {
+      res
+        .status(400)
+        .json({ error: "lowStockThreshold must be an integer >= 0" });
+      return;
+    }
     if (heatIntensity !== undefined) {
       if (
         !Number.isInteger(heatIntensity) ||
@@ -1669,37 +1855,54 @@ app.post(
       return;
     }
 
-    const created = await prisma.product.create({
-      data: {
-        id,
-        name,
-        sku,
-        currency,
-        priceCents,
-        stock,
-        description:
-          typeof body.description === "string" ? body.description : null,
-        imageUrl: typeof body.imageUrl === "string" ? body.imageUrl : null,
-        heatIntensity: heatIntensity === undefined ? undefined : heatIntensity,
-        heatProfile,
-        heatProfileDescriptions,
-        categoryId:
-          typeof body.categoryId === "string" ? body.categoryId : null,
-        variantName:
-          typeof body.variantName === "string" ? body.variantName : null,
-        requiresShipping:
-          typeof body.requiresShipping === "boolean"
-            ? body.requiresShipping
-            : true,
-        weightGrams: Number.isInteger(body.weightGrams)
-          ? body.weightGrams
-          : null,
-        lengthMm: Number.isInteger(body.lengthMm) ? body.lengthMm : null,
-        widthMm: Number.isInteger(body.widthMm) ? body.widthMm : null,
-        heightMm: Number.isInteger(body.heightMm) ? body.heightMm : null,
-        active: typeof body.active === "boolean" ? body.active : true,
-      },
+    const created = await prisma.$transaction(async (tx) => {
+      const product = await tx.product.create({
+        data: {
+          id,
+          name,
+          sku,
+          currency,
+          priceCents,
+          // Opening stock is booked through the ledger below.
+          stock: 0,
+          lowStockThreshold,
+          description:
+            typeof body.description === "string" ? body.description : null,
+          imageUrl: typeof body.imageUrl === "string" ? body.imageUrl : null,
+          heatIntensity:
+            heatIntensity === undefined ? undefined : heatIntensity,
+          heatProfile,
+          heatProfileDescriptions,
+          categoryId:
+            typeof body.categoryId === "string" ? body.categoryId : null,
+          variantName:
+            typeof body.variantName === "string" ? body.variantName : null,
+          requiresShipping:
+            typeof body.requiresShipping === "boolean"
+              ? body.requiresShipping
+              : true,
+          taxExempt: body.taxExempt === true,
+          weightGrams: Number.isInteger(body.weightGrams)
+            ? body.weightGrams
+            : null,
+          lengthMm: Number.isInteger(body.lengthMm) ? body.lengthMm : null,
+          widthMm: Number.isInteger(body.widthMm) ? body.widthMm : null,
+          heightMm: Number.isInteger(body.heightMm) ? body.heightMm : null,
+          active: typeof body.active === "boolean" ? body.active : true,
+        },
+      });
+      if (stock === 0) return product;
+
+      await recordStockMovement(tx, {
+        productId: product.id,
+        delta: stock,
+        reason: "count",
+        adminUserId: req.user?.userId,
+        note: "Initial stock",
+      });
+      return tx.product.findUniqueOrThrow({ where: { id: product.id } });
     });
+    scheduleStockAlertCheck([created.id]);
 
     res.status(201).json(serializeProduct(created));
   }
@@ -1708,6 +1911,7 @@ app.post(
 app.put(
   "/api/admin/products/:id",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const id = req.params.id as string;
     const body = req.body || {};
@@ -1749,6 +1953,7 @@ app.put(
     if (typeof body.bestSeller === "boolean") data.bestSeller = body.bestSeller;
     if (typeof body.requiresShipping === "boolean")
       data.requiresShipping = body.requiresShipping;
+    if (typeof body.taxExempt === "boolean") data.taxExempt = body.taxExempt;
 
     if (body.heatIntensity !== undefined) {
       const v = Number(body.heatIntensity);
@@ -1770,13 +1975,56 @@ app.put(
       data.priceCents = v;
     }
 
+    if (body.lowStockThreshold === null) {
+      data.lowStockThreshold = null;
+    } else if (body.lowStockThreshold !== undefined) {
+      const v = Number(body.lowStockThreshold);
+      if (!Number.isInteger(v) || v < 0) {
+        res
+          .status(400)
+          .json({ error: "lowStockThreshold must be an integer >= 0" });
+        return;
+      }
+      data.lowStockThreshold = v;
+    }
+
+    // Stock edits are booked as a movement, not written directly.
+    let stock: number | undefined;
     if (body.stock !== undefined) {
       const v = Number(body.stock);
       if (!Number.isInteger(v) || v < 0) {
         res.status(400).json({ error: "stock must be an integer >= 0" });
         return;
       }
-      data.stock = v;
+      stock = v;
+    }
+    // Content editors save the whole product form, stock included; only
+    // reject it when they actually changed the stock level.
+    if (
+      stock !== undefined &&
+      !hasPermission(req.user?.role || "", "inventory:write")
+    ) {
+      const current = await prisma.product.findUnique({
+        where: { id },
+        select: { stock: true },
+      });
+      if (current && current.stock !== stock) {
+        res.status(403).json({
+          error: "You don't have permission to change stock levels",
+          permission: "inventory:write",
+        });
+        return;
+      }
+      stock = undefined;
+    }
+    const stockReason = body.stockReason ?? "adjustment";
+    if (!isStockMovementReason(stockReason) || stockReason === "sale") {
+      res.status(400).json({
+        error: `stockReason must be one of ${STOCK_MOVEMENT_REASONS.filter(
+          (r) => r !== "sale"
+        ).join(", ")}`,
+      });
+      return;
     }
 
     for (const key of ["weightGrams", "lengthMm", "widthMm", "heightMm"]) {
@@ -1792,7 +2040,20 @@ app.put(
       }
     }
 
-    const updated = await prisma.product.update({ where: { id }, data });
+    const updated = await prisma.$transaction(async (tx) => {
+      const product = await tx.product.update({ where: { id }, data });
+      if (stock === undefined) return product;
+
+      await setStockLevel(tx, {
+        productId: id,
+        stock,
+        reason: stockReason,
+        adminUserId: req.user?.userId,
+        note: typeof body.stockNote === "string" ? body.stockNote.trim() : null,
+      });
+      return tx.product.findUniqueOrThrow({ where: { id } });
+    });
+    scheduleStockAlertCheck([id]);
     res.json(serializeProduct(updated));
   }
 );
@@ -1800,10 +2061,13 @@ app.put(
 app.delete(
   "/api/admin/products/:id",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const id = req.params.id as string;
 
-    const orderCount = await prisma.order.count({ where: { productId: id } });
+    const orderCount = await prisma.orderItem.count({
+      where: { productId: id },
+    });
     if (orderCount > 0) {
       res
         .status(400)
@@ -1816,10 +2080,174 @@ app.delete(
   }
 );
 
+function parseDateParam(value: unknown): Date | null | undefined {
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+app.get(
+  "/api/admin/products/:id/stock-history",
+  requireAuth,
+  requirePermission("inventory:read"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const from = parseDateParam(req.query.from);
+      const to = parseDateParam(req.query.to);
+      if (from === null || to === null) {
+        res.status(400).json({ error: "from and to must be valid dates" });
+        return;
+      }
+      const limit = Math.min(
+        Math.max(parseInt(String(req.query.limit || "200"), 10) || 200, 1),
+        1000
+      );
+
+      const product = await prisma.product.findUnique({
+        where: { id },
+        select: { id: true, name: true, sku: true, stock: true },
+      });
+      if (!product) {
+        res.status(404).json({ error: "Product not found" });
+        return;
+      }
+
+      const range: Prisma.InventoryMovementWhereInput = {
+        productId: id,
+        createdAt: {
+          ...(from ? { gte: from } : {}),
+          ...(to ? { lt: to } : {}),
+        },
+      };
+      const [movements, byReason, before, last] = await Promise.all([
+        prisma.inventoryMovement.findMany({
+          where: range,
+          orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+          take: limit,
+          include: {
+            adminUser: { select: { id: true, email: true, name: true } },
+          },
+        }),
+        prisma.inventoryMovement.groupBy({
+          by: ["reason"],
+          where: range,
+          _sum: { delta: true },
+        }),
+        from
+          ? prisma.inventoryMovement.findFirst({
+              where: { productId: id, createdAt: { lt: from } },
+              orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+              select: { stockAfter: true },
+            })
+          : null,
+        prisma.inventoryMovement.findFirst({
+          where: range,
+          orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+          select: { stockAfter: true },
+        }),
+      ]);
+
+      // Opening + the sum of deltas equals closing for a consistent ledger;
+      // a count movement shows where it didn't.
+      const openingStock = before?.stockAfter ?? 0;
+      res.json({
+        product,
+        movements,
+        summary: {
+          openingStock,
+          closingStock: last?.stockAfter ?? openingStock,
+          byReason: Object.fromEntries(
+            byReason.map((r) => [r.reason, r._sum.delta || 0])
+          ),
+        },
+      });
+    } catch (error) {
+      console.error("Get stock history error:", error);
+      res.status(500).json({ error: "Failed to fetch stock history" });
+    }
+  }
+);
+
+// Book a stock change: a signed `delta`, or an absolute `stock` for counts.
+app.post(
+  "/api/admin/products/:id/stock-movements",
+  requireAuth,
+  requirePermission("inventory:write"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const body = req.body || {};
+
+      const reason = body.reason;
+      if (!isStockMovementReason(reason) || reason === "sale") {
+        res.status(400).json({
+          error: `reason must be one of ${STOCK_MOVEMENT_REASONS.filter(
+            (r) => r !== "sale"
+          ).join(", ")}`,
+        });
+        return;
+      }
+      const note = typeof body.note === "string" ? body.note.trim() : null;
+
+      let stock: number | null;
+      if (reason === "count") {
+        const counted = Number(body.stock);
+        if (!Number.isInteger(counted) || counted < 0) {
+          res.status(400).json({ error: "stock must be an integer >= 0" });
+          return;
+        }
+        stock = await prisma.$transaction((tx) =>
+          setStockLevel(tx, {
+            productId: id,
+            stock: counted,
+            reason,
+            adminUserId: req.user?.userId,
+            note,
+          })
+        );
+      } else {
+        const delta = Number(body.delta);
+        if (!Number.isInteger(delta) || delta === 0) {
+          res.status(400).json({ error: "delta must be a non-zero integer" });
+          return;
+        }
+        stock = await prisma.$transaction((tx) =>
+          recordStockMovement(tx, {
+            productId: id,
+            delta,
+            reason,
+            adminUserId: req.user?.userId,
+            note,
+          })
+        );
+        if (stock === null) {
+          const exists = await prisma.product.count({ where: { id } });
+          if (exists) {
+            res.status(400).json({ error: "Stock can't go below zero" });
+            return;
+          }
+        }
+      }
+
+      if (stock === null) {
+        res.status(404).json({ error: "Product not found" });
+        return;
+      }
+      scheduleStockAlertCheck([id]);
+      res.status(201).json({ productId: id, stock });
+    } catch (error) {
+      console.error("Create stock movement error:", error);
+      res.status(500).json({ error: "Failed to record stock movement" });
+    }
+  }
+);
+
 // Admin: upload an image and get back a URL usable in imageUrl
 app.post(
   "/api/admin/upload",
   requireAuth,
+  requirePermission("products:write"),
   upload.single("file"),
   async (req: Request, res: Response): Promise<void> => {
     if (!req.file) {
@@ -1889,6 +2317,7 @@ app.post(
 app.delete(
   "/api/admin/media/:key(*)",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const key = Array.isArray(req.params.key)
       ? req.params.key[0]
@@ -1932,6 +2361,7 @@ app.delete(
 app.get(
   "/api/admin/media",
   requireAuth,
+  requirePermission("products:write"),
   async (req: Request, res: Response): Promise<void> => {
     const folder = req.query.folder as string | undefined;
 
@@ -1978,59 +2408,21 @@ app.get(
   }
 );
 
-type ItemsJsonEntry = {
-  productId?: string;
-  sku?: string;
-  description?: string;
-  quantity?: number;
-  amountSubtotal?: number;
-  amountTotal?: number;
-  currency?: string;
-};
-
-function safeParseItemsJson(itemsJson: string): ItemsJsonEntry[] {
-  try {
-    const parsed = JSON.parse(itemsJson || "[]");
-    return Array.isArray(parsed) ? (parsed as ItemsJsonEntry[]) : [];
-  } catch {
-    return [];
-  }
-}
-
-function adminOrderDto(o: any): any {
-  const rawItems = safeParseItemsJson(String(o.itemsJson || "[]"));
-  const items = rawItems
-    .map((it, idx) => {
-      const qty = Math.max(1, Number(it?.quantity) || 1);
-      const lineTotal = Number(it?.amountSubtotal ?? it?.amountTotal ?? 0) || 0;
-      const unit = Math.round(lineTotal / qty);
-      const name = String(it?.description || "Item");
-      const productId = String(it?.productId || it?.sku || name);
-      return {
-        id: `${o.id}_${idx}`,
-        orderId: o.id,
-        productId,
-        productName: name,
-        quantity: qty,
-        priceCents: unit,
-      };
-    })
-    .filter((it) => it.quantity > 0);
-
-  // Fallback for legacy/broken itemsJson
-  const fallbackItems =
-    items.length > 0
-      ? items
-      : [
-          {
-            id: `${o.id}_0`,
-            orderId: o.id,
-            productId: o.productId,
-            productName: o.product?.name || null,
-            quantity: o.quantity,
-            priceCents: o.product?.priceCents || 0,
-          },
-        ];
+type OrderWithItems = Prisma.OrderGetPayload<{ include: { items: true } }>;
+
+function adminOrderDto(o: OrderWithItems): any {
+  const items = o.items.map((it) => ({
+    id: it.id,
+    orderId: o.id,
+    productId: it.productId,
+    sku: it.sku,
+    productName: it.name,
+    quantity: it.quantity,
+    priceCents: it.unitPriceCents,
+    taxCents: it.taxCents,
+    discountCents: it.discountCents,
+    totalCents: orderItemTotalCents(it),
+  }));
 
   return {
     id: o.id,
@@ -2047,118 +2439,59 @@ function adminOrderDto(o: any): any {
       state: o.shippingState,
       postal: o.shippingPostal,
       country: o.shippingCountry,
+      method: o.shippingMethod,
+      cents: o.shippingCents,
     },
+    taxCents: o.taxCents,
+    discountCents: o.discountCents,
+    discountCode: o.discountCode,
+    unfulfillable: o.unfulfillable,
     total: o.amountTotal,
     totalCents: o.amountTotal,
     currency: o.currency,
-    itemsJson: o.itemsJson,
-    items: fallbackItems,
-  };
-}
-
-async function calculateShippingInternal(params: {
-  items: Array<{ productId: string; quantity: number }>;
-  country: string;
-}): Promise<{
-  shippingCents: number;
-  totalWeightG: number;
-  freeShippingMin: number | null;
-  zoneName: string;
-}> {
-  const { items, country } = params;
-  const productIds = items.map((i) => i.productId);
-  const products = await prisma.product.findMany({
-    where: { id: { in: productIds } },
-  });
-  const productMap = new Map(products.map((p) => [p.id, p]));
-
-  let totalWeightG = 0;
-  for (const item of items) {
-    const product = productMap.get(item.productId);
-    if (!product) continue;
-
-    const qty = Number(item.quantity) || 1;
-    let weightG = 0;
-    if (product.weightG) {
-      weightG = product.weightG;
-    } else if (product.weightOz) {
-      weightG = product.weightOz * 28.3495;
-    } else if (product.weightGrams) {
-      weightG = product.weightGrams;
-    } else if (product.volumeMl) {
-      weightG = product.volumeMl;
-    }
-    totalWeightG += weightG * qty;
-  }
-
-  if (totalWeightG === 0) {
-    totalWeightG = 250;
-  }
-
-  const targetCountry = (country || "US").toUpperCase();
-  const zone = await prisma.shippingZone.findFirst({
-    where: {
-      enabled: true,
-      countries: { has: targetCountry },
-    },
-    include: {
-      weightTiers: {
-        orderBy: { minWeightG: "asc" },
-      },
-    },
-  });
-
-  let shippingCents = 0;
-  let freeShippingMin: number | null = null;
-  let zoneName = "Default";
-
-  if (zone) {
-    zoneName = zone.name;
-    freeShippingMin = zone.freeShippingMin;
-    const tier = zone.weightTiers.find(
-      (t) => totalWeightG >= t.minWeightG && totalWeightG <= t.maxWeightG
-    );
-    if (tier) {
-      shippingCents = tier.rateCents;
-    } else {
-      const maxTier = zone.weightTiers[zone.weightTiers.length - 1];
-      shippingCents = maxTier?.rateCents || 0;
-    }
-  } else {
-    if (totalWeightG <= 250) {
-      shippingCents = 450;
-    } else if (totalWeightG <= 750) {
-      shippingCents = 875;
-    } else {
-      shippingCents = 1200;
-    }
-    freeShippingMin = 7500;
-  }
-
-  return {
-    shippingCents,
-    totalWeightG: Math.round(totalWeightG),
-    freeShippingMin,
-    zoneName,
+    nextStatuses: nextOrderStatuses(o.status),
+    fulfillment: {
+      trackingCarrier: o.trackingCarrier,
+      trackingNumber: o.trackingNumber,
+      packedAt: o.packedAt,
+      shippedAt: o.shippedAt,
+      deliveredAt: o.deliveredAt,
+      cancelledAt: o.cancelledAt,
+    },
+    items,
   };
 }
 
+// Admin: one page of orders matching the filters in the query string (see
+// parseOrderListQuery), with the count and value of every match.
 app.get(
   "/api/admin/orders",
   requireAuth,
-  async (_req: Request, res: Response): Promise<void> => {
-    const orders = await prisma.order.findMany({
-      orderBy: { createdAt: "desc" },
-      include: { product: true },
-    });
-
-    res.json(orders.map(adminOrderDto));
+  requirePermission("orders:read"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const parsed = parseOrderListQuery(req.query);
+      if (!parsed.ok) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+      const page = await listOrders(parsed.value);
+      res.json({
+        orders: page.orders.map(adminOrderDto),
+        nextCursor: page.nextCursor,
+        totals: page.totals,
+      });
+    } catch (error) {
+      console.error("List orders error:", error);
+      res.status(500).json({ error: "Failed to load orders" });
+    }
   }
 );
 
 app.post(
   "/api/admin/orders/manual",
   requireAuth,
+  requirePermission("orders:write"),
   async (req: Request, res: Response): Promise<void> => {
     try {
       const body = req.body || {};
@@ -2250,77 +2583,101 @@ app.post(
       }
 
       let shippingCents = 0;
-      let freeShippingMin: number | null = null;
+      let shippingMethod: string | null = null;
 
       const overrideShipping = body.shippingCents;
-      if (!requiresShipping) {
-        shippingCents = 0;
-      } else if (
+      const hasOverride =
         overrideShipping !== undefined &&
         overrideShipping !== null &&
-        overrideShipping !== ""
-      ) {
-        const v = Number(overrideShipping);
-        if (!Number.isFinite(v) || v < 0) {
+        overrideShipping !== "";
+      if (requiresShipping) {
+        const quote = await quoteShipping({ items, country });
+        const methodId = String(body.shippingMethodId || "").trim() || null;
+        const option = quote ? selectShippingOption(quote, methodId) : null;
+        if (methodId && !option) {
           res
             .status(400)
-            .json({ error: "shippingCents must be a number >= 0" });
+            .json({ error: `Shipping method not available for ${country}` });
           return;
         }
-        shippingCents = Math.round(v);
-      } else {
-        const calc = await calculateShippingInternal({ items, country });
-        shippingCents = calc.shippingCents;
-        freeShippingMin = calc.freeShippingMin;
-      }
-
-      if (freeShippingMin && subtotalCents >= freeShippingMin) {
-        shippingCents = 0;
+        if (!option && !hasOverride) {
+          res.status(400).json({ error: `No shipping zone covers ${country}` });
+          return;
+        }
+        shippingMethod = option?.name ?? null;
+        shippingCents = option?.shippingCents ?? 0;
+
+        if (hasOverride) {
+          const v = Number(overrideShipping);
+          if (!Number.isFinite(v) || v < 0) {
+            res
+              .status(400)
+              .json({ error: "shippingCents must be a number >= 0" });
+            return;
+          }
+          shippingCents = Math.round(v);
+        }
       }
 
-      const amountTotal = subtotalCents + shippingCents;
-      const status = String(body.status || "pending").trim();
+      const tax = await quoteTax({
+        items,
+        destination: normalizeTaxDestination(
+          requiresShipping
+            ? { country, state: shippingState, postalCode: shippingPostal }
+            : { country }
+        ),
+        shippingCents,
+      });
 
-      const primaryItem = items[0];
-      const primaryProduct = productMap.get(primaryItem.productId)!;
+      const amountTotal = subtotalCents + shippingCents + tax.taxCents;
+      const status = String(body.status || "pending")
+        .trim()
+        .toLowerCase();
+      if (!isOrderStatus(status) || !INITIAL_ORDER_STATUSES.includes(status)) {
+        res.status(400).json({
+          error: `status must be one of ${INITIAL_ORDER_STATUSES.join(", ")}`,
+        });
+        return;
+      }
 
-      const itemsJson = JSON.stringify(
-        items.map((it) => {
-          const p = productMap.get(it.productId)!;
-          const lineTotal = (p.priceCents || 0) * it.quantity;
-          return {
-            productId: p.id,
-            sku: p.sku,
-            description: p.name,
-            quantity: it.quantity,
-            amountSubtotal: lineTotal,
-            amountTotal: lineTotal,
-            currency,
-          };
-        }),
-        null,
-        0
+      const orderItems = orderItemsFromCart(items, productMap).map(
+        (it, idx) => ({ ...it, taxCents: tax.lines[idx]?.taxCents ?? 0 })
       );
 
       const created = await prisma.$transaction(async (tx) => {
-        for (const it of items) {
-          const updated = await tx.product.updateMany({
-            where: { id: it.productId, stock: { gte: it.quantity } },
-            data: { stock: { decrement: it.quantity } },
-          });
-          if (updated.count !== 1) {
-            throw new Error(`Insufficient stock for ${it.productId}`);
+        // Check stock under the lock, before anything is written, so a
+        // shortfall can be answered like checkout's.
+        await lockProducts(tx, productIds);
+        const stocked = await tx.product.findMany({
+          where: { id: { in: productIds } },
+          select: { id: true, name: true, stock: true },
+        });
+        for (const product of stocked) {
+          const requested = items
+            .filter((it) => it.productId === product.id)
+            .reduce((sum, it) => sum + it.quantity, 0);
+          if (requested > product.stock) {
+            return {
+              ok: false as const,
+              error:
+                product.stock <= 0
+                  ? `${product.name} is sold out`
+                  : `Only ${product.stock} left of ${product.name}`,
+            };
           }
         }
 
-        return await tx.order.create({
+        const customerId = await customerForOrder(tx, {
+          email: customerEmail,
+          name: customerName || null,
+          phone: customerPhone || null,
+        });
+        const order = await tx.order.create({
           data: {
             stripeSessionId: `manual_${randomUUID()}`,
             paymentIntentId: null,
             status,
-            productId: primaryItem.productId,
-            sku: primaryProduct.sku || "UNKNOWN",
-            quantity: primaryItem.quantity,
+            customerId,
             email: customerEmail,
             phone: customerPhone || null,
             shippingName: customerName || null,
@@ -2332,450 +2689,2344 @@ app.post(
             shippingCountry: requiresShipping ? country : null,
             amountTotal,
             currency,
-            itemsJson,
+            shippingCents: requiresShipping ? shippingCents : null,
+            shippingMethod,
+            taxCents: tax.taxCents,
+            items: { createMany: { data: orderItems } },
+            events: {
+              create: {
+                type: "created",
+                toStatus: status,
+                note: "Manual order",
+                adminUserId: req.user?.userId || null,
+              },
+            },
           },
-          include: { product: true },
+          include: { items: true },
         });
+
+        for (const it of items) {
+          const stock = await recordStockMovement(tx, {
+            productId: it.productId,
+            delta: -it.quantity,
+            reason: "sale",
+            orderId: order.id,
+            adminUserId: req.user?.userId,
+          });
+          // Can't happen with the products locked and checked above.
+          if (stock === null) {
+            throw new Error(`Insufficient stock for ${it.productId}`);
+          }
+        }
+
+        return { ok: true as const, order };
       });
+      if (!created.ok) {
+        res.status(400).json({ error: created.error });
+        return;
+      }
+      scheduleStockAlertCheck(productIds);
 
-      res.status(201).json(adminOrderDto(created));
+      res.status(201).json(adminOrderDto(created.order));
     } catch (err) {
-      const msg =
-        err instanceof Error ? err.message : "Failed to create manual order";
-      res.status(500).json({ error: msg });
+      console.error("Create manual order error:", err);
+      res.status(500).json({ error: "Failed to create manual order" });
     }
   }
 );
 
-app.get(
-  "/api/admin/customers",
-  requireAuth,
-  async (_req: Request, res: Response): Promise<void> => {
-    const groups = await prisma.order.groupBy({
-      by: ["email"],
-      where: {
-        email: { not: null },
-      },
-      _count: { _all: true },
-      _sum: { amountTotal: true },
-      _min: { createdAt: true },
-      _max: { createdAt: true },
-      orderBy: {
-        _max: { createdAt: "desc" },
-      },
-    });
-
-    const customers = groups
-      .filter((g) => typeof g.email === "string" && g.email.trim().length > 0)
-      .map((g) => {
-        const email = (g.email as string).trim();
-        const createdAt = g._min.createdAt
-          ? new Date(g._min.createdAt).toISOString()
-          : new Date(0).toISOString();
-        const lastOrderDate = g._max.createdAt
-          ? new Date(g._max.createdAt).toISOString()
-          : undefined;
+function parseStatusChange(
+  body: any
+): { change: StatusChange } | { error: string } {
+  const status = String(body?.status || "")
+    .trim()
+    .toLowerCase();
+  if (!isOrderStatus(status)) {
+    return { error: `status must be one of ${ORDER_STATUSES.join(", ")}` };
+  }
+  const optionalString = (v: unknown): string | null | undefined =>
+    typeof v === "string" ? v.trim() || null : undefined;
 
-        const totalOrders = g._count._all;
-        const totalCents = g._sum.amountTotal || 0;
-        const totalSpent = Math.round(totalCents) / 100;
+  return {
+    change: {
+      status,
+      note: optionalString(body?.note),
+      trackingCarrier: optionalString(body?.trackingCarrier),
+      trackingNumber: optionalString(body?.trackingNumber),
+    },
+  };
+}
 
-        const lastMs = g._max.createdAt
-          ? new Date(g._max.createdAt).getTime()
-          : 0;
-        const inactiveCutoffMs = Date.now() - 180 * 24 * 60 * 60 * 1000;
-        const status: "active" | "inactive" =
-          lastMs >= inactiveCutoffMs ? "active" : "inactive";
+app.patch(
+  "/api/admin/orders/:id/status",
+  requireAuth,
+  requirePermission("orders:write"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const parsed = parseStatusChange(req.body);
+      if ("error" in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
 
-        return {
-          id: email,
-          name: email,
-          email,
-          totalOrders,
-          totalSpent,
-          createdAt,
-          lastOrderDate,
-          status,
-        };
+      const result = await changeOrderStatus(id, {
+        ...parsed.change,
+        adminUserId: req.user?.userId,
       });
+      if (!result.ok) {
+        res.status(result.httpStatus).json({ error: result.error });
+        return;
+      }
 
-    res.json(customers);
+      const order = await prisma.order.findUnique({
+        where: { id },
+        include: { items: true },
+      });
+      res.json(adminOrderDto(order!));
+    } catch (err) {
+      console.error("Update order status error:", err);
+      res.status(500).json({ error: "Failed to update order status" });
+    }
   }
 );
 
-// Public: Calculate shipping cost for cart
+// Bulk transition for the orders table selection. Each order is validated
+// independently; the response reports per-order success/failure.
 app.post(
-  "/api/shipping/calculate",
+  "/api/admin/orders/bulk-status",
+  requireAuth,
+  requirePermission("orders:write"),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { items, country } = req.body;
-
-      if (!Array.isArray(items) || items.length === 0) {
-        res.status(400).json({ error: "Items array is required" });
+      const orderIds = req.body?.orderIds;
+      if (
+        !Array.isArray(orderIds) ||
+        orderIds.length === 0 ||
+        orderIds.some((id) => typeof id !== "string")
+      ) {
+        res.status(400).json({ error: "orderIds must be a non-empty array" });
+        return;
+      }
+      const parsed = parseStatusChange(req.body);
+      if ("error" in parsed) {
+        res.status(400).json({ error: parsed.error });
         return;
       }
 
-      // Get all products
-      const productIds = items.map((i: any) => i.productId);
-      const products = await prisma.product.findMany({
-        where: { id: { in: productIds } },
+      const results: StatusChangeResult[] = [];
+      for (const id of Array.from(new Set<string>(orderIds))) {
+        results.push(
+          await changeOrderStatus(id, {
+            ...parsed.change,
+            adminUserId: req.user?.userId,
+          })
+        );
+      }
+
+      res.json({
+        updated: results.filter((r) => r.ok).length,
+        results,
       });
+    } catch (err) {
+      console.error("Bulk order status error:", err);
+      res.status(500).json({ error: "Failed to update order statuses" });
+    }
+  }
+);
 
-      const productMap = new Map(products.map((p) => [p.id, p]));
+// Most orders printed in one batch PDF.
+const MAX_DOCUMENT_ORDERS = 100;
+
+/**
+ * Render packing slips or invoices for the orders, in the order given, and
+ * send them as one PDF. Invoices get their numbers on first print.
+ */
+async function sendOrderDocuments(
+  res: Response,
+  kind: "packing-slip" | "invoice",
+  ids: string[],
+  filename: string
+): Promise<void> {
+  const found = await prisma.order.findMany({
+    where: { id: { in: ids } },
+    include: { items: { orderBy: { createdAt: "asc" } }, refunds: true },
+  });
+  const byId = new Map(found.map((o) => [o.id, o]));
+  const missing = ids.filter((id) => !byId.has(id));
+  if (missing.length > 0) {
+    res.status(404).json({ error: "Order not found", orderIds: missing });
+    return;
+  }
+  let orders = ids.map((id) => byId.get(id)!);
+
+  if (kind === "invoice") {
+    const unpaid = orders.filter((o) => !canInvoice(o)).map((o) => o.id);
+    if (unpaid.length > 0) {
+      res.status(409).json({
+        error: "Invoices can only be issued for paid orders",
+        orderIds: unpaid,
+      });
+      return;
+    }
+    orders = await assignInvoiceNumbers(orders);
+  }
 
-      // Calculate total weight in grams
-      let totalWeightG = 0;
-      for (const item of items) {
-        const product = productMap.get(item.productId);
-        if (!product) continue;
-
-        const qty = parseInt(item.quantity) || 1;
-
-        // Use the most precise weight available
-        let weightG = 0;
-        if (product.weightG) {
-          weightG = product.weightG;
-        } else if (product.weightOz) {
-          weightG = product.weightOz * 28.3495; // oz to grams
-        } else if (product.weightGrams) {
-          weightG = product.weightGrams;
-        } else if (product.volumeMl) {
-          // For liquids, assume 1ml ≈ 1g (works for water-based products)
-          weightG = product.volumeMl;
+  const branding = await loadDocumentBranding(uploadDir);
+  const pdf =
+    kind === "invoice"
+      ? renderInvoices(orders, branding)
+      : renderPackingSlips(orders, branding);
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+  res.send(pdf);
+}
+
+function documentOrderIds(req: Request): string[] {
+  return Array.from(
+    new Set(
+      String(req.query.ids || "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+// Admin: packing slips or invoices for several orders in one PDF,
+// `?ids=a,b,c`
+app.get(
+  ["/api/admin/orders/packing-slips.pdf", "/api/admin/orders/invoices.pdf"],
+  requireAuth,
+  requirePermission("orders:read"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const ids = documentOrderIds(req);
+      if (ids.length === 0 || ids.length > MAX_DOCUMENT_ORDERS) {
+        res.status(400).json({
+          error: `ids must list 1 to ${MAX_DOCUMENT_ORDERS} order ids`,
+        });
+        return;
+      }
+      const invoices = req.path.endsWith("/invoices.pdf");
+      await sendOrderDocuments(
+        res,
+        invoices ? "invoice" : "packing-slip",
+        ids,
+        invoices ? "invoices.pdf" : "packing-slips.pdf"
+      );
+    } catch (error) {
+      console.error("Order documents error:", error);
+      res.status(500).json({ error: "Failed to generate PDF" });
+    }
+  }
+);
+
+app.get(
+  "/api/admin/orders/:id/packing-slip.pdf",
+  requireAuth,
+  requirePermission("orders:read"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      await sendOrderDocuments(
+        res,
+        "packing-slip",
+        [id],
+        `packing-slip-${orderNumber({ id }).slice(1)}.pdf`
+      );
+    } catch (error) {
+      console.error("Packing slip error:", error);
+      res.status(500).json({ error: "Failed to generate packing slip" });
+    }
+  }
+);
+
+app.get(
+  "/api/admin/orders/:id/invoice.pdf",
+  requireAuth,
+  requirePermission("orders:read"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      await sendOrderDocuments(
+        res,
+        "invoice",
+        [id],
+        `invoice-${orderNumber({ id }).slice(1)}.pdf`
+      );
+    } catch (error) {
+      console.error("Invoice error:", error);
+      res.status(500).json({ error: "Failed to generate invoice" });
+    }
+  }
+);
+
+app.get(
+  "/api/admin/orders/:id/events",
+  requireAuth,
+  requirePermission("orders:read"),
+  async (req: Request, res: Response): Promise<void> => {
+    const id = req.params.id as string;
+    const events = await prisma.orderEvent.findMany({
+      where: { orderId: id },
+      orderBy: { createdAt: "asc" },
+      include: {
+        adminUser: { select: { id: true, email: true, name: true } },
+      },
+    });
+    res.json(events);
+  }
+);
+
+app.get(
+  "/api/admin/orders/:id/refunds",
+  requireAuth,
+  requirePermission("orders:read"),
+  async (req: Request, res: Response): Promise<void> => {
+    const id = req.params.id as string;
+    const refunds = await prisma.refund.findMany({
+      where: { orderId: id },
+      orderBy: { createdAt: "desc" },
+      include: {
+        lines: true,
+        adminUser: { select: { id: true, email: true, name: true } },
+      },
+    });
+    res.json(refunds);
+  }
+);
+
+app.post(
+  "/api/admin/orders/:id/refunds",
+  requireAuth,
+  requirePermission("orders:refund"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const body = req.body || {};
+
+      let lines: Array<{ orderItemId: string; quantity: number }> | undefined;
+      if (body.lines !== undefined) {
+        if (!Array.isArray(body.lines) || body.lines.length === 0) {
+          res.status(400).json({ error: "lines must be a non-empty array" });
+          return;
         }
+        lines = body.lines.map((l: any) => ({
+          orderItemId: String(l?.orderItemId || "").trim(),
+          quantity: Number(l?.quantity),
+        }));
+      }
+
+      let amountCents: number | undefined;
+      if (body.amountCents !== undefined && body.amountCents !== null) {
+        amountCents = Number(body.amountCents);
+        if (!Number.isInteger(amountCents) || amountCents < 1) {
+          res
+            .status(400)
+            .json({ error: "amountCents must be an integer >= 1" });
+          return;
+        }
+      }
 
-        totalWeightG += weightG * qty;
+      const reason = body.reason ? String(body.reason) : null;
+      if (reason && !(REFUND_REASONS as readonly string[]).includes(reason)) {
+        res.status(400).json({
+          error: `reason must be one of ${REFUND_REASONS.join(", ")}`,
+        });
+        return;
       }
 
-      // If no weight data, use default estimate
-      if (totalWeightG === 0) {
-        totalWeightG = 250; // 250g default per item
+      const result = await createOrderRefund(stripe, id, {
+        lines,
+        amountCents,
+        restock: body.restock === true,
+        reason: reason as RefundReason | null,
+        note: typeof body.note === "string" ? body.note.trim() || null : null,
+        adminUserId: req.user?.userId,
+      });
+      if (!result.ok) {
+        res.status(result.httpStatus).json({ error: result.error });
+        return;
       }
 
-      // Get shipping zone (default to US if not specified)
-      const targetCountry = country || "US";
-      const zone = await prisma.shippingZone.findFirst({
+      const refund = await prisma.refund.findUnique({
+        where: { id: result.refundId },
+        include: { lines: true },
+      });
+      res.status(201).json(refund);
+    } catch (err) {
+      console.error("Create refund error:", err);
+      res.status(500).json({ error: "Failed to create refund" });
+    }
+  }
+);
+
+app.get(
+  "/api/admin/alerts",
+  requireAuth,
+  requirePermission("alerts:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      // Open alerts by default; ?status=all includes resolved ones.
+      const all = req.query.status === "all";
+      // ?type=stock narrows to low/out-of-stock alerts.
+      const type =
+        req.query.type === "stock"
+          ? { in: [...STOCK_ALERT_TYPES] }
+          : typeof req.query.type === "string"
+          ? req.query.type
+          : undefined;
+      const alerts = await prisma.adminAlert.findMany({
         where: {
-          enabled: true,
-          countries: { has: targetCountry },
+          ...(all ? {} : { resolvedAt: null }),
+          ...(type ? { type } : {}),
         },
+        orderBy: { createdAt: "desc" },
+        take: 200,
         include: {
-          weightTiers: {
-            orderBy: { minWeightG: "asc" },
+          order: { select: { id: true, email: true, status: true } },
+          product: {
+            select: { id: true, name: true, sku: true, stock: true },
           },
         },
       });
+      res.json(alerts);
+    } catch (error) {
+      console.error("Get alerts error:", error);
+      res.status(500).json({ error: "Failed to fetch alerts" });
+    }
+  }
+);
 
-      // If no zone found, try default US zone or create fallback
-      let shippingCents = 0;
-      let freeShippingMin = null;
+app.post(
+  "/api/admin/alerts/test",
+  requireAuth,
+  requirePermission("settings:manage"),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const results = await testAlertChannels();
+      if (results.length === 0) {
+        res.status(400).json({
+          error:
+            "No alert channels configured (set an alert email with SMTP, or a webhook URL)",
+        });
+        return;
+      }
+      res.json({ results });
+    } catch (error) {
+      console.error("Test alert error:", error);
+      res.status(500).json({ error: "Failed to send test alert" });
+    }
+  }
+);
 
-      if (zone) {
-        freeShippingMin = zone.freeShippingMin;
+app.post(
+  "/api/admin/alerts/:id/resolve",
+  requireAuth,
+  requirePermission("alerts:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const alert = await prisma.adminAlert.findUnique({ where: { id } });
+      if (!alert) {
+        res.status(404).json({ error: "Alert not found" });
+        return;
+      }
+      if (alert.resolvedAt) {
+        res.json(alert);
+        return;
+      }
 
-        // Find matching weight tier
-        const tier = zone.weightTiers.find(
-          (t) => totalWeightG >= t.minWeightG && totalWeightG <= t.maxWeightG
-        );
+      const resolved = await prisma.$transaction(async (tx) => {
+        // Resolving an unfulfillable-order alert means the shortfall was
+        // dealt with (restocked or refunded), so the order is cleared too.
+        if (alert.type === "unfulfillable_order" && alert.orderId) {
+          await tx.order.update({
+            where: { id: alert.orderId },
+            data: { unfulfillable: false },
+          });
+          await tx.orderEvent.create({
+            data: {
+              orderId: alert.orderId,
+              type: "note",
+              note: "Stock shortfall resolved",
+              adminUserId: req.user?.userId || null,
+            },
+          });
+        }
+        return tx.adminAlert.update({
+          where: { id },
+          data: { resolvedAt: new Date() },
+        });
+      });
+      res.json(resolved);
+    } catch (error) {
+      console.error("Resolve alert error:", error);
+      res.status(500).json({ error: "Failed to resolve alert" });
+    }
+  }
+);
+
+app.get(
+  "/api/admin/emails",
+  requireAuth,
+  requirePermission("emails:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const status = isEmailStatus(req.query.status)
+        ? req.query.status
+        : undefined;
+      const orderId =
+        typeof req.query.orderId === "string" ? req.query.orderId : undefined;
+      const emails = await prisma.emailMessage.findMany({
+        where: {
+          ...(status ? { status } : {}),
+          ...(orderId ? { orderId } : {}),
+        },
+        orderBy: { createdAt: "desc" },
+        take: 200,
+        // Bodies are only needed for previews, fetched separately.
+        select: {
+          id: true,
+          template: true,
+          to: true,
+          subject: true,
+          status: true,
+          attempts: true,
+          lastError: true,
+          nextAttemptAt: true,
+          sentAt: true,
+          orderId: true,
+          createdAt: true,
+        },
+      });
+      res.json({
+        smtpConfigured: isMailConfigured(),
+        templates: EMAIL_TEMPLATES.map((key) => ({
+          key,
+          label: EMAIL_TEMPLATE_LABELS[key],
+        })),
+        emails,
+      });
+    } catch (error) {
+      console.error("Get emails error:", error);
+      res.status(500).json({ error: "Failed to fetch emails" });
+    }
+  }
+);
+
+// Render a template against an order (the latest one by default, or sample
+// data when there are no orders) with the current branding settings.
+app.get(
+  "/api/admin/emails/preview/:template",
+  requireAuth,
+  requirePermission("emails:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const template = req.params.template;
+      if (!isEmailTemplate(template)) {
+        res.status(400).json({ error: "Unknown email template" });
+        return;
+      }
+      const orderId =
+        typeof req.query.orderId === "string" ? req.query.orderId : undefined;
+      const order = await prisma.order.findFirst({
+        where: orderId ? { id: orderId } : {},
+        orderBy: { createdAt: "desc" },
+        include: { items: true },
+      });
+      if (orderId && !order) {
+        res.status(404).json({ error: "Order not found" });
+        return;
+      }
+
+      const branding = await loadEmailBranding();
+      const source = order ?? sampleOrder();
+      const rendered = renderOrderEmail(template, source, branding, {
+        refundCents: Math.round(source.amountTotal / 2),
+      });
+      res.json({ ...rendered, orderId: order?.id ?? null });
+    } catch (error) {
+      console.error("Preview email error:", error);
+      res.status(500).json({ error: "Failed to render email preview" });
+    }
+  }
+);
+
+app.get(
+  "/api/admin/emails/:id",
+  requireAuth,
+  requirePermission("emails:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const email = await prisma.emailMessage.findUnique({ where: { id } });
+      if (!email) {
+        res.status(404).json({ error: "Email not found" });
+        return;
+      }
+      res.json(email);
+    } catch (error) {
+      console.error("Get email error:", error);
+      res.status(500).json({ error: "Failed to fetch email" });
+    }
+  }
+);
+
+app.post(
+  "/api/admin/emails/:id/retry",
+  requireAuth,
+  requirePermission("emails:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const email = await retryEmail(id);
+      if (!email) {
+        res.status(404).json({ error: "Email not found or already sent" });
+        return;
+      }
+      res.json(email);
+    } catch (error) {
+      console.error("Retry email error:", error);
+      res.status(500).json({ error: "Failed to retry email" });
+    }
+  }
+);
+
+// Admin: received Stripe webhook events, newest first
+app.get(
+  "/api/admin/stripe-events",
+  requireAuth,
+  requirePermission("payments:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const status = isStripeEventStatus(req.query.status)
+        ? req.query.status
+        : undefined;
+      const type =
+        typeof req.query.type === "string" && req.query.type
+          ? req.query.type
+          : undefined;
+
+      const [events, grouped] = await Promise.all([
+        prisma.stripeEvent.findMany({
+          where: {
+            ...(status ? { status } : {}),
+            ...(type ? { type } : {}),
+          },
+          orderBy: { createdAt: "desc" },
+          take: 200,
+          // Payloads are only needed for the detail view.
+          select: {
+            id: true,
+            type: true,
+            livemode: true,
+            status: true,
+            error: true,
+            attempts: true,
+            stripeCreatedAt: true,
+            processedAt: true,
+            createdAt: true,
+            updatedAt: true,
+          },
+        }),
+        prisma.stripeEvent.groupBy({ by: ["status"], _count: true }),
+      ]);
+
+      const counts = Object.fromEntries(
+        STRIPE_EVENT_STATUSES.map((s) => [
+          s,
+          grouped.find((g) => g.status === s)?._count ?? 0,
+        ])
+      );
+      res.json({ events, counts });
+    } catch (error) {
+      console.error("List Stripe events error:", error);
+      res.status(500).json({ error: "Failed to load Stripe events" });
+    }
+  }
+);
+
+app.get(
+  "/api/admin/stripe-events/:id",
+  requireAuth,
+  requirePermission("payments:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const event = await prisma.stripeEvent.findUnique({ where: { id } });
+      if (!event) {
+        res.status(404).json({ error: "Event not found" });
+        return;
+      }
+      res.json(event);
+    } catch (error) {
+      console.error("Get Stripe event error:", error);
+      res.status(500).json({ error: "Failed to load Stripe event" });
+    }
+  }
+);
+
+// Admin: run a failed event's handler again, from the stored payload
+app.post(
+  "/api/admin/stripe-events/:id/replay",
+  requireAuth,
+  requirePermission("payments:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const existing = await prisma.stripeEvent.findUnique({
+        where: { id },
+        select: { status: true },
+      });
+      if (!existing) {
+        res.status(404).json({ error: "Event not found" });
+        return;
+      }
+      if (existing.status !== "failed") {
+        res.status(409).json({ error: "Only failed events can be replayed" });
+        return;
+      }
+
+      const result = await processStripeEvent(stripe, id);
+      const event = await prisma.stripeEvent.findUnique({ where: { id } });
+      res.json({
+        ok: result.ok,
+        error: result.ok ? null : result.error,
+        event,
+      });
+    } catch (error) {
+      console.error("Replay Stripe event error:", error);
+      res.status(500).json({ error: "Failed to replay Stripe event" });
+    }
+  }
+);
+
+// Admin: check recent Stripe checkout sessions against our orders
+app.post(
+  "/api/admin/reconcile",
+  requireAuth,
+  requirePermission("payments:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const days =
+        req.body?.days === undefined
+          ? DEFAULT_RECONCILE_DAYS
+          : Number(req.body.days);
+      if (!Number.isInteger(days) || days < 1 || days > MAX_RECONCILE_DAYS) {
+        res.status(400).json({
+          error: `days must be a whole number from 1 to ${MAX_RECONCILE_DAYS}`,
+        });
+        return;
+      }
+
+      const report = await reconcileCheckoutSessions(stripe, {
+        since: new Date(Date.now() - days * 24 * 60 * 60 * 1000),
+        dryRun: req.body?.dryRun === true,
+      });
+      res.json(report);
+    } catch (error) {
+      console.error("Reconcile error:", error);
+      res.status(500).json({ error: "Failed to reconcile orders" });
+    }
+  }
+);
+
+type CustomerWithAddresses = Prisma.CustomerGetPayload<{
+  include: { addresses: true };
+}>;
+
+interface CustomerOrderTotals {
+  totalOrders: number;
+  totalCents: number;
+  lastOrderAt: Date | null;
+}
+
+function adminCustomerDto(
+  c: CustomerWithAddresses,
+  totals: CustomerOrderTotals | undefined
+) {
+  const address = c.addresses.find((a) => a.isDefault) || c.addresses[0];
+  const lastOrderAt = totals?.lastOrderAt ?? null;
+  const inactiveCutoffMs = Date.now() - 180 * 24 * 60 * 60 * 1000;
+  // Active: ordered or signed in within the last 180 days.
+  const lastSeenMs = Math.max(
+    lastOrderAt?.getTime() || 0,
+    c.lastLoginAt?.getTime() || 0
+  );
+
+  return {
+    id: c.id,
+    name: c.name || c.email,
+    email: c.email,
+    phone: c.phone || undefined,
+    address: address
+      ? {
+          street: [address.line1, address.line2].filter(Boolean).join(", "),
+          city: address.city,
+          state: address.state || "",
+          zipCode: address.postalCode,
+          country: address.country,
+        }
+      : undefined,
+    totalOrders: totals?.totalOrders || 0,
+    totalSpent: Math.round(totals?.totalCents || 0) / 100,
+    createdAt: c.createdAt.toISOString(),
+    lastOrderDate: lastOrderAt?.toISOString(),
+    status: lastSeenMs >= inactiveCutoffMs ? "active" : "inactive",
+    // Guests are customers created from a checkout email.
+    registered: Boolean(c.passwordHash || c.emailVerifiedAt),
+    marketingConsent: c.marketingConsent,
+    lastLoginAt: c.lastLoginAt,
+    tags: c.tags,
+  };
+}
+
+async function customerOrderTotals(
+  customerIds?: string[]
+): Promise<Map<string, CustomerOrderTotals>> {
+  const groups = await prisma.order.groupBy({
+    by: ["customerId"],
+    where: customerIds
+      ? { customerId: { in: customerIds } }
+      : { customerId: { not: null } },
+    _count: { _all: true },
+    _sum: { amountTotal: true },
+    _max: { createdAt: true },
+  });
+  return new Map(
+    groups.map((g) => [
+      g.customerId as string,
+      {
+        totalOrders: g._count._all,
+        totalCents: g._sum.amountTotal || 0,
+        lastOrderAt: g._max.createdAt,
+      },
+    ])
+  );
+}
+
+// Admin: Customers, most recent order first
+app.get(
+  "/api/admin/customers",
+  requireAuth,
+  requirePermission("customers:read"),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const [customers, totals] = await Promise.all([
+        prisma.customer.findMany({
+          orderBy: { createdAt: "desc" },
+          include: { addresses: true },
+        }),
+        customerOrderTotals(),
+      ]);
+
+      const dtos = customers.map((c) => adminCustomerDto(c, totals.get(c.id)));
+      dtos.sort((a, b) =>
+        (b.lastOrderDate || b.createdAt).localeCompare(
+          a.lastOrderDate || a.createdAt
+        )
+      );
+      res.json(dtos);
+    } catch (error) {
+      console.error("List customers error:", error);
+      res.status(500).json({ error: "Failed to load customers" });
+    }
+  }
+);
+
+const CUSTOMER_NOTE_INCLUDE = {
+  adminUser: { select: { id: true, email: true, name: true } },
+} satisfies Prisma.CustomerNoteInclude;
+
+// Admin: Customer detail with every order, lifetime metrics, notes and tags
+app.get(
+  "/api/admin/customers/:id",
+  requireAuth,
+  requirePermission("customers:read"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const customer = await prisma.customer.findUnique({
+        where: { id },
+        include: {
+          addresses: { orderBy: { createdAt: "asc" } },
+          notes: {
+            orderBy: { createdAt: "desc" },
+            include: CUSTOMER_NOTE_INCLUDE,
+          },
+        },
+      });
+      if (!customer) {
+        res.status(404).json({ error: "Customer not found" });
+        return;
+      }
+
+      const [totals, orders] = await Promise.all([
+        customerOrderTotals([id]),
+        prisma.order.findMany({
+          where: { customerId: id },
+          orderBy: { createdAt: "desc" },
+          include: CUSTOMER_ORDER_INCLUDE,
+        }),
+      ]);
+
+      res.json({
+        ...adminCustomerDto(customer, totals.get(id)),
+        addresses: customer.addresses,
+        notes: customer.notes,
+        metrics: customerInsights(orders),
+        orders: orders.map((o) => ({
+          id: o.id,
+          status: o.status,
+          amountTotal: o.amountTotal,
+          currency: o.currency,
+          refundedCents: o.refunds.reduce((sum, r) => sum + r.amountCents, 0),
+          itemCount: o.items.reduce((sum, it) => sum + it.quantity, 0),
+          createdAt: o.createdAt,
+          shippedAt: o.shippedAt,
+          deliveredAt: o.deliveredAt,
+          cancelledAt: o.cancelledAt,
+        })),
+      });
+    } catch (error) {
+      console.error("Get customer error:", error);
+      res.status(500).json({ error: "Failed to load customer" });
+    }
+  }
+);
+
+// Admin: Replace a customer's tags
+app.put(
+  "/api/admin/customers/:id/tags",
+  requireAuth,
+  requirePermission("customers:write"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const parsed = parseTags(req.body?.tags);
+      if ("error" in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+      const existing = await prisma.customer.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+      if (!existing) {
+        res.status(404).json({ error: "Customer not found" });
+        return;
+      }
+
+      const customer = await prisma.customer.update({
+        where: { id },
+        data: { tags: parsed.tags },
+        select: { tags: true },
+      });
+      res.json(customer);
+    } catch (error) {
+      console.error("Update customer tags error:", error);
+      res.status(500).json({ error: "Failed to update tags" });
+    }
+  }
+);
+
+// Admin: Add a staff note to a customer
+app.post(
+  "/api/admin/customers/:id/notes",
+  requireAuth,
+  requirePermission("customers:write"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const body =
+        typeof req.body?.body === "string" ? req.body.body.trim() : "";
+      if (!body) {
+        res.status(400).json({ error: "Note cannot be empty" });
+        return;
+      }
+      const existing = await prisma.customer.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+      if (!existing) {
+        res.status(404).json({ error: "Customer not found" });
+        return;
+      }
+
+      const note = await prisma.customerNote.create({
+        data: { customerId: id, body, adminUserId: req.user?.userId },
+        include: CUSTOMER_NOTE_INCLUDE,
+      });
+      res.status(201).json(note);
+    } catch (error) {
+      console.error("Create customer note error:", error);
+      res.status(500).json({ error: "Failed to add note" });
+    }
+  }
+);
+
+// Admin: Delete a staff note
+app.delete(
+  "/api/admin/customers/:id/notes/:noteId",
+  requireAuth,
+  requirePermission("customers:write"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await prisma.customerNote.deleteMany({
+        where: {
+          id: req.params.noteId as string,
+          customerId: req.params.id as string,
+        },
+      });
+      if (result.count === 0) {
+        res.status(404).json({ error: "Note not found" });
+        return;
+      }
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Delete customer note error:", error);
+      res.status(500).json({ error: "Failed to delete note" });
+    }
+  }
+);
+
+// Public: countries covered by an enabled shipping zone
+app.get(
+  "/api/shipping/countries",
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      res.json({ countries: await shippableCountries() });
+    } catch (error) {
+      console.error("Shipping countries error:", error);
+      res.status(500).json({ error: "Failed to load shipping countries" });
+    }
+  }
+);
+
+// Public: Calculate shipping cost for cart
+app.post(
+  "/api/shipping/calculate",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { items, country } = req.body;
+
+      if (!Array.isArray(items) || items.length === 0) {
+        res.status(400).json({ error: "Items array is required" });
+        return;
+      }
+
+      const targetCountry = String(country || "US").toUpperCase();
+      const quote = await quoteShipping({
+        items: items.map((i: any) => ({
+          productId: String(i?.productId || ""),
+          quantity: parseInt(i?.quantity) || 1,
+        })),
+        country: targetCountry,
+      });
+
+      if (!quote) {
+        res.status(422).json({ error: `We don't ship to ${targetCountry}` });
+        return;
+      }
+
+      res.json({
+        totalWeightG: quote.totalWeightG,
+        zone: quote.zoneName,
+        options: quote.options,
+      });
+    } catch (error) {
+      console.error("Shipping calculation error:", error);
+      res.status(500).json({ error: "Failed to calculate shipping" });
+    }
+  }
+);
+
+// Public: Check a discount code against the cart. Without a code, returns
+// the automatic promotion the cart qualifies for, if any.
+app.post(
+  "/api/cart/validate-discount",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { items } = req.body;
+      if (!Array.isArray(items) || items.length === 0) {
+        res.status(400).json({ error: "Items array is required" });
+        return;
+      }
+
+      const result = await resolveDiscount({
+        items: items.map((i: any) => ({
+          productId: String(i?.productId || ""),
+          quantity: parseInt(i?.quantity) || 1,
+        })),
+        code: req.body?.code,
+        email: await checkoutEmail(req),
+      });
+      if (!result.ok) {
+        res.status(result.httpStatus).json({
+          error: result.error,
+          emailRequired: result.emailRequired,
+        });
+        return;
+      }
+
+      const applied = result.discount;
+      res.json({
+        discount: applied && {
+          code: applied.code,
+          name: applied.name,
+          type: applied.type,
+          amountCents: applied.amountCents,
+          freeShipping: applied.freeShipping,
+          lines: applied.lines,
+        },
+      });
+    } catch (error) {
+      console.error("Validate discount error:", error);
+      res.status(500).json({ error: "Failed to validate discount" });
+    }
+  }
+);
+
+// Public: Calculate tax for cart
+app.post(
+  "/api/tax/calculate",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { items, shippingCents } = req.body;
+
+      if (!Array.isArray(items) || items.length === 0) {
+        res.status(400).json({ error: "Items array is required" });
+        return;
+      }
+
+      const shipping = Number(shippingCents);
+      const lines = items.map((i: any) => ({
+        productId: String(i?.productId || ""),
+        quantity: parseInt(i?.quantity) || 1,
+      }));
+      // Estimate on the discounted items; an invalid code is ignored here
+      // and reported by validate-discount instead.
+      const discount = await resolveDiscount({
+        items: lines,
+        code: req.body?.discountCode,
+        email: await checkoutEmail(req),
+      });
+      const tax = await quoteTax({
+        items: lines,
+        destination: normalizeTaxDestination(req.body),
+        shippingCents:
+          Number.isFinite(shipping) && shipping > 0 ? Math.round(shipping) : 0,
+        lineDiscounts: discount.ok ? discount.discount?.lines : undefined,
+      });
+
+      res.json({
+        taxCents: tax.taxCents,
+        itemTaxCents: tax.itemTaxCents,
+        shippingTaxCents: tax.shippingTaxCents,
+        rateBps: tax.rateBps,
+        taxShipping: tax.taxShipping,
+        region: tax.regionName,
+      });
+    } catch (error) {
+      console.error("Tax calculation error:", error);
+      res.status(500).json({ error: "Failed to calculate tax" });
+    }
+  }
+);
+
+// Admin Users Management
+const ADMIN_USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  active: true,
+  totpEnabledAt: true,
+  failedLoginCount: true,
+  lockedUntil: true,
+  invitedAt: true,
+  createdAt: true,
+} satisfies Prisma.AdminUserSelect;
+
+// The store must keep at least one active owner to manage admin users.
+async function isLastActiveOwner(id: string): Promise<boolean> {
+  const owners = await prisma.adminUser.findMany({
+    where: { role: "owner", active: true },
+    select: { id: true },
+  });
+  return owners.length === 1 && owners[0].id === id;
+}
+
+app.get(
+  "/api/admin/users",
+  requireAuth,
+  requirePermission("users:manage"),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const users = await prisma.adminUser.findMany({
+        select: ADMIN_USER_SELECT,
+        orderBy: { createdAt: "desc" },
+      });
+      res.json(users);
+    } catch (error) {
+      console.error("List admin users error:", error);
+      res.status(500).json({ error: "Failed to list users" });
+    }
+  }
+);
+
+app.post(
+  "/api/admin/users",
+  requireAuth,
+  requirePermission("users:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { email, password, name, active, role } = req.body;
+
+      if (!email || !password) {
+        res.status(400).json({ error: "Email and password are required" });
+        return;
+      }
+      const passwordError = checkPasswordStrength(password, { email, name });
+      if (passwordError) {
+        res.status(400).json({ error: passwordError });
+        return;
+      }
+      if (!isAdminRole(role)) {
+        res
+          .status(400)
+          .json({ error: `role must be one of ${ADMIN_ROLES.join(", ")}` });
+        return;
+      }
+
+      const existing = await prisma.adminUser.findUnique({
+        where: { email },
+      });
+
+      if (existing) {
+        res.status(400).json({ error: "User with this email already exists" });
+        return;
+      }
+
+      const passwordHash = await bcrypt.hash(password, 10);
+
+      const user = await prisma.adminUser.create({
+        data: {
+          email,
+          passwordHash,
+          name: name || null,
+          role,
+          active: active ?? true,
+        },
+        select: ADMIN_USER_SELECT,
+      });
+
+      res.status(201).json(user);
+    } catch (error) {
+      console.error("Create admin user error:", error);
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  }
+);
+
+// Admin: create a user without a password and email them a link to set one
+app.post(
+  "/api/admin/users/invite",
+  requireAuth,
+  requirePermission("users:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const email = normalizeEmail(req.body?.email);
+      const { name, role } = req.body;
+
+      if (!email) {
+        res.status(400).json({ error: "A valid email is required" });
+        return;
+      }
+      if (!isAdminRole(role)) {
+        res
+          .status(400)
+          .json({ error: `role must be one of ${ADMIN_ROLES.join(", ")}` });
+        return;
+      }
+
+      const existing = await prisma.adminUser.findUnique({
+        where: { email },
+      });
+      if (existing) {
+        res.status(400).json({ error: "User with this email already exists" });
+        return;
+      }
+
+      const user = await prisma.adminUser.create({
+        data: {
+          email,
+          passwordHash: "",
+          name: name || null,
+          role,
+          invitedAt: new Date(),
+        },
+      });
+      await sendAdminInvite(user);
+
+      res.status(201).json(
+        await prisma.adminUser.findUnique({
+          where: { id: user.id },
+          select: ADMIN_USER_SELECT,
+        })
+      );
+    } catch (error) {
+      console.error("Invite admin user error:", error);
+      res.status(500).json({ error: "Failed to invite user" });
+    }
+  }
+);
+
+app.post(
+  "/api/admin/users/:id/resend-invite",
+  requireAuth,
+  requirePermission("users:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+
+      const user = await prisma.adminUser.findUnique({ where: { id } });
+      if (!user) {
+        res.status(404).json({ error: "User not found" });
+        return;
+      }
+      if (!user.invitedAt) {
+        res.status(400).json({ error: "This user has already accepted" });
+        return;
+      }
+
+      const updated = await prisma.adminUser.update({
+        where: { id },
+        data: { invitedAt: new Date() },
+        select: ADMIN_USER_SELECT,
+      });
+      await sendAdminInvite(user);
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Resend invite error:", error);
+      res.status(500).json({ error: "Failed to resend invitation" });
+    }
+  }
+);
+
+app.put(
+  "/api/admin/users/:id",
+  requireAuth,
+  requirePermission("users:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = String((req.params as any).id || "");
+      const { name, active, role } = req.body;
+
+      const data: any = {};
+      if (name !== undefined) data.name = name || null;
+      if (active !== undefined) data.active = active;
+      if (role !== undefined) {
+        if (!isAdminRole(role)) {
+          res
+            .status(400)
+            .json({ error: `role must be one of ${ADMIN_ROLES.join(", ")}` });
+          return;
+        }
+        data.role = role;
+      }
+
+      const existing = await prisma.adminUser.findUnique({
+        where: { id },
+        select: { role: true },
+      });
+      if (!existing) {
+        res.status(404).json({ error: "User not found" });
+        return;
+      }
+      const losesOwner =
+        existing.role === "owner" &&
+        ((data.role && data.role !== "owner") || data.active === false);
+      if (losesOwner && (await isLastActiveOwner(id))) {
+        res.status(400).json({
+          error: "Make another user an owner before changing the last owner",
+        });
+        return;
+      }
+
+      const user = await prisma.adminUser.update({
+        where: { id },
+        data,
+        select: ADMIN_USER_SELECT,
+      });
+      if (data.active === false) await signOutAdmins([id]);
+
+      res.json(user);
+    } catch (error) {
+      console.error("Update admin user error:", error);
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  }
+);
+
+app.delete(
+  "/api/admin/users/:id",
+  requireAuth,
+  requirePermission("users:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = String((req.params as any).id || "");
+
+      if (await isLastActiveOwner(id)) {
+        res.status(400).json({ error: "The last owner can't be deleted" });
+        return;
+      }
+
+      await prisma.adminUser.delete({
+        where: { id },
+      });
+      await signOutAdmins([id]);
+
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Delete admin user error:", error);
+      res.status(500).json({ error: "Failed to delete user" });
+    }
+  }
+);
+
+app.post(
+  "/api/admin/users/:id/password",
+  requireAuth,
+  requirePermission("users:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = String((req.params as any).id || "");
+      const { password } = req.body;
+
+      const existing = await prisma.adminUser.findUnique({
+        where: { id },
+        select: { email: true, name: true },
+      });
+      if (!existing) {
+        res.status(404).json({ error: "User not found" });
+        return;
+      }
+      const passwordError = checkPasswordStrength(password, existing);
+      if (passwordError) {
+        res.status(400).json({ error: passwordError });
+        return;
+      }
+
+      const passwordHash = await bcrypt.hash(password, 10);
+
+      await prisma.adminUser.update({
+        where: { id },
+        data: { passwordHash, invitedAt: null },
+      });
+      // Outstanding invitation and reset links stop working, and the admin
+      // is signed out everywhere but here.
+      await prisma.adminUserToken.updateMany({
+        where: { adminUserId: id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      await signOutAdmins([id], req.sessionID);
+
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Change password error:", error);
+      res.status(500).json({ error: "Failed to change password" });
+    }
+  }
+);
+
+app.post(
+  "/api/admin/users/:id/unlock",
+  requireAuth,
+  requirePermission("users:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+
+      const existing = await prisma.adminUser.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+      if (!existing) {
+        res.status(404).json({ error: "User not found" });
+        return;
+      }
+
+      await clearLoginFailures(id);
+      const user = await prisma.adminUser.findUnique({
+        where: { id },
+        select: ADMIN_USER_SELECT,
+      });
+
+      res.json(user);
+    } catch (error) {
+      console.error("Unlock admin user error:", error);
+      res.status(500).json({ error: "Failed to unlock user" });
+    }
+  }
+);
+
+// Admin: recent sign in attempts, newest first
+app.get(
+  "/api/admin/login-attempts",
+  requireAuth,
+  requirePermission("users:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const limit = Math.min(
+        Math.max(parseInt(String(req.query.limit || "50"), 10) || 50, 1),
+        200
+      );
+      const adminUserId =
+        typeof req.query.adminUserId === "string"
+          ? req.query.adminUserId
+          : undefined;
+      const failedOnly = req.query.failed === "true";
+
+      // Admin sign ins only; customer attempts share the table for throttling.
+      const attempts = await prisma.loginAttempt.findMany({
+        where: {
+          customerId: null,
+          ...(adminUserId ? { adminUserId } : {}),
+          ...(failedOnly ? { success: false } : {}),
+        },
+        orderBy: { createdAt: "desc" },
+        take: limit,
+      });
+
+      res.json(attempts);
+    } catch (error) {
+      console.error("List login attempts error:", error);
+      res.status(500).json({ error: "Failed to list login attempts" });
+    }
+  }
+);
+
+// Admin: signed-in admin sessions, optionally for one user
+app.get(
+  "/api/admin/sessions",
+  requireAuth,
+  requirePermission("users:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const adminUserId =
+        typeof req.query.adminUserId === "string"
+          ? req.query.adminUserId
+          : undefined;
+
+      const admins = await prisma.adminUser.findMany({
+        where: adminUserId ? { id: adminUserId } : {},
+        select: { id: true, email: true, name: true },
+      });
+      const byId = new Map(admins.map((admin) => [admin.id, admin]));
+      const sessions = await listAdminSessions(
+        admins.map((admin) => admin.id),
+        req.sessionID
+      );
+
+      res.json(
+        sessions.map((session) => ({
+          ...session,
+          adminUser: byId.get(session.adminUserId) ?? null,
+        }))
+      );
+    } catch (error) {
+      console.error("List admin sessions error:", error);
+      res.status(500).json({ error: "Failed to list sessions" });
+    }
+  }
+);
+
+app.delete(
+  "/api/admin/sessions/:id",
+  requireAuth,
+  requirePermission("users:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+
+      const revoked = await revokeAdminSession(id);
+      if (!revoked) {
+        res.status(404).json({ error: "Session not found" });
+        return;
+      }
+
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Revoke admin session error:", error);
+      res.status(500).json({ error: "Failed to revoke session" });
+    }
+  }
+);
+
+// Admin: sign a user out everywhere, keeping the caller's own session
+app.delete(
+  "/api/admin/users/:id/sessions",
+  requireAuth,
+  requirePermission("users:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+
+      const existing = await prisma.adminUser.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+      if (!existing) {
+        res.status(404).json({ error: "User not found" });
+        return;
+      }
+
+      const revoked = await signOutAdmins([id], req.sessionID);
+
+      res.json({ ok: true, revoked });
+    } catch (error) {
+      console.error("Revoke admin user sessions error:", error);
+      res.status(500).json({ error: "Failed to sign user out" });
+    }
+  }
+);
+
+// Admin: audit log, newest first. `cursor` is the last id of the previous
+// page.
+app.get(
+  "/api/admin/audit-log",
+  requireAuth,
+  requirePermission("audit:read"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const str = (key: string): string | undefined =>
+        typeof req.query[key] === "string" && req.query[key]
+          ? (req.query[key] as string)
+          : undefined;
+      const limit = Math.min(
+        Math.max(parseInt(String(req.query.limit || "50"), 10) || 50, 1),
+        200
+      );
+      const action = str("action");
+      if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+        res
+          .status(400)
+          .json({ error: `action must be one of ${AUDIT_ACTIONS.join(", ")}` });
+        return;
+      }
+      const from = str("from") ? new Date(str("from")!) : undefined;
+      const to = str("to") ? new Date(str("to")!) : undefined;
+      if (
+        (from && Number.isNaN(from.getTime())) ||
+        (to && Number.isNaN(to.getTime()))
+      ) {
+        res.status(400).json({ error: "from and to must be dates" });
+        return;
+      }
+      const cursor = str("cursor");
+
+      const entries = await prisma.auditLog.findMany({
+        where: {
+          ...(str("entityType") ? { entityType: str("entityType") } : {}),
+          ...(str("entityId") ? { entityId: str("entityId") } : {}),
+          ...(str("adminUserId") ? { adminUserId: str("adminUserId") } : {}),
+          ...(action ? { action } : {}),
+          ...(from || to
+            ? {
+                createdAt: {
+                  ...(from ? { gte: from } : {}),
+                  ...(to ? { lte: to } : {}),
+                },
+              }
+            : {}),
+        },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: limit + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+
+      const hasMore = entries.length > limit;
+      const page = hasMore ? entries.slice(0, limit) : entries;
+      res.json({
+        entries: page,
+        nextCursor: hasMore ? page[page.length - 1].id : null,
+      });
+    } catch (error) {
+      console.error("List audit log error:", error);
+      res.status(500).json({ error: "Failed to load audit log" });
+    }
+  }
+);
+
+// For an admin who lost their authenticator and recovery codes. They set
+// it up again at their next sign in if the store requires it.
+app.delete(
+  "/api/admin/users/:id/two-factor",
+  requireAuth,
+  requirePermission("users:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+
+      const existing = await prisma.adminUser.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+      if (!existing) {
+        res.status(404).json({ error: "User not found" });
+        return;
+      }
+
+      const user = await prisma.adminUser.update({
+        where: { id },
+        data: {
+          totpSecret: null,
+          totpEnabledAt: null,
+          totpLastUsedStep: null,
+          recoveryCodeHashes: [],
+        },
+        select: ADMIN_USER_SELECT,
+      });
+      await signOutAdmins([id]);
+
+      res.json(user);
+    } catch (error) {
+      console.error("Reset two-factor error:", error);
+      res.status(500).json({ error: "Failed to reset two-factor" });
+    }
+  }
+);
+
+const SHIPPING_ZONE_INCLUDE = {
+  methods: {
+    orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+    include: { weightTiers: { orderBy: { minWeightG: "asc" } } },
+  },
+} satisfies Prisma.ShippingZoneInclude;
+
+function optionalDays(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 ? n : null;
+}
+
+interface ShippingMethodInput {
+  name: string;
+  minDays: number | null;
+  maxDays: number | null;
+  freeShippingMin: number | null;
+  enabled: boolean;
+  sortOrder: number;
+  weightTiers: Array<{
+    minWeightG: number;
+    maxWeightG: number;
+    rateCents: number;
+  }>;
+}
+
+// Normalize shipping methods from the admin payload. Returns an error message
+// when a method is invalid.
+function parseShippingMethods(
+  raw: unknown
+): { methods: ShippingMethodInput[] } | { error: string } {
+  if (!Array.isArray(raw)) return { error: "methods must be an array" };
+
+  const methods: ShippingMethodInput[] = [];
+  for (const [index, m] of raw.entries()) {
+    const name = String(m?.name || "").trim();
+    if (!name) return { error: "Every shipping method needs a name" };
+
+    const minDays = optionalDays(m?.minDays);
+    const maxDays = optionalDays(m?.maxDays);
+    if (minDays !== null && maxDays !== null && minDays > maxDays) {
+      return { error: `${name}: minimum days exceed maximum days` };
+    }
+
+    const tiers = Array.isArray(m?.weightTiers) ? m.weightTiers : [];
+    const weightTiers: ShippingMethodInput["weightTiers"] = tiers.map(
+      (t: any) => ({
+        minWeightG: Math.max(0, Math.round(Number(t?.minWeightG) || 0)),
+        maxWeightG: Math.max(0, Math.round(Number(t?.maxWeightG) || 0)),
+        rateCents: Math.max(0, Math.round(Number(t?.rateCents) || 0)),
+      })
+    );
+    if (weightTiers.some((t) => t.minWeightG > t.maxWeightG)) {
+      return { error: `${name}: tier minimum weight exceeds maximum` };
+    }
+
+    const freeMin = Number(m?.freeShippingMin);
+    methods.push({
+      name,
+      minDays,
+      maxDays,
+      freeShippingMin:
+        Number.isFinite(freeMin) && freeMin > 0 ? Math.round(freeMin) : null,
+      enabled: m?.enabled !== false,
+      sortOrder: index,
+      weightTiers,
+    });
+  }
+  return { methods };
+}
+
+// Admin: Get shipping configuration
+app.get(
+  "/api/admin/shipping",
+  requireAuth,
+  requirePermission("shipping:manage"),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const zones = await prisma.shippingZone.findMany({
+        include: SHIPPING_ZONE_INCLUDE,
+        orderBy: { name: "asc" },
+      });
+
+      res.json({ zones });
+    } catch (error) {
+      console.error("Get shipping config error:", error);
+      res.status(500).json({ error: "Failed to get shipping configuration" });
+    }
+  }
+);
+
+// Admin: Update shipping zone
+app.put(
+  "/api/admin/shipping/zones/:id",
+  requireAuth,
+  requirePermission("shipping:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id: rawId } = req.params;
+      const id = Array.isArray(rawId) ? rawId[0] : rawId;
+      const { name, countries, enabled, methods: rawMethods } = req.body;
+
+      const parsed =
+        rawMethods === undefined ? null : parseShippingMethods(rawMethods);
+      if (parsed && "error" in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        await tx.shippingZone.update({
+          where: { id },
+          data: { name, countries, enabled },
+        });
+
+        // Replace the zone's methods (and their tiers) if provided
+        if (parsed) {
+          await tx.shippingMethod.deleteMany({ where: { zoneId: id } });
+          for (const { weightTiers, ...method } of parsed.methods) {
+            await tx.shippingMethod.create({
+              data: {
+                ...method,
+                zoneId: id,
+                weightTiers: { create: weightTiers },
+              },
+            });
+          }
+        }
+
+        return tx.shippingZone.findUnique({
+          where: { id },
+          include: SHIPPING_ZONE_INCLUDE,
+        });
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Update shipping zone error:", error);
+      res.status(500).json({ error: "Failed to update shipping zone" });
+    }
+  }
+);
+
+// Admin: Create shipping zone
+app.post(
+  "/api/admin/shipping/zones",
+  requireAuth,
+  requirePermission("shipping:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name, countries, enabled, methods: rawMethods } = req.body;
 
-        if (tier) {
-          shippingCents = tier.rateCents;
-        } else {
-          // Use highest tier if over max weight
-          const maxTier = zone.weightTiers[zone.weightTiers.length - 1];
-          shippingCents = maxTier?.rateCents || 0;
-        }
-      } else {
-        // Fallback calculation if no zone configured
-        if (totalWeightG <= 250) {
-          shippingCents = 450; // $4.50
-        } else if (totalWeightG <= 750) {
-          shippingCents = 875; // $8.75
-        } else {
-          shippingCents = 1200; // $12.00
-        }
-        freeShippingMin = 7500; // $75
+      const parsed = parseShippingMethods(rawMethods ?? []);
+      if ("error" in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
       }
 
-      res.json({
-        shippingCents,
-        totalWeightG: Math.round(totalWeightG),
-        freeShippingMin,
-        zone: zone?.name || "Default",
+      const zone = await prisma.shippingZone.create({
+        data: {
+          name,
+          countries: countries || [],
+          enabled: enabled ?? true,
+          methods: {
+            create: parsed.methods.map(({ weightTiers, ...method }) => ({
+              ...method,
+              weightTiers: { create: weightTiers },
+            })),
+          },
+        },
+        include: SHIPPING_ZONE_INCLUDE,
       });
+
+      res.status(201).json(zone);
     } catch (error) {
-      console.error("Shipping calculation error:", error);
-      res.status(500).json({ error: "Failed to calculate shipping" });
+      console.error("Create shipping zone error:", error);
+      res.status(500).json({ error: "Failed to create shipping zone" });
     }
   }
 );
 
-// Admin Users Management
+// Normalize a tax region from the admin payload.
+function parseTaxRegion(
+  body: any
+): { data: Prisma.TaxRateCreateInput } | { error: string } {
+  const name = String(body?.name || "").trim();
+  const country = String(body?.country || "")
+    .trim()
+    .toUpperCase();
+  const state =
+    String(body?.state || "")
+      .trim()
+      .toUpperCase() || null;
+  const postalPrefix =
+    String(body?.postalPrefix || "")
+      .replace(/\s+/g, "")
+      .toUpperCase() || null;
+  const rateBps = Number(body?.rateBps);
+
+  if (!name) return { error: "name is required" };
+  if (!/^[A-Z]{2}$/.test(country)) {
+    return { error: "country must be a 2-letter ISO code" };
+  }
+  if (!Number.isInteger(rateBps) || rateBps < 0 || rateBps > 10000) {
+    return { error: "rateBps must be an integer from 0 to 10000" };
+  }
+
+  return {
+    data: {
+      name,
+      country,
+      state,
+      postalPrefix,
+      rateBps,
+      taxShipping: body?.taxShipping === true,
+      enabled: body?.enabled !== false,
+    },
+  };
+}
+
+// Admin: List tax regions
 app.get(
-  "/api/admin/users",
+  "/api/admin/tax/regions",
   requireAuth,
+  requirePermission("shipping:manage"),
   async (_req: Request, res: Response): Promise<void> => {
     try {
-      const users = await prisma.adminUser.findMany({
-        select: {
-          id: true,
-          email: true,
-          name: true,
-          active: true,
-          createdAt: true,
-        },
-        orderBy: { createdAt: "desc" },
+      const regions = await prisma.taxRate.findMany({
+        orderBy: [
+          { country: "asc" },
+          { state: "asc" },
+          { postalPrefix: "asc" },
+        ],
       });
-      res.json(users);
+      res.json({ regions });
     } catch (error) {
-      console.error("List admin users error:", error);
-      res.status(500).json({ error: "Failed to list users" });
+      console.error("List tax regions error:", error);
+      res.status(500).json({ error: "Failed to load tax regions" });
     }
   }
 );
 
+// Admin: Create tax region
 app.post(
-  "/api/admin/users",
+  "/api/admin/tax/regions",
   requireAuth,
+  requirePermission("shipping:manage"),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { email, password, name, active } = req.body;
-
-      if (!email || !password) {
-        res.status(400).json({ error: "Email and password are required" });
-        return;
-      }
-
-      const existing = await prisma.adminUser.findUnique({
-        where: { email },
-      });
-
-      if (existing) {
-        res.status(400).json({ error: "User with this email already exists" });
+      const parsed = parseTaxRegion(req.body);
+      if ("error" in parsed) {
+        res.status(400).json({ error: parsed.error });
         return;
       }
-
-      const passwordHash = await bcrypt.hash(password, 10);
-
-      const user = await prisma.adminUser.create({
-        data: {
-          email,
-          passwordHash,
-          name: name || null,
-          active: active ?? true,
-        },
-        select: {
-          id: true,
-          email: true,
-          name: true,
-          active: true,
-          createdAt: true,
-        },
-      });
-
-      res.status(201).json(user);
+      const region = await prisma.taxRate.create({ data: parsed.data });
+      res.status(201).json(region);
     } catch (error) {
-      console.error("Create admin user error:", error);
-      res.status(500).json({ error: "Failed to create user" });
+      console.error("Create tax region error:", error);
+      res.status(500).json({ error: "Failed to create tax region" });
     }
   }
 );
 
+// Admin: Update tax region
 app.put(
-  "/api/admin/users/:id",
+  "/api/admin/tax/regions/:id",
   requireAuth,
+  requirePermission("shipping:manage"),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const id = String((req.params as any).id || "");
-      const { name, active } = req.body;
+      const id = req.params.id as string;
+      const parsed = parseTaxRegion(req.body);
+      if ("error" in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
 
-      const data: any = {};
-      if (name !== undefined) data.name = name || null;
-      if (active !== undefined) data.active = active;
+      const existing = await prisma.taxRate.findUnique({ where: { id } });
+      if (!existing) {
+        res.status(404).json({ error: "Tax region not found" });
+        return;
+      }
 
-      const user = await prisma.adminUser.update({
+      const region = await prisma.taxRate.update({
         where: { id },
-        data,
-        select: {
-          id: true,
-          email: true,
-          name: true,
-          active: true,
-          createdAt: true,
-        },
+        data: parsed.data,
       });
-
-      res.json(user);
+      res.json(region);
     } catch (error) {
-      console.error("Update admin user error:", error);
-      res.status(500).json({ error: "Failed to update user" });
+      console.error("Update tax region error:", error);
+      res.status(500).json({ error: "Failed to update tax region" });
     }
   }
 );
 
+// Admin: Delete tax region
 app.delete(
-  "/api/admin/users/:id",
+  "/api/admin/tax/regions/:id",
   requireAuth,
+  requirePermission("shipping:manage"),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const id = String((req.params as any).id || "");
-
-      await prisma.adminUser.delete({
-        where: { id },
-      });
-
+      const id = req.params.id as string;
+      const deleted = await prisma.taxRate.deleteMany({ where: { id } });
+      if (deleted.count === 0) {
+        res.status(404).json({ error: "Tax region not found" });
+        return;
+      }
       res.json({ ok: true });
     } catch (error) {
-      console.error("Delete admin user error:", error);
-      res.status(500).json({ error: "Failed to delete user" });
+      console.error("Delete tax region error:", error);
+      res.status(500).json({ error: "Failed to delete tax region" });
     }
   }
 );
 
-app.post(
-  "/api/admin/users/:id/password",
-  requireAuth,
-  async (req: Request, res: Response): Promise<void> => {
-    try {
-      const id = String((req.params as any).id || "");
-      const { password } = req.body;
-
-      if (!password) {
-        res.status(400).json({ error: "Password is required" });
-        return;
-      }
+// Normalize a discount from the admin payload.
+function parseDiscount(
+  body: any
+): { data: Prisma.DiscountCreateInput } | { error: string } {
+  const name = String(body?.name || "").trim();
+  const type = body?.type;
+  const automatic = body?.automatic === true;
+  const code = automatic ? null : normalizeDiscountCode(body?.code) || null;
+  const value = Number(body?.value ?? 0);
+
+  const optionalInt = (v: unknown, min: number): number | null | undefined => {
+    if (v === null || v === undefined || v === "") return null;
+    const n = Number(v);
+    return Number.isInteger(n) && n >= min ? n : undefined;
+  };
+  const optionalDate = (v: unknown): Date | null | undefined => {
+    if (v === null || v === undefined || v === "") return null;
+    const d = new Date(String(v));
+    return Number.isNaN(d.getTime()) ? undefined : d;
+  };
+  const idList = (v: unknown): string[] =>
+    Array.isArray(v)
+      ? Array.from(new Set(v.map((x) => String(x).trim()).filter(Boolean)))
+      : [];
+
+  if (!name) return { error: "name is required" };
+  if (!isDiscountType(type)) {
+    return { error: `type must be one of: ${DISCOUNT_TYPES.join(", ")}` };
+  }
+  if (!automatic && !code) {
+    return { error: "code is required unless the discount is automatic" };
+  }
+  if (code && !/^[A-Z0-9_-]{3,32}$/.test(code)) {
+    return {
+      error: "code must be 3-32 letters, numbers, dashes or underscores",
+    };
+  }
+  if (type === "percentage" || type === "buy_x_get_y") {
+    if (!Number.isInteger(value) || value < 1 || value > 100) {
+      return { error: "value must be a percentage from 1 to 100" };
+    }
+  }
+  if (type === "fixed_amount" && (!Number.isInteger(value) || value < 1)) {
+    return { error: "value must be a positive amount in cents" };
+  }
 
-      const passwordHash = await bcrypt.hash(password, 10);
+  const buyQuantity = optionalInt(body?.buyQuantity, 1);
+  const getQuantity = optionalInt(body?.getQuantity, 1);
+  if (type === "buy_x_get_y" && (!buyQuantity || !getQuantity)) {
+    return { error: "buyQuantity and getQuantity must be positive integers" };
+  }
 
-      await prisma.adminUser.update({
-        where: { id },
-        data: { passwordHash },
-      });
+  const minSubtotalCents = optionalInt(body?.minSubtotalCents, 0);
+  const usageLimit = optionalInt(body?.usageLimit, 1);
+  const perCustomerLimit = optionalInt(body?.perCustomerLimit, 1);
+  if (
+    minSubtotalCents === undefined ||
+    usageLimit === undefined ||
+    perCustomerLimit === undefined
+  ) {
+    return {
+      error:
+        "minSubtotalCents, usageLimit and perCustomerLimit must be whole numbers",
+    };
+  }
 
-      res.json({ ok: true });
-    } catch (error) {
-      console.error("Change password error:", error);
-      res.status(500).json({ error: "Failed to change password" });
-    }
+  const startsAt = optionalDate(body?.startsAt);
+  const endsAt = optionalDate(body?.endsAt);
+  if (startsAt === undefined || endsAt === undefined) {
+    return { error: "startsAt and endsAt must be valid dates" };
+  }
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    return { error: "endsAt must be after startsAt" };
   }
-);
 
-// Admin: Get shipping configuration
+  return {
+    data: {
+      code,
+      name,
+      type,
+      automatic,
+      value: type === "free_shipping" ? 0 : value,
+      buyQuantity: type === "buy_x_get_y" ? buyQuantity : null,
+      getQuantity: type === "buy_x_get_y" ? getQuantity : null,
+      minSubtotalCents,
+      productIds: idList(body?.productIds),
+      categoryIds: idList(body?.categoryIds),
+      usageLimit,
+      perCustomerLimit,
+      startsAt,
+      endsAt,
+      active: body?.active !== false,
+    },
+  };
+}
+
+// Admin: List discounts
 app.get(
-  "/api/admin/shipping",
+  "/api/admin/discounts",
   requireAuth,
+  requirePermission("discounts:manage"),
   async (_req: Request, res: Response): Promise<void> => {
     try {
-      const zones = await prisma.shippingZone.findMany({
-        include: {
-          weightTiers: {
-            orderBy: { minWeightG: "asc" },
-          },
-        },
-        orderBy: { name: "asc" },
+      const discounts = await prisma.discount.findMany({
+        orderBy: { createdAt: "desc" },
+      });
+      const totals = await prisma.discountRedemption.groupBy({
+        by: ["discountId"],
+        _sum: { amountCents: true },
+      });
+      const savedById = new Map(
+        totals.map((t) => [t.discountId, t._sum.amountCents || 0])
+      );
+      res.json({
+        discounts: discounts.map((d) => ({
+          ...d,
+          redeemedCents: savedById.get(d.id) || 0,
+        })),
       });
+    } catch (error) {
+      console.error("List discounts error:", error);
+      res.status(500).json({ error: "Failed to load discounts" });
+    }
+  }
+);
 
-      res.json({ zones });
+// Admin: Create discount
+app.post(
+  "/api/admin/discounts",
+  requireAuth,
+  requirePermission("discounts:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const parsed = parseDiscount(req.body);
+      if ("error" in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+      if (parsed.data.code) {
+        const taken = await prisma.discount.findUnique({
+          where: { code: parsed.data.code },
+        });
+        if (taken) {
+          res.status(409).json({ error: "A discount with this code exists" });
+          return;
+        }
+      }
+      const discount = await prisma.discount.create({ data: parsed.data });
+      res.status(201).json(discount);
     } catch (error) {
-      console.error("Get shipping config error:", error);
-      res.status(500).json({ error: "Failed to get shipping configuration" });
+      console.error("Create discount error:", error);
+      res.status(500).json({ error: "Failed to create discount" });
     }
   }
 );
 
-// Admin: Update shipping zone
+// Admin: Update discount
 app.put(
-  "/api/admin/shipping/zones/:id",
+  "/api/admin/discounts/:id",
   requireAuth,
+  requirePermission("discounts:manage"),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { id: rawId } = req.params;
-      const id = Array.isArray(rawId) ? rawId[0] : rawId;
-      const { name, countries, enabled, freeShippingMin, weightTiers } =
-        req.body;
-
-      // Update zone
-      await prisma.shippingZone.update({
-        where: { id },
-        data: {
-          name,
-          countries,
-          enabled,
-          freeShippingMin: freeShippingMin || null,
-        },
-      });
-
-      // Update weight tiers if provided
-      if (Array.isArray(weightTiers)) {
-        // Delete existing tiers
-        await prisma.weightTier.deleteMany({
-          where: { zoneId: id },
-        });
+      const id = req.params.id as string;
+      const parsed = parseDiscount(req.body);
+      if ("error" in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
 
-        // Create new tiers
-        await prisma.weightTier.createMany({
-          data: weightTiers.map((tier: any) => ({
-            zoneId: id,
-            minWeightG: tier.minWeightG,
-            maxWeightG: tier.maxWeightG,
-            rateCents: tier.rateCents,
-          })),
+      const existing = await prisma.discount.findUnique({ where: { id } });
+      if (!existing) {
+        res.status(404).json({ error: "Discount not found" });
+        return;
+      }
+      if (parsed.data.code && parsed.data.code !== existing.code) {
+        const taken = await prisma.discount.findUnique({
+          where: { code: parsed.data.code },
         });
+        if (taken) {
+          res.status(409).json({ error: "A discount with this code exists" });
+          return;
+        }
       }
 
-      // Return updated zone with tiers
-      const updated = await prisma.shippingZone.findUnique({
+      const discount = await prisma.discount.update({
         where: { id },
-        include: {
-          weightTiers: {
-            orderBy: { minWeightG: "asc" },
-          },
-        },
+        data: parsed.data,
       });
+      res.json(discount);
+    } catch (error) {
+      console.error("Update discount error:", error);
+      res.status(500).json({ error: "Failed to update discount" });
+    }
+  }
+);
 
-      res.json(updated);
+// Admin: Delete discount. Used discounts are kept for order history and can
+// only be deactivated.
+app.delete(
+  "/api/admin/discounts/:id",
+  requireAuth,
+  requirePermission("discounts:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const redemptions = await prisma.discountRedemption.count({
+        where: { discountId: id },
+      });
+      if (redemptions > 0) {
+        res.status(409).json({
+          error: "This discount has been used; deactivate it instead",
+        });
+        return;
+      }
+      const deleted = await prisma.discount.deleteMany({ where: { id } });
+      if (deleted.count === 0) {
+        res.status(404).json({ error: "Discount not found" });
+        return;
+      }
+      res.json({ ok: true });
     } catch (error) {
-      console.error("Update shipping zone error:", error);
-      res.status(500).json({ error: "Failed to update shipping zone" });
+      console.error("Delete discount error:", error);
+      res.status(500).json({ error: "Failed to delete discount" });
     }
   }
 );
 
-// Admin: Create shipping zone
-app.post(
-  "/api/admin/shipping/zones",
+// Admin: Checkout attempts with funnel and recovery stats. Defaults to the
+// abandoned (expired) ones from the last 30 days.
+app.get(
+  "/api/admin/abandoned-checkouts",
   requireAuth,
+  requirePermission("customers:read"),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { name, countries, enabled, freeShippingMin, weightTiers } =
-        req.body;
+      const status =
+        typeof req.query.status === "string" ? req.query.status : "expired";
+      if (status !== "all" && !isCheckoutStatus(status)) {
+        res.status(400).json({ error: "Unknown checkout status" });
+        return;
+      }
+      const days = Number(req.query.days) || 30;
+      if (!Number.isInteger(days) || days < 1 || days > 365) {
+        res.status(400).json({ error: "days must be from 1 to 365" });
+        return;
+      }
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
 
-      const zone = await prisma.shippingZone.create({
-        data: {
-          name,
-          countries: countries || [],
-          enabled: enabled ?? true,
-          freeShippingMin: freeShippingMin || null,
-          weightTiers: {
-            create: (weightTiers || []).map((tier: any) => ({
-              minWeightG: tier.minWeightG,
-              maxWeightG: tier.maxWeightG,
-              rateCents: tier.rateCents,
-            })),
-          },
+      const attempts = await prisma.checkoutAttempt.findMany({
+        where: {
+          createdAt: { gte: since },
+          ...(status !== "all" ? { status } : {}),
         },
+        orderBy: { createdAt: "desc" },
+        take: 200,
         include: {
-          weightTiers: {
-            orderBy: { minWeightG: "asc" },
+          recoveries: {
+            where: { status: "completed" },
+            select: { orderId: true },
           },
         },
       });
 
-      res.status(201).json(zone);
+      const productIds = new Set(
+        attempts.flatMap((a) => checkoutLines(a.items).map((l) => l.productId))
+      );
+      const products = await prisma.product.findMany({
+        where: { id: { in: Array.from(productIds) } },
+        select: { id: true, name: true },
+      });
+      const nameById = new Map(products.map((p) => [p.id, p.name]));
+
+      res.json({
+        days,
+        stats: await checkoutStats(since),
+        checkouts: attempts.map(({ recoveries, recoveryToken, ...a }) => ({
+          ...a,
+          items: checkoutLines(a.items).map((l) => ({
+            ...l,
+            name: nameById.get(l.productId) || l.productId,
+          })),
+          recoveryUrl: recoveryUrl(recoveryToken),
+          recoveredOrderId: recoveries[0]?.orderId ?? null,
+        })),
+      });
     } catch (error) {
-      console.error("Create shipping zone error:", error);
-      res.status(500).json({ error: "Failed to create shipping zone" });
+      console.error("List abandoned checkouts error:", error);
+      res.status(500).json({ error: "Failed to load abandoned checkouts" });
+    }
+  }
+);
+
+// Admin: Send the recovery email for an abandoned checkout
+app.post(
+  "/api/admin/abandoned-checkouts/:id/recovery-email",
+  requireAuth,
+  requirePermission("customers:write"),
+  async (req: Request, res: Response): Promise<void> => {
+    const id = req.params.id as string;
+    const result = await sendRecoveryEmail(id);
+    if (!result.ok) {
+      res.status(result.httpStatus).json({ error: result.error });
+      return;
     }
+    res.json({
+      ok: true,
+      recoveryEmailSentAt: result.attempt.recoveryEmailSentAt,
+    });
   }
 );
 
@@ -2848,6 +5099,7 @@ app.get(
 app.get(
   "/api/admin/settings",
   requireAuth,
+  requirePermission("settings:manage"),
   async (_req: Request, res: Response): Promise<void> => {
     try {
       const settings = await prisma.storeSetting.findMany();
@@ -2872,10 +5124,30 @@ app.get(
 app.put(
   "/api/admin/settings",
   requireAuth,
+  requirePermission("settings:manage"),
   async (req: Request, res: Response): Promise<void> => {
     try {
       const updates = req.body;
 
+      const turningOnTwoFactor =
+        updates.requireAdminTwoFactor === true &&
+        !(await getStoreSetting<boolean>("requireAdminTwoFactor", false));
+      if (turningOnTwoFactor) {
+        const me = req.user
+          ? await prisma.adminUser.findUnique({
+              where: { id: req.user.userId },
+              select: { totpEnabledAt: true },
+            })
+          : null;
+        if (!me?.totpEnabledAt) {
+          res.status(400).json({
+            error:
+              "Turn on two-factor authentication for your own account first",
+          });
+          return;
+        }
+      }
+
       for (const [key, value] of Object.entries(updates)) {
         const stringValue =
           typeof value === "string" ? value : JSON.stringify(value);
@@ -2886,6 +5158,17 @@ app.put(
           create: { key, value: stringValue },
         });
       }
+      if ("lowStockThreshold" in updates || "enableLowStockAlerts" in updates) {
+        scheduleStockAlertCheck();
+      }
+      if (turningOnTwoFactor) {
+        // Admins without two-factor have to enroll at their next sign in.
+        const unenrolled = await prisma.adminUser.findMany({
+          where: { totpEnabledAt: null },
+          select: { id: true },
+        });
+        await signOutAdmins(unenrolled.map((u) => u.id));
+      }
 
       res.json({ success: true });
     } catch (err: any) {
@@ -2897,7 +5180,10 @@ app.put(
 
 async function start(): Promise<void> {
   // await ensureSeedProduct(); // Hard-coded products removed
+  loadBreachedPasswords();
   await ensureDefaultShippingZone();
+  startStockAlertSweep();
+  startEmailWorker();
 
   app.listen(config.port, () => {
     console.log(`Server listening on http://localhost:${config.port}`);
@@ -0,0 +1,110 @@
+import type { Prisma } from "@prisma/client";
+
+export const STOCK_MOVEMENT_REASONS = [
+  "sale",
+  "adjustment",
+  "restock",
+  "return",
+  "damage",
+  "count",
+] as const;
+export type StockMovementReason = (typeof STOCK_MOVEMENT_REASONS)[number];
+
+const VALID_STOCK_MOVEMENT_REASONS = new Set<string>(STOCK_MOVEMENT_REASONS);
+
+export function isStockMovementReason(
+  value: unknown
+): value is StockMovementReason {
+  return typeof value === "string" && VALID_STOCK_MOVEMENT_REASONS.has(value);
+}
+
+export interface StockMovement {
+  productId: string;
+  // Signed change to apply to Product.stock.
+  delta: number;
+  reason: StockMovementReason;
+  orderId?: string | null;
+  adminUserId?: string | null;
+  note?: string | null;
+}
+
+// Serialize stock changes per product.
+export async function lockProducts(
+  tx: Prisma.TransactionClient,
+  productIds: string[]
+): Promise<void> {
+  if (productIds.length === 0) return;
+  await tx.$queryRaw`SELECT "id" FROM "Product" WHERE "id" = ANY(${productIds}::text[]) ORDER BY "id" FOR UPDATE`;
+}
+
+/**
+ * Change a product's stock and record the movement in the ledger. All writes
+ * to Product.stock go through here.
+ *
+ * Returns the new stock level, or null when the product doesn't exist or a
+ * decrement would take stock below zero (nothing is written then).
+ */
+export async function recordStockMovement(
+  tx: Prisma.TransactionClient,
+  movement: StockMovement
+): Promise<number | null> {
+  const { productId, delta } = movement;
+
+  const updated = await tx.product.updateMany({
+    where: {
+      id: productId,
+      ...(delta < 0 ? { stock: { gte: -delta } } : {}),
+    },
+    data: { stock: { increment: delta } },
+  });
+  if (updated.count !== 1) return null;
+
+  const product = await tx.product.findUniqueOrThrow({
+    where: { id: productId },
+    select: { stock: true },
+  });
+
+  await tx.inventoryMovement.create({
+    data: {
+      productId,
+      delta,
+      stockAfter: product.stock,
+      reason: movement.reason,
+      orderId: movement.orderId || null,
+      adminUserId: movement.adminUserId || null,
+      note: movement.note || null,
+    },
+  });
+
+  return product.stock;
+}
+
+/**
+ * Set a product's stock to an absolute level (a physical count, or an edit of
+ * the stock field), recording the difference. Counts are recorded even when
+ * nothing changed, so the ledger shows when stock was last verified.
+ */
+export async function setStockLevel(
+  tx: Prisma.TransactionClient,
+  movement: Omit<StockMovement, "delta"> & { stock: number }
+): Promise<number | null> {
+  await lockProducts(tx, [movement.productId]);
+
+  const product = await tx.product.findUnique({
+    where: { id: movement.productId },
+    select: { stock: true },
+  });
+  if (!product) return null;
+
+  const delta = movement.stock - product.stock;
+  if (delta === 0 && movement.reason !== "count") return product.stock;
+
+  return recordStockMovement(tx, {
+    productId: movement.productId,
+    delta,
+    reason: movement.reason,
+    orderId: movement.orderId,
+    adminUserId: movement.adminUserId,
+    note: movement.note,
+  });
+}
@@ -0,0 +1,240 @@
+import { randomUUID } from "crypto";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../db.js";
+import { lockProducts, recordStockMovement } from "./movements.js";
+
+// Checkout sessions expire after this long (Stripe's minimum is 30 minutes;
+// the extra minute covers clock skew).
+export const CHECKOUT_SESSION_MINUTES = 31;
+
+// Holds outlive their session a little so a payment completed right before
+// expiry still finds its hold when the webhook arrives.
+export const HOLD_GRACE_MINUTES = 10;
+
+export interface StockLine {
+  productId: string;
+  quantity: number;
+}
+
+export type ReserveResult =
+  | { ok: true; checkoutKey: string; sessionExpiresAt: number }
+  | { ok: false; httpStatus: number; error: string };
+
+export interface StockShortfall {
+  productId: string;
+  requested: number;
+  available: number;
+}
+
+// Stock held by other open checkouts, per product.
+async function activeReservedQuantities(
+  tx: Prisma.TransactionClient,
+  productIds: string[],
+  now: Date
+): Promise<Map<string, number>> {
+  const held = await tx.stockReservation.groupBy({
+    by: ["productId"],
+    where: {
+      productId: { in: productIds },
+      status: "active",
+      expiresAt: { gt: now },
+    },
+    _sum: { quantity: true },
+  });
+  return new Map(held.map((h) => [h.productId, h._sum.quantity || 0]));
+}
+
+/**
+ * Hold stock for a checkout about to be created. The returned key goes into
+ * the Stripe session metadata so the webhook can find the hold, and the
+ * session must expire at `sessionExpiresAt`.
+ */
+export async function reserveStock(lines: StockLine[]): Promise<ReserveResult> {
+  const checkoutKey = randomUUID();
+  const now = new Date();
+  const sessionExpiresAt = new Date(
+    now.getTime() + CHECKOUT_SESSION_MINUTES * 60_000
+  );
+  const expiresAt = new Date(
+    sessionExpiresAt.getTime() + HOLD_GRACE_MINUTES * 60_000
+  );
+  const productIds = Array.from(new Set(lines.map((l) => l.productId)));
+
+  return prisma.$transaction(async (tx): Promise<ReserveResult> => {
+    await lockProducts(tx, productIds);
+
+    const products = await tx.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true, name: true, stock: true },
+    });
+    const productById = new Map(products.map((p) => [p.id, p]));
+    const held = await activeReservedQuantities(tx, productIds, now);
+
+    for (const line of lines) {
+      const product = productById.get(line.productId);
+      if (!product) {
+        return {
+          ok: false,
+          httpStatus: 404,
+          error: `Product not found: ${line.productId}`,
+        };
+      }
+      const available = Math.max(
+        0,
+        product.stock - (held.get(product.id) || 0)
+      );
+      if (line.quantity > available) {
+        return {
+          ok: false,
+          httpStatus: 400,
+          error:
+            available === 0
+              ? `${product.name} is sold out`
+              : `Only ${available} left of ${product.name}`,
+        };
+      }
+    }
+
+    await tx.stockReservation.createMany({
+      data: lines.map((l) => ({
+        checkoutKey,
+        productId: l.productId,
+        quantity: l.quantity,
+        expiresAt,
+      })),
+    });
+
+    return {
+      ok: true,
+      checkoutKey,
+      // Unix seconds, as Stripe's `expires_at` expects.
+      sessionExpiresAt: Math.floor(sessionExpiresAt.getTime() / 1000),
+    };
+  });
+}
+
+export async function attachReservations(
+  checkoutKey: string,
+  stripeSessionId: string
+): Promise<void> {
+  await prisma.stockReservation.updateMany({
+    where: { checkoutKey },
+    data: { stripeSessionId },
+  });
+}
+
+/**
+ * Give held stock back, e.g. when the checkout session expires or could not
+ * be created.
+ */
+export async function releaseReservations(where: {
+  checkoutKey?: string | null;
+  stripeSessionId?: string | null;
+}): Promise<number> {
+  const or: Prisma.StockReservationWhereInput[] = [];
+  if (where.checkoutKey) or.push({ checkoutKey: where.checkoutKey });
+  if (where.stripeSessionId)
+    or.push({ stripeSessionId: where.stripeSessionId });
+  if (or.length === 0) return 0;
+
+  const released = await prisma.stockReservation.updateMany({
+    where: { status: "active", OR: or },
+    data: { status: "released" },
+  });
+  return released.count;
+}
+
+/**
+ * Turn a paid checkout's holds into stock decrements. Never throws for lack of
+ * stock: lines that can't be covered (the hold lapsed and the stock sold, or
+ * stock was adjusted) are decremented as far as possible and reported back.
+ */
+export async function convertReservations(
+  tx: Prisma.TransactionClient,
+  params: {
+    checkoutKey?: string | null;
+    stripeSessionId: string;
+    // The paid order, recorded on the sale movements.
+    orderId: string;
+    lines: StockLine[];
+  }
+): Promise<StockShortfall[]> {
+  const productIds = Array.from(new Set(params.lines.map((l) => l.productId)));
+  await lockProducts(tx, productIds);
+
+  const holds = await tx.stockReservation.findMany({
+    where: {
+      status: "active",
+      OR: [
+        { stripeSessionId: params.stripeSessionId },
+        ...(params.checkoutKey ? [{ checkoutKey: params.checkoutKey }] : []),
+      ],
+    },
+  });
+  const holdIds = holds.map((h) => h.id);
+
+  // Other checkouts' holds still count against what this one may take,
+  // unless this checkout has its own hold covering the line.
+  const now = new Date();
+  const heldByOthers = await tx.stockReservation.groupBy({
+    by: ["productId"],
+    where: {
+      productId: { in: productIds },
+      status: "active",
+      expiresAt: { gt: now },
+      id: { notIn: holdIds },
+    },
+    _sum: { quantity: true },
+  });
+  const othersByProduct = new Map(
+    heldByOthers.map((h) => [h.productId, h._sum.quantity || 0])
+  );
+  const heldHere = new Map<string, number>();
+  for (const h of holds) {
+    heldHere.set(h.productId, (heldHere.get(h.productId) || 0) + h.quantity);
+  }
+
+  const products = await tx.product.findMany({
+    where: { id: { in: productIds } },
+    select: { id: true, stock: true },
+  });
+  const stockById = new Map(products.map((p) => [p.id, p.stock]));
+
+  const shortfalls: StockShortfall[] = [];
+  for (const line of params.lines) {
+    const stock = stockById.get(line.productId) ?? 0;
+    const ownHold = heldHere.get(line.productId) || 0;
+    const available =
+      ownHold >= line.quantity
+        ? stock
+        : Math.max(0, stock - (othersByProduct.get(line.productId) || 0));
+    const take = Math.min(line.quantity, available);
+
+    if (take > 0) {
+      await recordStockMovement(tx, {
+        productId: line.productId,
+        delta: -take,
+        reason: "sale",
+        orderId: params.orderId,
+      });
+      stockById.set(line.productId, stock - take);
+    }
+    heldHere.set(line.productId, Math.max(0, ownHold - line.quantity));
+    if (take < line.quantity) {
+      shortfalls.push({
+        productId: line.productId,
+        requested: line.quantity,
+        available: take,
+      });
+    }
+  }
+
+  if (holdIds.length > 0) {
+    await tx.stockReservation.updateMany({
+      where: { id: { in: holdIds } },
+      data: { status: "converted" },
+    });
+  }
+
+  return shortfalls;
+}
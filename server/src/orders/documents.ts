@@ -0,0 +1,568 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { Order, OrderItem, Refund } from "@prisma/client";
+import { prisma } from "../db.js";
+import { getStoreSetting } from "../settings.js";
+import { orderNumber } from "../email/templates.js";
+import {
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  createPdf,
+  wrapText,
+  type PdfColor,
+  type PdfDocument,
+  type PdfImage,
+} from "../pdf/document.js";
+import { parseImage } from "../pdf/images.js";
+
+export type OrderForDocument = Order & {
+  items: OrderItem[];
+  refunds: Refund[];
+};
+
+export interface DocumentBranding {
+  storeName: string;
+  logo: PdfImage | null;
+  primaryColor: PdfColor;
+  supportEmail: string | null;
+  supportPhone: string | null;
+}
+
+// Invoices are only issued for orders that were paid.
+const UNINVOICEABLE_STATUSES = ["pending", "cancelled"];
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+const LOGO_FETCH_TIMEOUT_MS = 5000;
+// Key for the lock that keeps invoice numbers in sequence.
+const INVOICE_NUMBER_LOCK = 7_310_001;
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+// Leave room for the footer.
+const CONTENT_BOTTOM = PAGE_HEIGHT - 72;
+const ROW_HEIGHT = 18;
+const GRAY: PdfColor = [0.4, 0.4, 0.4];
+const LIGHT: PdfColor = [0.95, 0.95, 0.95];
+const RULE: PdfColor = [0.85, 0.85, 0.85];
+
+export function invoiceNumberLabel(invoiceNumber: number): string {
+  return `INV-${String(invoiceNumber).padStart(6, "0")}`;
+}
+
+function hexToColor(hex: string): PdfColor {
+  const full =
+    hex.length === 4
+      ? hex
+          .slice(1)
+          .split("")
+          .map((c) => c + c)
+          .join("")
+      : hex.slice(1, 7);
+  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16) / 255) as [
+    number,
+    number,
+    number
+  ];
+}
+
+/**
+ * Read the logo for drawing. Uploaded logos are served from `uploadDir`;
+ * others (R2, external) are fetched. A logo that can't be read leaves the
+ * store name in its place.
+ */
+async function loadLogo(
+  logoUrl: string,
+  uploadDir: string
+): Promise<PdfImage | null> {
+  try {
+    let data: Buffer;
+    if (logoUrl.startsWith("/uploads/")) {
+      data = await fs.readFile(
+        path.join(uploadDir, path.basename(decodeURIComponent(logoUrl)))
+      );
+    } else if (/^https?:\/\//i.test(logoUrl)) {
+      const res = await fetch(logoUrl, {
+        signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS),
+      });
+      if (!res.ok) return null;
+      data = Buffer.from(await res.arrayBuffer());
+    } else {
+      return null;
+    }
+    if (data.length > MAX_LOGO_BYTES) return null;
+    return parseImage(data);
+  } catch (err) {
+    console.error("Document logo error:", err);
+    return null;
+  }
+}
+
+export async function loadDocumentBranding(
+  uploadDir: string
+): Promise<DocumentBranding> {
+  const [storeName, logoUrl, primaryColor, supportEmail, supportPhone] =
+    await Promise.all([
+      getStoreSetting<string>("storeName", "Red Ember"),
+      getStoreSetting<string>("logoUrl", ""),
+      getStoreSetting<string>("primaryColor", "#ec131e"),
+      getStoreSetting<string>("supportEmail", ""),
+      getStoreSetting<string>("supportPhone", ""),
+    ]);
+  return {
+    storeName: storeName || "Red Ember",
+    logo: logoUrl ? await loadLogo(logoUrl, uploadDir) : null,
+    primaryColor: hexToColor(
+      /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(primaryColor)
+        ? primaryColor
+        : "#ec131e"
+    ),
+    supportEmail: supportEmail || null,
+    supportPhone: supportPhone || null,
+  };
+}
+
+/**
+ * Give each order that doesn't have one the next invoice number, in the
+ * order given. Orders that were never paid are left without. Returns the
+ * orders that can be invoiced, numbered.
+ */
+export async function assignInvoiceNumbers(
+  orders: OrderForDocument[]
+): Promise<OrderForDocument[]> {
+  const numbered: OrderForDocument[] = [];
+  for (const order of orders) {
+    if (order.invoiceNumber !== null) {
+      numbered.push(order);
+      continue;
+    }
+    if (UNINVOICEABLE_STATUSES.includes(order.status)) continue;
+
+    const assigned = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${INVOICE_NUMBER_LOCK})`;
+      const current = await tx.order.findUniqueOrThrow({
+        where: { id: order.id },
+        select: { invoiceNumber: true, invoicedAt: true },
+      });
+      if (current.invoiceNumber !== null) return current;
+
+      const last = await tx.order.aggregate({ _max: { invoiceNumber: true } });
+      return tx.order.update({
+        where: { id: order.id },
+        data: {
+          invoiceNumber: (last._max.invoiceNumber ?? 0) + 1,
+          invoicedAt: new Date(),
+        },
+        select: { invoiceNumber: true, invoicedAt: true },
+      });
+    });
+    numbered.push({ ...order, ...assigned });
+  }
+  return numbered;
+}
+
+export function canInvoice(
+  order: Pick<Order, "status" | "invoiceNumber">
+): boolean {
+  return (
+    order.invoiceNumber !== null ||
+    !UNINVOICEABLE_STATUSES.includes(order.status)
+  );
+}
+
+function formatMoney(cents: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(cents / 100);
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function addressLines(order: Order): string[] {
+  return [
+    order.shippingName,
+    order.shippingLine1,
+    order.shippingLine2,
+    [order.shippingCity, order.shippingState, order.shippingPostal]
+      .filter(Boolean)
+      .join(", "),
+    order.shippingCountry,
+  ].filter((l): l is string => Boolean(l));
+}
+
+interface Column {
+  label: string;
+  width: number;
+  align?: "left" | "right";
+}
+
+// Draw the logo (or store name) and the document title block. Returns the
+// y below it.
+function drawHeader(
+  pdf: PdfDocument,
+  branding: DocumentBranding,
+  title: string,
+  details: Array<[string, string]>
+): number {
+  if (branding.logo) {
+    const scale = Math.min(
+      48 / branding.logo.height,
+      180 / branding.logo.width
+    );
+    pdf.image(
+      branding.logo,
+      MARGIN,
+      MARGIN,
+      branding.logo.width * scale,
+      branding.logo.height * scale
+    );
+  } else {
+    pdf.text(branding.storeName, MARGIN, MARGIN + 8, {
+      size: 22,
+      font: "bold",
+      color: branding.primaryColor,
+    });
+  }
+
+  const right = PAGE_WIDTH - MARGIN;
+  pdf.text(title, right, MARGIN, {
+    size: 20,
+    font: "bold",
+    align: "right",
+  });
+  let y = MARGIN + 28;
+  for (const [label, value] of details) {
+    pdf.text(`${label}: ${value}`, right, y, {
+      size: 9,
+      color: GRAY,
+      align: "right",
+    });
+    y += 13;
+  }
+  y = Math.max(y, MARGIN + 60) + 12;
+  pdf.line(MARGIN, y, right, y, { color: branding.primaryColor, width: 1.5 });
+  return y + 18;
+}
+
+function drawFooter(
+  pdf: PdfDocument,
+  branding: DocumentBranding,
+  note: string
+): void {
+  const contact = [branding.supportEmail, branding.supportPhone]
+    .filter(Boolean)
+    .join(" · ");
+  const y = PAGE_HEIGHT - 56;
+  pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y, { color: RULE });
+  pdf.text(
+    contact ? `${note} Questions? ${contact}` : note,
+    PAGE_WIDTH / 2,
+    y + 10,
+    { size: 8, color: GRAY, align: "center" }
+  );
+}
+
+// A titled block of lines, e.g. the shipping address. Returns the y below.
+function drawBlock(
+  pdf: PdfDocument,
+  title: string,
+  lines: string[],
+  x: number,
+  y: number
+): number {
+  pdf.text(title.toUpperCase(), x, y, { size: 8, font: "bold", color: GRAY });
+  let lineY = y + 14;
+  for (const line of lines) {
+    pdf.text(line, x, lineY, { size: 10 });
+    lineY += 13;
+  }
+  return lineY;
+}
+
+function drawTableHeader(pdf: PdfDocument, columns: Column[], y: number) {
+  pdf.rect(MARGIN, y, CONTENT_WIDTH, ROW_HEIGHT, { fill: LIGHT });
+  let x = MARGIN;
+  for (const col of columns) {
+    pdf.text(
+      col.label.toUpperCase(),
+      col.align === "right" ? x + col.width - 6 : x + 6,
+      y + 5,
+      { size: 8, font: "bold", color: GRAY, align: col.align }
+    );
+    x += col.width;
+  }
+  return y + ROW_HEIGHT + 4;
+}
+
+/**
+ * Draw table rows, wrapping the widest column. When the page fills,
+ * `nextPage` finishes it and starts another, returning where to go on.
+ * Returns the y below the table.
+ */
+function drawTableRows(
+  pdf: PdfDocument,
+  columns: Column[],
+  rows: string[][],
+  y: number,
+  nextPage: () => number
+): number {
+  const wrapIndex = columns.reduce(
+    (widest, col, idx) => (col.width > columns[widest].width ? idx : widest),
+    0
+  );
+  let rowY = drawTableHeader(pdf, columns, y);
+  for (const row of rows) {
+    const wrapped = wrapText(row[wrapIndex], columns[wrapIndex].width - 12, 10);
+    const height = Math.max(1, wrapped.length) * 13 + 6;
+    if (rowY + height > CONTENT_BOTTOM) {
+      rowY = drawTableHeader(pdf, columns, nextPage());
+    }
+    let x = MARGIN;
+    row.forEach((cell, idx) => {
+      const col = columns[idx];
+      const lines = idx === wrapIndex ? wrapped : [cell];
+      lines.forEach((line, lineIdx) => {
+        pdf.text(
+          line,
+          col.align === "right" ? x + col.width - 6 : x + 6,
+          rowY + lineIdx * 13,
+          { size: 10, align: col.align }
+        );
+      });
+      x += col.width;
+    });
+    rowY += height;
+    pdf.line(MARGIN, rowY - 4, PAGE_WIDTH - MARGIN, rowY - 4, { color: RULE });
+  }
+  return rowY;
+}
+
+function drawPackingSlip(
+  pdf: PdfDocument,
+  order: OrderForDocument,
+  branding: DocumentBranding
+): void {
+  const note = "Thank you for your order!";
+  const header = (): number =>
+    drawHeader(pdf, branding, "PACKING SLIP", [
+      ["Order", orderNumber(order)],
+      ["Date", formatDate(order.createdAt)],
+    ]);
+  const nextPage = (): number => {
+    drawFooter(pdf, branding, note);
+    pdf.addPage();
+    return header();
+  };
+  let y = header();
+
+  const shipTo = drawBlock(pdf, "Ship to", addressLines(order), MARGIN, y);
+  const shipping = [
+    order.shippingMethod,
+    order.trackingNumber
+      ? `Tracking: ${[order.trackingCarrier, order.trackingNumber]
+          .filter(Boolean)
+          .join(" ")}`
+      : null,
+    order.email,
+    order.phone,
+  ].filter((l): l is string => Boolean(l));
+  const details = drawBlock(
+    pdf,
+    "Shipping",
+    shipping,
+    MARGIN + CONTENT_WIDTH / 2,
+    y
+  );
+  y = Math.max(shipTo, details) + 16;
+
+  const columns: Column[] = [
+    { label: "Packed", width: 50 },
+    { label: "SKU", width: 120 },
+    { label: "Item", width: CONTENT_WIDTH - 230 },
+    { label: "Qty", width: 60, align: "right" },
+  ];
+  y = drawTableRows(
+    pdf,
+    columns,
+    order.items.map((item) => [
+      "[   ]",
+      item.sku,
+      item.name,
+      String(item.quantity),
+    ]),
+    y,
+    nextPage
+  );
+
+  const units = order.items.reduce((sum, item) => sum + item.quantity, 0);
+  pdf.text(
+    `${units} item${units === 1 ? "" : "s"}`,
+    PAGE_WIDTH - MARGIN - 6,
+    y + 6,
+    { size: 10, font: "bold", align: "right" }
+  );
+  drawFooter(pdf, branding, note);
+}
+
+function drawInvoice(
+  pdf: PdfDocument,
+  order: OrderForDocument,
+  branding: DocumentBranding
+): void {
+  const money = (cents: number): string => formatMoney(cents, order.currency);
+  const note = `Invoice ${invoiceNumberLabel(order.invoiceNumber!)}.`;
+  const header = (): number =>
+    drawHeader(pdf, branding, "INVOICE", [
+      ["Invoice", invoiceNumberLabel(order.invoiceNumber!)],
+      ["Invoice date", formatDate(order.invoicedAt ?? order.createdAt)],
+      ["Order", orderNumber(order)],
+      ["Order date", formatDate(order.createdAt)],
+    ]);
+  const nextPage = (): number => {
+    drawFooter(pdf, branding, note);
+    pdf.addPage();
+    return header();
+  };
+  let y = header();
+
+  const billTo = drawBlock(
+    pdf,
+    "Bill to",
+    [...addressLines(order), order.email].filter((l): l is string =>
+      Boolean(l)
+    ),
+    MARGIN,
+    y
+  );
+  const from = drawBlock(
+    pdf,
+    "From",
+    [branding.storeName, branding.supportEmail, branding.supportPhone].filter(
+      (l): l is string => Boolean(l)
+    ),
+    MARGIN + CONTENT_WIDTH / 2,
+    y
+  );
+  y = Math.max(billTo, from) + 16;
+
+  const columns: Column[] = [
+    { label: "SKU", width: 80 },
+    { label: "Item", width: CONTENT_WIDTH - 380 },
+    { label: "Qty", width: 35, align: "right" },
+    { label: "Unit price", width: 70, align: "right" },
+    { label: "Discount", width: 60, align: "right" },
+    { label: "Tax", width: 60, align: "right" },
+    { label: "Amount", width: 75, align: "right" },
+  ];
+
+  y = drawTableRows(
+    pdf,
+    columns,
+    order.items.map((item) => [
+      item.sku,
+      item.name,
+      String(item.quantity),
+      money(item.unitPriceCents),
+      item.discountCents ? `-${money(item.discountCents)}` : "",
+      money(item.taxCents),
+      money(item.unitPriceCents * item.quantity - item.discountCents),
+    ]),
+    y,
+    nextPage
+  );
+
+  const subtotal = order.items.reduce(
+    (sum, item) => sum + item.unitPriceCents * item.quantity,
+    0
+  );
+  const itemDiscount = order.items.reduce(
+    (sum, item) => sum + item.discountCents,
+    0
+  );
+  const itemTax = order.items.reduce((sum, item) => sum + item.taxCents, 0);
+  // Order tax covers items and shipping; the items carry their share.
+  const shippingTax = Math.max(0, (order.taxCents ?? itemTax) - itemTax);
+  const refunded = order.refunds
+    .filter((r) => r.status === "succeeded")
+    .reduce((sum, r) => sum + r.amountCents, 0);
+
+  const summary: Array<[string, string, boolean?]> = [
+    ["Subtotal", money(subtotal)],
+  ];
+  if (itemDiscount > 0) {
+    summary.push([
+      order.discountCode ? `Discount (${order.discountCode})` : "Discount",
+      `-${money(itemDiscount)}`,
+    ]);
+  }
+  if (order.shippingCents !== null) {
+    summary.push([
+      order.shippingMethod ? `Shipping (${order.shippingMethod})` : "Shipping",
+      money(order.shippingCents),
+    ]);
+  }
+  summary.push(["Tax on items", money(itemTax)]);
+  if (shippingTax > 0) summary.push(["Tax on shipping", money(shippingTax)]);
+  summary.push(["Total", money(order.amountTotal), true]);
+  if (refunded > 0) {
+    summary.push(["Refunded", `-${money(refunded)}`]);
+    summary.push(["Net paid", money(order.amountTotal - refunded), true]);
+  }
+
+  if (y + summary.length * 16 + 8 > CONTENT_BOTTOM) y = nextPage();
+  y += 8;
+  const labelX = PAGE_WIDTH - MARGIN - 220;
+  for (const [label, value, strong] of summary) {
+    if (strong) {
+      pdf.line(labelX, y - 4, PAGE_WIDTH - MARGIN, y - 4, { color: RULE });
+    }
+    pdf.text(label, labelX, y, {
+      size: 10,
+      font: strong ? "bold" : "regular",
+    });
+    pdf.text(value, PAGE_WIDTH - MARGIN - 6, y, {
+      size: 10,
+      font: strong ? "bold" : "regular",
+      align: "right",
+    });
+    y += 16;
+  }
+
+  drawFooter(pdf, branding, note);
+}
+
+/**
+ * Packing slips for one or more orders, each starting on a new page.
+ */
+export function renderPackingSlips(
+  orders: OrderForDocument[],
+  branding: DocumentBranding
+): Buffer {
+  const pdf = createPdf();
+  orders.forEach((order) => {
+    pdf.addPage();
+    drawPackingSlip(pdf, order, branding);
+  });
+  return pdf.toBuffer();
+}
+
+/**
+ * Invoices for orders that have invoice numbers (see assignInvoiceNumbers),
+ * each starting on a new page.
+ */
+export function renderInvoices(
+  orders: OrderForDocument[],
+  branding: DocumentBranding
+): Buffer {
+  const pdf = createPdf();
+  orders.forEach((order) => {
+    pdf.addPage();
+    drawInvoice(pdf, order, branding);
+  });
+  return pdf.toBuffer();
+}
@@ -0,0 +1,423 @@
+import type Stripe from "stripe";
+import type { AdminAlert, Product } from "@prisma/client";
+import { prisma } from "../db.js";
+import { allocateTax, checkoutTaxMismatch } from "../tax.js";
+import { sessionShipping } from "../shipping.js";
+import {
+  recordRedemption,
+  releaseDiscountHold,
+  sessionDiscountLines,
+} from "../discounts.js";
+import { completeCheckoutAttempt } from "../checkouts.js";
+import { customerForOrder } from "../customers/accounts.js";
+import {
+  convertReservations,
+  releaseReservations,
+} from "../inventory/reservations.js";
+import { lockProducts, recordStockMovement } from "../inventory/movements.js";
+import { deliverAlert, deliverPendingOrderAlerts } from "../alerts/channels.js";
+import { scheduleStockAlertCheck } from "../alerts/stock.js";
+import { enqueueOrderEmail } from "../email/queue.js";
+import {
+  isTaxLineItem,
+  orderItemsFromStripe,
+  type OrderItemInput,
+} from "./items.js";
+import { applyOrderStatusChange, changeOrderStatus } from "./status.js";
+import type { StockLine } from "../inventory/reservations.js";
+
+// Far more than a cart holds; guards the paging.
+const MAX_LINE_ITEMS = 1000;
+
+export type CheckoutOrderResult =
+  | { ok: true; orderId: string; created: boolean }
+  | { ok: false; error: string };
+
+/**
+ * The cart a checkout session was created for, from its metadata. Sessions
+ * from before carts carry a single productId/sku/quantity instead.
+ */
+export function checkoutCartLines(
+  metadata: Stripe.Metadata | null
+): StockLine[] | null {
+  const rawCart = metadata?.items;
+  if (rawCart) {
+    try {
+      const parsed = JSON.parse(rawCart);
+      if (Array.isArray(parsed)) {
+        const lines = parsed
+          .filter((i: any) => i && typeof i.productId === "string")
+          .map((i: any) => ({
+            productId: i.productId,
+            quantity: parseInt(i.quantity || "0", 10),
+          }))
+          .filter((i) => Number.isInteger(i.quantity) && i.quantity > 0);
+        if (lines.length > 0) return lines;
+      }
+    } catch {
+      // Fall through to the single-product metadata.
+    }
+  }
+
+  const productId = metadata?.productId;
+  const sku = metadata?.sku;
+  const quantity = parseInt(metadata?.quantity || "0", 10);
+  if (!productId || !sku || !Number.isInteger(quantity) || quantity <= 0) {
+    return null;
+  }
+  return [{ productId, quantity }];
+}
+
+/**
+ * Every line item of a checkout session. Stripe pages them, and a large cart
+ * runs past the first page.
+ */
+export async function listCheckoutLineItems(
+  stripe: Stripe,
+  sessionId: string
+): Promise<Stripe.LineItem[]> {
+  return stripe.checkout.sessions
+    .listLineItems(sessionId, {
+      limit: 100,
+      expand: ["data.price.product"],
+    })
+    .autoPagingToArray({ limit: MAX_LINE_ITEMS });
+}
+
+/**
+ * The order items for a checkout session, with the session's discount and
+ * item tax spread over them the way the order records them.
+ */
+export async function checkoutOrderItems(
+  stripe: Stripe,
+  session: Stripe.Checkout.Session,
+  cartItems: StockLine[]
+): Promise<{
+  items: OrderItemInput[];
+  itemTaxCents: number;
+  productById: Map<string, Product>;
+}> {
+  const lineItems = await listCheckoutLineItems(stripe, session.id);
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: cartItems.map((i) => i.productId) } },
+  });
+  const productById = new Map(products.map((p) => [p.id, p]));
+  const items = orderItemsFromStripe(lineItems, cartItems, productById);
+
+  // A discount coupon is spread by Stripe over every line, our split
+  // (which respects the discount's product scope) replaces it.
+  if (session.metadata?.discountId) {
+    const discountLines = sessionDiscountLines(session.metadata);
+    items.forEach((it) => {
+      it.discountCents = it.productId
+        ? discountLines.get(it.productId) || 0
+        : 0;
+    });
+  }
+
+  // Spread the charged item tax over taxable items. The subtotal is
+  // the tax itself, before any share of a discount coupon.
+  const itemTaxCents = lineItems
+    .filter(isTaxLineItem)
+    .reduce((sum, li) => sum + (li.amount_subtotal || 0), 0);
+  if (itemTaxCents > 0) {
+    const shares = allocateTax(
+      itemTaxCents,
+      items.map((it) => {
+        const product = it.productId
+          ? productById.get(it.productId)
+          : undefined;
+        return product?.taxExempt
+          ? 0
+          : it.unitPriceCents * it.quantity - (it.discountCents || 0);
+      })
+    );
+    items.forEach((it, idx) => {
+      it.taxCents = shares[idx];
+    });
+  }
+
+  return { items, itemTaxCents, productById };
+}
+
+/**
+ * Create the order for a completed checkout session, converting its stock
+ * hold into a sale. Idempotent: a session that already has an order returns
+ * it. `status` is "pending" for a delayed payment method that hasn't cleared
+ * yet; the confirmation emails go out once the order is paid.
+ */
+export async function createOrderFromCheckout(
+  stripe: Stripe,
+  session: Stripe.Checkout.Session,
+  status: "paid" | "pending" = "paid"
+): Promise<CheckoutOrderResult> {
+  const existing = await prisma.order.findUnique({
+    where: { stripeSessionId: session.id },
+    select: { id: true, status: true },
+  });
+  if (existing) {
+    // A retried event: deliver the alerts and queue the confirmations the
+    // first attempt didn't get to.
+    await deliverPendingOrderAlerts(existing.id);
+    if (existing.status === "paid") await sendOrderConfirmation(existing.id);
+    return { ok: true, orderId: existing.id, created: false };
+  }
+
+  const cartItems = checkoutCartLines(session.metadata);
+  if (!cartItems) return { ok: false, error: "Missing required metadata" };
+
+  const customerEmail = session.customer_details?.email || null;
+  const customerPhone = session.customer_details?.phone || null;
+
+  const shipping = session.shipping_details || null;
+  const address = shipping?.address || null;
+
+  const { shippingCents, shippingTaxCents, shippingMethod } =
+    await sessionShipping(stripe, session);
+
+  const { items, itemTaxCents, productById } = await checkoutOrderItems(
+    stripe,
+    session,
+    cartItems
+  );
+  const discountId = session.metadata?.discountId || null;
+  const discountCents = discountId
+    ? Number(session.metadata?.discountCents) || 0
+    : null;
+
+  // Tax was fixed from the address typed in the cart, before Stripe
+  // collected the shipping address.
+  const taxMismatch = await checkoutTaxMismatch({
+    metadata: session.metadata,
+    address,
+    taxableCents: items
+      .filter(
+        (it) => !(it.productId && productById.get(it.productId)?.taxExempt)
+      )
+      .map((it) =>
+        Math.max(0, it.unitPriceCents * it.quantity - (it.discountCents || 0))
+      ),
+    shippingCents: shippingCents || 0,
+    chargedCents: itemTaxCents + shippingTaxCents,
+  });
+
+  const { orderId, alerts } = await prisma.$transaction(async (tx) => {
+    const customerId = await customerForOrder(tx, {
+      customerId: session.metadata?.customerId,
+      email: customerEmail,
+      name: shipping?.name || null,
+      phone: customerPhone,
+    });
+    const order = await tx.order.create({
+      data: {
+        stripeSessionId: session.id,
+        customerId,
+        paymentIntentId:
+          typeof session.payment_intent === "string"
+            ? session.payment_intent
+            : session.payment_intent?.id || null,
+        status,
+        email: customerEmail,
+        phone: customerPhone,
+        shippingName: shipping?.name || null,
+        shippingLine1: address?.line1 || null,
+        shippingLine2: address?.line2 || null,
+        shippingCity: address?.city || null,
+        shippingState: address?.state || null,
+        shippingPostal: address?.postal_code || null,
+        shippingCountry: address?.country || null,
+        amountTotal: session.amount_total || 0,
+        currency: session.currency || "usd",
+        shippingCents,
+        shippingMethod,
+        taxCents: itemTaxCents + shippingTaxCents,
+        discountCents,
+        discountCode: discountId
+          ? session.metadata?.discountCode || null
+          : null,
+        items: { createMany: { data: items } },
+        events: {
+          create: [
+            { type: "created", toStatus: status },
+            ...(taxMismatch
+              ? [{ type: "tax_mismatch", note: taxMismatch.note }]
+              : []),
+          ],
+        },
+      },
+    });
+    const alerts: AdminAlert[] = [];
+    if (taxMismatch) {
+      alerts.push(
+        await tx.adminAlert.create({
+          data: {
+            type: "tax_mismatch",
+            severity: "warning",
+            message: taxMismatch.note,
+            orderId: order.id,
+          },
+        })
+      );
+    }
+
+    if (discountId) {
+      await recordRedemption(tx, {
+        discountId,
+        orderId: order.id,
+        email: customerEmail,
+        amountCents: discountCents || 0,
+        checkoutKey: session.metadata?.reservationKey,
+      });
+    }
+    await completeCheckoutAttempt(tx, session, order.id);
+
+    // Convert the checkout's stock hold into a sale. The customer has
+    // already paid (or their payment is on its way), so a shortfall flags
+    // the order instead of failing.
+    const shortfalls = await convertReservations(tx, {
+      checkoutKey: session.metadata?.reservationKey,
+      stripeSessionId: session.id,
+      orderId: order.id,
+      lines: cartItems,
+    });
+    if (shortfalls.length === 0) return { orderId: order.id, alerts };
+
+    const shortfallNote = shortfalls
+      .map((s) => {
+        const name = productById.get(s.productId)?.name || s.productId;
+        return `${name} (${s.available} of ${s.requested} in stock)`;
+      })
+      .join(", ");
+    await tx.order.update({
+      where: { id: order.id },
+      data: {
+        unfulfillable: true,
+        events: {
+          create: {
+            type: "unfulfillable",
+            note: `Insufficient stock: ${shortfallNote}`,
+          },
+        },
+      },
+    });
+    alerts.push(
+      await tx.adminAlert.create({
+        data: {
+          type: "unfulfillable_order",
+          severity: "critical",
+          message: `Paid order can't be fully fulfilled: ${shortfallNote}`,
+          orderId: order.id,
+        },
+      })
+    );
+    return { orderId: order.id, alerts };
+  });
+
+  scheduleStockAlertCheck(cartItems.map((i) => i.productId));
+  for (const alert of alerts) await deliverAlert(alert);
+  if (status === "paid") await sendOrderConfirmation(orderId);
+  return { ok: true, orderId, created: true };
+}
+
+/**
+ * Queue the customer confirmation and the staff new-order email. Safe to call
+ * again for the same order: templates already queued for it are skipped, so a
+ * retried webhook only fills in what an earlier attempt missed.
+ */
+export async function sendOrderConfirmation(orderId: string): Promise<void> {
+  const queued = await prisma.emailMessage.findMany({
+    where: {
+      orderId,
+      template: { in: ["order_confirmation", "admin_new_order"] },
+    },
+    select: { template: true },
+  });
+  const sent = new Set(queued.map((m) => m.template));
+  if (!sent.has("order_confirmation")) {
+    await enqueueOrderEmail("order_confirmation", orderId);
+  }
+  if (!sent.has("admin_new_order")) {
+    await enqueueOrderEmail("admin_new_order", orderId);
+  }
+}
+
+/**
+ * A delayed payment (bank debit, etc.) cleared: mark the pending order paid
+ * and send the confirmations. Creates the order if the completed event never
+ * arrived.
+ */
+export async function confirmCheckoutPayment(
+  stripe: Stripe,
+  session: Stripe.Checkout.Session
+): Promise<CheckoutOrderResult> {
+  const order = await prisma.order.findUnique({
+    where: { stripeSessionId: session.id },
+    select: { id: true, status: true },
+  });
+  if (!order) return createOrderFromCheckout(stripe, session, "paid");
+  if (order.status !== "pending") {
+    if (order.status === "paid") await sendOrderConfirmation(order.id);
+    return { ok: true, orderId: order.id, created: false };
+  }
+
+  const change = await changeOrderStatus(order.id, {
+    status: "paid",
+    note: "Payment cleared",
+  });
+  if (!change.ok) return { ok: false, error: change.error };
+
+  await sendOrderConfirmation(order.id);
+  return { ok: true, orderId: order.id, created: false };
+}
+
+/**
+ * A delayed payment failed: cancel the pending order and put its stock back,
+ * or just release the hold if no order was created.
+ */
+export async function failCheckoutPayment(
+  session: Stripe.Checkout.Session
+): Promise<CheckoutOrderResult | null> {
+  const order = await prisma.order.findUnique({
+    where: { stripeSessionId: session.id },
+    select: { id: true, status: true },
+  });
+  if (!order) {
+    await releaseReservations({
+      checkoutKey: session.metadata?.reservationKey,
+      stripeSessionId: session.id,
+    });
+    await releaseDiscountHold(session.metadata?.reservationKey);
+    return null;
+  }
+  if (order.status !== "pending") {
+    return { ok: true, orderId: order.id, created: false };
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const change = await applyOrderStatusChange(tx, order.id, {
+      status: "cancelled",
+      note: "Payment failed",
+    });
+    if (!change.ok) return { ok: false as const, error: change.error };
+
+    const sales = await tx.inventoryMovement.findMany({
+      where: { orderId: order.id, reason: "sale" },
+      select: { productId: true, delta: true },
+    });
+    await lockProducts(
+      tx,
+      Array.from(new Set(sales.map((sale) => sale.productId)))
+    );
+    for (const sale of sales) {
+      await recordStockMovement(tx, {
+        productId: sale.productId,
+        delta: -sale.delta,
+        reason: "return",
+        orderId: order.id,
+        note: "Payment failed",
+      });
+    }
+    return { ok: true as const, orderId: order.id, created: false };
+  });
+}
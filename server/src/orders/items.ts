@@ -0,0 +1,99 @@
+import type Stripe from "stripe";
+import type { Prisma, Product } from "@prisma/client";
+import { TAX_LINE_KIND } from "../tax.js";
+
+export interface CartLine {
+  productId: string;
+  quantity: number;
+}
+
+export type OrderItemInput = Omit<
+  Prisma.OrderItemCreateManyOrderInput,
+  "id" | "createdAt"
+>;
+
+/**
+ * Snapshot order items from our own catalog (manual orders, or Stripe
+ * sessions where line items are unavailable).
+ */
+export function orderItemsFromCart(
+  lines: CartLine[],
+  productById: Map<string, Product>
+): OrderItemInput[] {
+  return lines.map((line) => {
+    const product = productById.get(line.productId);
+    return {
+      productId: product?.id ?? null,
+      sku: product?.sku || "UNKNOWN",
+      name: product?.name || line.productId,
+      unitPriceCents: product?.priceCents ?? 0,
+      quantity: line.quantity,
+    };
+  });
+}
+
+function stripeLineProduct(li: Stripe.LineItem): Stripe.Product | null {
+  const product = li.price?.product;
+  if (product && typeof product === "object" && !("deleted" in product)) {
+    return product;
+  }
+  return null;
+}
+
+function stripeLineProductId(li: Stripe.LineItem): string | null {
+  return stripeLineProduct(li)?.metadata?.productId || null;
+}
+
+// The tax line our checkout adds is not an order item.
+export function isTaxLineItem(li: Stripe.LineItem): boolean {
+  return stripeLineProduct(li)?.metadata?.kind === TAX_LINE_KIND;
+}
+
+/**
+ * Build order items from Stripe checkout line items.
+ *
+ * Line items created by our checkout carry `productId` in their product
+ * metadata (requires listing with `expand: ["data.price.product"]`). Older
+ * sessions don't, so fall back to the cart metadata, which Stripe preserves in
+ * the same order.
+ */
+export function orderItemsFromStripe(
+  lineItems: Stripe.LineItem[],
+  cartLines: CartLine[],
+  productById: Map<string, Product>
+): OrderItemInput[] {
+  const productLines = lineItems.filter((li) => !isTaxLineItem(li));
+  if (productLines.length === 0) {
+    return orderItemsFromCart(cartLines, productById);
+  }
+
+  return productLines.map((li, idx) => {
+    const productId =
+      stripeLineProductId(li) ?? cartLines[idx]?.productId ?? null;
+    const product = productId ? productById.get(productId) : undefined;
+    const quantity = Math.max(1, li.quantity || 1);
+    const unitPriceCents =
+      li.price?.unit_amount ?? Math.round((li.amount_subtotal || 0) / quantity);
+
+    return {
+      productId: product?.id ?? null,
+      sku: product?.sku || "UNKNOWN",
+      name: li.description || product?.name || "Item",
+      unitPriceCents,
+      quantity,
+      taxCents: li.amount_tax || 0,
+      discountCents: li.amount_discount || 0,
+    };
+  });
+}
+
+export function orderItemTotalCents(item: {
+  unitPriceCents: number;
+  quantity: number;
+  taxCents: number;
+  discountCents: number;
+}): number {
+  return (
+    item.unitPriceCents * item.quantity + item.taxCents - item.discountCents
+  );
+}
@@ -0,0 +1,244 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db.js";
+import { isOrderStatus, type OrderStatus } from "./status.js";
+
+export const ORDER_SORTS = [
+  "newest",
+  "oldest",
+  "total_desc",
+  "total_asc",
+] as const;
+export type OrderSort = (typeof ORDER_SORTS)[number];
+
+const VALID_ORDER_SORTS = new Set<string>(ORDER_SORTS);
+
+export function isOrderSort(value: unknown): value is OrderSort {
+  return typeof value === "string" && VALID_ORDER_SORTS.has(value);
+}
+
+// The sort key and direction. The id breaks ties so cursor pages never skip
+// or repeat an order.
+const SORT_KEYS: Record<OrderSort, { column: Prisma.Sql; desc: boolean }> = {
+  newest: { column: Prisma.sql`"createdAt"`, desc: true },
+  oldest: { column: Prisma.sql`"createdAt"`, desc: false },
+  total_desc: { column: Prisma.sql`"amountTotal"`, desc: true },
+  total_asc: { column: Prisma.sql`"amountTotal"`, desc: false },
+};
+
+export const DEFAULT_ORDER_PAGE_SIZE = 50;
+export const MAX_ORDER_PAGE_SIZE = 200;
+
+export interface OrderListQuery {
+  // SQL conditions on "Order", all of which must hold
+  where: Prisma.Sql[];
+  sort: OrderSort;
+  limit: number;
+  cursor?: string;
+}
+
+export type OrderWithItems = Prisma.OrderGetPayload<{
+  include: { items: true };
+}>;
+
+export interface OrderListPage {
+  orders: OrderWithItems[];
+  nextCursor: string | null;
+  totals: { count: number; totalCents: number };
+}
+
+// Dates without a time, where `to` means the whole of that day.
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A prefix tsquery matching every word of the search, e.g. "alex ex" gives
+ * 'alex':* & 'ex':*. Returns null when nothing searchable is left.
+ */
+function searchQuery(value: string): string | null {
+  const words = value
+    .split(/\s+/)
+    .map((word) => word.replace(/[^\p{L}\p{N}@._-]/gu, ""))
+    .filter(Boolean);
+  return words.length > 0
+    ? words.map((word) => `'${word}':*`).join(" & ")
+    : null;
+}
+
+// Dates are stored as UTC timestamps without a zone; compare in UTC whatever
+// the connection's time zone.
+function utc(date: Date): Prisma.Sql {
+  return Prisma.sql`(${date.toISOString()}::timestamptz AT TIME ZONE 'UTC')`;
+}
+
+// Escape LIKE wildcards so the text matches literally.
+function likeContains(value: string): string {
+  return `%${value.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+/**
+ * Turn the admin order list's query string into the conditions, sort and
+ * page for listOrders.
+ *
+ * - `status`: one status, or several separated by commas
+ * - `from`, `to`: creation date range; a `to` date with no time includes
+ *   that whole day
+ * - `email`: part of the customer's email
+ * - `productId`: orders with that product on them
+ * - `country`: two-letter shipping country
+ * - `minTotal`, `maxTotal`: order total range, in cents
+ * - `q`: full-text search of the email, shipping name and order id, each
+ *   word matching the start of a word
+ * - `sort`: one of ORDER_SORTS, newest first by default
+ * - `limit`, `cursor`: page size, and the last id of the previous page
+ */
+export function parseOrderListQuery(
+  query: Record<string, unknown>
+): { ok: true; value: OrderListQuery } | { ok: false; error: string } {
+  const str = (key: string): string | undefined =>
+    typeof query[key] === "string" && (query[key] as string).trim()
+      ? (query[key] as string).trim()
+      : undefined;
+
+  const where: Prisma.Sql[] = [];
+
+  const statusParam = str("status");
+  if (statusParam) {
+    const statuses = statusParam.split(",").map((s) => s.trim());
+    if (!statuses.every(isOrderStatus)) {
+      return { ok: false, error: `Unknown status in "${statusParam}"` };
+    }
+    where.push(
+      Prisma.sql`"status" IN (${Prisma.join(statuses as OrderStatus[])})`
+    );
+  }
+
+  const from = str("from") ? new Date(str("from")!) : undefined;
+  const to = str("to") ? new Date(str("to")!) : undefined;
+  if (
+    (from && Number.isNaN(from.getTime())) ||
+    (to && Number.isNaN(to.getTime()))
+  ) {
+    return { ok: false, error: "from and to must be dates" };
+  }
+  if (from) where.push(Prisma.sql`"createdAt" >= ${utc(from)}`);
+  if (to && DATE_ONLY.test(str("to")!)) {
+    // Up to the start of the next day, so orders placed on the day count.
+    const nextDay = new Date(to.getTime() + 24 * 60 * 60 * 1000);
+    where.push(Prisma.sql`"createdAt" < ${utc(nextDay)}`);
+  } else if (to) {
+    where.push(Prisma.sql`"createdAt" <= ${utc(to)}`);
+  }
+
+  const email = str("email");
+  if (email) where.push(Prisma.sql`"email" ILIKE ${likeContains(email)}`);
+
+  const productId = str("productId");
+  if (productId) {
+    where.push(
+      Prisma.sql`EXISTS (SELECT 1 FROM "OrderItem" WHERE "OrderItem"."orderId" = "Order"."id" AND "OrderItem"."productId" = ${productId})`
+    );
+  }
+
+  const country = str("country");
+  if (country) {
+    where.push(Prisma.sql`"shippingCountry" = ${country.toUpperCase()}`);
+  }
+
+  const minTotal = str("minTotal") ? Number(str("minTotal")) : undefined;
+  const maxTotal = str("maxTotal") ? Number(str("maxTotal")) : undefined;
+  if (
+    (minTotal !== undefined && !Number.isInteger(minTotal)) ||
+    (maxTotal !== undefined && !Number.isInteger(maxTotal))
+  ) {
+    return { ok: false, error: "minTotal and maxTotal must be whole cents" };
+  }
+  if (minTotal !== undefined) {
+    where.push(Prisma.sql`"amountTotal" >= ${minTotal}`);
+  }
+  if (maxTotal !== undefined) {
+    where.push(Prisma.sql`"amountTotal" <= ${maxTotal}`);
+  }
+
+  // The list shows ids as "#ABCD1234", the start of the id, so allow
+  // pasting that.
+  const q = str("q")?.replace(/^#/, "");
+  const search = q ? searchQuery(q) : null;
+  if (search) {
+    // The search vector holds the id, email and shipping name.
+    where.push(Prisma.sql`"searchVector" @@ to_tsquery('simple', ${search})`);
+  }
+
+  const sortParam = str("sort") || "newest";
+  if (!isOrderSort(sortParam)) {
+    return {
+      ok: false,
+      error: `sort must be one of ${ORDER_SORTS.join(", ")}`,
+    };
+  }
+
+  const limit = Math.min(
+    Math.max(
+      parseInt(str("limit") || String(DEFAULT_ORDER_PAGE_SIZE), 10) ||
+        DEFAULT_ORDER_PAGE_SIZE,
+      1
+    ),
+    MAX_ORDER_PAGE_SIZE
+  );
+
+  return {
+    ok: true,
+    value: { where, sort: sortParam, limit, cursor: str("cursor") },
+  };
+}
+
+/**
+ * One page of orders, sorted and after the cursor order, with the count and
+ * value of every match. Filtering, sorting and paging all happen in one
+ * query, so a broad search never loads more than a page.
+ */
+export async function listOrders(
+  query: OrderListQuery
+): Promise<OrderListPage> {
+  const { column, desc } = SORT_KEYS[query.sort];
+  const filter =
+    query.where.length > 0
+      ? Prisma.sql`WHERE ${Prisma.join(query.where, " AND ")}`
+      : Prisma.empty;
+  // Rows after the cursor's (sort key, id) in the sort order.
+  const after = query.cursor
+    ? Prisma.sql`(${column}, "id") ${Prisma.raw(
+        desc ? "<" : ">"
+      )} (SELECT ${column}, "id" FROM "Order" WHERE "id" = ${query.cursor})`
+    : null;
+  const pageWhere = after
+    ? Prisma.sql`WHERE ${Prisma.join([...query.where, after], " AND ")}`
+    : filter;
+  const direction = Prisma.raw(desc ? "DESC" : "ASC");
+
+  const [pageRows, totalRows] = await Promise.all([
+    prisma.$queryRaw<{ id: string }[]>`
+      SELECT "id" FROM "Order" ${pageWhere}
+      ORDER BY ${column} ${direction}, "id" ${direction}
+      LIMIT ${query.limit + 1}`,
+    prisma.$queryRaw<{ count: bigint; totalCents: bigint | null }[]>`
+      SELECT count(*) AS "count", sum("amountTotal") AS "totalCents"
+      FROM "Order" ${filter}`,
+  ]);
+
+  const hasMore = pageRows.length > query.limit;
+  const ids = pageRows.slice(0, query.limit).map((row) => row.id);
+  const found = await prisma.order.findMany({
+    where: { id: { in: ids } },
+    include: { items: true },
+  });
+  const byId = new Map(found.map((order) => [order.id, order]));
+  const orders = ids.flatMap((id) => byId.get(id) ?? []);
+
+  return {
+    orders,
+    nextCursor: hasMore ? ids[ids.length - 1] : null,
+    totals: {
+      count: Number(totalRows[0]?.count ?? 0),
+      totalCents: Number(totalRows[0]?.totalCents ?? 0),
+    },
+  };
+}
@@ -0,0 +1,241 @@
+import type Stripe from "stripe";
+import { prisma } from "../db.js";
+import {
+  checkoutCartLines,
+  checkoutOrderItems,
+  createOrderFromCheckout,
+} from "./fromCheckout.js";
+
+export const DEFAULT_RECONCILE_DAYS = 7;
+export const MAX_RECONCILE_DAYS = 90;
+// Stops a runaway run; a week of sessions is far fewer.
+const MAX_SESSIONS = 5000;
+
+export interface ReconcileOptions {
+  since: Date;
+  // Report what would change without writing anything.
+  dryRun?: boolean;
+}
+
+export interface ReconcileEntry {
+  sessionId: string;
+  orderId: string | null;
+  detail: string;
+}
+
+export interface AmountMismatch {
+  sessionId: string;
+  orderId: string;
+  // What Stripe charged
+  stripeCents: number;
+  // The order's recorded total, and what its items, shipping and tax add to.
+  // itemsCents is null for orders from before shipping and tax were recorded
+  // separately; only their total is compared.
+  orderCents: number;
+  itemsCents: number | null;
+}
+
+export interface ReconcileReport {
+  since: string;
+  dryRun: boolean;
+  scanned: number;
+  created: ReconcileEntry[];
+  repaired: ReconcileEntry[];
+  mismatches: AmountMismatch[];
+  errors: ReconcileEntry[];
+}
+
+type OrderWithItems = NonNullable<Awaited<ReturnType<typeof findOrder>>>;
+
+function findOrder(sessionId: string) {
+  return prisma.order.findUnique({
+    where: { stripeSessionId: sessionId },
+    include: { items: { orderBy: { createdAt: "asc" } } },
+  });
+}
+
+// Items (after discount), their tax and shipping. Shipping tax is in taxCents.
+// Null when the order has no shipping or tax breakdown to add up.
+function orderItemsCents(order: OrderWithItems): number | null {
+  if (order.shippingCents === null || order.taxCents === null) return null;
+  return (
+    order.items.reduce(
+      (sum, it) => sum + it.unitPriceCents * it.quantity - it.discountCents,
+      0
+    ) +
+    order.taxCents +
+    order.shippingCents
+  );
+}
+
+/**
+ * Add the line items an order is missing, when it was created from a
+ * truncated line item list. Existing items keep their ids (refunds point at
+ * them) but take their share of the full tax and discount split.
+ */
+async function repairOrderItems(
+  stripe: Stripe,
+  session: Stripe.Checkout.Session,
+  order: OrderWithItems,
+  dryRun: boolean
+): Promise<ReconcileEntry | null> {
+  const cartItems = checkoutCartLines(session.metadata);
+  if (!cartItems) return null;
+
+  const { items, itemTaxCents } = await checkoutOrderItems(
+    stripe,
+    session,
+    cartItems
+  );
+  if (items.length <= order.items.length) return null;
+
+  const missing = items.slice(order.items.length);
+  const entry = {
+    sessionId: session.id,
+    orderId: order.id,
+    detail: `${missing.length} of ${items.length} line items missing`,
+  };
+  if (dryRun) return entry;
+
+  // The order's tax was its items' share plus shipping's.
+  const shippingTaxCents =
+    (order.taxCents || 0) -
+    order.items.reduce((sum, it) => sum + it.taxCents, 0);
+
+  await prisma.$transaction(async (tx) => {
+    for (const [idx, existing] of order.items.entries()) {
+      await tx.orderItem.update({
+        where: { id: existing.id },
+        data: {
+          taxCents: items[idx].taxCents || 0,
+          discountCents: items[idx].discountCents || 0,
+        },
+      });
+    }
+    await tx.order.update({
+      where: { id: order.id },
+      data: {
+        taxCents: itemTaxCents + shippingTaxCents,
+        items: { createMany: { data: missing } },
+        events: {
+          create: {
+            type: "note",
+            note: `Reconciliation restored ${missing.length} line items missing from the order`,
+          },
+        },
+      },
+    });
+  });
+  return entry;
+}
+
+async function reconcileSession(
+  stripe: Stripe,
+  session: Stripe.Checkout.Session,
+  report: ReconcileReport
+): Promise<void> {
+  let order = await findOrder(session.id);
+
+  if (!order) {
+    // Delayed payment methods complete unpaid; their order waits as pending.
+    const status =
+      session.payment_status === "paid"
+        ? "paid"
+        : session.payment_status === "unpaid"
+        ? "pending"
+        : null;
+    if (!status) return;
+
+    if (report.dryRun) {
+      report.created.push({
+        sessionId: session.id,
+        orderId: null,
+        detail: `Missing ${status} order`,
+      });
+      return;
+    }
+    const result = await createOrderFromCheckout(stripe, session, status);
+    if (!result.ok) {
+      report.errors.push({
+        sessionId: session.id,
+        orderId: null,
+        detail: result.error,
+      });
+      return;
+    }
+    report.created.push({
+      sessionId: session.id,
+      orderId: result.orderId,
+      detail: `Created ${status} order`,
+    });
+    return;
+  }
+
+  const repaired = await repairOrderItems(
+    stripe,
+    session,
+    order,
+    report.dryRun
+  );
+  if (repaired) {
+    report.repaired.push(repaired);
+    if (!report.dryRun) order = (await findOrder(session.id))!;
+  }
+
+  const stripeCents = session.amount_total || 0;
+  const itemsCents = orderItemsCents(order);
+  if (
+    order.amountTotal !== stripeCents ||
+    (itemsCents !== null && itemsCents !== stripeCents)
+  ) {
+    report.mismatches.push({
+      sessionId: session.id,
+      orderId: order.id,
+      stripeCents,
+      orderCents: order.amountTotal,
+      itemsCents,
+    });
+  }
+}
+
+/**
+ * Compare the completed checkout sessions created since `since` with our
+ * orders: create the orders missed webhooks never did, restore line items
+ * lost to truncation, and report totals that don't match what Stripe
+ * charged. Safe to run repeatedly.
+ */
+export async function reconcileCheckoutSessions(
+  stripe: Stripe,
+  options: ReconcileOptions
+): Promise<ReconcileReport> {
+  const report: ReconcileReport = {
+    since: options.since.toISOString(),
+    dryRun: options.dryRun ?? false,
+    scanned: 0,
+    created: [],
+    repaired: [],
+    mismatches: [],
+    errors: [],
+  };
+
+  const sessions = stripe.checkout.sessions.list({
+    created: { gte: Math.floor(options.since.getTime() / 1000) },
+    status: "complete",
+    limit: 100,
+  });
+  for await (const session of sessions) {
+    if (report.scanned >= MAX_SESSIONS) break;
+    report.scanned += 1;
+    try {
+      await reconcileSession(stripe, session, report);
+    } catch (err) {
+      console.error(`Reconcile session ${session.id} error:`, err);
+      report.errors.push({
+        sessionId: session.id,
+        orderId: null,
+        detail: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return report;
+}
@@ -0,0 +1,365 @@
+import type Stripe from "stripe";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../db.js";
+import { scheduleStockAlertCheck } from "../alerts/stock.js";
+import { enqueueOrderEmail } from "../email/queue.js";
+import { recordStockMovement } from "../inventory/movements.js";
+import { orderItemTotalCents } from "./items.js";
+import { applyOrderStatusChange, canTransitionOrder } from "./status.js";
+
+// Stripe only accepts these values for refund.reason.
+export const REFUND_REASONS = [
+  "requested_by_customer",
+  "duplicate",
+  "fraudulent",
+] as const;
+export type RefundReason = (typeof REFUND_REASONS)[number];
+
+export interface RefundRequest {
+  // Per-line quantities to refund. Omit for an amount-only or full refund.
+  lines?: Array<{ orderItemId: string; quantity: number }>;
+  // Explicit amount; defaults to the value of the lines, or the full
+  // remaining balance when no lines are given.
+  amountCents?: number;
+  restock?: boolean;
+  reason?: RefundReason | null;
+  note?: string | null;
+  adminUserId?: string | null;
+}
+
+export type RefundResult =
+  | { ok: true; refundId: string }
+  | { ok: false; httpStatus: number; error: string };
+
+const ACTIVE_REFUND_STATUSES = ["pending", "succeeded"];
+
+function formatAmount(cents: number, currency: string): string {
+  return `${(cents / 100).toFixed(2)} ${currency.toUpperCase()}`;
+}
+
+type OrderForRefund = Prisma.OrderGetPayload<{
+  include: { items: true; refunds: { include: { lines: true } } };
+}>;
+
+function refundedCents(order: OrderForRefund): number {
+  return order.refunds
+    .filter((r) => ACTIVE_REFUND_STATUSES.includes(r.status))
+    .reduce((sum, r) => sum + r.amountCents, 0);
+}
+
+function refundedQuantities(order: OrderForRefund): Map<string, number> {
+  const qty = new Map<string, number>();
+  for (const refund of order.refunds) {
+    if (!ACTIVE_REFUND_STATUSES.includes(refund.status)) continue;
+    for (const line of refund.lines) {
+      qty.set(
+        line.orderItemId,
+        (qty.get(line.orderItemId) || 0) + line.quantity
+      );
+    }
+  }
+  return qty;
+}
+
+async function restockRefundLines(
+  tx: Prisma.TransactionClient,
+  refundId: string,
+  adminUserId: string | null
+): Promise<void> {
+  const lines = await tx.refundLine.findMany({
+    where: { refundId },
+    include: { orderItem: true },
+  });
+  for (const line of lines) {
+    if (!line.orderItem.productId) continue;
+    await recordStockMovement(tx, {
+      productId: line.orderItem.productId,
+      delta: line.quantity,
+      reason: "return",
+      orderId: line.orderItem.orderId,
+      adminUserId,
+      note: "Refund restock",
+    });
+  }
+}
+
+// Mark the order refunded once refunds cover its whole amount.
+async function markRefundedIfSettled(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  adminUserId: string | null
+): Promise<void> {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    include: { refunds: true },
+  });
+  if (!order) return;
+
+  const settled = order.refunds
+    .filter((r) => r.status === "succeeded")
+    .reduce((sum, r) => sum + r.amountCents, 0);
+  if (
+    settled >= order.amountTotal &&
+    canTransitionOrder(order.status, "refunded")
+  ) {
+    await applyOrderStatusChange(tx, orderId, {
+      status: "refunded",
+      adminUserId,
+    });
+  }
+}
+
+/**
+ * Issue a full or partial refund against the order's Stripe payment intent.
+ *
+ * The Refund row is written before calling Stripe and its id is passed as
+ * refund metadata, so the `charge.refunded` webhook for this refund is
+ * matched to it instead of being recorded twice.
+ */
+export async function createOrderRefund(
+  stripe: Stripe,
+  orderId: string,
+  request: RefundRequest
+): Promise<RefundResult> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { items: true, refunds: { include: { lines: true } } },
+  });
+  if (!order) return { ok: false, httpStatus: 404, error: "Order not found" };
+  if (!order.paymentIntentId) {
+    return {
+      ok: false,
+      httpStatus: 400,
+      error: "Order has no Stripe payment to refund",
+    };
+  }
+
+  const remainingCents = order.amountTotal - refundedCents(order);
+  if (remainingCents <= 0) {
+    return {
+      ok: false,
+      httpStatus: 400,
+      error: "Order is already fully refunded",
+    };
+  }
+
+  const alreadyRefunded = refundedQuantities(order);
+  const itemById = new Map(order.items.map((it) => [it.id, it]));
+
+  let requestedLines = request.lines;
+  if (!requestedLines && request.amountCents === undefined) {
+    // Full refund of everything not yet refunded.
+    requestedLines = order.items
+      .map((it) => ({
+        orderItemId: it.id,
+        quantity: it.quantity - (alreadyRefunded.get(it.id) || 0),
+      }))
+      .filter((l) => l.quantity > 0);
+  }
+
+  const lines: Array<{
+    orderItemId: string;
+    quantity: number;
+    amountCents: number;
+  }> = [];
+  for (const l of requestedLines || []) {
+    const item = itemById.get(l.orderItemId);
+    if (!item) {
+      return {
+        ok: false,
+        httpStatus: 400,
+        error: `Order item not found: ${l.orderItemId}`,
+      };
+    }
+    const refundable = item.quantity - (alreadyRefunded.get(item.id) || 0);
+    if (
+      !Number.isInteger(l.quantity) ||
+      l.quantity < 1 ||
+      l.quantity > refundable
+    ) {
+      return {
+        ok: false,
+        httpStatus: 400,
+        error: `Only ${refundable} of ${item.name} can be refunded`,
+      };
+    }
+    lines.push({
+      orderItemId: item.id,
+      quantity: l.quantity,
+      amountCents: Math.round(
+        (orderItemTotalCents(item) * l.quantity) / item.quantity
+      ),
+    });
+  }
+
+  const isFullRefund = !request.lines && request.amountCents === undefined;
+  const amountCents = isFullRefund
+    ? remainingCents
+    : request.amountCents ?? lines.reduce((sum, l) => sum + l.amountCents, 0);
+
+  if (!Number.isInteger(amountCents) || amountCents < 1) {
+    return {
+      ok: false,
+      httpStatus: 400,
+      error: "Refund amount must be at least 1 cent",
+    };
+  }
+  if (amountCents > remainingCents) {
+    return {
+      ok: false,
+      httpStatus: 400,
+      error: `Refund amount exceeds the remaining ${remainingCents} cents`,
+    };
+  }
+
+  const refund = await prisma.refund.create({
+    data: {
+      orderId,
+      amountCents,
+      currency: order.currency,
+      reason: request.reason || null,
+      note: request.note || null,
+      adminUserId: request.adminUserId || null,
+      lines: { create: lines },
+    },
+  });
+
+  let stripeRefund: Stripe.Refund;
+  try {
+    stripeRefund = await stripe.refunds.create(
+      {
+        payment_intent: order.paymentIntentId,
+        amount: amountCents,
+        ...(request.reason ? { reason: request.reason } : {}),
+        metadata: { orderId, refundId: refund.id },
+      },
+      { idempotencyKey: `refund_${refund.id}` }
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Stripe refund failed";
+    await prisma.refund.update({
+      where: { id: refund.id },
+      data: { status: "failed", failureMessage: message },
+    });
+    return { ok: false, httpStatus: 502, error: message };
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.refund.update({
+      where: { id: refund.id },
+      data: {
+        stripeRefundId: stripeRefund.id,
+        status: stripeRefund.status || "pending",
+        restocked: Boolean(request.restock) && lines.length > 0,
+      },
+    });
+
+    if (request.restock && lines.length > 0) {
+      await restockRefundLines(tx, refund.id, request.adminUserId || null);
+    }
+
+    await tx.orderEvent.create({
+      data: {
+        orderId,
+        type: "refund",
+        note: `Refunded ${formatAmount(amountCents, order.currency)}${
+          request.note ? ` - ${request.note}` : ""
+        }`,
+        adminUserId: request.adminUserId || null,
+      },
+    });
+
+    await markRefundedIfSettled(tx, orderId, request.adminUserId || null);
+  });
+
+  if (request.restock && lines.length > 0) {
+    scheduleStockAlertCheck(
+      order.items.flatMap((it) => (it.productId ? [it.productId] : []))
+    );
+  }
+
+  if (stripeRefund.status !== "failed" && stripeRefund.status !== "canceled") {
+    await enqueueOrderEmail("refund_issued", orderId, {
+      refundCents: amountCents,
+    });
+  }
+
+  return { ok: true, refundId: refund.id };
+}
+
+/**
+ * Reflect refunds on a charge (including ones issued from the Stripe
+ * dashboard) in our Refund table. Called from the `charge.refunded` webhook.
+ */
+export async function syncChargeRefunds(
+  stripe: Stripe,
+  charge: Stripe.Charge
+): Promise<void> {
+  const paymentIntentId =
+    typeof charge.payment_intent === "string"
+      ? charge.payment_intent
+      : charge.payment_intent?.id;
+  if (!paymentIntentId) return;
+
+  const order = await prisma.order.findFirst({
+    where: { paymentIntentId },
+  });
+  if (!order) return;
+
+  const stripeRefunds = await stripe.refunds
+    .list({ payment_intent: paymentIntentId, limit: 100 })
+    .autoPagingToArray({ limit: 1000 });
+
+  // Refunds issued from the Stripe dashboard, to tell the customer about.
+  const newRefunds: Stripe.Refund[] = [];
+  await prisma.$transaction(async (tx) => {
+    for (const sr of stripeRefunds) {
+      const ourId = sr.metadata?.refundId;
+      const existing = await tx.refund.findFirst({
+        where: {
+          OR: [{ stripeRefundId: sr.id }, ...(ourId ? [{ id: ourId }] : [])],
+        },
+      });
+
+      if (existing) {
+        await tx.refund.update({
+          where: { id: existing.id },
+          data: {
+            stripeRefundId: sr.id,
+            status: sr.status || existing.status,
+          },
+        });
+        continue;
+      }
+
+      await tx.refund.create({
+        data: {
+          orderId: order.id,
+          stripeRefundId: sr.id,
+          amountCents: sr.amount,
+          currency: sr.currency,
+          status: sr.status || "succeeded",
+          source: "stripe",
+          reason: sr.reason || null,
+        },
+      });
+      await tx.orderEvent.create({
+        data: {
+          orderId: order.id,
+          type: "refund",
+          note: `Refunded ${formatAmount(sr.amount, sr.currency)} in Stripe`,
+        },
+      });
+      newRefunds.push(sr);
+    }
+
+    await markRefundedIfSettled(tx, order.id, null);
+  });
+
+  for (const sr of newRefunds) {
+    if (sr.status === "failed" || sr.status === "canceled") continue;
+    await enqueueOrderEmail("refund_issued", order.id, {
+      refundCents: sr.amount,
+    });
+  }
+}
@@ -0,0 +1,136 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../db.js";
+import { enqueueOrderEmail } from "../email/queue.js";
+
+export const ORDER_STATUSES = [
+  "pending",
+  "paid",
+  "packed",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "refunded",
+] as const;
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+const VALID_ORDER_STATUSES = new Set<string>(ORDER_STATUSES);
+
+// Allowed forward transitions. cancelled/refunded are terminal.
+const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["paid", "cancelled"],
+  paid: ["packed", "cancelled", "refunded"],
+  packed: ["shipped", "cancelled", "refunded"],
+  shipped: ["delivered", "refunded"],
+  delivered: ["refunded"],
+  cancelled: [],
+  refunded: [],
+};
+
+// Statuses a manual order may be created in.
+export const INITIAL_ORDER_STATUSES: OrderStatus[] = ["pending", "paid"];
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === "string" && VALID_ORDER_STATUSES.has(value);
+}
+
+export function nextOrderStatuses(from: string): OrderStatus[] {
+  return isOrderStatus(from) ? ORDER_STATUS_TRANSITIONS[from] : [];
+}
+
+export function canTransitionOrder(from: string, to: OrderStatus): boolean {
+  return nextOrderStatuses(from).includes(to);
+}
+
+export interface StatusChange {
+  status: OrderStatus;
+  adminUserId?: string | null;
+  note?: string | null;
+  trackingCarrier?: string | null;
+  trackingNumber?: string | null;
+}
+
+export type StatusChangeResult =
+  | { ok: true; orderId: string; from: string; to: OrderStatus }
+  | { ok: false; orderId: string; httpStatus: number; error: string };
+
+/**
+ * Move an order to a new status if the lifecycle allows it, stamping the
+ * fulfillment timestamps and recording an OrderEvent. Shipping an order
+ * emails the customer their tracking details.
+ */
+export async function changeOrderStatus(
+  orderId: string,
+  change: StatusChange
+): Promise<StatusChangeResult> {
+  const result = await prisma.$transaction((tx) =>
+    applyOrderStatusChange(tx, orderId, change)
+  );
+  if (result.ok && result.to === "shipped") {
+    await enqueueOrderEmail("order_shipped", orderId);
+  }
+  return result;
+}
+
+// Same as changeOrderStatus, for callers already inside a transaction.
+export async function applyOrderStatusChange(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  change: StatusChange
+): Promise<StatusChangeResult> {
+  const to = change.status;
+
+  const order = await tx.order.findUnique({ where: { id: orderId } });
+  if (!order) {
+    return { ok: false, orderId, httpStatus: 404, error: "Order not found" };
+  }
+
+  const from = order.status;
+  if (!canTransitionOrder(from, to)) {
+    return {
+      ok: false,
+      orderId,
+      httpStatus: 409,
+      error: `Cannot change order status from ${from} to ${to}`,
+    };
+  }
+
+  const now = new Date();
+  const data: Prisma.OrderUpdateManyMutationInput = { status: to };
+  if (to === "packed") data.packedAt = now;
+  if (to === "shipped") {
+    data.shippedAt = now;
+    if (change.trackingCarrier !== undefined)
+      data.trackingCarrier = change.trackingCarrier || null;
+    if (change.trackingNumber !== undefined)
+      data.trackingNumber = change.trackingNumber || null;
+  }
+  if (to === "delivered") data.deliveredAt = now;
+  if (to === "cancelled") data.cancelledAt = now;
+
+  // Guard against a concurrent change between read and write.
+  const updated = await tx.order.updateMany({
+    where: { id: orderId, status: from },
+    data,
+  });
+  if (updated.count !== 1) {
+    return {
+      ok: false,
+      orderId,
+      httpStatus: 409,
+      error: "Order was modified concurrently, please retry",
+    };
+  }
+
+  await tx.orderEvent.create({
+    data: {
+      orderId,
+      type: "status_changed",
+      fromStatus: from,
+      toStatus: to,
+      note: change.note || null,
+      adminUserId: change.adminUserId || null,
+    },
+  });
+
+  return { ok: true, orderId, from, to };
+}
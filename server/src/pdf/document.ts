@@ -0,0 +1,359 @@
+import { deflateSync } from "node:zlib";
+
+/**
+ * A small PDF writer for the documents the server prints (packing slips,
+ * invoices). It draws text in the standard Helvetica fonts, lines, boxes and
+ * images, which is all those need; nothing is embedded but the images.
+ *
+ * Coordinates are in points from the top left of a US Letter page.
+ */
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+export type PdfFont = "regular" | "bold";
+
+// RGB, each 0-1
+export type PdfColor = [number, number, number];
+
+export interface PdfImage {
+  width: number;
+  height: number;
+  colorSpace: "DeviceRGB" | "DeviceGray" | "DeviceCMYK";
+  filter: "DCTDecode" | "FlateDecode";
+  data: Buffer;
+  // Flate-compressed 8-bit alpha channel, for PNGs with transparency
+  alpha?: Buffer;
+}
+
+export interface TextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+  // x is the left edge, the right edge or the center
+  align?: "left" | "right" | "center";
+}
+
+export interface PdfDocument {
+  addPage(): void;
+  text(value: string, x: number, y: number, options?: TextOptions): void;
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    options?: { width?: number; color?: PdfColor }
+  ): void;
+  rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    options: { fill?: PdfColor; stroke?: PdfColor }
+  ): void;
+  image(
+    image: PdfImage,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void;
+  toBuffer(): Buffer;
+}
+
+// Advance widths (per 1000 em) of the printable ASCII characters, space to
+// tilde, from the standard Helvetica font metrics.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+];
+// Close enough for the accented letters outside ASCII.
+const DEFAULT_WIDTH = 556;
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+// WinAnsiEncoding codes for the punctuation that differs from Latin-1.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+// Character codes for a string in WinAnsiEncoding; anything the standard
+// fonts can't show becomes "?".
+function encodeWinAnsi(value: string): number[] {
+  return Array.from(value).map((ch) => {
+    const code = ch.codePointAt(0)!;
+    if (code >= 0x20 && code < 0x7f) return code;
+    if (code >= 0xa0 && code <= 0xff) return code;
+    return WIN_ANSI_EXTRAS[ch] ?? 0x3f;
+  });
+}
+
+export function textWidth(
+  value: string,
+  size: number,
+  font: PdfFont = "regular"
+): number {
+  const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = encodeWinAnsi(value).reduce(
+    (sum, code) =>
+      sum + (code >= 0x20 && code < 0x7f ? widths[code - 0x20] : DEFAULT_WIDTH),
+    0
+  );
+  return (units * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than `width`. Words longer than a line are
+ * cut.
+ */
+export function wrapText(
+  value: string,
+  width: number,
+  size: number,
+  font: PdfFont = "regular"
+): string[] {
+  const lines: string[] = [];
+  for (const paragraph of value.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, font) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (textWidth(line, size, font) > width && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), size, font) > width) {
+          cut -= 1;
+        }
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function pdfString(value: string): string {
+  return `(${encodeWinAnsi(value)
+    .map((code) => {
+      if (code === 0x28 || code === 0x29 || code === 0x5c) {
+        return `\\${String.fromCharCode(code)}`;
+      }
+      if (code < 0x20 || code > 0x7e) {
+        return `\\${code.toString(8).padStart(3, "0")}`;
+      }
+      return String.fromCharCode(code);
+    })
+    .join("")})`;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function colorOp(color: PdfColor, op: "rg" | "RG"): string {
+  return `${color.map(num).join(" ")} ${op}`;
+}
+
+export function createPdf(): PdfDocument {
+  const pages: string[][] = [];
+  const images: PdfImage[] = [];
+
+  function current(): string[] {
+    if (pages.length === 0) pages.push([]);
+    return pages[pages.length - 1];
+  }
+
+  return {
+    addPage() {
+      pages.push([]);
+    },
+
+    text(value, x, y, options = {}) {
+      const size = options.size ?? 10;
+      const font = options.font ?? "regular";
+      const width = textWidth(value, size, font);
+      const left =
+        options.align === "right"
+          ? x - width
+          : options.align === "center"
+          ? x - width / 2
+          : x;
+      // y is the top of the line; PDF places text on its baseline.
+      const baseline = PAGE_HEIGHT - y - size * 0.8;
+      current().push(
+        `BT ${colorOp(options.color ?? [0, 0, 0], "rg")} /${
+          FONT_RESOURCES[font]
+        } ${num(size)} Tf ${num(left)} ${num(baseline)} Td ${pdfString(
+          value
+        )} Tj ET`
+      );
+    },
+
+    line(x1, y1, x2, y2, options = {}) {
+      current().push(
+        `${colorOp(options.color ?? [0, 0, 0], "RG")} ${num(
+          options.width ?? 1
+        )} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(
+          PAGE_HEIGHT - y2
+        )} l S`
+      );
+    },
+
+    rect(x, y, width, height, options) {
+      const path = `${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(
+        width
+      )} ${num(height)} re`;
+      if (options.fill) {
+        current().push(`${colorOp(options.fill, "rg")} ${path} f`);
+      }
+      if (options.stroke) {
+        current().push(`${colorOp(options.stroke, "RG")} 0.75 w ${path} S`);
+      }
+    },
+
+    image(image, x, y, width, height) {
+      let index = images.indexOf(image);
+      if (index === -1) index = images.push(image) - 1;
+      current().push(
+        `q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(
+          PAGE_HEIGHT - y - height
+        )} cm /Im${index + 1} Do Q`
+      );
+    },
+
+    toBuffer() {
+      if (pages.length === 0) pages.push([]);
+
+      // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then images,
+      // then each page's content stream and page.
+      const objects: Buffer[] = [];
+      const add = (body: string | Buffer): number => {
+        objects.push(
+          typeof body === "string" ? Buffer.from(body, "latin1") : body
+        );
+        return objects.length;
+      };
+      const stream = (dict: string, data: Buffer): Buffer =>
+        Buffer.concat([
+          Buffer.from(
+            `<< ${dict} /Length ${data.length} >>\nstream\n`,
+            "latin1"
+          ),
+          data,
+          Buffer.from("\nendstream", "latin1"),
+        ]);
+
+      add("<< /Type /Catalog /Pages 2 0 R >>");
+      add(""); // page tree, filled in once the pages are numbered
+      add(
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+      );
+      add(
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+      );
+
+      const imageRefs = images.map((image) => {
+        const smask = image.alpha
+          ? add(
+              stream(
+                `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode`,
+                image.alpha
+              )
+            )
+          : null;
+        return add(
+          stream(
+            `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${
+              image.height
+            } /ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /${
+              image.filter
+            }${smask ? ` /SMask ${smask} 0 R` : ""}`,
+            image.data
+          )
+        );
+      });
+      const resources = `<< /Font << /F1 3 0 R /F2 4 0 R >>${
+        imageRefs.length > 0
+          ? ` /XObject << ${imageRefs
+              .map((ref, idx) => `/Im${idx + 1} ${ref} 0 R`)
+              .join(" ")} >>`
+          : ""
+      } >>`;
+
+      const pageRefs = pages.map((ops) => {
+        const content = add(
+          stream(
+            "/Filter /FlateDecode",
+            deflateSync(Buffer.from(ops.join("\n"), "latin1"))
+          )
+        );
+        return add(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources ${resources} /Contents ${content} 0 R >>`
+        );
+      });
+      objects[1] = Buffer.from(
+        `<< /Type /Pages /Kids [${pageRefs
+          .map((ref) => `${ref} 0 R`)
+          .join(" ")}] /Count ${pageRefs.length} >>`,
+        "latin1"
+      );
+
+      const chunks: Buffer[] = [
+        Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1"),
+      ];
+      let offset = chunks[0].length;
+      const offsets: number[] = [];
+      objects.forEach((body, idx) => {
+        offsets.push(offset);
+        const chunk = Buffer.concat([
+          Buffer.from(`${idx + 1} 0 obj\n`, "latin1"),
+          body,
+          Buffer.from("\nendobj\n", "latin1"),
+        ]);
+        chunks.push(chunk);
+        offset += chunk.length;
+      });
+
+      const xref = [
+        "xref",
+        `0 ${objects.length + 1}`,
+        "0000000000 65535 f ",
+        ...offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n `),
+        "trailer",
+        `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+        "startxref",
+        String(offset),
+        "%%EOF",
+      ].join("\n");
+      chunks.push(Buffer.from(`${xref}\n`, "latin1"));
+      return Buffer.concat(chunks);
+    },
+  };
+}
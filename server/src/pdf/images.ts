@@ -0,0 +1,179 @@
+import { deflateSync, inflateSync } from "node:zlib";
+import type { PdfImage } from "./document.js";
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+// Channels per PNG color type: gray, RGB, gray + alpha, RGBA. Palette
+// images aren't supported.
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+function parseJpeg(data: Buffer): PdfImage | null {
+  let pos = 2;
+  while (pos + 9 < data.length) {
+    if (data[pos] !== 0xff) return null;
+    const marker = data[pos + 1];
+    const length = data.readUInt16BE(pos + 2);
+    // Start-of-frame markers carry the size; C4, C8 and CC are not frames.
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      const components = data[pos + 9];
+      return {
+        height: data.readUInt16BE(pos + 5),
+        width: data.readUInt16BE(pos + 7),
+        colorSpace:
+          components === 1
+            ? "DeviceGray"
+            : components === 4
+            ? "DeviceCMYK"
+            : "DeviceRGB",
+        filter: "DCTDecode",
+        data,
+      };
+    }
+    pos += 2 + length;
+  }
+  return null;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const p = left + up - upLeft;
+  const pa = Math.abs(p - left);
+  const pb = Math.abs(p - up);
+  const pc = Math.abs(p - upLeft);
+  if (pa <= pb && pa <= pc) return left;
+  return pb <= pc ? up : upLeft;
+}
+
+// Undo PNG's per-row filters, giving the raw pixels.
+function unfilterPng(
+  data: Buffer,
+  width: number,
+  height: number,
+  bpp: number
+): Buffer | null {
+  const stride = width * bpp;
+  if (data.length < (stride + 1) * height) return null;
+  const out = Buffer.alloc(stride * height);
+  for (let row = 0; row < height; row++) {
+    const filter = data[row * (stride + 1)];
+    const src = row * (stride + 1) + 1;
+    const dst = row * stride;
+    for (let i = 0; i < stride; i++) {
+      const raw = data[src + i];
+      const left = i >= bpp ? out[dst + i - bpp] : 0;
+      const up = row > 0 ? out[dst - stride + i] : 0;
+      const upLeft = row > 0 && i >= bpp ? out[dst - stride + i - bpp] : 0;
+      let value: number;
+      switch (filter) {
+        case 0:
+          value = raw;
+          break;
+        case 1:
+          value = raw + left;
+          break;
+        case 2:
+          value = raw + up;
+          break;
+        case 3:
+          value = raw + ((left + up) >> 1);
+          break;
+        case 4:
+          value = raw + paeth(left, up, upLeft);
+          break;
+        default:
+          return null;
+      }
+      out[dst + i] = value & 0xff;
+    }
+  }
+  return out;
+}
+
+function parsePng(data: Buffer): PdfImage | null {
+  let pos = PNG_SIGNATURE.length;
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Buffer[] = [];
+  while (pos + 8 <= data.length) {
+    const length = data.readUInt32BE(pos);
+    const type = data.toString("latin1", pos + 4, pos + 8);
+    const body = data.subarray(pos + 8, pos + 8 + length);
+    if (type === "IHDR") {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      const bitDepth = body[8];
+      const colorType = body[9];
+      const interlace = body[12];
+      channels = PNG_CHANNELS[colorType] ?? 0;
+      if (bitDepth !== 8 || interlace !== 0 || !channels) return null;
+    } else if (type === "IDAT") {
+      idat.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+    pos += 12 + length;
+  }
+  if (!width || !height || idat.length === 0) return null;
+
+  const pixels = unfilterPng(
+    inflateSync(Buffer.concat(idat)),
+    width,
+    height,
+    channels
+  );
+  if (!pixels) return null;
+
+  const hasAlpha = channels === 2 || channels === 4;
+  const colorChannels = hasAlpha ? channels - 1 : channels;
+  if (!hasAlpha) {
+    return {
+      width,
+      height,
+      colorSpace: colorChannels === 1 ? "DeviceGray" : "DeviceRGB",
+      filter: "FlateDecode",
+      data: deflateSync(pixels),
+    };
+  }
+
+  const color = Buffer.alloc(width * height * colorChannels);
+  const alpha = Buffer.alloc(width * height);
+  for (let px = 0; px < width * height; px++) {
+    pixels.copy(
+      color,
+      px * colorChannels,
+      px * channels,
+      px * channels + colorChannels
+    );
+    alpha[px] = pixels[px * channels + colorChannels];
+  }
+  return {
+    width,
+    height,
+    colorSpace: colorChannels === 1 ? "DeviceGray" : "DeviceRGB",
+    filter: "FlateDecode",
+    data: deflateSync(color),
+    alpha: deflateSync(alpha),
+  };
+}
+
+/**
+ * Read a JPEG or PNG for drawing into a PDF. Returns null for other formats
+ * (and for PNGs that are palette-based, interlaced or not 8-bit).
+ */
+export function parseImage(data: Buffer): PdfImage | null {
+  try {
+    if (data[0] === 0xff && data[1] === 0xd8) return parseJpeg(data);
+    if (data.subarray(0, 8).equals(PNG_SIGNATURE)) return parsePng(data);
+  } catch {
+    // Truncated or corrupt image.
+  }
+  return null;
+}
@@ -6,34 +6,68 @@ export async function ensureDefaultShippingZone(): Promise<void> {
   });
 
   if (!existingZone) {
-    console.log("Creating default US shipping zone with weight tiers...");
+    console.log("Creating default US shipping zone with shipping methods...");
     await prisma.shippingZone.create({
       data: {
         name: "United States",
         countries: ["US"],
         enabled: true,
-        freeShippingMin: 7500, // $75 free shipping threshold
-        weightTiers: {
+        methods: {
           create: [
             {
-              minWeightG: 0,
-              maxWeightG: 250,
-              rateCents: 450, // $4.50 for small bottles (up to 250g)
+              name: "Standard",
+              minDays: 3,
+              maxDays: 7,
+              freeShippingMin: 7500, // $75 free shipping threshold
+              sortOrder: 0,
+              weightTiers: {
+                create: [
+                  {
+                    minWeightG: 0,
+                    maxWeightG: 250,
+                    rateCents: 450, // $4.50 for small bottles (up to 250g)
+                  },
+                  {
+                    minWeightG: 251,
+                    maxWeightG: 750,
+                    rateCents: 875, // $8.75 for medium orders (251-750g)
+                  },
+                  {
+                    minWeightG: 751,
+                    maxWeightG: 2000,
+                    rateCents: 1200, // $12.00 for larger orders (751-2000g)
+                  },
+                  {
+                    minWeightG: 2001,
+                    maxWeightG: 10000,
+                    rateCents: 1800, // $18.00 for bulk orders (2-10kg)
+                  },
+                ],
+              },
             },
             {
-              minWeightG: 251,
-              maxWeightG: 750,
-              rateCents: 875, // $8.75 for medium orders (251-750g)
+              name: "Express",
+              minDays: 2,
+              maxDays: 3,
+              sortOrder: 1,
+              weightTiers: {
+                create: [
+                  { minWeightG: 0, maxWeightG: 750, rateCents: 1499 },
+                  { minWeightG: 751, maxWeightG: 10000, rateCents: 2499 },
+                ],
+              },
             },
             {
-              minWeightG: 751,
-              maxWeightG: 2000,
-              rateCents: 1200, // $12.00 for larger orders (751-2000g)
-            },
-            {
-              minWeightG: 2001,
-              maxWeightG: 10000,
-              rateCents: 1800, // $18.00 for bulk orders (2-10kg)
+              name: "Overnight",
+              minDays: 1,
+              maxDays: 1,
+              sortOrder: 2,
+              weightTiers: {
+                create: [
+                  { minWeightG: 0, maxWeightG: 750, rateCents: 2999 },
+                  { minWeightG: 751, maxWeightG: 10000, rateCents: 4499 },
+                ],
+              },
             },
           ],
         },
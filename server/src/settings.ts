@@ -0,0 +1,15 @@
+import { prisma } from "./db.js";
+
+/**
+ * Read a StoreSetting value. Values are stored as JSON strings (plain strings
+ * are stored as-is), mirroring the admin settings endpoints.
+ */
+export async function getStoreSetting<T>(key: string, fallback: T): Promise<T> {
+  const setting = await prisma.storeSetting.findUnique({ where: { key } });
+  if (!setting) return fallback;
+  try {
+    return JSON.parse(setting.value) as T;
+  } catch {
+    return setting.value as unknown as T;
+  }
+}
@@ -0,0 +1,365 @@
+import type Stripe from "stripe";
+import type { Product } from "@prisma/client";
+import { prisma } from "./db.js";
+import { taxOnCents } from "./tax.js";
+
+export interface ShippingOption {
+  // Null only for the built-in fallback when no zones are configured.
+  methodId: string | null;
+  name: string;
+  // Delivery estimate in business days.
+  minDays: number | null;
+  maxDays: number | null;
+  // Rate charged after applying the method's free-shipping threshold.
+  shippingCents: number;
+  // Weight-tier rate before free shipping.
+  rateCents: number;
+  freeShippingMin: number | null;
+  freeShippingApplied: boolean;
+}
+
+export interface ShippingQuote {
+  subtotalCents: number;
+  totalWeightG: number;
+  requiresShipping: boolean;
+  zoneId: string | null;
+  zoneName: string;
+  // Destinations this quote is valid for (the zone's countries).
+  countries: string[];
+  // Cheapest first. Empty when nothing in the cart ships.
+  options: ShippingOption[];
+}
+
+type TierLadder = Array<{
+  minWeightG: number;
+  maxWeightG: number;
+  rateCents: number;
+}>;
+
+interface MethodConfig {
+  id: string | null;
+  name: string;
+  minDays: number | null;
+  maxDays: number | null;
+  freeShippingMin: number | null;
+  weightTiers: TierLadder;
+}
+
+// Stripe Checkout accepts at most 5 shipping options.
+const MAX_CHECKOUT_OPTIONS = 5;
+
+// Used only when no shipping zone has been configured yet.
+const FALLBACK_ZONE: {
+  name: string;
+  countries: string[];
+  methods: MethodConfig[];
+} = {
+  name: "Default",
+  countries: ["US"],
+  methods: [
+    {
+      id: null,
+      name: "Standard",
+      minDays: 3,
+      maxDays: 7,
+      freeShippingMin: 7500, // $75
+      weightTiers: [
+        { minWeightG: 0, maxWeightG: 250, rateCents: 450 }, // $4.50
+        { minWeightG: 251, maxWeightG: 750, rateCents: 875 }, // $8.75
+        { minWeightG: 751, maxWeightG: 2000, rateCents: 1200 }, // $12.00
+      ],
+    },
+  ],
+};
+
+// Use the most precise weight available.
+export function productWeightG(product: Product): number {
+  if (product.weightG) return product.weightG;
+  if (product.weightOz) return product.weightOz * 28.3495; // oz to grams
+  if (product.weightGrams) return product.weightGrams;
+  // For liquids, assume 1ml ≈ 1g (works for water-based products)
+  if (product.volumeMl) return product.volumeMl;
+  return 0;
+}
+
+/**
+ * Countries we can ship to: the union of all enabled zones' countries.
+ */
+export async function shippableCountries(): Promise<string[]> {
+  const zones = await prisma.shippingZone.findMany({
+    where: { enabled: true },
+    select: { countries: true },
+  });
+  if (zones.length === 0) return FALLBACK_ZONE.countries;
+
+  const set = new Set<string>();
+  for (const z of zones) {
+    for (const c of z.countries) set.add(c.toUpperCase());
+  }
+  return Array.from(set).sort();
+}
+
+// Rate for a weight on a tier ladder sorted by minWeightG. Weights above the
+// last tier use its rate; null when the method has no tiers.
+function tierRateCents(tiers: TierLadder, weightG: number): number | null {
+  if (tiers.length === 0) return null;
+  // Tier bounds are whole grams; computed weights are not.
+  const w = Math.round(weightG);
+  const tier = tiers.find((t) => w >= t.minWeightG && w <= t.maxWeightG);
+  return (tier ?? tiers[tiers.length - 1]).rateCents;
+}
+
+function quoteMethod(
+  method: MethodConfig,
+  totalWeightG: number,
+  subtotalCents: number
+): ShippingOption | null {
+  const rateCents = tierRateCents(method.weightTiers, totalWeightG);
+  if (rateCents === null) return null;
+
+  const freeShippingApplied = Boolean(
+    method.freeShippingMin && subtotalCents >= method.freeShippingMin
+  );
+  return {
+    methodId: method.id,
+    name: method.name,
+    minDays: method.minDays,
+    maxDays: method.maxDays,
+    shippingCents: freeShippingApplied ? 0 : rateCents,
+    rateCents,
+    freeShippingMin: method.freeShippingMin,
+    freeShippingApplied,
+  };
+}
+
+/**
+ * Quote every enabled shipping method of the zone serving the destination.
+ * Returns null when no enabled zone ships there, or the zone has no method
+ * with rates configured.
+ */
+export async function quoteShipping(params: {
+  items: Array<{ productId: string; quantity: number }>;
+  country: string;
+}): Promise<ShippingQuote | null> {
+  const { items } = params;
+  const country = (params.country || "US").trim().toUpperCase();
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: items.map((i) => i.productId) } },
+  });
+  const productMap = new Map(products.map((p) => [p.id, p]));
+
+  let subtotalCents = 0;
+  let totalWeightG = 0;
+  let requiresShipping = false;
+  for (const item of items) {
+    const product = productMap.get(item.productId);
+    if (!product) continue;
+
+    const qty = Number(item.quantity) || 1;
+    subtotalCents += product.priceCents * qty;
+    if (!product.requiresShipping) continue;
+    requiresShipping = true;
+    totalWeightG += productWeightG(product) * qty;
+  }
+
+  // If no weight data, use default estimate
+  if (requiresShipping && totalWeightG === 0) {
+    totalWeightG = 250;
+  }
+
+  const zoneCount = await prisma.shippingZone.count({
+    where: { enabled: true },
+  });
+  const zone = await prisma.shippingZone.findFirst({
+    where: {
+      enabled: true,
+      countries: { has: country },
+    },
+    include: {
+      methods: {
+        where: { enabled: true },
+        orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+        include: { weightTiers: { orderBy: { minWeightG: "asc" } } },
+      },
+    },
+  });
+
+  let methods: MethodConfig[];
+  let zoneName: string;
+  let countries: string[];
+  if (zone) {
+    methods = zone.methods;
+    zoneName = zone.name;
+    countries = zone.countries.map((c) => c.toUpperCase());
+  } else if (zoneCount === 0 && FALLBACK_ZONE.countries.includes(country)) {
+    methods = FALLBACK_ZONE.methods;
+    zoneName = FALLBACK_ZONE.name;
+    countries = FALLBACK_ZONE.countries;
+  } else {
+    return null;
+  }
+
+  let options: ShippingOption[] = [];
+  if (requiresShipping) {
+    for (const method of methods) {
+      const option = quoteMethod(method, totalWeightG, subtotalCents);
+      if (option) options.push(option);
+    }
+    if (options.length === 0) return null;
+    // Stable sort keeps the admin's ordering among equal prices.
+    options = options.sort((a, b) => a.shippingCents - b.shippingCents);
+  }
+
+  return {
+    subtotalCents,
+    totalWeightG: Math.round(totalWeightG),
+    requiresShipping,
+    zoneId: zone?.id ?? null,
+    zoneName,
+    countries,
+    options,
+  };
+}
+
+/**
+ * Pick the option a manual order ships with: the requested method, or the
+ * cheapest one.
+ */
+export function selectShippingOption(
+  quote: ShippingQuote,
+  methodId?: string | null
+): ShippingOption | null {
+  if (methodId) {
+    return quote.options.find((o) => o.methodId === methodId) ?? null;
+  }
+  return quote.options[0] ?? null;
+}
+
+function deliveryEstimate(
+  option: ShippingOption
+): Stripe.Checkout.SessionCreateParams.ShippingOption.ShippingRateData.DeliveryEstimate | null {
+  if (option.minDays === null && option.maxDays === null) return null;
+  const min = option.minDays ?? option.maxDays!;
+  const max = option.maxDays ?? option.minDays!;
+  return {
+    minimum: { unit: "business_day", value: min },
+    maximum: { unit: "business_day", value: max },
+  };
+}
+
+/**
+ * Stripe Checkout shipping params for a quote: the address is restricted to
+ * the quoted zone so the rate charged always matches the destination, and
+ * each shipping method becomes a selectable shipping option.
+ *
+ * The countries are the quoted zone's, not every enabled zone's
+ * (shippableCountries). Checkout's rates are fixed when the session is
+ * created, so allowing another zone's countries would let a cart quoted for
+ * a cheap zone ship to an expensive one at the cheap rate. The cart page
+ * offers every shippable country, and changing it there quotes that zone.
+ */
+export function checkoutShippingParams(
+  quote: ShippingQuote,
+  options: {
+    currency: string;
+    preferredMethodId?: string | null;
+    // Tax rate applied to shipping where the destination taxes it.
+    shippingTaxBps?: number;
+    // A free-shipping discount zeroes every option.
+    freeShipping?: boolean;
+  }
+): Pick<
+  Stripe.Checkout.SessionCreateParams,
+  "shipping_address_collection" | "shipping_options"
+> {
+  if (!quote.requiresShipping) return {};
+
+  return {
+    shipping_address_collection: {
+      allowed_countries:
+        quote.countries as Stripe.Checkout.SessionCreateParams.ShippingAddressCollection.AllowedCountry[],
+    },
+    // Stripe preselects the first option, so lead with the customer's pick.
+    shipping_options: [...quote.options]
+      .sort(
+        (a, b) =>
+          Number(b.methodId === options.preferredMethodId) -
+          Number(a.methodId === options.preferredMethodId)
+      )
+      .slice(0, MAX_CHECKOUT_OPTIONS)
+      .map((quoted) => {
+        const option: ShippingOption = options.freeShipping
+          ? { ...quoted, shippingCents: 0, freeShippingApplied: true }
+          : quoted;
+        const estimate = deliveryEstimate(option);
+        // Checkout can't tax the method the customer picks, so each rate
+        // carries its own shipping tax.
+        const shippingTaxCents = taxOnCents(
+          option.shippingCents,
+          options.shippingTaxBps || 0
+        );
+        return {
+          shipping_rate_data: {
+            type: "fixed_amount",
+            fixed_amount: {
+              amount: option.shippingCents + shippingTaxCents,
+              currency: options.currency,
+            },
+            display_name: option.freeShippingApplied
+              ? `${option.name} (free)`
+              : option.name,
+            ...(estimate ? { delivery_estimate: estimate } : {}),
+            metadata: {
+              zoneName: quote.zoneName,
+              methodId: option.methodId || "",
+              methodName: option.name,
+              shippingTaxCents: String(shippingTaxCents),
+            },
+          },
+        };
+      }),
+  };
+}
+
+/**
+ * Shipping the customer paid for on a completed Checkout session, split from
+ * the shipping tax included in the rate, for recording on the order.
+ */
+export async function sessionShipping(
+  stripe: Stripe,
+  session: Stripe.Checkout.Session
+): Promise<{
+  shippingCents: number | null;
+  shippingTaxCents: number;
+  shippingMethod: string | null;
+}> {
+  const cost = session.shipping_cost;
+  if (!cost) {
+    return { shippingCents: null, shippingTaxCents: 0, shippingMethod: null };
+  }
+
+  let shippingMethod: string | null = null;
+  let shippingTaxCents = 0;
+  const rate = cost.shipping_rate;
+  if (rate) {
+    try {
+      const shippingRate =
+        typeof rate === "string"
+          ? await stripe.shippingRates.retrieve(rate)
+          : rate;
+      shippingMethod =
+        shippingRate.metadata?.methodName || shippingRate.display_name || null;
+      shippingTaxCents = Number(shippingRate.metadata?.shippingTaxCents) || 0;
+    } catch (err) {
+      // Only used to split shipping from its tax; don't fail the order over it.
+      console.error("Failed to load shipping rate:", err);
+    }
+  }
+
+  return {
+    shippingCents: cost.amount_total - shippingTaxCents,
+    shippingTaxCents,
+    shippingMethod,
+  };
+}
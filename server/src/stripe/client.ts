@@ -0,0 +1,20 @@
+import Stripe from "stripe";
+import { config } from "../config.js";
+
+/**
+ * The server's Stripe client. With `STRIPE_API_BASE` set, requests go to
+ * that server (e.g. stripe-mock) instead of api.stripe.com.
+ */
+export function createStripeClient(): Stripe {
+  const base = config.stripeApiBase ? new URL(config.stripeApiBase) : null;
+  return new Stripe(config.stripeSecretKey, {
+    apiVersion: "2024-06-20",
+    ...(base
+      ? {
+          host: base.hostname,
+          port: base.port || undefined,
+          protocol: base.protocol === "http:" ? "http" : "https",
+        }
+      : {}),
+  });
+}
@@ -0,0 +1,190 @@
+import type Stripe from "stripe";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../db.js";
+import { expireCheckoutAttempt } from "../checkouts.js";
+import { releaseReservations } from "../inventory/reservations.js";
+import { releaseDiscountHold } from "../discounts.js";
+import { syncChargeRefunds } from "../orders/refunds.js";
+import {
+  confirmCheckoutPayment,
+  createOrderFromCheckout,
+  failCheckoutPayment,
+} from "../orders/fromCheckout.js";
+
+export const STRIPE_EVENT_STATUSES = [
+  "pending",
+  "processing",
+  "processed",
+  "ignored",
+  "failed",
+] as const;
+export type StripeEventStatus = (typeof STRIPE_EVENT_STATUSES)[number];
+
+const VALID_STRIPE_EVENT_STATUSES = new Set<string>(STRIPE_EVENT_STATUSES);
+
+export function isStripeEventStatus(
+  value: unknown
+): value is StripeEventStatus {
+  return typeof value === "string" && VALID_STRIPE_EVENT_STATUSES.has(value);
+}
+
+// A delivery still "processing" after this long died part way through, and
+// may be picked up again.
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+type EventOutcome =
+  | { status: "processed" | "ignored" }
+  | { status: "failed"; error: string };
+
+export type StripeEventResult =
+  | { ok: true; status: "processed" | "ignored" | "duplicate" }
+  | { ok: false; error: string };
+
+async function handleStripeEvent(
+  stripe: Stripe,
+  event: Stripe.Event
+): Promise<EventOutcome> {
+  switch (event.type) {
+    case "checkout.session.completed": {
+      const session = event.data.object as Stripe.Checkout.Session;
+      // Delayed payment methods complete unpaid, and clear (or fail) later
+      // with an async_payment event. The order holds the stock meanwhile.
+      if (session.payment_status === "paid") {
+        return outcome(await createOrderFromCheckout(stripe, session, "paid"));
+      }
+      if (session.payment_status === "unpaid") {
+        return outcome(
+          await createOrderFromCheckout(stripe, session, "pending")
+        );
+      }
+      return { status: "ignored" };
+    }
+
+    case "checkout.session.async_payment_succeeded": {
+      const session = event.data.object as Stripe.Checkout.Session;
+      return outcome(await confirmCheckoutPayment(stripe, session));
+    }
+
+    case "checkout.session.async_payment_failed": {
+      const session = event.data.object as Stripe.Checkout.Session;
+      const result = await failCheckoutPayment(session);
+      return result ? outcome(result) : { status: "processed" };
+    }
+
+    case "checkout.session.expired": {
+      const session = event.data.object as Stripe.Checkout.Session;
+      await releaseReservations({
+        checkoutKey: session.metadata?.reservationKey,
+        stripeSessionId: session.id,
+      });
+      await releaseDiscountHold(session.metadata?.reservationKey);
+      await expireCheckoutAttempt(session);
+      return { status: "processed" };
+    }
+
+    case "payment_intent.payment_failed": {
+      const intent = event.data.object as Stripe.PaymentIntent;
+      // Checkout lets the shopper try again, so a failure is only worth
+      // noting on an order that already exists.
+      const order = await prisma.order.findFirst({
+        where: { paymentIntentId: intent.id },
+        select: { id: true },
+      });
+      if (!order) return { status: "ignored" };
+      await prisma.orderEvent.create({
+        data: {
+          orderId: order.id,
+          type: "payment_failed",
+          note: intent.last_payment_error?.message || "Payment failed",
+        },
+      });
+      return { status: "processed" };
+    }
+
+    case "charge.refunded":
+      await syncChargeRefunds(stripe, event.data.object as Stripe.Charge);
+      return { status: "processed" };
+
+    default:
+      return { status: "ignored" };
+  }
+}
+
+function outcome(
+  result: { ok: true } | { ok: false; error: string }
+): EventOutcome {
+  return result.ok
+    ? { status: "processed" }
+    : { status: "failed", error: result.error };
+}
+
+/**
+ * Store a verified webhook event. Stripe delivers at least once, so the same
+ * event may arrive again; the stored copy is kept.
+ */
+export async function recordStripeEvent(event: Stripe.Event): Promise<void> {
+  await prisma.stripeEvent.upsert({
+    where: { id: event.id },
+    update: {},
+    create: {
+      id: event.id,
+      type: event.type,
+      payload: event as unknown as Prisma.InputJsonValue,
+      livemode: event.livemode,
+      stripeCreatedAt: new Date(event.created * 1000),
+    },
+  });
+}
+
+/**
+ * Run a stored event's handler, at most once to completion. A delivery that
+ * finds the event already processed, or being processed, is a duplicate.
+ * Failed events can run again, from a Stripe retry or a replay.
+ */
+export async function processStripeEvent(
+  stripe: Stripe,
+  eventId: string
+): Promise<StripeEventResult> {
+  const claimed = await prisma.stripeEvent.updateMany({
+    where: {
+      id: eventId,
+      OR: [
+        { status: { in: ["pending", "failed"] } },
+        {
+          status: "processing",
+          updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) },
+        },
+      ],
+    },
+    data: { status: "processing", attempts: { increment: 1 } },
+  });
+  if (claimed.count === 0) return { ok: true, status: "duplicate" };
+
+  const stored = await prisma.stripeEvent.findUniqueOrThrow({
+    where: { id: eventId },
+  });
+  let result: EventOutcome;
+  try {
+    result = await handleStripeEvent(
+      stripe,
+      stored.payload as unknown as Stripe.Event
+    );
+  } catch (err) {
+    console.error(`Stripe event ${eventId} error:`, err);
+    result = {
+      status: "failed",
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+
+  await prisma.stripeEvent.update({
+    where: { id: eventId },
+    data:
+      result.status === "failed"
+        ? { status: "failed", error: result.error.slice(0, 2000) }
+        : { status: result.status, error: null, processedAt: new Date() },
+  });
+  return result.status === "failed"
+    ? { ok: false, error: result.error }
+    : { ok: true, status: result.status };
+}
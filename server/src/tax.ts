@@ -0,0 +1,305 @@
+import type Stripe from "stripe";
+import type { TaxRate } from "@prisma/client";
+import { prisma } from "./db.js";
+import { getStoreSetting } from "./settings.js";
+
+// Product metadata marking the Checkout line item that carries item tax.
+export const TAX_LINE_KIND = "tax";
+
+export interface TaxDestination {
+  country: string;
+  state?: string | null;
+  postalCode?: string | null;
+}
+
+export interface TaxLine {
+  productId: string;
+  taxCents: number;
+}
+
+export interface TaxQuote {
+  // Tax on items plus tax on shipping.
+  taxCents: number;
+  itemTaxCents: number;
+  shippingTaxCents: number;
+  rateBps: number;
+  taxShipping: boolean;
+  // Null when the store-wide default rate applied.
+  regionId: string | null;
+  regionName: string | null;
+  lines: TaxLine[];
+}
+
+// Rate and shipping taxability for a destination.
+export interface ResolvedTaxRate {
+  rateBps: number;
+  taxShipping: boolean;
+  regionId: string | null;
+  regionName: string | null;
+}
+
+export function normalizeTaxDestination(raw: any): TaxDestination {
+  const country = String(raw?.country || "US")
+    .trim()
+    .toUpperCase();
+  const state = String(raw?.state || "")
+    .trim()
+    .toUpperCase();
+  const postalCode = String(raw?.postalCode || raw?.postal || "")
+    .replace(/\s+/g, "")
+    .toUpperCase();
+  return {
+    country: country || "US",
+    state: state || null,
+    postalCode: postalCode || null,
+  };
+}
+
+export function taxOnCents(cents: number, rateBps: number): number {
+  return Math.round((cents * rateBps) / 10000);
+}
+
+// Higher is more specific: postal prefix (longer wins) > state > country.
+function specificity(rate: TaxRate): number {
+  if (rate.postalPrefix) return 2000 + rate.postalPrefix.length;
+  if (rate.state) return 1000;
+  return 0;
+}
+
+/**
+ * Find the rate for a destination. Rates don't stack: the most specific
+ * matching region wins, so local rates are entered as combined rates. Falls
+ * back to the store-wide `taxRate` setting (a percentage) when no region
+ * matches.
+ */
+export async function resolveTaxRate(
+  destination: TaxDestination
+): Promise<ResolvedTaxRate> {
+  const { country, state, postalCode } = destination;
+
+  const candidates = await prisma.taxRate.findMany({
+    where: {
+      enabled: true,
+      country,
+      OR: [{ state: null }, ...(state ? [{ state }] : [])],
+    },
+  });
+
+  const matches = candidates.filter((r) => {
+    if (!r.postalPrefix) return true;
+    return Boolean(
+      postalCode && postalCode.startsWith(r.postalPrefix.toUpperCase())
+    );
+  });
+  matches.sort((a, b) => specificity(b) - specificity(a));
+
+  const region = matches[0];
+  if (region) {
+    return {
+      rateBps: region.rateBps,
+      taxShipping: region.taxShipping,
+      regionId: region.id,
+      regionName: region.name,
+    };
+  }
+
+  const defaultPercent = Number(await getStoreSetting("taxRate", 0));
+  return {
+    rateBps:
+      Number.isFinite(defaultPercent) && defaultPercent > 0
+        ? Math.round(defaultPercent * 100)
+        : 0,
+    taxShipping: false,
+    regionId: null,
+    regionName: null,
+  };
+}
+
+/**
+ * Tax for a cart shipped to a destination. Tax is computed per line and
+ * rounded per line; tax-exempt products are skipped.
+ */
+export async function quoteTax(params: {
+  items: Array<{ productId: string; quantity: number }>;
+  destination: TaxDestination;
+  shippingCents?: number;
+  // Discount taken off each product's line; tax applies to what's left.
+  lineDiscounts?: Array<{ productId: string; discountCents: number }>;
+}): Promise<TaxQuote> {
+  const { items, destination } = params;
+  const discountByProduct = new Map(
+    (params.lineDiscounts || []).map((l) => [l.productId, l.discountCents])
+  );
+  const rate = await resolveTaxRate(destination);
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: items.map((i) => i.productId) } },
+    select: { id: true, priceCents: true, taxExempt: true },
+  });
+  const productMap = new Map(products.map((p) => [p.id, p]));
+
+  const lines: TaxLine[] = [];
+  for (const item of items) {
+    const product = productMap.get(item.productId);
+    if (!product) continue;
+    const qty = Number(item.quantity) || 1;
+    lines.push({
+      productId: product.id,
+      taxCents: product.taxExempt
+        ? 0
+        : taxOnCents(
+            Math.max(
+              0,
+              product.priceCents * qty -
+                (discountByProduct.get(product.id) || 0)
+            ),
+            rate.rateBps
+          ),
+    });
+  }
+
+  const itemTaxCents = lines.reduce((sum, l) => sum + l.taxCents, 0);
+  const shippingTaxCents = rate.taxShipping
+    ? taxOnCents(params.shippingCents || 0, rate.rateBps)
+    : 0;
+
+  return {
+    taxCents: itemTaxCents + shippingTaxCents,
+    itemTaxCents,
+    shippingTaxCents,
+    rateBps: rate.rateBps,
+    taxShipping: rate.taxShipping,
+    regionId: rate.regionId,
+    regionName: rate.regionName,
+    lines,
+  };
+}
+
+/**
+ * Split a tax amount charged as a single Stripe line across order items in
+ * proportion to their pre-computed tax, so per-item refunds include tax.
+ */
+export function allocateTax(totalCents: number, weights: number[]): number[] {
+  const sum = weights.reduce((s, w) => s + w, 0);
+  if (sum <= 0 || totalCents <= 0) return weights.map(() => 0);
+
+  const shares = weights.map((w) => Math.floor((totalCents * w) / sum));
+  let remainder = totalCents - shares.reduce((s, v) => s + v, 0);
+  // Hand out leftover cents to the largest weights first.
+  const order = weights
+    .map((w, i) => ({ w, i }))
+    .sort((a, b) => b.w - a.w)
+    .map((x) => x.i);
+  for (let k = 0; remainder > 0; k = (k + 1) % order.length) {
+    shares[order[k]] += 1;
+    remainder -= 1;
+  }
+  return shares;
+}
+
+/**
+ * Checkout line item charging the item tax, or null when there is none.
+ * Shipping tax is carried by the shipping rates instead.
+ */
+export function checkoutTaxLineItem(
+  quote: TaxQuote,
+  currency: string
+): Stripe.Checkout.SessionCreateParams.LineItem | null {
+  if (quote.itemTaxCents <= 0) return null;
+  const percent = (quote.rateBps / 100).toFixed(2).replace(/\.?0+$/, "");
+  return {
+    price_data: {
+      currency,
+      unit_amount: quote.itemTaxCents,
+      product_data: {
+        name: "Sales tax",
+        description: `${quote.regionName || "Tax"} (${percent}%)`,
+        metadata: { kind: TAX_LINE_KIND },
+      },
+    },
+    quantity: 1,
+  };
+}
+
+/**
+ * Checkout session metadata recording the destination and rate tax was
+ * charged for. Stripe collects the shipping address after the tax line is
+ * fixed, so the webhook checks the two against each other.
+ */
+export function checkoutTaxMetadata(
+  destination: TaxDestination,
+  quote: TaxQuote
+): Record<string, string> {
+  return {
+    taxCountry: destination.country,
+    ...(destination.state ? { taxState: destination.state } : {}),
+    ...(destination.postalCode ? { taxPostal: destination.postalCode } : {}),
+    taxRateBps: String(quote.rateBps),
+    taxShipping: String(quote.taxShipping),
+  };
+}
+
+export interface TaxMismatch {
+  chargedCents: number;
+  expectedCents: number;
+  note: string;
+}
+
+function describeDestination(destination: TaxDestination): string {
+  return [destination.state, destination.postalCode, destination.country]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Compare the tax a checkout charged with the tax due where the order
+ * actually ships. Returns null when they agree, or for sessions created
+ * before checkouts recorded their tax destination.
+ */
+export async function checkoutTaxMismatch(params: {
+  metadata: Stripe.Metadata | null;
+  address: Stripe.Address | null;
+  // Each taxable item's amount after discounts; tax-exempt items left out
+  taxableCents: number[];
+  shippingCents: number;
+  chargedCents: number;
+}): Promise<TaxMismatch | null> {
+  const { metadata, address } = params;
+  if (!metadata?.taxRateBps || !address?.country) return null;
+
+  const shipped = normalizeTaxDestination({
+    country: address.country,
+    state: address.state,
+    postalCode: address.postal_code,
+  });
+  const rate = await resolveTaxRate(shipped);
+  if (
+    rate.rateBps === Number(metadata.taxRateBps) &&
+    rate.taxShipping === (metadata.taxShipping === "true")
+  ) {
+    return null;
+  }
+
+  const expectedCents =
+    params.taxableCents.reduce(
+      (sum, cents) => sum + taxOnCents(cents, rate.rateBps),
+      0
+    ) + (rate.taxShipping ? taxOnCents(params.shippingCents, rate.rateBps) : 0);
+  if (expectedCents === params.chargedCents) return null;
+
+  const quoted = normalizeTaxDestination({
+    country: metadata.taxCountry,
+    state: metadata.taxState,
+    postalCode: metadata.taxPostal,
+  });
+  const dollars = (cents: number): string => `$${(cents / 100).toFixed(2)}`;
+  return {
+    chargedCents: params.chargedCents,
+    expectedCents,
+    note: `Tax was charged for ${describeDestination(
+      quoted
+    )} but the order ships to ${describeDestination(shipped)}: ${dollars(
+      params.chargedCents
+    )} charged, ${dollars(expectedCents)} due`,
+  };
+}
@@ -6,10 +6,28 @@ export interface Config {
   stripeSecretKey: string;
   stripeWebhookSecret: string;
 
+  // Send Stripe API calls here instead of api.stripe.com, e.g. a local
+  // stripe-mock server (http://localhost:12111) for testing.
+  stripeApiBase?: string;
+
   // Session cookie signing secret (recommended when using server sessions).
   // If not set, the server may fall back to jwtSecret.
   sessionSecret?: string;
 
+  // Express "trust proxy" value (e.g. "1") when behind a load balancer, so
+  // req.ip is the client's address. Login throttling is keyed on it.
+  trustProxy?: string;
+
+  // Outgoing mail. Point at a local stub (e.g. MailHog on port 1025) in dev.
+  smtp?: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+    from: string;
+  };
+
   r2?: {
     accountId: string;
     accessKeyId: string;
@@ -24,12 +42,15 @@ export interface AdminUser {
   id: string;
   email: string;
   name: string | null;
+  role: string;
   active: boolean;
 }
 
 export interface JWTPayload {
   userId: string;
   email: string;
+  // Set by requireAuth
+  role?: string;
 }
 
 declare global {
@@ -44,5 +65,18 @@ declare module "express-session" {
   interface SessionData {
     userId?: string;
     email?: string;
+    // Password checked, waiting on a two-factor code ("verify") or on
+    // enrolling because the store requires two-factor ("setup").
+    pendingAdminId?: string;
+    pendingTwoFactor?: "verify" | "setup";
+    pendingLoginExpiresAt?: number;
+    twoFactorAttempts?: number;
+    // Shown to owners in the admin session list.
+    signedInAt?: number;
+    lastSeenAt?: number;
+    ip?: string;
+    userAgent?: string;
+    // Signed-in storefront customer, independent of the admin login.
+    customerId?: string;
   }
 }
@@ -6,11 +6,15 @@ import Cart from "./pages/Cart";
 import Success from "./pages/Success";
 import Cancel from "./pages/Cancel";
 import NotFound from "./pages/NotFound";
+import Account from "./pages/Account";
+import AccountLogin from "./pages/AccountLogin";
+import AccountSignup from "./pages/AccountSignup";
 import Layout from "./components/Layout";
 import AdminInventory from "./pages/AdminInventory";
 import AdminLayout from "./components/AdminLayout";
 import AdminDashboard from "./pages/AdminDashboard";
 import AdminLogin from "./pages/AdminLogin";
+import AdminResetPassword from "./pages/AdminResetPassword";
 import AdminOrders from "./pages/AdminOrders";
 import AdminCustomers from "./pages/AdminCustomers";
 import AdminShipping from "./pages/AdminShipping";
@@ -19,6 +23,13 @@ import AdminUsers from "./pages/AdminUsers";
 import AdminSettings from "./pages/AdminSettings";
 import AdminProductCategories from "./pages/AdminProductCategories";
 import AdminMediaGallery from "./pages/AdminMediaGallery";
+import AdminEmails from "./pages/AdminEmails";
+import AdminDiscounts from "./pages/AdminDiscounts";
+import AdminAbandonedCheckouts from "./pages/AdminAbandonedCheckouts";
+import AdminSecurity from "./pages/AdminSecurity";
+import AdminAuditLog from "./pages/AdminAuditLog";
+import AdminStripeEvents from "./pages/AdminStripeEvents";
+import RequirePermission from "./components/RequirePermission";
 import { AdminAuthProvider } from "./context/AdminAuthContext";
 
 function AdminRoutes() {
@@ -26,17 +37,129 @@ function AdminRoutes() {
     <AdminAuthProvider>
       <Routes>
         <Route path="/login" element={<AdminLogin />} />
+        <Route path="/reset-password" element={<AdminResetPassword />} />
         <Route element={<AdminLayout />}>
-          <Route index element={<AdminDashboard />} />
-          <Route path="orders" element={<AdminOrders />} />
-          <Route path="orders/new" element={<AdminCreateOrder />} />
-          <Route path="customers" element={<AdminCustomers />} />
-          <Route path="inventory" element={<AdminInventory />} />
-          <Route path="categories" element={<AdminProductCategories />} />
-          <Route path="shipping" element={<AdminShipping />} />
-          <Route path="users" element={<AdminUsers />} />
-          <Route path="media" element={<AdminMediaGallery />} />
-          <Route path="settings" element={<AdminSettings />} />
+          <Route
+            index
+            element={
+              <RequirePermission permission="analytics:read">
+                <AdminDashboard />
+              </RequirePermission>
+            }
+          />
+          <Route
+            path="orders"
+            element={
+              <RequirePermission permission="orders:read">
+                <AdminOrders />
+              </RequirePermission>
+            }
+          />
+          <Route
+            path="orders/new"
+            element={
+              <RequirePermission permission="orders:write">
+                <AdminCreateOrder />
+              </RequirePermission>
+            }
+          />
+          <Route
+            path="abandoned-checkouts"
+            element={
+              <RequirePermission permission="customers:read">
+                <AdminAbandonedCheckouts />
+              </RequirePermission>
+            }
+          />
+          <Route
+            path="customers"
+            element={
+              <RequirePermission permission="customers:read">
+                <AdminCustomers />
+              </RequirePermission>
+            }
+          />
+          <Route
+            path="inventory"
+            element={
+              <RequirePermission permission="inventory:read">
+                <AdminInventory />
+              </RequirePermission>
+            }
+          />
+          <Route
+            path="categories"
+            element={
+              <RequirePermission permission="products:write">
+                <AdminProductCategories />
+              </RequirePermission>
+            }
+          />
+          <Route
+            path="shipping"
+            element={
+              <RequirePermission permission="shipping:manage">
+                <AdminShipping />
+              </RequirePermission>
+            }
+          />
+          <Route
+            path="discounts"
+            element={
+              <RequirePermission permission="discounts:manage">
+                <AdminDiscounts />
+              </RequirePermission>
+            }
+          />
+          <Route
+            path="users"
+            element={
+              <RequirePermission permission="users:manage">
+                <AdminUsers />
+              </RequirePermission>
+            }
+          />
+          <Route
+            path="audit-log"
+            element={
+              <RequirePermission permission="audit:read">
+                <AdminAuditLog />
+              </RequirePermission>
+            }
+          />
+          <Route
+            path="media"
+            element={
+              <RequirePermission permission="products:write">
+                <AdminMediaGallery />
+              </RequirePermission>
+            }
+          />
+          <Route
+            path="settings"
+            element={
+              <RequirePermission permission="settings:manage">
+                <AdminSettings />
+              </RequirePermission>
+            }
+          />
+          <Route
+            path="emails"
+            element={
+              <RequirePermission permission="emails:manage">
+                <AdminEmails />
+              </RequirePermission>
+            }
+          />
+          <Route
+            path="stripe-events"
+            element={
+              <RequirePermission permission="payments:manage">
+                <AdminStripeEvents />
+              </RequirePermission>
+            }
+          />
+          <Route path="security" element={<AdminSecurity />} />
         </Route>
       </Routes>
     </AdminAuthProvider>
@@ -58,6 +181,9 @@ export default function App() {
         <Route path="/product/:id" element={<Product />} />
         <Route path="/success" element={<Success />} />
         <Route path="/cancel" element={<Cancel />} />
+        <Route path="/account" element={<Account />} />
+        <Route path="/account/login" element={<AccountLogin />} />
+        <Route path="/account/signup" element={<AccountSignup />} />
         <Route path="*" element={<NotFound />} />
       </Route>
     </Routes>
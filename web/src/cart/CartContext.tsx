@@ -4,12 +4,18 @@ import {
   useContext,
   useEffect,
   useMemo,
+  useRef,
   useState,
   type ReactNode,
 } from "react";
 import type { CartItem, CartContextType } from "../types";
+import * as api from "../lib/api";
 
+// The server cart (keyed by an httpOnly cookie) is the source of truth;
+// localStorage keeps a copy so the cart still works offline.
 const LS_KEY = "redember_cart_v1";
+// Set while local changes haven't reached the server.
+const LS_UNSYNCED_KEY = "redember_cart_unsynced_v1";
 
 function readCartFromStorage(): CartItem[] {
   try {
@@ -37,6 +43,28 @@ function writeCartToStorage(items: CartItem[]): void {
   }
 }
 
+function isUnsynced(): boolean {
+  try {
+    return localStorage.getItem(LS_UNSYNCED_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+function setUnsynced(unsynced: boolean): void {
+  try {
+    if (unsynced) localStorage.setItem(LS_UNSYNCED_KEY, "1");
+    else localStorage.removeItem(LS_UNSYNCED_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+interface ServerCart {
+  id: string | null;
+  lines: CartItem[];
+}
+
 const CartContext = createContext<CartContextType | null>(null);
 
 interface CartProviderProps {
@@ -44,49 +72,123 @@ interface CartProviderProps {
 }
 
 export function CartProvider({ children }: CartProviderProps) {
-  const [items, setItems] = useState<CartItem[]>(() => readCartFromStorage());
+  const [items, setItemsState] = useState<CartItem[]>(() =>
+    readCartFromStorage()
+  );
+  const [cartId, setCartId] = useState<string | null>(null);
+  // Latest items, readable synchronously when pushing a full resync.
+  const itemsRef = useRef<CartItem[]>(items);
+  // Only the response to the latest request may overwrite local state, so a
+  // slow response can't undo a newer change.
+  const requestSeq = useRef(0);
 
   useEffect(() => {
     writeCartToStorage(items);
   }, [items]);
 
+  const setItems = useCallback((next: CartItem[]): void => {
+    itemsRef.current = next;
+    setItemsState(next);
+  }, []);
+
+  const sync = useCallback(
+    async (request: () => Promise<ServerCart>): Promise<void> => {
+      const seq = ++requestSeq.current;
+      try {
+        // After a failed request the server may be missing earlier changes,
+        // so send the whole cart instead.
+        const cart = isUnsynced()
+          ? await api.replaceCart(itemsRef.current)
+          : await request();
+        setUnsynced(false);
+        if (seq !== requestSeq.current) return;
+        setCartId(cart.id);
+        setItems(cart.lines);
+      } catch (e) {
+        setUnsynced(true);
+        console.error("Cart sync failed:", e);
+      }
+    },
+    [setItems]
+  );
+
+  // Load the server cart. A cart kept only in this browser (from before
+  // carts were saved, or with no server cart yet) is merged in.
+  useEffect(() => {
+    sync(async () => {
+      const server: ServerCart = await api.getCart();
+      if (!server.id && itemsRef.current.length > 0) {
+        return api.mergeCart({ lines: itemsRef.current });
+      }
+      return server;
+    });
+  }, [sync]);
+
   const addToCart = useCallback(
     (productId: string, quantity: number = 1): void => {
       const qty = Math.max(1, Math.min(10, Number(quantity) || 1));
-      setItems((prev) => {
-        const idx = prev.findIndex((p) => p.productId === productId);
-        if (idx === -1) return [...prev, { productId, quantity: qty }];
-
+      const prev = itemsRef.current;
+      const idx = prev.findIndex((p) => p.productId === productId);
+      if (idx === -1) {
+        setItems([...prev, { productId, quantity: qty }]);
+      } else {
         const next = [...prev];
         next[idx] = {
           productId,
           quantity: Math.max(1, Math.min(10, next[idx].quantity + qty)),
         };
-        return next;
-      });
+        setItems(next);
+      }
+      sync(() => api.addCartLine(productId, qty));
     },
-    []
+    [setItems, sync]
   );
 
   const updateQuantity = useCallback(
     (productId: string, quantity: number): void => {
       const qty = Math.max(1, Math.min(10, Number(quantity) || 1));
-      setItems((prev) =>
-        prev.map((p) =>
+      setItems(
+        itemsRef.current.map((p) =>
           p.productId === productId ? { ...p, quantity: qty } : p
         )
       );
+      sync(() => api.updateCartLine(productId, qty));
     },
-    []
+    [setItems, sync]
   );
 
-  const removeFromCart = useCallback((productId: string): void => {
-    setItems((prev) => prev.filter((p) => p.productId !== productId));
-  }, []);
+  const removeFromCart = useCallback(
+    (productId: string): void => {
+      setItems(itemsRef.current.filter((p) => p.productId !== productId));
+      sync(() => api.removeCartLine(productId));
+    },
+    [setItems, sync]
+  );
 
   const clearCart = useCallback((): void => {
     setItems([]);
-  }, []);
+    sync(() => api.clearServerCart());
+  }, [setItems, sync]);
+
+  const mergeCart = useCallback(
+    async (source: {
+      cartId?: string;
+      recoveryToken?: string;
+    }): Promise<void> => {
+      const cart: ServerCart = await api.mergeCart(source);
+      ++requestSeq.current;
+      setUnsynced(false);
+      setCartId(cart.id);
+      setItems(cart.lines);
+    },
+    [setItems]
+  );
+
+  // Adopt the server cart as-is, e.g. after signing in or out.
+  const reloadCart = useCallback(
+    (): Promise<void> => sync(() => api.getCart()),
+    [sync]
+  );
 
   const getTotalQuantity = useCallback((): number => {
     return items.reduce((sum, i) => sum + (i.quantity || 0), 0);
@@ -95,19 +197,25 @@ export function CartProvider({ children }: CartProviderProps) {
   const value = useMemo<CartContextType>(
     () => ({
       items,
+      cartId,
       addToCart,
       updateQuantity,
       removeFromCart,
       clearCart,
       getTotalQuantity,
+      mergeCart,
+      reloadCart,
     }),
     [
       items,
+      cartId,
       addToCart,
       updateQuantity,
       removeFromCart,
       clearCart,
       getTotalQuantity,
+      mergeCart,
+      reloadCart,
     ]
   );
 
@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { adminAlerts, adminResolveAlert } from "../lib/api";
+import { AdminAlert } from "../types";
+
+const SEVERITY_STYLES: Record<AdminAlert["severity"], string> = {
+  info: "border-blue-200 dark:border-blue-900/40 bg-blue-50 dark:bg-blue-950/30 text-blue-800 dark:text-blue-200",
+  warning:
+    "border-amber-200 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-950/30 text-amber-800 dark:text-amber-200",
+  critical:
+    "border-red-200 dark:border-red-900/40 bg-red-50 dark:bg-red-950/30 text-red-800 dark:text-red-200",
+};
+
+// Open admin alerts: paid orders that ran out of stock, low/out-of-stock
+// products.
+export default function AdminAlerts() {
+  const [alerts, setAlerts] = useState<AdminAlert[]>([]);
+  const [error, setError] = useState<string>("");
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  async function loadAlerts(): Promise<void> {
+    try {
+      const data = await adminAlerts();
+      setAlerts(Array.isArray(data) ? data : []);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  useEffect(() => {
+    loadAlerts();
+  }, []);
+
+  async function resolve(id: string): Promise<void> {
+    setError("");
+    setResolvingId(id);
+    try {
+      await adminResolveAlert(id);
+      setAlerts((prev) => prev.filter((a) => a.id !== id));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setResolvingId(null);
+    }
+  }
+
+  if (alerts.length === 0 && !error) return null;
+
+  return (
+    <div className="mb-6 space-y-2">
+      {error && (
+        <p className="text-sm text-red-700 dark:text-red-200">{error}</p>
+      )}
+      {alerts.map((alert) => (
+        <div
+          key={alert.id}
+          className={`flex items-start justify-between gap-4 border rounded-lg px-4 py-3 ${
+            SEVERITY_STYLES[alert.severity] || SEVERITY_STYLES.warning
+          }`}
+        >
+          <div className="flex items-start gap-2">
+            <span className="material-symbols-outlined text-[18px]">
+              {alert.severity === "critical" ? "error" : "warning"}
+            </span>
+            <div>
+              <p className="text-sm font-bold">{alert.message}</p>
+              <p className="text-xs opacity-80">
+                {new Date(alert.createdAt).toLocaleString("en-US")}
+                {alert.order && (
+                  <>
+                    {" · "}
+                    <Link className="underline" to="/admin/orders">
+                      Order #{alert.order.id.toUpperCase().slice(0, 8)}
+                    </Link>
+                    {alert.order.email ? ` · ${alert.order.email}` : ""}
+                  </>
+                )}
+                {alert.product && (
+                  <>
+                    {" · "}
+                    <Link className="underline" to="/admin/inventory">
+                      {alert.product.sku}
+                    </Link>
+                    {` · ${alert.product.stock} in stock`}
+                  </>
+                )}
+              </p>
+            </div>
+          </div>
+          <button
+            className="text-xs font-bold hover:underline disabled:opacity-50 whitespace-nowrap"
+            disabled={resolvingId === alert.id}
+            onClick={() => resolve(alert.id)}
+          >
+            Mark resolved
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -12,7 +12,13 @@ function navLinkClass({ isActive }: { isActive: boolean }): string {
 }
 
 export default function AdminSidebar() {
-  const { user, logout } = useAdminAuth();
+  const { user, logout, can } = useAdminAuth();
+  const showSettings =
+    can("settings:manage") ||
+    can("emails:manage") ||
+    can("payments:manage") ||
+    can("users:manage") ||
+    can("audit:read");
 
   return (
     <aside className="w-64 bg-white dark:bg-[#2A1A14] border-r border-slate-200 dark:border-slate-800 flex flex-col shrink-0">
@@ -29,60 +35,119 @@ export default function AdminSidebar() {
       </div>
 
       <nav className="flex-1 px-4 py-4 space-y-1">
-        <NavLink className={navLinkClass} to="/admin" end>
-          <span className="material-symbols-outlined text-xl">dashboard</span>
-          Sales Analytics
-        </NavLink>
-
-        <NavLink className={navLinkClass} to="/admin/orders">
-          <span className="material-symbols-outlined text-xl">package_2</span>
-          Orders
-        </NavLink>
-
-        <NavLink className={navLinkClass} to="/admin/inventory">
-          <span className="material-symbols-outlined text-xl">inventory_2</span>
-          Inventory
-        </NavLink>
-
-        <NavLink className={navLinkClass} to="/admin/categories">
-          <span className="material-symbols-outlined text-xl">category</span>
-          Product Categories
-        </NavLink>
-
-        <NavLink className={navLinkClass} to="/admin/media">
-          <span className="material-symbols-outlined text-xl">
-            photo_library
-          </span>
-          Media Gallery
-        </NavLink>
-
-        <NavLink className={navLinkClass} to="/admin/customers">
-          <span className="material-symbols-outlined text-xl">group</span>
-          Customers
-        </NavLink>
-
-        <NavLink className={navLinkClass} to="/admin/shipping">
-          <span className="material-symbols-outlined text-xl">
-            local_shipping
-          </span>
-          Shipping
-        </NavLink>
-
-        <div className="pt-6 pb-2 px-3 text-[10px] font-bold uppercase text-slate-400 dark:text-slate-500 tracking-widest">
-          Settings
-        </div>
-
-        <NavLink className={navLinkClass} to="/admin/settings">
-          <span className="material-symbols-outlined text-xl">settings</span>
-          Store Settings
-        </NavLink>
-
-        <NavLink className={navLinkClass} to="/admin/users">
-          <span className="material-symbols-outlined text-xl">
-            manage_accounts
-          </span>
-          Admin Users
-        </NavLink>
+        {can("analytics:read") && (
+          <NavLink className={navLinkClass} to="/admin" end>
+            <span className="material-symbols-outlined text-xl">dashboard</span>
+            Sales Analytics
+          </NavLink>
+        )}
+
+        {can("orders:read") && (
+          <NavLink className={navLinkClass} to="/admin/orders">
+            <span className="material-symbols-outlined text-xl">package_2</span>
+            Orders
+          </NavLink>
+        )}
+
+        {can("customers:read") && (
+          <NavLink className={navLinkClass} to="/admin/abandoned-checkouts">
+            <span className="material-symbols-outlined text-xl">
+              remove_shopping_cart
+            </span>
+            Abandoned Checkouts
+          </NavLink>
+        )}
+
+        {can("inventory:read") && (
+          <NavLink className={navLinkClass} to="/admin/inventory">
+            <span className="material-symbols-outlined text-xl">
+              inventory_2
+            </span>
+            Inventory
+          </NavLink>
+        )}
+
+        {can("products:write") && (
+          <NavLink className={navLinkClass} to="/admin/categories">
+            <span className="material-symbols-outlined text-xl">category</span>
+            Product Categories
+          </NavLink>
+        )}
+
+        {can("products:write") && (
+          <NavLink className={navLinkClass} to="/admin/media">
+            <span className="material-symbols-outlined text-xl">
+              photo_library
+            </span>
+            Media Gallery
+          </NavLink>
+        )}
+
+        {can("customers:read") && (
+          <NavLink className={navLinkClass} to="/admin/customers">
+            <span className="material-symbols-outlined text-xl">group</span>
+            Customers
+          </NavLink>
+        )}
+
+        {can("shipping:manage") && (
+          <NavLink className={navLinkClass} to="/admin/shipping">
+            <span className="material-symbols-outlined text-xl">
+              local_shipping
+            </span>
+            Shipping
+          </NavLink>
+        )}
+
+        {can("discounts:manage") && (
+          <NavLink className={navLinkClass} to="/admin/discounts">
+            <span className="material-symbols-outlined text-xl">sell</span>
+            Discounts
+          </NavLink>
+        )}
+
+        {showSettings && (
+          <div className="pt-6 pb-2 px-3 text-[10px] font-bold uppercase text-slate-400 dark:text-slate-500 tracking-widest">
+            Settings
+          </div>
+        )}
+
+        {can("settings:manage") && (
+          <NavLink className={navLinkClass} to="/admin/settings">
+            <span className="material-symbols-outlined text-xl">settings</span>
+            Store Settings
+          </NavLink>
+        )}
+
+        {can("emails:manage") && (
+          <NavLink className={navLinkClass} to="/admin/emails">
+            <span className="material-symbols-outlined text-xl">mail</span>
+            Emails
+          </NavLink>
+        )}
+
+        {can("payments:manage") && (
+          <NavLink className={navLinkClass} to="/admin/stripe-events">
+            <span className="material-symbols-outlined text-xl">webhook</span>
+            Stripe Events
+          </NavLink>
+        )}
+
+        {can("users:manage") && (
+          <NavLink className={navLinkClass} to="/admin/users">
+            <span className="material-symbols-outlined text-xl">
+              manage_accounts
+            </span>
+            Admin Users
+          </NavLink>
+        )}
+
+        {can("audit:read") && (
+          <NavLink className={navLinkClass} to="/admin/audit-log">
+            <span className="material-symbols-outlined text-xl">history</span>
+            Audit Log
+          </NavLink>
+        )}
 
         <div className="pt-6 pb-2 px-3 text-[10px] font-bold uppercase text-slate-400 dark:text-slate-500 tracking-widest">
           Account
@@ -95,6 +160,15 @@ export default function AdminSidebar() {
           <div className="text-[11px] text-slate-400 dark:text-slate-500 mb-3">
             {user?.email}
           </div>
+          <NavLink
+            className={(state) => `${navLinkClass(state)} -mx-3 mb-3`}
+            to="/admin/security"
+          >
+            <span className="material-symbols-outlined text-xl">
+              {user?.twoFactorEnabled ? "verified_user" : "shield"}
+            </span>
+            Security
+          </NavLink>
           <button
             type="button"
             className="w-full inline-flex justify-center items-center px-3 py-2 border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-xs font-semibold text-slate-700 dark:text-slate-300 rounded-md hover:bg-slate-50 dark:hover:bg-slate-700"
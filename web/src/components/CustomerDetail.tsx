@@ -0,0 +1,412 @@
+import { FormEvent, useEffect, useState } from "react";
+import {
+  adminAddCustomerNote,
+  adminCustomer,
+  adminDeleteCustomerNote,
+  adminUpdateCustomerTags,
+} from "../lib/api";
+import {
+  CustomerAddress,
+  CustomerMetrics,
+  CustomerNote,
+  CustomerOrderSummary,
+} from "../types";
+
+interface CustomerDetailProps {
+  customerId: string;
+  onTagsChange: (tags: string[]) => void;
+}
+
+interface CustomerDetailData {
+  name: string;
+  email: string;
+  phone?: string;
+  createdAt: string;
+  registered: boolean;
+  marketingConsent: boolean;
+  tags: string[];
+  addresses: CustomerAddress[];
+  notes: CustomerNote[];
+  metrics: CustomerMetrics;
+  orders: CustomerOrderSummary[];
+}
+
+const HEAT_LABELS: Record<string, string> = {
+  gentle: "Gentle",
+  standard: "Standard",
+  inferno: "Inferno",
+};
+
+const ORDER_STATUS_STYLES: Record<string, string> = {
+  pending: "text-amber-600",
+  paid: "text-blue-600",
+  packed: "text-blue-600",
+  shipped: "text-purple-600",
+  delivered: "text-green-600",
+  cancelled: "text-slate-500",
+  refunded: "text-red-600",
+};
+
+function formatMoney(cents: number, currency = "usd"): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format((Number(cents) || 0) / 100);
+}
+
+function formatDate(value: string | null): string {
+  if (!value) return "—";
+  return new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function Label({ children }: { children: string }) {
+  return <p className="text-xs text-[#9a4c50] mb-1">{children}</p>;
+}
+
+export default function CustomerDetail({
+  customerId,
+  onTagsChange,
+}: CustomerDetailProps) {
+  const [detail, setDetail] = useState<CustomerDetailData | null>(null);
+  const [error, setError] = useState<string>("");
+  const [tagInput, setTagInput] = useState<string>("");
+  const [noteInput, setNoteInput] = useState<string>("");
+  const [savingNote, setSavingNote] = useState<boolean>(false);
+
+  useEffect(() => {
+    adminCustomer(customerId)
+      .then(setDetail)
+      .catch((e) => setError((e as Error).message));
+  }, [customerId]);
+
+  async function saveTags(tags: string[]): Promise<void> {
+    try {
+      setError("");
+      const result = await adminUpdateCustomerTags(customerId, tags);
+      setDetail((prev) => (prev ? { ...prev, tags: result.tags } : prev));
+      onTagsChange(result.tags);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function addTag(e: FormEvent): Promise<void> {
+    e.preventDefault();
+    if (!detail || !tagInput.trim()) return;
+    await saveTags([...detail.tags, tagInput]);
+    setTagInput("");
+  }
+
+  async function addNote(e: FormEvent): Promise<void> {
+    e.preventDefault();
+    if (!noteInput.trim()) return;
+    try {
+      setError("");
+      setSavingNote(true);
+      const note = await adminAddCustomerNote(customerId, noteInput);
+      setDetail((prev) =>
+        prev ? { ...prev, notes: [note, ...prev.notes] } : prev
+      );
+      setNoteInput("");
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setSavingNote(false);
+    }
+  }
+
+  async function deleteNote(noteId: string): Promise<void> {
+    try {
+      setError("");
+      await adminDeleteCustomerNote(customerId, noteId);
+      setDetail((prev) =>
+        prev
+          ? { ...prev, notes: prev.notes.filter((n) => n.id !== noteId) }
+          : prev
+      );
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  if (!detail) {
+    return (
+      <p className="text-sm text-[#9a4c50]">{error || "Loading customer..."}</p>
+    );
+  }
+
+  const { metrics } = detail;
+  const address =
+    detail.addresses.find((a) => a.isDefault) || detail.addresses[0];
+  const metricCards: Array<{ label: string; value: string; hint?: string }> = [
+    {
+      label: "Lifetime Value",
+      value: formatMoney(metrics.lifetimeValueCents),
+      hint: metrics.refundedCents
+        ? `${formatMoney(metrics.refundedCents)} refunded`
+        : undefined,
+    },
+    {
+      label: "Average Order",
+      value: formatMoney(metrics.averageOrderValueCents),
+    },
+    { label: "Orders", value: String(metrics.orderCount) },
+    { label: "First Order", value: formatDate(metrics.firstOrderAt) },
+    { label: "Last Order", value: formatDate(metrics.lastOrderAt) },
+    {
+      label: "Heat Preference",
+      value: metrics.heatProfile
+        ? HEAT_LABELS[metrics.heatProfile.profile] ||
+          metrics.heatProfile.profile
+        : "—",
+      hint: metrics.heatProfile
+        ? `${formatPercent(metrics.heatProfile.share)} of bottles`
+        : undefined,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        {metricCards.map((card) => (
+          <div
+            key={card.label}
+            className="p-3 bg-white dark:bg-[#1b0d0e] rounded-lg border border-[#e7cfd0] dark:border-[#3d2122]"
+          >
+            <p className="text-[10px] font-bold text-[#9a4c50] uppercase">
+              {card.label}
+            </p>
+            <p className="text-lg font-black mt-1">{card.value}</p>
+            {card.hint && <p className="text-xs text-[#9a4c50]">{card.hint}</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div className="space-y-6">
+          {/* Customer Details */}
+          <div>
+            <h4 className="text-xs font-bold text-[#9a4c50] uppercase mb-4">
+              Customer Information
+            </h4>
+            <div className="space-y-3">
+              <div>
+                <Label>Email Address</Label>
+                <p className="text-sm">{detail.email}</p>
+              </div>
+              {detail.phone && (
+                <div>
+                  <Label>Phone Number</Label>
+                  <p className="text-sm">{detail.phone}</p>
+                </div>
+              )}
+              {address && (
+                <div>
+                  <Label>Address</Label>
+                  <p className="text-sm">
+                    {[address.line1, address.line2].filter(Boolean).join(", ")}
+                    <br />
+                    {address.city}
+                    {address.state ? `, ${address.state}` : ""}{" "}
+                    {address.postalCode}
+                    <br />
+                    {address.country}
+                  </p>
+                </div>
+              )}
+              <div>
+                <Label>Account</Label>
+                <p className="text-sm">
+                  {detail.registered ? "Registered" : "Guest checkout"} ·{" "}
+                  {detail.marketingConsent
+                    ? "Subscribed to marketing"
+                    : "Not subscribed"}
+                </p>
+              </div>
+              <div>
+                <Label>Customer Since</Label>
+                <p className="text-sm">{formatDate(detail.createdAt)}</p>
+              </div>
+            </div>
+          </div>
+
+          {/* Favorite Products */}
+          <div>
+            <h4 className="text-xs font-bold text-[#9a4c50] uppercase mb-4">
+              Favorite Products
+            </h4>
+            {metrics.favoriteProducts.length === 0 ? (
+              <p className="text-sm text-[#9a4c50]">No purchases yet.</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {metrics.favoriteProducts.map((p) => (
+                  <li
+                    key={p.productId || p.name}
+                    className="flex justify-between"
+                  >
+                    <span className="font-bold">{p.name}</span>
+                    <span className="text-[#9a4c50]">
+                      {p.quantity} bought in {p.orders} order
+                      {p.orders === 1 ? "" : "s"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Tags */}
+          <div>
+            <h4 className="text-xs font-bold text-[#9a4c50] uppercase mb-4">
+              Tags
+            </h4>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {detail.tags.length === 0 && (
+                <p className="text-sm text-[#9a4c50]">No tags.</p>
+              )}
+              {detail.tags.map((tag) => (
+                <span
+                  key={tag}
+                  className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-bold bg-primary/10 text-primary"
+                >
+                  {tag}
+                  <button
+                    type="button"
+                    aria-label={`Remove tag ${tag}`}
+                    onClick={() =>
+                      saveTags(detail.tags.filter((t) => t !== tag))
+                    }
+                    className="material-symbols-outlined text-[14px]"
+                  >
+                    close
+                  </button>
+                </span>
+              ))}
+            </div>
+            <form onSubmit={addTag} className="flex gap-2">
+              <input
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                placeholder="Add a tag"
+                className="flex-1 px-3 py-1.5 text-sm rounded-lg border border-[#e7cfd0] dark:border-[#3d2122] bg-white dark:bg-[#1b0d0e] focus:ring-primary focus:border-primary"
+              />
+              <button
+                type="submit"
+                className="px-3 py-1.5 border border-[#e7cfd0] dark:border-[#3d2122] text-xs font-bold rounded-lg hover:bg-white dark:hover:bg-[#1b0d0e]"
+              >
+                Add
+              </button>
+            </form>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Order Timeline */}
+          <div>
+            <h4 className="text-xs font-bold text-[#9a4c50] uppercase mb-4">
+              Orders
+            </h4>
+            {detail.orders.length === 0 ? (
+              <p className="text-sm text-[#9a4c50]">No orders yet.</p>
+            ) : (
+              <ol className="relative border-l border-[#e7cfd0] dark:border-[#3d2122] ml-2 space-y-4 max-h-80 overflow-y-auto">
+                {detail.orders.map((order) => (
+                  <li key={order.id} className="ml-4">
+                    <span className="absolute -left-1.5 mt-1.5 size-3 rounded-full bg-primary/60" />
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="text-sm font-bold">
+                          #{order.id.slice(0, 8).toUpperCase()}
+                        </p>
+                        <p className="text-xs text-[#9a4c50]">
+                          {formatDate(order.createdAt)} · {order.itemCount} item
+                          {order.itemCount === 1 ? "" : "s"}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-sm font-bold">
+                          {formatMoney(order.amountTotal, order.currency)}
+                        </p>
+                        {order.refundedCents > 0 && (
+                          <p className="text-xs text-red-600">
+                            −{formatMoney(order.refundedCents, order.currency)}
+                          </p>
+                        )}
+                        <p
+                          className={`text-xs capitalize ${
+                            ORDER_STATUS_STYLES[order.status] ||
+                            "text-slate-500"
+                          }`}
+                        >
+                          {order.status}
+                        </p>
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          {/* Staff Notes */}
+          <div>
+            <h4 className="text-xs font-bold text-[#9a4c50] uppercase mb-4">
+              Staff Notes
+            </h4>
+            <form onSubmit={addNote} className="mb-3">
+              <textarea
+                value={noteInput}
+                onChange={(e) => setNoteInput(e.target.value)}
+                rows={2}
+                placeholder="Add a note for the team"
+                className="w-full px-3 py-2 text-sm rounded-lg border border-[#e7cfd0] dark:border-[#3d2122] bg-white dark:bg-[#1b0d0e] focus:ring-primary focus:border-primary"
+              />
+              <button
+                type="submit"
+                disabled={savingNote || !noteInput.trim()}
+                className="mt-2 px-4 py-2 bg-[#1b0d0e] dark:bg-white dark:text-[#1b0d0e] text-white text-xs font-bold rounded-lg hover:opacity-90 disabled:opacity-50"
+              >
+                {savingNote ? "Saving..." : "Add Note"}
+              </button>
+            </form>
+            <div className="space-y-3">
+              {detail.notes.map((note) => (
+                <div
+                  key={note.id}
+                  className="p-3 bg-white dark:bg-[#1b0d0e] rounded-lg border border-[#e7cfd0] dark:border-[#3d2122]"
+                >
+                  <p className="text-sm whitespace-pre-wrap">{note.body}</p>
+                  <div className="mt-2 flex justify-between text-xs text-[#9a4c50]">
+                    <span>
+                      {note.adminUser?.name ||
+                        note.adminUser?.email ||
+                        "Former staff"}{" "}
+                      · {formatDate(note.createdAt)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => deleteNote(note.id)}
+                      className="font-bold hover:text-primary"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { Link } from "react-router-dom";
 import Brand from "./Brand";
+import { useCustomer } from "../context/CustomerContext";
 
 interface HeaderProps {
   cartCount: number;
@@ -14,6 +15,8 @@ export default function Header({
   checkoutDisabled,
   onToggleTheme,
 }: HeaderProps) {
+  const { customer } = useCustomer();
+
   return (
     <nav className="sticky top-0 z-50 w-full bg-white/80 dark:bg-background-dark/80 backdrop-blur-md border-b border-stone-200 dark:border-stone-800">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -91,13 +94,15 @@ export default function Header({
             </button>
 
             <Link
-              to="/admin/login"
+              to={customer ? "/account" : "/account/login"}
               className="hidden sm:inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-stone-200 dark:border-stone-800 hover:border-primary hover:text-primary transition-colors"
             >
               <span className="material-symbols-outlined text-[20px]">
-                login
+                {customer ? "person" : "login"}
+              </span>
+              <span className="text-sm font-semibold">
+                {customer ? "Account" : "Login"}
               </span>
-              <span className="text-sm font-semibold">Login</span>
             </Link>
           </div>
         </div>
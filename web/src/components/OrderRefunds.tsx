@@ -0,0 +1,254 @@
+import { useEffect, useState } from "react";
+import { adminCreateRefund, adminOrderRefunds } from "../lib/api";
+import { useAdminAuth } from "../context/AdminAuthContext";
+import { Order, Refund } from "../types";
+
+interface OrderRefundsProps {
+  order: Order;
+  onRefunded: () => void;
+}
+
+const REFUND_REASONS: Array<{ value: string; label: string }> = [
+  { value: "requested_by_customer", label: "Requested by customer" },
+  { value: "duplicate", label: "Duplicate" },
+  { value: "fraudulent", label: "Fraudulent" },
+];
+
+function formatMoney(cents: number, currency = "usd"): string {
+  const value = (Number(cents) || 0) / 100;
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(value);
+}
+
+const STATUS_STYLES: Record<Refund["status"], string> = {
+  pending: "text-amber-600 dark:text-amber-300",
+  succeeded: "text-green-600 dark:text-green-300",
+  failed: "text-red-600 dark:text-red-300",
+  canceled: "text-slate-500 dark:text-slate-400",
+};
+
+export default function OrderRefunds({ order, onRefunded }: OrderRefundsProps) {
+  const { can } = useAdminAuth();
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [error, setError] = useState<string>("");
+  const [formOpen, setFormOpen] = useState<boolean>(false);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [restock, setRestock] = useState<boolean>(true);
+  const [reason, setReason] = useState<string>("requested_by_customer");
+  const [submitting, setSubmitting] = useState<boolean>(false);
+
+  async function loadRefunds(): Promise<void> {
+    try {
+      const data = await adminOrderRefunds(order.id);
+      setRefunds(Array.isArray(data) ? data : []);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  useEffect(() => {
+    loadRefunds();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [order.id]);
+
+  const activeRefunds = refunds.filter(
+    (r) => r.status === "pending" || r.status === "succeeded"
+  );
+  const refundedCents = activeRefunds.reduce((s, r) => s + r.amountCents, 0);
+  const remainingCents = Math.max(0, order.totalCents - refundedCents);
+
+  const refundedQty = new Map<string, number>();
+  for (const r of activeRefunds) {
+    for (const l of r.lines) {
+      refundedQty.set(
+        l.orderItemId,
+        (refundedQty.get(l.orderItemId) || 0) + l.quantity
+      );
+    }
+  }
+
+  const selectedLines = order.items
+    .map((item) => ({
+      orderItemId: item.id,
+      quantity: quantities[item.id] || 0,
+    }))
+    .filter((l) => l.quantity > 0);
+
+  const selectedCents = order.items.reduce((sum, item) => {
+    const q = quantities[item.id] || 0;
+    return sum + Math.round((item.totalCents * q) / item.quantity);
+  }, 0);
+
+  async function submit(full: boolean): Promise<void> {
+    if (!full && selectedLines.length === 0) {
+      setError("Select at least one item to refund");
+      return;
+    }
+    const amount = full ? remainingCents : selectedCents;
+    if (
+      !window.confirm(
+        `Refund ${formatMoney(amount, order.currency)} to the customer?`
+      )
+    )
+      return;
+
+    setError("");
+    setSubmitting(true);
+    try {
+      await adminCreateRefund(order.id, {
+        ...(full ? {} : { lines: selectedLines }),
+        restock,
+        reason,
+      });
+      setQuantities({});
+      setFormOpen(false);
+      await loadRefunds();
+      onRefunded();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="pt-6">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase">
+          Refunds
+        </h4>
+        {remainingCents > 0 && !formOpen && can("orders:refund") && (
+          <button
+            className="text-xs font-bold text-red-600 dark:text-red-300 hover:underline"
+            onClick={() => setFormOpen(true)}
+          >
+            Issue refund
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-300 mb-2">{error}</p>
+      )}
+
+      {refunds.length === 0 ? (
+        <p className="text-xs text-slate-500 dark:text-slate-400">No refunds</p>
+      ) : (
+        <ul className="space-y-2">
+          {refunds.map((r) => (
+            <li
+              key={r.id}
+              className="text-xs text-slate-600 dark:text-slate-400"
+            >
+              <span className="font-bold text-slate-900 dark:text-white">
+                {formatMoney(r.amountCents, r.currency)}
+              </span>{" "}
+              <span className={`font-bold ${STATUS_STYLES[r.status]}`}>
+                {r.status}
+              </span>
+              {" · "}
+              {new Date(r.createdAt).toLocaleDateString("en-US", {
+                month: "short",
+                day: "numeric",
+                year: "numeric",
+              })}
+              {" · "}
+              {r.source === "stripe"
+                ? "Stripe dashboard"
+                : r.adminUser?.name || r.adminUser?.email || "Admin"}
+              {r.restocked ? " · restocked" : ""}
+              {r.failureMessage ? ` · ${r.failureMessage}` : ""}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {formOpen && (
+        <div className="mt-4 p-4 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 space-y-3">
+          {order.items.map((item) => {
+            const max = item.quantity - (refundedQty.get(item.id) || 0);
+            return (
+              <div
+                key={item.id}
+                className="flex items-center justify-between gap-3 text-xs"
+              >
+                <span className="font-semibold">{item.productName}</span>
+                <div className="flex items-center gap-2">
+                  <input
+                    className="w-16 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded px-2 py-1 text-xs"
+                    type="number"
+                    min={0}
+                    max={max}
+                    disabled={max <= 0}
+                    value={quantities[item.id] || 0}
+                    onChange={(e) =>
+                      setQuantities((prev) => ({
+                        ...prev,
+                        [item.id]: Math.max(
+                          0,
+                          Math.min(max, parseInt(e.target.value, 10) || 0)
+                        ),
+                      }))
+                    }
+                  />
+                  <span className="text-slate-500 dark:text-slate-400">
+                    of {max}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="flex items-center justify-between gap-3 text-xs">
+            <label className="flex items-center gap-2">
+              <input
+                className="rounded border-slate-300 dark:border-slate-700 text-primary focus:ring-primary"
+                type="checkbox"
+                checked={restock}
+                onChange={(e) => setRestock(e.target.checked)}
+              />
+              Restock refunded items
+            </label>
+            <select
+              className="bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded px-2 py-1 text-xs"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            >
+              {REFUND_REASONS.map((r) => (
+                <option key={r.value} value={r.value}>
+                  {r.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex flex-wrap gap-2 pt-1">
+            <button
+              disabled={submitting || selectedLines.length === 0}
+              onClick={() => submit(false)}
+              className="px-4 py-2 bg-red-600 text-white text-xs font-bold rounded-lg hover:bg-red-700 disabled:opacity-50"
+            >
+              Refund selected ({formatMoney(selectedCents, order.currency)})
+            </button>
+            <button
+              disabled={submitting}
+              onClick={() => submit(true)}
+              className="px-4 py-2 border border-red-200 dark:border-red-900/40 text-red-600 dark:text-red-300 text-xs font-bold rounded-lg hover:opacity-90 disabled:opacity-50"
+            >
+              Refund remaining ({formatMoney(remainingCents, order.currency)})
+            </button>
+            <button
+              disabled={submitting}
+              onClick={() => setFormOpen(false)}
+              className="px-4 py-2 text-xs font-bold text-slate-600 dark:text-slate-400"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState } from "react";
+
+interface RecoveryCodesProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+// Recovery codes are only ever shown once, right after they are generated.
+export default function RecoveryCodes({ codes, onDone }: RecoveryCodesProps) {
+  const [copied, setCopied] = useState(false);
+
+  async function handleCopy(): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Copy recovery codes failed:", err);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-300">
+        Save these recovery codes somewhere safe. Each one signs you in once if
+        you lose your authenticator. They won't be shown again.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2 p-4 rounded-lg bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700">
+        {codes.map((code) => (
+          <code
+            key={code}
+            className="font-mono text-sm text-center text-slate-800 dark:text-slate-200"
+          >
+            {code}
+          </code>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-800"
+        >
+          <span className="material-symbols-outlined text-lg">
+            {copied ? "check" : "content_copy"}
+          </span>
+          {copied ? "Copied" : "Copy"}
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          className="flex-1 px-4 py-2 bg-primary hover:bg-red-700 text-white text-sm font-bold rounded-lg transition-colors"
+        >
+          I've Saved Them
+        </button>
+      </div>
+    </div>
+  );
+}
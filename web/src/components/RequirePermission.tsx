@@ -0,0 +1,42 @@
+import type { ReactNode } from "react";
+import { Navigate } from "react-router-dom";
+import { useAdminAuth } from "../context/AdminAuthContext";
+import type { AdminPermission } from "../types";
+
+// Where to land when a page is off limits, in sidebar order.
+const ADMIN_HOME_PAGES: Array<{ path: string; permission: AdminPermission }> = [
+  { path: "/admin", permission: "analytics:read" },
+  { path: "/admin/orders", permission: "orders:read" },
+  { path: "/admin/inventory", permission: "inventory:read" },
+  { path: "/admin/customers", permission: "customers:read" },
+  { path: "/admin/settings", permission: "settings:manage" },
+];
+
+interface RequirePermissionProps {
+  permission: AdminPermission;
+  children: ReactNode;
+}
+
+export default function RequirePermission({
+  permission,
+  children,
+}: RequirePermissionProps) {
+  const { can } = useAdminAuth();
+
+  if (can(permission)) return <>{children}</>;
+
+  const home = ADMIN_HOME_PAGES.find((p) => can(p.permission));
+  if (home) return <Navigate to={home.path} replace />;
+
+  return (
+    <div className="max-w-xl mx-auto py-16 text-center">
+      <span className="material-symbols-outlined text-5xl text-slate-400">
+        lock
+      </span>
+      <p className="mt-4 font-bold">No admin pages available</p>
+      <p className="text-sm text-slate-500 mt-1">
+        Ask a store owner to give your account a role.
+      </p>
+    </div>
+  );
+}
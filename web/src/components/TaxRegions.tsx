@@ -0,0 +1,267 @@
+import { useEffect, useState } from "react";
+import {
+  adminCreateTaxRegion,
+  adminDeleteTaxRegion,
+  adminTaxRegions,
+  adminUpdateTaxRegion,
+} from "../lib/api";
+import { TaxRegion } from "../types";
+
+type RegionDraft = Omit<TaxRegion, "id"> & { id?: string };
+
+const EMPTY_REGION: RegionDraft = {
+  name: "",
+  country: "US",
+  state: "",
+  postalPrefix: "",
+  rateBps: 0,
+  taxShipping: false,
+  enabled: true,
+};
+
+function formatRate(bps: number): string {
+  return `${(bps / 100).toFixed(2).replace(/\.?0+$/, "")}%`;
+}
+
+export default function TaxRegions() {
+  const [regions, setRegions] = useState<TaxRegion[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>("");
+  const [draft, setDraft] = useState<RegionDraft | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  async function loadRegions(): Promise<void> {
+    setLoading(true);
+    try {
+      setRegions(await adminTaxRegions());
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadRegions();
+  }, []);
+
+  async function saveDraft(): Promise<void> {
+    if (!draft) return;
+    setError("");
+    setSaving(true);
+    try {
+      const { id, ...payload } = draft;
+      if (id) {
+        await adminUpdateTaxRegion(id, payload);
+      } else {
+        await adminCreateTaxRegion(payload);
+      }
+      setDraft(null);
+      await loadRegions();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function removeRegion(region: TaxRegion): Promise<void> {
+    if (!window.confirm(`Delete the ${region.name} tax region?`)) return;
+    setError("");
+    try {
+      await adminDeleteTaxRegion(region.id);
+      await loadRegions();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  const inputClass =
+    "w-full bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-md px-3 py-2 text-sm";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+            Tax Regions
+          </h3>
+          <p className="text-xs text-slate-500 mt-1">
+            The most specific match wins: postal prefix, then state, then
+            country. Enter combined rates for local taxes.
+          </p>
+        </div>
+        {!draft && (
+          <button
+            type="button"
+            onClick={() => setDraft({ ...EMPTY_REGION })}
+            className="inline-flex items-center gap-1 text-sm font-semibold text-primary hover:underline"
+          >
+            <span className="material-symbols-outlined text-lg">add</span>
+            Add Region
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {draft && (
+        <div className="p-4 rounded-lg border border-slate-200 dark:border-slate-700 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <input
+              className={`${inputClass} md:col-span-2`}
+              placeholder="Name (e.g. California)"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+            <input
+              className={inputClass}
+              placeholder="Country (US)"
+              maxLength={2}
+              value={draft.country}
+              onChange={(e) =>
+                setDraft({ ...draft, country: e.target.value.toUpperCase() })
+              }
+            />
+            <input
+              className={inputClass}
+              placeholder="State (optional)"
+              value={draft.state || ""}
+              onChange={(e) =>
+                setDraft({ ...draft, state: e.target.value.toUpperCase() })
+              }
+            />
+            <input
+              className={inputClass}
+              placeholder="Postal prefix (optional)"
+              value={draft.postalPrefix || ""}
+              onChange={(e) =>
+                setDraft({ ...draft, postalPrefix: e.target.value })
+              }
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm">
+              Rate (%)
+              <input
+                className="w-24 bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-md px-3 py-2 text-sm"
+                type="number"
+                step="0.001"
+                min="0"
+                max="100"
+                value={draft.rateBps / 100}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    rateBps: Math.round(
+                      (parseFloat(e.target.value) || 0) * 100
+                    ),
+                  })
+                }
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="rounded border-slate-300 text-primary focus:ring-primary"
+                checked={draft.taxShipping}
+                onChange={(e) =>
+                  setDraft({ ...draft, taxShipping: e.target.checked })
+                }
+              />
+              Tax shipping
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="rounded border-slate-300 text-primary focus:ring-primary"
+                checked={draft.enabled}
+                onChange={(e) =>
+                  setDraft({ ...draft, enabled: e.target.checked })
+                }
+              />
+              Enabled
+            </label>
+            <div className="flex gap-2 ml-auto">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-400"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={saveDraft}
+                disabled={saving}
+                className="px-4 py-2 bg-primary text-white text-sm font-medium rounded-lg disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save Region"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-slate-500">Loading tax regions...</p>
+      ) : regions.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          No tax regions yet. The default tax rate applies everywhere.
+        </p>
+      ) : (
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="text-xs uppercase text-slate-500 border-b border-slate-200 dark:border-slate-800">
+              <th className="py-2 font-semibold">Region</th>
+              <th className="py-2 font-semibold">Applies to</th>
+              <th className="py-2 font-semibold">Rate</th>
+              <th className="py-2 font-semibold">Shipping</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {regions.map((r) => (
+              <tr
+                key={r.id}
+                className={`border-b border-slate-100 dark:border-slate-800 ${
+                  r.enabled ? "" : "opacity-50"
+                }`}
+              >
+                <td className="py-2 font-medium">{r.name}</td>
+                <td className="py-2 text-slate-600 dark:text-slate-400">
+                  {[r.country, r.state, r.postalPrefix && `${r.postalPrefix}*`]
+                    .filter(Boolean)
+                    .join(" / ")}
+                </td>
+                <td className="py-2">{formatRate(r.rateBps)}</td>
+                <td className="py-2">{r.taxShipping ? "Taxed" : "Exempt"}</td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  <button
+                    type="button"
+                    onClick={() => setDraft({ ...r })}
+                    className="text-slate-500 hover:text-primary"
+                  >
+                    <span className="material-symbols-outlined text-lg">
+                      edit
+                    </span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeRegion(r)}
+                    className="ml-2 text-slate-500 hover:text-red-600"
+                  >
+                    <span className="material-symbols-outlined text-lg">
+                      delete
+                    </span>
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
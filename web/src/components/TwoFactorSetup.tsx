@@ -0,0 +1,126 @@
+import { FormEvent, useEffect, useState } from "react";
+import { adminEnableTwoFactor, adminStartTwoFactorSetup } from "../lib/api";
+import type { AdminUser, TwoFactorSetup as SetupData } from "../types";
+
+interface TwoFactorSetupProps {
+  // `user` is set when enrolling finished a sign in.
+  onEnabled: (recoveryCodes: string[], user?: AdminUser) => void;
+  onCancel?: () => void;
+}
+
+export default function TwoFactorSetup({
+  onEnabled,
+  onCancel,
+}: TwoFactorSetupProps) {
+  const [setup, setSetup] = useState<SetupData | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [verifying, setVerifying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    adminStartTwoFactorSetup()
+      .then((data) => {
+        if (!cancelled) setSetup(data);
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>): Promise<void> {
+    e.preventDefault();
+    setError("");
+    setVerifying(true);
+    try {
+      const result = await adminEnableTwoFactor(code);
+      onEnabled(result.recoveryCodes, result.user);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setVerifying(false);
+    }
+  }
+
+  if (loading) {
+    return <div className="text-center py-8 text-slate-500">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      {setup && (
+        <>
+          <ol className="text-sm text-slate-600 dark:text-slate-300 list-decimal pl-5 space-y-1">
+            <li>
+              Scan this code with an authenticator app such as 1Password, Google
+              Authenticator or Authy.
+            </li>
+            <li>Enter the 6-digit code the app shows.</li>
+          </ol>
+
+          <div className="flex justify-center">
+            <img
+              src={setup.qrCode}
+              alt="Two-factor QR code"
+              className="w-48 h-48 rounded-lg border border-slate-200 dark:border-slate-700 bg-white p-2"
+            />
+          </div>
+
+          <div className="text-center">
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Can't scan it? Enter this key instead:
+            </p>
+            <code className="mt-1 inline-block font-mono text-sm tracking-wider break-all text-slate-800 dark:text-slate-200">
+              {setup.secret}
+            </code>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-md px-4 py-3 text-center font-mono text-lg tracking-[0.3em]"
+              required
+              disabled={verifying}
+            />
+            <div className="flex gap-2">
+              {onCancel && (
+                <button
+                  type="button"
+                  onClick={onCancel}
+                  className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-800"
+                >
+                  Cancel
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={verifying || !code.trim()}
+                className="flex-1 px-4 py-2 bg-primary hover:bg-red-700 text-white text-sm font-bold rounded-lg transition-colors disabled:opacity-50"
+              >
+                {verifying ? "Verifying..." : "Turn On Two-Factor"}
+              </button>
+            </div>
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
@@ -7,7 +7,12 @@ import {
   type ReactNode,
 } from "react";
 import { api, readJsonOrText } from "../lib/api";
-import type { AdminAuthContextType, AdminUser } from "../types";
+import type {
+  AdminAuthContextType,
+  AdminLoginStep,
+  AdminPermission,
+  AdminUser,
+} from "../types";
 
 const AdminAuthContext = createContext<AdminAuthContextType | null>(null);
 
@@ -43,7 +48,10 @@ export function AdminAuthProvider({ children }: AdminAuthProviderProps) {
     checkAuth();
   }, []);
 
-  const login = async (email: string, password: string): Promise<void> => {
+  const login = async (
+    email: string,
+    password: string
+  ): Promise<AdminLoginStep> => {
     try {
       const response = await api("/api/auth/login", {
         method: "POST",
@@ -60,7 +68,11 @@ export function AdminAuthProvider({ children }: AdminAuthProviderProps) {
         throw new Error(message);
       }
 
+      if (payload?.twoFactorRequired) return "two_factor";
+      if (payload?.twoFactorSetupRequired) return "two_factor_setup";
+
       setUser(payload?.user ?? null);
+      return "signed_in";
     } catch (error) {
       if (error instanceof TypeError) {
         throw new Error(
@@ -71,6 +83,22 @@ export function AdminAuthProvider({ children }: AdminAuthProviderProps) {
     }
   };
 
+  const verifyTwoFactor = async (code: string): Promise<void> => {
+    const response = await api("/api/auth/login/two-factor", {
+      method: "POST",
+      body: JSON.stringify({ code }),
+    });
+
+    const payload = await readJsonOrText(response);
+    if (!response.ok) {
+      throw new Error(
+        payload?.error ?? payload?.message ?? "Unable to verify the code."
+      );
+    }
+
+    setUser(payload?.user ?? null);
+  };
+
   const logout = async (): Promise<void> => {
     try {
       await api("/api/auth/logout", { method: "POST" });
@@ -86,7 +114,11 @@ export function AdminAuthProvider({ children }: AdminAuthProviderProps) {
       user,
       isAuthed: !!user,
       loading,
+      can: (permission: AdminPermission) =>
+        Boolean(user?.permissions?.includes(permission)),
       login,
+      verifyTwoFactor,
+      setUser,
       logout,
     }),
     [user, loading]
@@ -0,0 +1,99 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from "react";
+import * as api from "../lib/api";
+import { useCart } from "../cart/CartContext";
+import type { Customer, CustomerContextType } from "../types";
+
+const CustomerContext = createContext<CustomerContextType | null>(null);
+
+interface CustomerProviderProps {
+  children: ReactNode;
+}
+
+export function CustomerProvider({ children }: CustomerProviderProps) {
+  const { reloadCart } = useCart();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    api
+      .getAccount()
+      .then((data) => setCustomer(data?.customer ?? null))
+      .catch(() => setCustomer(null))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Signing in or out switches the cart cookie, so pick up the account's cart.
+  const signedIn = useCallback(
+    async (data: any): Promise<void> => {
+      setCustomer(data?.customer ?? null);
+      await reloadCart();
+    },
+    [reloadCart]
+  );
+
+  const login = useCallback(
+    async (email: string, password: string): Promise<void> =>
+      signedIn(await api.loginCustomer(email, password)),
+    [signedIn]
+  );
+
+  const signup = useCallback(
+    async (payload: {
+      email: string;
+      password: string;
+      name?: string;
+      marketingConsent?: boolean;
+    }): Promise<void> => signedIn(await api.signupCustomer(payload)),
+    [signedIn]
+  );
+
+  const verifyLoginLink = useCallback(
+    async (token: string): Promise<void> =>
+      signedIn(await api.verifyLoginLink(token)),
+    [signedIn]
+  );
+
+  const logout = useCallback(async (): Promise<void> => {
+    try {
+      await api.logoutCustomer();
+    } catch (error) {
+      console.error("Logout error:", error);
+    } finally {
+      setCustomer(null);
+      await reloadCart();
+    }
+  }, [reloadCart]);
+
+  const value = useMemo<CustomerContextType>(
+    () => ({
+      customer,
+      loading,
+      login,
+      signup,
+      verifyLoginLink,
+      logout,
+      setCustomer,
+    }),
+    [customer, loading, login, signup, verifyLoginLink, logout]
+  );
+
+  return (
+    <CustomerContext.Provider value={value}>
+      {children}
+    </CustomerContext.Provider>
+  );
+}
+
+export function useCustomer(): CustomerContextType {
+  const ctx = useContext(CustomerContext);
+  if (!ctx) throw new Error("useCustomer must be used within CustomerProvider");
+  return ctx;
+}
@@ -77,11 +77,19 @@ export async function createCheckout(
 }
 
 export async function createCartCheckout(
-  items: Array<{ productId: string; quantity: number }>
+  items: Array<{ productId: string; quantity: number }>,
+  destination?: { country: string; state?: string; postalCode?: string },
+  shippingMethodId?: string | null,
+  options?: { discountCode?: string; email?: string; recoveryToken?: string }
 ): Promise<any> {
   const res = await api("/api/checkout/cart", {
     method: "POST",
-    body: JSON.stringify({ items }),
+    body: JSON.stringify({
+      items,
+      ...destination,
+      shippingMethodId,
+      ...options,
+    }),
   });
   const json = await readJsonOrText(res);
   if (!res.ok)
@@ -89,6 +97,16 @@ export async function createCartCheckout(
   return json;
 }
 
+export async function getShippingCountries(): Promise<string[]> {
+  const res = await api("/api/shipping/countries");
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to load shipping countries"
+    );
+  return Array.isArray(json?.countries) ? json.countries : [];
+}
+
 export async function calculateShipping(
   items: Array<{ productId: string; quantity: number }>,
   country?: string
@@ -105,276 +123,1109 @@ export async function calculateShipping(
   return json;
 }
 
+export async function calculateTax(
+  items: Array<{ productId: string; quantity: number }>,
+  destination: { country: string; state?: string; postalCode?: string },
+  shippingCents: number,
+  discount?: { discountCode?: string; email?: string }
+): Promise<any> {
+  const res = await api("/api/tax/calculate", {
+    method: "POST",
+    body: JSON.stringify({ items, ...destination, shippingCents, ...discount }),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Tax calculation failed");
+  return json;
+}
+
+// Rejects with `emailRequired` set when the code is limited per customer.
+export async function validateDiscount(
+  items: Array<{ productId: string; quantity: number }>,
+  code?: string,
+  email?: string
+): Promise<any> {
+  const res = await api("/api/cart/validate-discount", {
+    method: "POST",
+    body: JSON.stringify({ items, code, email }),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw Object.assign(
+      new Error(json?.error || json?.message || "Invalid discount code"),
+      { emailRequired: Boolean(json?.emailRequired) }
+    );
+  return json;
+}
+
+// Server-side cart, identified by the httpOnly cart cookie
+export async function getCart(): Promise<any> {
+  const res = await api("/api/cart");
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to load cart");
+  return json;
+}
+
+export async function addCartLine(
+  productId: string,
+  quantity: number
+): Promise<any> {
+  const res = await api("/api/cart/lines", {
+    method: "POST",
+    body: JSON.stringify({ productId, quantity }),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to add to cart");
+  return json;
+}
+
+export async function updateCartLine(
+  productId: string,
+  quantity: number
+): Promise<any> {
+  const res = await api(`/api/cart/lines/${encodeURIComponent(productId)}`, {
+    method: "PATCH",
+    body: JSON.stringify({ quantity }),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to update cart");
+  return json;
+}
+
+export async function removeCartLine(productId: string): Promise<any> {
+  const res = await api(`/api/cart/lines/${encodeURIComponent(productId)}`, {
+    method: "DELETE",
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to update cart");
+  return json;
+}
+
+export async function clearServerCart(): Promise<any> {
+  const res = await api("/api/cart", { method: "DELETE" });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to clear cart");
+  return json;
+}
+
+export async function replaceCart(
+  lines: Array<{ productId: string; quantity: number }>
+): Promise<any> {
+  const res = await api("/api/cart", {
+    method: "PUT",
+    body: JSON.stringify({ lines }),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to save cart");
+  return json;
+}
+
+export async function mergeCart(payload: {
+  lines?: Array<{ productId: string; quantity: number }>;
+  cartId?: string;
+  recoveryToken?: string;
+}): Promise<any> {
+  const res = await api("/api/cart/merge", {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to merge cart");
+  return json;
+}
+
+// Customer accounts (session cookie)
+export async function getAccount(): Promise<any> {
+  const res = await api("/api/account");
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to load account");
+  return json;
+}
+
+export async function signupCustomer(payload: any): Promise<any> {
+  const res = await api("/api/account/signup", {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to create account");
+  return json;
+}
+
+export async function loginCustomer(
+  email: string,
+  password: string
+): Promise<any> {
+  const res = await api("/api/account/login", {
+    method: "POST",
+    body: JSON.stringify({ email, password }),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to sign in");
+  return json;
+}
+
+export async function requestLoginLink(email: string): Promise<any> {
+  const res = await api("/api/account/login-link", {
+    method: "POST",
+    body: JSON.stringify({ email }),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to send sign-in link"
+    );
+  return json;
+}
+
+export async function verifyLoginLink(token: string): Promise<any> {
+  const res = await api("/api/account/login-link/verify", {
+    method: "POST",
+    body: JSON.stringify({ token }),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to sign in");
+  return json;
+}
+
+export async function logoutCustomer(): Promise<any> {
+  const res = await api("/api/account/logout", { method: "POST" });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to sign out");
+  return json;
+}
+
+export async function updateAccount(payload: any): Promise<any> {
+  const res = await api("/api/account", {
+    method: "PATCH",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to update account");
+  return json;
+}
+
+export async function accountOrders(): Promise<any> {
+  const res = await api("/api/account/orders");
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw Object.assign(
+      new Error(json?.error || json?.message || "Failed to load orders"),
+      { verificationRequired: Boolean(json?.verificationRequired) }
+    );
+  return json;
+}
+
+export async function accountAddresses(): Promise<any> {
+  const res = await api("/api/account/addresses");
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to load addresses");
+  return json;
+}
+
+export async function createAccountAddress(payload: any): Promise<any> {
+  const res = await api("/api/account/addresses", {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to save address");
+  return json;
+}
+
+export async function updateAccountAddress(
+  id: string,
+  payload: any
+): Promise<any> {
+  const res = await api(`/api/account/addresses/${encodeURIComponent(id)}`, {
+    method: "PUT",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to save address");
+  return json;
+}
+
+export async function deleteAccountAddress(id: string): Promise<any> {
+  const res = await api(`/api/account/addresses/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to delete address");
+  return json;
+}
+
 // Admin API functions (now use JWT auth via httpOnly cookies)
 export async function adminInventory(): Promise<any> {
   const res = await api("/api/admin/inventory");
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(json?.error || json?.message || "Admin inventory failed");
+    throw new Error(json?.error || json?.message || "Admin inventory failed");
+  return json;
+}
+
+export async function adminOrders(
+  filters: Record<string, string | undefined> = {}
+): Promise<any> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  const qs = params.toString();
+  const res = await api(`/api/admin/orders${qs ? `?${qs}` : ""}`);
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Admin orders failed");
+  return json;
+}
+
+// Every order matching the filters, a page at a time.
+export async function adminAllOrders(
+  filters: Record<string, string | undefined> = {}
+): Promise<any[]> {
+  const orders: any[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await adminOrders({ ...filters, limit: "200", cursor });
+    orders.push(...page.orders);
+    cursor = page.nextCursor || undefined;
+  } while (cursor);
+  return orders;
+}
+
+export async function adminUpdateOrderStatus(
+  id: string,
+  payload: {
+    status: string;
+    note?: string;
+    trackingCarrier?: string;
+    trackingNumber?: string;
+  }
+): Promise<any> {
+  const res = await api(`/api/admin/orders/${encodeURIComponent(id)}/status`, {
+    method: "PATCH",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to update order status"
+    );
+  return json;
+}
+
+export async function adminBulkUpdateOrderStatus(
+  orderIds: string[],
+  status: string
+): Promise<any> {
+  const res = await api("/api/admin/orders/bulk-status", {
+    method: "POST",
+    body: JSON.stringify({ orderIds, status }),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to update order statuses"
+    );
+  return json;
+}
+
+export async function adminOrderEvents(id: string): Promise<any> {
+  const res = await api(`/api/admin/orders/${encodeURIComponent(id)}/events`);
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to load order history"
+    );
+  return json;
+}
+
+// Packing slips and invoices. `ids` prints several orders into one PDF.
+export async function adminOrderDocument(
+  kind: "packing-slip" | "invoice",
+  ids: string[]
+): Promise<Blob> {
+  const res = await api(
+    ids.length === 1
+      ? `/api/admin/orders/${encodeURIComponent(ids[0])}/${kind}.pdf`
+      : `/api/admin/orders/${kind}s.pdf?ids=${ids
+          .map(encodeURIComponent)
+          .join(",")}`
+  );
+  if (!res.ok) {
+    const json = await readJsonOrText(res);
+    throw new Error(
+      json?.error ||
+        json?.message ||
+        `Failed to create ${kind.replace("-", " ")}`
+    );
+  }
+  return res.blob();
+}
+
+export async function adminOrderRefunds(id: string): Promise<any> {
+  const res = await api(`/api/admin/orders/${encodeURIComponent(id)}/refunds`);
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to load refunds");
+  return json;
+}
+
+export async function adminCreateRefund(
+  id: string,
+  payload: {
+    lines?: Array<{ orderItemId: string; quantity: number }>;
+    amountCents?: number;
+    restock?: boolean;
+    reason?: string;
+    note?: string;
+  }
+): Promise<any> {
+  const res = await api(`/api/admin/orders/${encodeURIComponent(id)}/refunds`, {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to issue refund");
+  return json;
+}
+
+export async function adminAlerts(includeResolved = false): Promise<any> {
+  const res = await api(
+    `/api/admin/alerts${includeResolved ? "?status=all" : ""}`
+  );
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to load alerts");
+  return json;
+}
+
+export async function adminResolveAlert(id: string): Promise<any> {
+  const res = await api(`/api/admin/alerts/${encodeURIComponent(id)}/resolve`, {
+    method: "POST",
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to resolve alert");
+  return json;
+}
+
+export async function adminTestAlert(): Promise<any> {
+  const res = await api("/api/admin/alerts/test", { method: "POST" });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to send test alert"
+    );
+  return json;
+}
+
+export async function adminEmails(status?: string): Promise<any> {
+  const res = await api(
+    `/api/admin/emails${status ? `?status=${encodeURIComponent(status)}` : ""}`
+  );
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to load emails");
+  return json;
+}
+
+export async function adminEmail(id: string): Promise<any> {
+  const res = await api(`/api/admin/emails/${encodeURIComponent(id)}`);
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to load email");
+  return json;
+}
+
+export async function adminEmailPreview(
+  template: string,
+  orderId?: string
+): Promise<any> {
+  const res = await api(
+    `/api/admin/emails/preview/${encodeURIComponent(template)}${
+      orderId ? `?orderId=${encodeURIComponent(orderId)}` : ""
+    }`
+  );
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to render email preview"
+    );
+  return json;
+}
+
+export async function adminRetryEmail(id: string): Promise<any> {
+  const res = await api(`/api/admin/emails/${encodeURIComponent(id)}/retry`, {
+    method: "POST",
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to retry email");
+  return json;
+}
+
+export async function adminAbandonedCheckouts(
+  status: string,
+  days: number
+): Promise<any> {
+  const params = new URLSearchParams({ status, days: String(days) });
+  const res = await api(`/api/admin/abandoned-checkouts?${params}`);
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to load abandoned checkouts"
+    );
+  return json;
+}
+
+export async function adminSendRecoveryEmail(id: string): Promise<any> {
+  const res = await api(
+    `/api/admin/abandoned-checkouts/${encodeURIComponent(id)}/recovery-email`,
+    { method: "POST" }
+  );
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to send recovery email"
+    );
+  return json;
+}
+
+export async function adminCreateManualOrder(payload: any): Promise<any> {
+  const res = await api("/api/admin/orders/manual", {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to create manual order"
+    );
+  return json;
+}
+
+export async function adminCustomers(): Promise<any> {
+  const res = await api("/api/admin/customers");
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Admin customers failed");
+  return json;
+}
+
+export async function adminCustomer(id: string): Promise<any> {
+  const res = await api(`/api/admin/customers/${encodeURIComponent(id)}`);
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to load customer");
+  return json;
+}
+
+export async function adminUpdateCustomerTags(
+  id: string,
+  tags: string[]
+): Promise<any> {
+  const res = await api(`/api/admin/customers/${encodeURIComponent(id)}/tags`, {
+    method: "PUT",
+    body: JSON.stringify({ tags }),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to update tags");
+  return json;
+}
+
+export async function adminAddCustomerNote(
+  id: string,
+  body: string
+): Promise<any> {
+  const res = await api(
+    `/api/admin/customers/${encodeURIComponent(id)}/notes`,
+    { method: "POST", body: JSON.stringify({ body }) }
+  );
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to add note");
+  return json;
+}
+
+export async function adminDeleteCustomerNote(
+  id: string,
+  noteId: string
+): Promise<any> {
+  const res = await api(
+    `/api/admin/customers/${encodeURIComponent(id)}/notes/${encodeURIComponent(
+      noteId
+    )}`,
+    { method: "DELETE" }
+  );
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to delete note");
+  return json;
+}
+
+export async function adminCategories(): Promise<any> {
+  const res = await api("/api/admin/categories");
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Admin categories failed");
+  return json;
+}
+
+export async function adminCreateCategory(payload: any): Promise<any> {
+  const res = await api("/api/admin/categories", {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Admin create category failed"
+    );
+  return json;
+}
+
+export async function adminUpdateCategory(
+  id: string,
+  payload: any
+): Promise<any> {
+  const res = await api(`/api/admin/categories/${encodeURIComponent(id)}`, {
+    method: "PUT",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Admin update category failed"
+    );
+  return json;
+}
+
+export async function adminDeleteCategory(id: string): Promise<any> {
+  const res = await api(`/api/admin/categories/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Admin delete category failed"
+    );
+  return json;
+}
+
+export async function adminGetCategoryImages(categoryId: string): Promise<any> {
+  const res = await api(
+    `/api/admin/categories/${encodeURIComponent(categoryId)}/images`
+  );
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to load images");
+  return json;
+}
+
+export async function adminAddCategoryImage(
+  categoryId: string,
+  payload: { url: string; alt?: string }
+): Promise<any> {
+  const res = await api(
+    `/api/admin/categories/${encodeURIComponent(categoryId)}/images`,
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    }
+  );
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to add image");
+  return json;
+}
+
+export async function adminUpdateCategoryImage(
+  categoryId: string,
+  imageId: string,
+  payload: { alt?: string; sortOrder?: number }
+): Promise<any> {
+  const res = await api(
+    `/api/admin/categories/${encodeURIComponent(
+      categoryId
+    )}/images/${encodeURIComponent(imageId)}`,
+    {
+      method: "PUT",
+      body: JSON.stringify(payload),
+    }
+  );
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to update image");
+  return json;
+}
+
+export async function adminDeleteCategoryImage(
+  categoryId: string,
+  imageId: string
+): Promise<any> {
+  const res = await api(
+    `/api/admin/categories/${encodeURIComponent(
+      categoryId
+    )}/images/${encodeURIComponent(imageId)}`,
+    {
+      method: "DELETE",
+    }
+  );
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to delete image");
+  return json;
+}
+
+export async function adminReorderCategoryImages(
+  categoryId: string,
+  updates: Array<{ id: string; sortOrder: number }>
+): Promise<any> {
+  const res = await api(
+    `/api/admin/categories/${encodeURIComponent(categoryId)}/images/reorder`,
+    {
+      method: "POST",
+      body: JSON.stringify({ updates }),
+    }
+  );
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to reorder images");
+  return json;
+}
+
+export async function adminProducts(): Promise<any> {
+  const res = await api("/api/admin/products");
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Admin products failed");
+  return json;
+}
+
+export async function adminCreateProduct(payload: any): Promise<any> {
+  const res = await api("/api/admin/products", {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Admin create product failed"
+    );
+  return json;
+}
+
+export async function adminUpdateProduct(
+  id: string,
+  payload: any
+): Promise<any> {
+  const res = await api(`/api/admin/products/${encodeURIComponent(id)}`, {
+    method: "PUT",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Admin update product failed"
+    );
+  return json;
+}
+
+export async function adminProductStockHistory(
+  id: string,
+  range: { from?: string; to?: string } = {}
+): Promise<any> {
+  const params = new URLSearchParams();
+  if (range.from) params.set("from", range.from);
+  if (range.to) params.set("to", range.to);
+  const qs = params.toString();
+  const res = await api(
+    `/api/admin/products/${encodeURIComponent(id)}/stock-history${
+      qs ? `?${qs}` : ""
+    }`
+  );
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to load stock history"
+    );
+  return json;
+}
+
+export async function adminCreateStockMovement(
+  id: string,
+  payload: { reason: string; delta?: number; stock?: number; note?: string }
+): Promise<any> {
+  const res = await api(
+    `/api/admin/products/${encodeURIComponent(id)}/stock-movements`,
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    }
+  );
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to record stock movement"
+    );
+  return json;
+}
+
+export async function adminDeleteProduct(id: string): Promise<any> {
+  const res = await api(`/api/admin/products/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Admin delete product failed"
+    );
+  return json;
+}
+
+export async function adminUsers(): Promise<any> {
+  const res = await api("/api/admin/users");
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Admin users failed");
+  return json;
+}
+
+export async function adminCreateUser(payload: any): Promise<any> {
+  const res = await api("/api/admin/users", {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Admin create user failed");
+  return json;
+}
+
+export async function adminInviteUser(payload: any): Promise<any> {
+  const res = await api("/api/admin/users/invite", {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to invite user");
+  return json;
+}
+
+export async function adminResendInvite(id: string): Promise<any> {
+  const res = await api(
+    `/api/admin/users/${encodeURIComponent(id)}/resend-invite`,
+    { method: "POST" }
+  );
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to resend invitation"
+    );
+  return json;
+}
+
+export async function adminUpdateUser(id: string, payload: any): Promise<any> {
+  const res = await api(`/api/admin/users/${encodeURIComponent(id)}`, {
+    method: "PUT",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Admin update user failed");
   return json;
 }
 
-export async function adminOrders(): Promise<any> {
-  const res = await api("/api/admin/orders");
+export async function adminDeleteUser(id: string): Promise<any> {
+  const res = await api(`/api/admin/users/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(json?.error || json?.message || "Admin orders failed");
+    throw new Error(json?.error || json?.message || "Admin delete user failed");
   return json;
 }
 
-export async function adminCreateManualOrder(payload: any): Promise<any> {
-  const res = await api("/api/admin/orders/manual", {
+export async function adminChangePassword(
+  id: string,
+  password: string
+): Promise<any> {
+  const res = await api(`/api/admin/users/${encodeURIComponent(id)}/password`, {
     method: "POST",
-    body: JSON.stringify(payload),
+    body: JSON.stringify({ password }),
   });
   const json = await readJsonOrText(res);
   if (!res.ok)
     throw new Error(
-      json?.error || json?.message || "Failed to create manual order"
+      json?.error || json?.message || "Admin change password failed"
     );
   return json;
 }
 
-export async function adminCustomers(): Promise<any> {
-  const res = await api("/api/admin/customers");
+export async function adminResetUserTwoFactor(id: string): Promise<any> {
+  const res = await api(
+    `/api/admin/users/${encodeURIComponent(id)}/two-factor`,
+    { method: "DELETE" }
+  );
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(json?.error || json?.message || "Admin customers failed");
+    throw new Error(
+      json?.error || json?.message || "Failed to reset two-factor"
+    );
   return json;
 }
 
-export async function adminCategories(): Promise<any> {
-  const res = await api("/api/admin/categories");
+export async function adminUnlockUser(id: string): Promise<any> {
+  const res = await api(`/api/admin/users/${encodeURIComponent(id)}/unlock`, {
+    method: "POST",
+  });
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(json?.error || json?.message || "Admin categories failed");
+    throw new Error(json?.error || json?.message || "Failed to unlock user");
   return json;
 }
 
-export async function adminCreateCategory(payload: any): Promise<any> {
-  const res = await api("/api/admin/categories", {
-    method: "POST",
-    body: JSON.stringify(payload),
-  });
+export async function adminLoginAttempts(
+  filters: { adminUserId?: string; failed?: boolean; limit?: number } = {}
+): Promise<any> {
+  const params = new URLSearchParams();
+  if (filters.adminUserId) params.set("adminUserId", filters.adminUserId);
+  if (filters.failed) params.set("failed", "true");
+  if (filters.limit) params.set("limit", String(filters.limit));
+  const qs = params.toString();
+  const res = await api(`/api/admin/login-attempts${qs ? `?${qs}` : ""}`);
   const json = await readJsonOrText(res);
   if (!res.ok)
     throw new Error(
-      json?.error || json?.message || "Admin create category failed"
+      json?.error || json?.message || "Failed to load login attempts"
     );
   return json;
 }
 
-export async function adminUpdateCategory(
-  id: string,
-  payload: any
-): Promise<any> {
-  const res = await api(`/api/admin/categories/${encodeURIComponent(id)}`, {
-    method: "PUT",
-    body: JSON.stringify(payload),
-  });
+export async function adminSessions(adminUserId?: string): Promise<any> {
+  const params = new URLSearchParams();
+  if (adminUserId) params.set("adminUserId", adminUserId);
+  const qs = params.toString();
+  const res = await api(`/api/admin/sessions${qs ? `?${qs}` : ""}`);
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(
-      json?.error || json?.message || "Admin update category failed"
-    );
+    throw new Error(json?.error || json?.message || "Failed to load sessions");
   return json;
 }
 
-export async function adminDeleteCategory(id: string): Promise<any> {
-  const res = await api(`/api/admin/categories/${encodeURIComponent(id)}`, {
+export async function adminRevokeSession(id: string): Promise<any> {
+  const res = await api(`/api/admin/sessions/${encodeURIComponent(id)}`, {
     method: "DELETE",
   });
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(
-      json?.error || json?.message || "Admin delete category failed"
-    );
+    throw new Error(json?.error || json?.message || "Failed to revoke session");
   return json;
 }
 
-export async function adminGetCategoryImages(categoryId: string): Promise<any> {
-  const res = await api(
-    `/api/admin/categories/${encodeURIComponent(categoryId)}/images`
-  );
+export async function adminRevokeUserSessions(id: string): Promise<any> {
+  const res = await api(`/api/admin/users/${encodeURIComponent(id)}/sessions`, {
+    method: "DELETE",
+  });
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(json?.error || json?.message || "Failed to load images");
+    throw new Error(json?.error || json?.message || "Failed to sign user out");
   return json;
 }
 
-export async function adminAddCategoryImage(
-  categoryId: string,
-  payload: { url: string; alt?: string }
+export async function adminAuditLog(
+  filters: {
+    entityType?: string;
+    entityId?: string;
+    adminUserId?: string;
+    action?: string;
+    from?: string;
+    to?: string;
+    cursor?: string;
+  } = {}
 ): Promise<any> {
-  const res = await api(
-    `/api/admin/categories/${encodeURIComponent(categoryId)}/images`,
-    {
-      method: "POST",
-      body: JSON.stringify(payload),
-    }
-  );
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  const qs = params.toString();
+  const res = await api(`/api/admin/audit-log${qs ? `?${qs}` : ""}`);
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(json?.error || json?.message || "Failed to add image");
+    throw new Error(json?.error || json?.message || "Failed to load audit log");
   return json;
 }
 
-export async function adminUpdateCategoryImage(
-  categoryId: string,
-  imageId: string,
-  payload: { alt?: string; sortOrder?: number }
+export async function adminStripeEvents(
+  filters: { status?: string; type?: string } = {}
 ): Promise<any> {
-  const res = await api(
-    `/api/admin/categories/${encodeURIComponent(
-      categoryId
-    )}/images/${encodeURIComponent(imageId)}`,
-    {
-      method: "PUT",
-      body: JSON.stringify(payload),
-    }
-  );
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  const qs = params.toString();
+  const res = await api(`/api/admin/stripe-events${qs ? `?${qs}` : ""}`);
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(json?.error || json?.message || "Failed to update image");
+    throw new Error(
+      json?.error || json?.message || "Failed to load Stripe events"
+    );
   return json;
 }
 
-export async function adminDeleteCategoryImage(
-  categoryId: string,
-  imageId: string
-): Promise<any> {
-  const res = await api(
-    `/api/admin/categories/${encodeURIComponent(
-      categoryId
-    )}/images/${encodeURIComponent(imageId)}`,
-    {
-      method: "DELETE",
-    }
-  );
+export async function adminStripeEvent(id: string): Promise<any> {
+  const res = await api(`/api/admin/stripe-events/${encodeURIComponent(id)}`);
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(json?.error || json?.message || "Failed to delete image");
+    throw new Error(json?.error || json?.message || "Failed to load event");
   return json;
 }
 
-export async function adminReorderCategoryImages(
-  categoryId: string,
-  updates: Array<{ id: string; sortOrder: number }>
-): Promise<any> {
+export async function adminReplayStripeEvent(id: string): Promise<any> {
   const res = await api(
-    `/api/admin/categories/${encodeURIComponent(categoryId)}/images/reorder`,
-    {
-      method: "POST",
-      body: JSON.stringify({ updates }),
-    }
+    `/api/admin/stripe-events/${encodeURIComponent(id)}/replay`,
+    { method: "POST" }
   );
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(json?.error || json?.message || "Failed to reorder images");
+    throw new Error(json?.error || json?.message || "Failed to replay event");
   return json;
 }
 
-export async function adminProducts(): Promise<any> {
-  const res = await api("/api/admin/products");
+export async function adminReconcileOrders(
+  days: number,
+  dryRun: boolean
+): Promise<any> {
+  const res = await api("/api/admin/reconcile", {
+    method: "POST",
+    body: JSON.stringify({ days, dryRun }),
+  });
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(json?.error || json?.message || "Admin products failed");
+    throw new Error(
+      json?.error || json?.message || "Failed to reconcile orders"
+    );
   return json;
 }
 
-export async function adminCreateProduct(payload: any): Promise<any> {
-  const res = await api("/api/admin/products", {
+export async function forgotAdminPassword(email: string): Promise<any> {
+  const res = await api("/api/auth/forgot-password", {
     method: "POST",
-    body: JSON.stringify(payload),
+    body: JSON.stringify({ email }),
   });
   const json = await readJsonOrText(res);
   if (!res.ok)
     throw new Error(
-      json?.error || json?.message || "Admin create product failed"
+      json?.error || json?.message || "Failed to send reset link"
     );
   return json;
 }
 
-export async function adminUpdateProduct(
-  id: string,
-  payload: any
-): Promise<any> {
-  const res = await api(`/api/admin/products/${encodeURIComponent(id)}`, {
-    method: "PUT",
-    body: JSON.stringify(payload),
+// Who an invitation or reset link is for, and which of the two it is.
+export async function checkPasswordToken(token: string): Promise<any> {
+  const res = await api("/api/auth/password-token", {
+    method: "POST",
+    body: JSON.stringify({ token }),
   });
   const json = await readJsonOrText(res);
   if (!res.ok)
     throw new Error(
-      json?.error || json?.message || "Admin update product failed"
+      json?.error || json?.message || "This link is invalid or has expired"
     );
   return json;
 }
 
-export async function adminDeleteProduct(id: string): Promise<any> {
-  const res = await api(`/api/admin/products/${encodeURIComponent(id)}`, {
-    method: "DELETE",
+export async function resetAdminPassword(
+  token: string,
+  password: string
+): Promise<any> {
+  const res = await api("/api/auth/reset-password", {
+    method: "POST",
+    body: JSON.stringify({ token, password }),
   });
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(
-      json?.error || json?.message || "Admin delete product failed"
-    );
+    throw new Error(json?.error || json?.message || "Failed to set password");
   return json;
 }
 
-export async function adminUsers(): Promise<any> {
-  const res = await api("/api/admin/users");
+export async function adminTwoFactorStatus(): Promise<any> {
+  const res = await api("/api/auth/two-factor");
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(json?.error || json?.message || "Admin users failed");
+    throw new Error(
+      json?.error || json?.message || "Failed to load two-factor status"
+    );
   return json;
 }
 
-export async function adminCreateUser(payload: any): Promise<any> {
-  const res = await api("/api/admin/users", {
-    method: "POST",
-    body: JSON.stringify(payload),
-  });
+export async function adminStartTwoFactorSetup(): Promise<any> {
+  const res = await api("/api/auth/two-factor/setup", { method: "POST" });
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(json?.error || json?.message || "Admin create user failed");
+    throw new Error(
+      json?.error || json?.message || "Failed to start two-factor setup"
+    );
   return json;
 }
 
-export async function adminUpdateUser(id: string, payload: any): Promise<any> {
-  const res = await api(`/api/admin/users/${encodeURIComponent(id)}`, {
-    method: "PUT",
-    body: JSON.stringify(payload),
+// Returns the recovery codes, plus `user` when enrolling finished a sign in.
+export async function adminEnableTwoFactor(code: string): Promise<any> {
+  const res = await api("/api/auth/two-factor/enable", {
+    method: "POST",
+    body: JSON.stringify({ code }),
   });
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(json?.error || json?.message || "Admin update user failed");
+    throw new Error(
+      json?.error || json?.message || "Failed to turn on two-factor"
+    );
   return json;
 }
 
-export async function adminDeleteUser(id: string): Promise<any> {
-  const res = await api(`/api/admin/users/${encodeURIComponent(id)}`, {
-    method: "DELETE",
+export async function adminRegenerateRecoveryCodes(code: string): Promise<any> {
+  const res = await api("/api/auth/two-factor/recovery-codes", {
+    method: "POST",
+    body: JSON.stringify({ code }),
   });
   const json = await readJsonOrText(res);
   if (!res.ok)
-    throw new Error(json?.error || json?.message || "Admin delete user failed");
+    throw new Error(
+      json?.error || json?.message || "Failed to regenerate recovery codes"
+    );
   return json;
 }
 
-export async function adminChangePassword(
-  id: string,
-  password: string
-): Promise<any> {
-  const res = await api(`/api/admin/users/${encodeURIComponent(id)}/password`, {
+export async function adminDisableTwoFactor(password: string): Promise<any> {
+  const res = await api("/api/auth/two-factor/disable", {
     method: "POST",
     body: JSON.stringify({ password }),
   });
   const json = await readJsonOrText(res);
   if (!res.ok)
     throw new Error(
-      json?.error || json?.message || "Admin change password failed"
+      json?.error || json?.message || "Failed to turn off two-factor"
     );
   return json;
 }
@@ -553,6 +1404,104 @@ export async function adminCreateShippingZone(payload: any): Promise<any> {
   return json;
 }
 
+export async function adminTaxRegions(): Promise<any[]> {
+  const res = await api("/api/admin/tax/regions");
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to load tax regions"
+    );
+  return Array.isArray(json?.regions) ? json.regions : [];
+}
+
+export async function adminCreateTaxRegion(payload: any): Promise<any> {
+  const res = await api("/api/admin/tax/regions", {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to create tax region"
+    );
+  return json;
+}
+
+export async function adminUpdateTaxRegion(
+  id: string,
+  payload: any
+): Promise<any> {
+  const res = await api(`/api/admin/tax/regions/${encodeURIComponent(id)}`, {
+    method: "PUT",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to update tax region"
+    );
+  return json;
+}
+
+export async function adminDeleteTaxRegion(id: string): Promise<void> {
+  const res = await api(`/api/admin/tax/regions/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to delete tax region"
+    );
+}
+
+export async function adminDiscounts(): Promise<any[]> {
+  const res = await api("/api/admin/discounts");
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(json?.error || json?.message || "Failed to load discounts");
+  return Array.isArray(json?.discounts) ? json.discounts : [];
+}
+
+export async function adminCreateDiscount(payload: any): Promise<any> {
+  const res = await api("/api/admin/discounts", {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to create discount"
+    );
+  return json;
+}
+
+export async function adminUpdateDiscount(
+  id: string,
+  payload: any
+): Promise<any> {
+  const res = await api(`/api/admin/discounts/${encodeURIComponent(id)}`, {
+    method: "PUT",
+    body: JSON.stringify(payload),
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to update discount"
+    );
+  return json;
+}
+
+export async function adminDeleteDiscount(id: string): Promise<void> {
+  const res = await api(`/api/admin/discounts/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  const json = await readJsonOrText(res);
+  if (!res.ok)
+    throw new Error(
+      json?.error || json?.message || "Failed to delete discount"
+    );
+}
+
 export async function getSettings(): Promise<any> {
   const res = await api("/api/settings");
   const json = await readJsonOrText(res);
@@ -0,0 +1,5 @@
+// Mirrors server/src/auth/passwordPolicy.ts; the server has the final say.
+export const MIN_PASSWORD_LENGTH = 12;
+
+export const PASSWORD_HINT =
+  "At least 12 characters, mixing letters with numbers or symbols. Common or breached passwords are rejected.";
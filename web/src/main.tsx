@@ -3,6 +3,7 @@ import ReactDOM from "react-dom/client";
 import { BrowserRouter } from "react-router-dom";
 import App from "./App";
 import { CartProvider } from "./cart/CartContext";
+import { CustomerProvider } from "./context/CustomerContext";
 import { SettingsProvider } from "./context/SettingsContext";
 import "./styles.css";
 
@@ -13,9 +14,11 @@ ReactDOM.createRoot(rootElement).render(
   <React.StrictMode>
     <SettingsProvider>
       <CartProvider>
-        <BrowserRouter>
-          <App />
-        </BrowserRouter>
+        <CustomerProvider>
+          <BrowserRouter>
+            <App />
+          </BrowserRouter>
+        </CustomerProvider>
       </CartProvider>
     </SettingsProvider>
   </React.StrictMode>
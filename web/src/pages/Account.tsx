@@ -0,0 +1,458 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Navigate } from "react-router-dom";
+import { useCustomer } from "../context/CustomerContext";
+import * as api from "../lib/api";
+import { AccountOrder, CustomerAddress } from "../types";
+
+const INPUT_CLASS =
+  "w-full bg-stone-50 dark:bg-stone-800 border-stone-200 dark:border-stone-700 rounded-lg px-4 py-2 text-sm focus:ring-primary focus:border-primary";
+
+const CARD_CLASS =
+  "bg-white/80 dark:bg-stone-950/40 border border-stone-200 dark:border-stone-800 rounded-2xl p-6 backdrop-blur";
+
+type AddressForm = Omit<CustomerAddress, "id" | "line2" | "state" | "phone"> & {
+  line2: string;
+  state: string;
+  phone: string;
+};
+
+const EMPTY_ADDRESS: AddressForm = {
+  name: "",
+  line1: "",
+  line2: "",
+  city: "",
+  state: "",
+  postalCode: "",
+  country: "US",
+  phone: "",
+  isDefault: false,
+};
+
+function formatMoney(cents: number, currency: string = "usd"): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format((Number(cents) || 0) / 100);
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export default function Account() {
+  const { customer, loading, logout, setCustomer } = useCustomer();
+
+  const [name, setName] = useState<string>("");
+  const [phone, setPhone] = useState<string>("");
+  const [newPassword, setNewPassword] = useState<string>("");
+  const [currentPassword, setCurrentPassword] = useState<string>("");
+  const [saving, setSaving] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  const [orders, setOrders] = useState<AccountOrder[]>([]);
+  const [verificationRequired, setVerificationRequired] =
+    useState<boolean>(false);
+  const [linkSent, setLinkSent] = useState<boolean>(false);
+
+  const [addresses, setAddresses] = useState<CustomerAddress[]>([]);
+  const [editingAddressId, setEditingAddressId] = useState<string | null>(null);
+  const [addressForm, setAddressForm] = useState<AddressForm>(EMPTY_ADDRESS);
+  const [addressError, setAddressError] = useState<string>("");
+
+  useEffect(() => {
+    if (!customer) return;
+    setName(customer.name || "");
+    setPhone(customer.phone || "");
+  }, [customer]);
+
+  useEffect(() => {
+    if (!customer) return;
+    api
+      .accountOrders()
+      .then((data) => {
+        setOrders(data.orders || []);
+        setVerificationRequired(false);
+      })
+      .catch((e) => {
+        if (e.verificationRequired) setVerificationRequired(true);
+        else setError(e.message);
+      });
+    api
+      .accountAddresses()
+      .then((data) => setAddresses(data.addresses || []))
+      .catch((e) => setError(e.message));
+  }, [customer?.id, customer?.emailVerified]);
+
+  if (loading) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-14 text-stone-500">
+        Loading…
+      </div>
+    );
+  }
+  if (!customer) return <Navigate to="/account/login" replace />;
+
+  async function saveProfile(e: FormEvent): Promise<void> {
+    e.preventDefault();
+    setError("");
+    setMessage("");
+    setSaving(true);
+    try {
+      const data = await api.updateAccount({
+        name,
+        phone,
+        ...(newPassword ? { password: newPassword, currentPassword } : {}),
+      });
+      setCustomer(data.customer);
+      setNewPassword("");
+      setCurrentPassword("");
+      setMessage("Account updated.");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleMarketing(checked: boolean): Promise<void> {
+    setError("");
+    try {
+      const data = await api.updateAccount({ marketingConsent: checked });
+      setCustomer(data.customer);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function resendVerification(): Promise<void> {
+    if (!customer) return;
+    try {
+      await api.requestLoginLink(customer.email);
+      setLinkSent(true);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  function editAddress(address: CustomerAddress | null): void {
+    setAddressError("");
+    if (!address) {
+      setEditingAddressId("new");
+      setAddressForm(EMPTY_ADDRESS);
+      return;
+    }
+    setEditingAddressId(address.id);
+    setAddressForm({
+      ...address,
+      line2: address.line2 || "",
+      state: address.state || "",
+      phone: address.phone || "",
+    });
+  }
+
+  async function saveAddress(e: FormEvent): Promise<void> {
+    e.preventDefault();
+    setAddressError("");
+    try {
+      if (editingAddressId === "new") {
+        await api.createAccountAddress(addressForm);
+      } else if (editingAddressId) {
+        await api.updateAccountAddress(editingAddressId, addressForm);
+      }
+      // Saving can move the default, so reload the whole list.
+      const data = await api.accountAddresses();
+      setAddresses(data.addresses || []);
+      setEditingAddressId(null);
+    } catch (err) {
+      setAddressError((err as Error).message);
+    }
+  }
+
+  async function removeAddress(id: string): Promise<void> {
+    try {
+      await api.deleteAccountAddress(id);
+      const data = await api.accountAddresses();
+      setAddresses(data.addresses || []);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  function addressField(
+    key: keyof Omit<AddressForm, "isDefault">,
+    placeholder: string
+  ) {
+    return (
+      <input
+        className={INPUT_CLASS}
+        placeholder={placeholder}
+        value={addressForm[key]}
+        onChange={(e) =>
+          setAddressForm((prev) => ({ ...prev, [key]: e.target.value }))
+        }
+      />
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-14 space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="font-display text-4xl">Your account</h1>
+          <p className="text-stone-500">{customer.email}</p>
+        </div>
+        <button
+          type="button"
+          className="text-sm font-semibold text-primary hover:underline underline-offset-4"
+          onClick={() => logout()}
+        >
+          Sign out
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!customer.emailVerified && (
+        <div className="p-4 rounded-xl border border-amber-200 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-200">
+          {linkSent ? (
+            <>Check your inbox: the link in it verifies your email.</>
+          ) : (
+            <>
+              Verify your email to see your order history.{" "}
+              <button
+                type="button"
+                className="font-semibold underline underline-offset-4"
+                onClick={resendVerification}
+              >
+                Send verification link
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      <section className={CARD_CLASS}>
+        <h2 className="font-display text-2xl mb-4">Orders</h2>
+        {verificationRequired ? (
+          <p className="text-sm text-stone-500">
+            Your orders will show here once your email is verified.
+          </p>
+        ) : orders.length === 0 ? (
+          <p className="text-sm text-stone-500">No orders yet.</p>
+        ) : (
+          <div className="divide-y divide-stone-200 dark:divide-stone-800">
+            {orders.map((order) => (
+              <div key={order.id} className="py-4 first:pt-0 last:pb-0">
+                <div className="flex flex-wrap justify-between gap-2">
+                  <div>
+                    <p className="font-semibold">
+                      #{order.id.slice(0, 8).toUpperCase()}
+                    </p>
+                    <p className="text-xs text-stone-500">
+                      {formatDate(order.createdAt)} ·{" "}
+                      <span className="capitalize">{order.status}</span>
+                    </p>
+                  </div>
+                  <p className="font-semibold">
+                    {formatMoney(order.amountTotal, order.currency)}
+                  </p>
+                </div>
+                <ul className="mt-2 text-sm text-stone-600 dark:text-stone-400">
+                  {order.items.map((it, idx) => (
+                    <li key={`${it.productId}-${idx}`}>
+                      {it.name} × {it.quantity}
+                    </li>
+                  ))}
+                </ul>
+                {order.trackingNumber && (
+                  <p className="mt-2 text-xs text-stone-500">
+                    {order.trackingCarrier
+                      ? `${order.trackingCarrier.toUpperCase()} `
+                      : ""}
+                    tracking: {order.trackingNumber}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className={CARD_CLASS}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="font-display text-2xl">Addresses</h2>
+          {editingAddressId === null && (
+            <button
+              type="button"
+              className="text-sm font-semibold text-primary hover:underline underline-offset-4"
+              onClick={() => editAddress(null)}
+            >
+              Add address
+            </button>
+          )}
+        </div>
+
+        {editingAddressId !== null ? (
+          <form className="grid sm:grid-cols-2 gap-3" onSubmit={saveAddress}>
+            {addressField("name", "Full name")}
+            {addressField("phone", "Phone (optional)")}
+            <div className="sm:col-span-2">
+              {addressField("line1", "Street address")}
+            </div>
+            <div className="sm:col-span-2">
+              {addressField("line2", "Apartment, suite (optional)")}
+            </div>
+            {addressField("city", "City")}
+            {addressField("state", "State / Province")}
+            {addressField("postalCode", "Postal code")}
+            {addressField("country", "Country code (e.g. US)")}
+            <label className="sm:col-span-2 flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="rounded text-primary focus:ring-primary"
+                checked={addressForm.isDefault}
+                onChange={(e) =>
+                  setAddressForm((prev) => ({
+                    ...prev,
+                    isDefault: e.target.checked,
+                  }))
+                }
+              />
+              Default address
+            </label>
+            {addressError && (
+              <p className="sm:col-span-2 text-sm text-red-600">
+                {addressError}
+              </p>
+            )}
+            <div className="sm:col-span-2 flex gap-3">
+              <button
+                type="submit"
+                className="bg-primary text-white px-5 py-2 rounded-lg font-bold hover:bg-red-700"
+              >
+                Save address
+              </button>
+              <button
+                type="button"
+                className="px-5 py-2 rounded-lg font-semibold text-stone-500 hover:text-primary"
+                onClick={() => setEditingAddressId(null)}
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : addresses.length === 0 ? (
+          <p className="text-sm text-stone-500">No saved addresses.</p>
+        ) : (
+          <div className="grid sm:grid-cols-2 gap-4">
+            {addresses.map((a) => (
+              <div
+                key={a.id}
+                className="p-4 rounded-xl border border-stone-200 dark:border-stone-800 text-sm"
+              >
+                <p className="font-semibold">
+                  {a.name}
+                  {a.isDefault && (
+                    <span className="ml-2 text-[10px] font-bold uppercase text-primary">
+                      Default
+                    </span>
+                  )}
+                </p>
+                <p>{a.line1}</p>
+                {a.line2 && <p>{a.line2}</p>}
+                <p>
+                  {a.city}
+                  {a.state ? `, ${a.state}` : ""} {a.postalCode}
+                </p>
+                <p>{a.country}</p>
+                <div className="mt-3 flex gap-4 text-xs font-medium">
+                  <button
+                    type="button"
+                    className="text-stone-400 hover:text-primary"
+                    onClick={() => editAddress(a)}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    className="text-stone-400 hover:text-red-500"
+                    onClick={() => removeAddress(a.id)}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className={CARD_CLASS}>
+        <h2 className="font-display text-2xl mb-4">Profile</h2>
+        <form className="grid sm:grid-cols-2 gap-3" onSubmit={saveProfile}>
+          <input
+            className={INPUT_CLASS}
+            placeholder="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <input
+            className={INPUT_CLASS}
+            placeholder="Phone"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+          />
+          <input
+            className={`${INPUT_CLASS} sm:col-span-2`}
+            type="password"
+            autoComplete="new-password"
+            minLength={8}
+            placeholder={
+              customer.hasPassword
+                ? "New password (leave blank to keep)"
+                : "Set a password (optional)"
+            }
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+          />
+          {customer.hasPassword && newPassword && (
+            <input
+              className={`${INPUT_CLASS} sm:col-span-2`}
+              type="password"
+              autoComplete="current-password"
+              required
+              placeholder="Current password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+            />
+          )}
+          <div className="sm:col-span-2 flex items-center gap-4">
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-primary text-white px-5 py-2 rounded-lg font-bold hover:bg-red-700 disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Save"}
+            </button>
+            {message && <p className="text-sm text-stone-500">{message}</p>}
+          </div>
+        </form>
+
+        <label className="mt-6 flex items-start gap-2 text-sm text-stone-600 dark:text-stone-400">
+          <input
+            type="checkbox"
+            className="mt-0.5 rounded text-primary focus:ring-primary"
+            checked={customer.marketingConsent}
+            onChange={(e) => toggleMarketing(e.target.checked)}
+          />
+          Email me about new sauces, restocks and offers.
+        </label>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { FormEvent, useEffect, useRef, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { useCustomer } from "../context/CustomerContext";
+import * as api from "../lib/api";
+
+const INPUT_CLASS =
+  "w-full bg-stone-50 dark:bg-stone-800 border-stone-200 dark:border-stone-700 rounded-lg px-4 py-2 focus:ring-primary focus:border-primary";
+
+export default function AccountLogin() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const { customer, loading, login, verifyLoginLink } = useCustomer();
+
+  const [mode, setMode] = useState<"password" | "link">("password");
+  const [email, setEmail] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+  const [linkSent, setLinkSent] = useState<boolean>(false);
+  const verifying = useRef<boolean>(false);
+
+  useEffect(() => {
+    if (!token || verifying.current) return;
+    verifying.current = true;
+    setSubmitting(true);
+    verifyLoginLink(token)
+      .then(() => navigate("/account", { replace: true }))
+      .catch((e) => {
+        setError((e as Error).message);
+        setMode("link");
+        setSearchParams({}, { replace: true });
+      })
+      .finally(() => setSubmitting(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  useEffect(() => {
+    if (!loading && customer && !token) navigate("/account", { replace: true });
+  }, [loading, customer, token, navigate]);
+
+  async function onSubmit(e: FormEvent): Promise<void> {
+    e.preventDefault();
+    setError("");
+    setSubmitting(true);
+    try {
+      if (mode === "password") {
+        await login(email, password);
+        navigate("/account");
+      } else {
+        await api.requestLoginLink(email);
+        setLinkSent(true);
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-14">
+      <div className="bg-white/80 dark:bg-stone-950/40 border border-stone-200 dark:border-stone-800 rounded-2xl p-8 backdrop-blur">
+        <h1 className="font-display text-4xl mb-2">Sign in</h1>
+        <p className="text-stone-600 dark:text-stone-400 mb-6">
+          See your orders and saved addresses.
+        </p>
+
+        {token && submitting ? (
+          <p className="text-stone-500">Signing you in…</p>
+        ) : linkSent ? (
+          <div className="space-y-4">
+            <p className="text-stone-600 dark:text-stone-400">
+              If {email} can receive email, a sign-in link is on its way. It
+              works once and expires in 15 minutes.
+            </p>
+            <button
+              type="button"
+              className="text-sm font-semibold text-primary hover:underline underline-offset-4"
+              onClick={() => setLinkSent(false)}
+            >
+              Use a different email
+            </button>
+          </div>
+        ) : (
+          <form className="space-y-4" onSubmit={onSubmit}>
+            <div className="flex gap-2 text-sm font-semibold">
+              <button
+                type="button"
+                className={`px-3 py-1.5 rounded-lg ${
+                  mode === "password"
+                    ? "bg-primary text-white"
+                    : "bg-stone-100 dark:bg-stone-800"
+                }`}
+                onClick={() => setMode("password")}
+              >
+                Password
+              </button>
+              <button
+                type="button"
+                className={`px-3 py-1.5 rounded-lg ${
+                  mode === "link"
+                    ? "bg-primary text-white"
+                    : "bg-stone-100 dark:bg-stone-800"
+                }`}
+                onClick={() => setMode("link")}
+              >
+                Email me a link
+              </button>
+            </div>
+
+            <input
+              className={INPUT_CLASS}
+              type="email"
+              placeholder="Email"
+              autoComplete="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            {mode === "password" && (
+              <input
+                className={INPUT_CLASS}
+                type="password"
+                placeholder="Password"
+                autoComplete="current-password"
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full bg-primary text-white py-3 rounded-xl font-bold hover:bg-red-700 transition-all disabled:opacity-60"
+            >
+              {submitting
+                ? "Please wait…"
+                : mode === "password"
+                ? "Sign in"
+                : "Send sign-in link"}
+            </button>
+
+            <p className="text-sm text-stone-500">
+              Checked out as a guest before? Use an email link to sign in; your
+              past orders will be there.
+            </p>
+            <p className="text-sm text-stone-500">
+              New here?{" "}
+              <Link
+                className="font-semibold text-primary hover:underline underline-offset-4"
+                to="/account/signup"
+              >
+                Create an account
+              </Link>
+            </p>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { FormEvent, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useCustomer } from "../context/CustomerContext";
+
+const INPUT_CLASS =
+  "w-full bg-stone-50 dark:bg-stone-800 border-stone-200 dark:border-stone-700 rounded-lg px-4 py-2 focus:ring-primary focus:border-primary";
+
+export default function AccountSignup() {
+  const navigate = useNavigate();
+  const { signup } = useCustomer();
+
+  const [name, setName] = useState<string>("");
+  const [email, setEmail] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
+  const [marketingConsent, setMarketingConsent] = useState<boolean>(false);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+
+  async function onSubmit(e: FormEvent): Promise<void> {
+    e.preventDefault();
+    setError("");
+    setSubmitting(true);
+    try {
+      await signup({ name, email, password, marketingConsent });
+      navigate("/account");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-14">
+      <div className="bg-white/80 dark:bg-stone-950/40 border border-stone-200 dark:border-stone-800 rounded-2xl p-8 backdrop-blur">
+        <h1 className="font-display text-4xl mb-2">Create an account</h1>
+        <p className="text-stone-600 dark:text-stone-400 mb-6">
+          Track your orders and check out faster with saved addresses.
+        </p>
+
+        <form className="space-y-4" onSubmit={onSubmit}>
+          <input
+            className={INPUT_CLASS}
+            placeholder="Name"
+            autoComplete="name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <input
+            className={INPUT_CLASS}
+            type="email"
+            placeholder="Email"
+            autoComplete="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          <input
+            className={INPUT_CLASS}
+            type="password"
+            placeholder="Password (at least 8 characters)"
+            autoComplete="new-password"
+            minLength={8}
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <label className="flex items-start gap-2 text-sm text-stone-600 dark:text-stone-400">
+            <input
+              type="checkbox"
+              className="mt-0.5 rounded text-primary focus:ring-primary"
+              checked={marketingConsent}
+              onChange={(e) => setMarketingConsent(e.target.checked)}
+            />
+            Email me about new sauces, restocks and offers. You can change this
+            any time.
+          </label>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full bg-primary text-white py-3 rounded-xl font-bold hover:bg-red-700 transition-all disabled:opacity-60"
+          >
+            {submitting ? "Creating account…" : "Create account"}
+          </button>
+
+          <p className="text-sm text-stone-500">
+            Already have an account?{" "}
+            <Link
+              className="font-semibold text-primary hover:underline underline-offset-4"
+              to="/account/login"
+            >
+              Sign in
+            </Link>
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+import { useEffect, useState } from "react";
+import { adminAbandonedCheckouts, adminSendRecoveryEmail } from "../lib/api";
+import { AbandonedCheckout, CheckoutStats } from "../types";
+
+const STATUS_FILTERS = [
+  { value: "expired", label: "Abandoned" },
+  { value: "open", label: "Open" },
+  { value: "completed", label: "Completed" },
+  { value: "all", label: "All" },
+];
+
+const PERIODS = [7, 30, 90];
+
+function formatMoney(cents: number, currency = "usd"): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format((Number(cents) || 0) / 100);
+}
+
+function formatDateTime(value: string | null): string {
+  if (!value) return "—";
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 1000) / 10}%`;
+}
+
+function checkoutState(c: AbandonedCheckout): {
+  label: string;
+  className: string;
+} {
+  if (c.recoveredAt)
+    return {
+      label: "Recovered",
+      className:
+        "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
+    };
+  if (c.status === "completed")
+    return {
+      label: "Completed",
+      className:
+        "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
+    };
+  if (c.status === "open")
+    return {
+      label: "Open",
+      className:
+        "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
+    };
+  return {
+    label: "Abandoned",
+    className:
+      "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300",
+  };
+}
+
+export default function AdminAbandonedCheckouts() {
+  const [status, setStatus] = useState<string>("expired");
+  const [days, setDays] = useState<number>(30);
+  const [checkouts, setCheckouts] = useState<AbandonedCheckout[]>([]);
+  const [stats, setStats] = useState<CheckoutStats | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>("");
+  const [sendingId, setSendingId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  async function load(): Promise<void> {
+    try {
+      setError("");
+      const data = await adminAbandonedCheckouts(status, days);
+      setCheckouts(data.checkouts || []);
+      setStats(data.stats || null);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status, days]);
+
+  async function sendEmail(c: AbandonedCheckout): Promise<void> {
+    try {
+      setSendingId(c.id);
+      const result = await adminSendRecoveryEmail(c.id);
+      setCheckouts((prev) =>
+        prev.map((p) =>
+          p.id === c.id
+            ? { ...p, recoveryEmailSentAt: result.recoveryEmailSentAt }
+            : p
+        )
+      );
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setSendingId(null);
+    }
+  }
+
+  async function copyLink(c: AbandonedCheckout): Promise<void> {
+    await navigator.clipboard.writeText(c.recoveryUrl);
+    setCopiedId(c.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  }
+
+  const statCards: Array<{ label: string; value: string; hint?: string }> =
+    stats
+      ? [
+          { label: "Checkouts started", value: String(stats.started) },
+          {
+            label: "Completed",
+            value: String(stats.completed),
+            hint: stats.started
+              ? `${formatPercent(stats.completed / stats.started)} conversion`
+              : undefined,
+          },
+          { label: "Abandoned", value: String(stats.abandoned) },
+          {
+            label: "Recovery emails",
+            value: String(stats.emailed),
+          },
+          {
+            label: "Recovered",
+            value: String(stats.recovered),
+            hint: `${formatPercent(stats.recoveryRate)} recovery rate`,
+          },
+          {
+            label: "Recovered revenue",
+            value: formatMoney(stats.recoveredRevenueCents),
+          },
+        ]
+      : [];
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 py-6 sm:py-8">
+      <div className="mb-6 sm:mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-3xl sm:text-4xl font-black tracking-tight text-[#1b0d0e] dark:text-white">
+            Abandoned Checkouts
+          </h2>
+          <p className="text-[#9a4c50] text-sm mt-1">
+            Stripe checkouts that expired unpaid. A recovery email links the
+            customer back to their cart; turn on automatic recovery emails in
+            Store Settings → Notifications.
+          </p>
+        </div>
+        <select
+          className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm"
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+        >
+          {PERIODS.map((p) => (
+            <option key={p} value={p}>
+              Last {p} days
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 rounded-lg border border-red-200 dark:border-red-900/40 bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {stats && (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
+          {statCards.map((card) => (
+            <div
+              key={card.label}
+              className="p-4 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800"
+            >
+              <p className="text-xs font-semibold uppercase text-slate-500">
+                {card.label}
+              </p>
+              <p className="text-2xl font-black mt-1">{card.value}</p>
+              {card.hint && (
+                <p className="text-xs text-slate-500 mt-1">{card.hint}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {STATUS_FILTERS.map((f) => (
+          <button
+            key={f.value}
+            type="button"
+            onClick={() => setStatus(f.value)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-bold ${
+              status === f.value
+                ? "bg-primary text-white"
+                : "bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300"
+            }`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+
+      <section className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 overflow-x-auto">
+        {loading ? (
+          <p className="p-6 text-sm text-slate-500">Loading checkouts...</p>
+        ) : checkouts.length === 0 ? (
+          <p className="p-6 text-sm text-slate-500">
+            No checkouts in this period.
+          </p>
+        ) : (
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="text-xs uppercase text-slate-500 border-b border-slate-200 dark:border-slate-800">
+                <th className="px-4 py-3 font-semibold">Started</th>
+                <th className="px-4 py-3 font-semibold">Customer</th>
+                <th className="px-4 py-3 font-semibold">Items</th>
+                <th className="px-4 py-3 font-semibold">Subtotal</th>
+                <th className="px-4 py-3 font-semibold">Status</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {checkouts.map((c) => {
+                const state = checkoutState(c);
+                return (
+                  <tr
+                    key={c.id}
+                    className="border-b border-slate-100 dark:border-slate-800 align-top"
+                  >
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      {formatDateTime(c.createdAt)}
+                      {c.expiredAt && (
+                        <div className="text-xs text-slate-500">
+                          Expired {formatDateTime(c.expiredAt)}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {c.email || (
+                        <span className="text-slate-400">No email</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {c.items.map((it) => (
+                        <div key={it.productId}>
+                          {it.name} × {it.quantity}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-4 py-3">
+                      {formatMoney(c.subtotalCents, c.currency)}
+                      {c.discountCode && (
+                        <div className="text-xs text-slate-500">
+                          {c.discountCode}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${state.className}`}
+                      >
+                        {state.label}
+                      </span>
+                      {c.recoveryEmailSentAt && (
+                        <div className="text-xs text-slate-500 mt-1">
+                          Emailed {formatDateTime(c.recoveryEmailSentAt)}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      {c.status === "expired" && !c.recoveredAt && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => copyLink(c)}
+                            className="text-xs font-bold text-slate-500 hover:text-primary"
+                          >
+                            {copiedId === c.id ? "Copied" : "Copy link"}
+                          </button>
+                          {c.email && (
+                            <button
+                              type="button"
+                              onClick={() => sendEmail(c)}
+                              disabled={sendingId === c.id}
+                              className="ml-3 text-xs font-bold text-primary hover:underline disabled:opacity-50"
+                            >
+                              {sendingId === c.id
+                                ? "Sending..."
+                                : c.recoveryEmailSentAt
+                                ? "Resend email"
+                                : "Send email"}
+                            </button>
+                          )}
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,363 @@
+import { Fragment, useEffect, useState } from "react";
+import { adminAuditLog, adminUsers } from "../lib/api";
+import { AuditLogEntry } from "../types";
+
+interface Filters {
+  entityType: string;
+  entityId: string;
+  adminUserId: string;
+  action: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = {
+  entityType: "",
+  entityId: "",
+  adminUserId: "",
+  action: "",
+  from: "",
+  to: "",
+};
+
+// Mirrors the entity types the server's audit middleware records.
+const ENTITY_TYPES: Record<string, string> = {
+  Product: "Product",
+  ProductCategory: "Category",
+  ProductVariantType: "Variant type",
+  ProductImage: "Image",
+  Order: "Order",
+  Customer: "Customer",
+  CustomerNote: "Customer note",
+  Discount: "Discount",
+  ShippingZone: "Shipping zone",
+  TaxRate: "Tax rate",
+  StoreSetting: "Store settings",
+  AdminUser: "Admin user",
+  AdminSession: "Admin session",
+  AdminAlert: "Alert",
+  EmailMessage: "Email",
+  CheckoutAttempt: "Abandoned checkout",
+};
+
+const ACTION_STYLES: Record<AuditLogEntry["action"], string> = {
+  create:
+    "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  update: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
+  delete: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function Changes({ entry }: { entry: AuditLogEntry }) {
+  const keys = Array.from(
+    new Set([
+      ...Object.keys(entry.before || {}),
+      ...Object.keys(entry.after || {}),
+    ])
+  );
+  if (keys.length === 0) {
+    return <p className="text-sm text-slate-500">No field changes recorded.</p>;
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-slate-500">
+          <th className="py-1 pr-4 font-semibold">Field</th>
+          <th className="py-1 pr-4 font-semibold">Before</th>
+          <th className="py-1 font-semibold">After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {keys.map((key) => (
+          <tr key={key} className="align-top">
+            <td className="py-1 pr-4 font-mono">{key}</td>
+            <td className="py-1 pr-4 font-mono text-red-700 dark:text-red-300 break-all">
+              {entry.before ? formatValue(entry.before[key]) : "—"}
+            </td>
+            <td className="py-1 font-mono text-green-700 dark:text-green-300 break-all">
+              {entry.after ? formatValue(entry.after[key]) : "—"}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function AdminAuditLog() {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [users, setUsers] = useState<Array<{ id: string; email: string }>>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  function query(cursor?: string) {
+    return {
+      ...filters,
+      // Whole days, in the browser's time zone
+      from: filters.from
+        ? new Date(`${filters.from}T00:00:00`).toISOString()
+        : "",
+      to: filters.to
+        ? new Date(`${filters.to}T23:59:59.999`).toISOString()
+        : "",
+      cursor,
+    };
+  }
+
+  async function loadEntries(): Promise<void> {
+    setLoading(true);
+    setError("");
+    try {
+      const data = await adminAuditLog(query());
+      setEntries(data.entries);
+      setNextCursor(data.nextCursor);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadMore(): Promise<void> {
+    if (!nextCursor) return;
+    try {
+      const data = await adminAuditLog(query(nextCursor));
+      setEntries((current) => [...current, ...data.entries]);
+      setNextCursor(data.nextCursor);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  useEffect(() => {
+    loadEntries();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filters]);
+
+  useEffect(() => {
+    adminUsers()
+      .then(setUsers)
+      .catch(() => setUsers([]));
+  }, []);
+
+  function setFilter(key: keyof Filters, value: string): void {
+    setFilters((current) => ({ ...current, [key]: value }));
+  }
+
+  const inputClass =
+    "bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-md px-3 py-2 text-sm";
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold font-display mb-2">Audit Log</h2>
+        <p className="text-slate-600 dark:text-slate-400">
+          Every change made in the admin, who made it and what it changed
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-900/40 rounded-lg px-4 py-3">
+          <p className="text-sm text-red-700 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      <div className="mb-6 flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-xs font-semibold text-slate-600 dark:text-slate-400">
+          Entity
+          <select
+            value={filters.entityType}
+            onChange={(e) => setFilter("entityType", e.target.value)}
+            className={inputClass}
+          >
+            <option value="">All</option>
+            {Object.entries(ENTITY_TYPES).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold text-slate-600 dark:text-slate-400">
+          Entity ID
+          <input
+            type="text"
+            value={filters.entityId}
+            onChange={(e) => setFilter("entityId", e.target.value.trim())}
+            placeholder="Any"
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold text-slate-600 dark:text-slate-400">
+          Admin
+          <select
+            value={filters.adminUserId}
+            onChange={(e) => setFilter("adminUserId", e.target.value)}
+            className={inputClass}
+          >
+            <option value="">Anyone</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.email}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold text-slate-600 dark:text-slate-400">
+          Action
+          <select
+            value={filters.action}
+            onChange={(e) => setFilter("action", e.target.value)}
+            className={inputClass}
+          >
+            <option value="">All</option>
+            <option value="create">Create</option>
+            <option value="update">Update</option>
+            <option value="delete">Delete</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold text-slate-600 dark:text-slate-400">
+          From
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilter("from", e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold text-slate-600 dark:text-slate-400">
+          To
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilter("to", e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => setFilters(EMPTY_FILTERS)}
+          className="px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-800"
+        >
+          Clear
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12 text-slate-500">Loading...</div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12 text-slate-500">
+          No changes recorded
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
+                  When
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
+                  Admin
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
+                  Action
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
+                  Entity
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
+                  Request
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
+                  IP
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
+              {entries.map((entry) => (
+                <Fragment key={entry.id}>
+                  <tr
+                    onClick={() =>
+                      setExpanded(expanded === entry.id ? null : entry.id)
+                    }
+                    className="cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/50"
+                  >
+                    <td className="px-6 py-3 text-slate-500 whitespace-nowrap">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-3 font-medium">
+                      {entry.actorEmail}
+                    </td>
+                    <td className="px-6 py-3">
+                      <span
+                        className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          ACTION_STYLES[entry.action]
+                        }`}
+                      >
+                        {entry.action}
+                      </span>
+                    </td>
+                    <td className="px-6 py-3">
+                      {ENTITY_TYPES[entry.entityType] || entry.entityType}
+                      {entry.entityId && (
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setFilters({
+                              ...EMPTY_FILTERS,
+                              entityType: entry.entityType,
+                              entityId: entry.entityId!,
+                            });
+                          }}
+                          title="Show the history of this record"
+                          className="ml-2 font-mono text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {entry.entityId.slice(0, 12)}
+                        </button>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 font-mono text-xs text-slate-500">
+                      {entry.method} {entry.path.replace(/^\/api\/admin/, "")}
+                    </td>
+                    <td className="px-6 py-3 font-mono text-xs text-slate-500">
+                      {entry.ip || "—"}
+                    </td>
+                  </tr>
+                  {expanded === entry.id && (
+                    <tr className="bg-slate-50 dark:bg-slate-800/30">
+                      <td colSpan={6} className="px-6 py-4">
+                        <Changes entry={entry} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+          {nextCursor && (
+            <div className="p-4 text-center border-t border-slate-200 dark:border-slate-800">
+              <button
+                type="button"
+                onClick={loadMore}
+                className="px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-800"
+              >
+                Load More
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,11 +4,12 @@ import {
   adminCreateManualOrder,
   adminProducts,
   calculateShipping,
+  calculateTax,
 } from "../lib/api";
 import { useAdminAuth } from "../context/AdminAuthContext";
-import { Product } from "../types";
+import { Product, ShippingOption, TaxQuote } from "../types";
 
-type OrderStatus = "pending" | "processing" | "completed" | "PAID";
+type OrderStatus = "pending" | "paid";
 
 type DraftItem = {
   productId: string;
@@ -29,6 +30,7 @@ type ShippingInfo = {
   totalWeightG?: number;
   freeShippingMin?: number | null;
   zone?: string;
+  options?: ShippingOption[];
 };
 
 function formatMoney(cents: number, currency = "usd"): string {
@@ -78,6 +80,7 @@ export default function AdminCreateOrder() {
     shippingCents: 0,
   });
   const [loadingShipping, setLoadingShipping] = useState<boolean>(false);
+  const [shippingMethodId, setShippingMethodId] = useState<string>("");
 
   useEffect(() => {
     if (!isAuthed) return;
@@ -143,7 +146,50 @@ export default function AdminCreateOrder() {
     return base;
   }, [shippingInfo, subtotalCents]);
 
-  const totalCents = subtotalCents + effectiveShippingCents;
+  const [taxInfo, setTaxInfo] = useState<TaxQuote | null>(null);
+
+  // Same tax engine the server applies when the order is created
+  useEffect(() => {
+    if (!isAuthed) return;
+    if (normalizedItems.length === 0) {
+      setTaxInfo(null);
+      return;
+    }
+
+    let cancelled = false;
+    const handle = window.setTimeout(async () => {
+      try {
+        const result = await calculateTax(
+          normalizedItems,
+          {
+            country: (shippingAddress.country || "US").toUpperCase(),
+            state: requiresShipping ? shippingAddress.state : undefined,
+            postalCode: requiresShipping ? shippingAddress.postal : undefined,
+          },
+          requiresShipping ? effectiveShippingCents : 0
+        );
+        if (!cancelled) setTaxInfo(result);
+      } catch {
+        if (!cancelled) setTaxInfo(null);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(handle);
+    };
+  }, [
+    isAuthed,
+    normalizedItems,
+    requiresShipping,
+    shippingAddress.country,
+    shippingAddress.state,
+    shippingAddress.postal,
+    effectiveShippingCents,
+  ]);
+
+  const taxCents = taxInfo?.taxCents ?? 0;
+  const totalCents = subtotalCents + effectiveShippingCents + taxCents;
 
   useEffect(() => {
     if (!isAuthed) return;
@@ -169,11 +215,17 @@ export default function AdminCreateOrder() {
           (shippingAddress.country || "US").toUpperCase()
         );
         if (cancelled) return;
+        const options: ShippingOption[] = Array.isArray(result?.options)
+          ? result.options
+          : [];
+        const option =
+          options.find((o) => o.methodId === shippingMethodId) || options[0];
         setShippingInfo({
-          shippingCents: Number(result?.shippingCents) || 0,
+          shippingCents: option?.rateCents ?? 0,
           totalWeightG: Number(result?.totalWeightG) || 0,
-          freeShippingMin: result?.freeShippingMin ?? null,
+          freeShippingMin: option?.freeShippingMin ?? null,
           zone: String(result?.zone || ""),
+          options,
         });
       } catch {
         if (!cancelled) {
@@ -198,6 +250,7 @@ export default function AdminCreateOrder() {
     requiresShipping,
     normalizedItems,
     shippingAddress.country,
+    shippingMethodId,
   ]);
 
   function updateItem(idx: number, patch: Partial<DraftItem>): void {
@@ -254,6 +307,10 @@ export default function AdminCreateOrder() {
         : null,
     };
 
+    if (requiresShipping && shippingMethodId) {
+      payload.shippingMethodId = shippingMethodId;
+    }
+
     if (!autoShipping) {
       payload.shippingCents = Math.max(
         0,
@@ -326,9 +383,7 @@ export default function AdminCreateOrder() {
                 onChange={(e) => setStatus(e.target.value as OrderStatus)}
               >
                 <option value="pending">Pending</option>
-                <option value="processing">Processing</option>
-                <option value="completed">Completed</option>
-                <option value="PAID">Paid</option>
+                <option value="paid">Paid</option>
               </select>
             </div>
             <div>
@@ -566,6 +621,32 @@ export default function AdminCreateOrder() {
                 />
               </div>
 
+              {(shippingInfo.options?.length || 0) > 1 && (
+                <div className="md:col-span-2">
+                  <label className="block text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wider mb-2">
+                    Shipping Method
+                  </label>
+                  <select
+                    className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm"
+                    value={
+                      shippingMethodId ||
+                      shippingInfo.options?.[0]?.methodId ||
+                      ""
+                    }
+                    onChange={(e) => setShippingMethodId(e.target.value)}
+                  >
+                    {shippingInfo.options?.map((o) => (
+                      <option
+                        key={o.methodId || o.name}
+                        value={o.methodId || ""}
+                      >
+                        {o.name} — {formatMoney(o.shippingCents, currency)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-4 pt-2">
                 <div>
                   <label className="block text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wider mb-2">
@@ -627,6 +708,19 @@ export default function AdminCreateOrder() {
                   {formatMoney(subtotalCents, currency)}
                 </div>
               </div>
+              <div>
+                <div className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase">
+                  Tax
+                </div>
+                <div className="text-lg font-black">
+                  {formatMoney(taxCents, currency)}
+                </div>
+                {taxInfo?.region && (
+                  <div className="text-xs text-slate-500 dark:text-slate-400">
+                    {taxInfo.region}
+                  </div>
+                )}
+              </div>
               <div>
                 <div className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase">
                   Total
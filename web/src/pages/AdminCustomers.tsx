@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { adminCustomers } from "../lib/api";
+import CustomerDetail from "../components/CustomerDetail";
 
 interface Customer {
   id: string;
@@ -18,28 +19,22 @@ interface Customer {
   createdAt: string;
   lastOrderDate?: string;
   status: "active" | "inactive" | "blocked";
+  registered: boolean;
+  marketingConsent: boolean;
+  tags: string[];
 }
 
 type CustomerStatus = "all" | "active" | "inactive" | "blocked";
 
-interface ExpandedCustomer {
-  recentOrders: Array<{
-    id: string;
-    date: string;
-    total: number;
-    status: string;
-  }>;
-}
-
 export default function AdminCustomers() {
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [activeTab, setActiveTab] = useState<CustomerStatus>("all");
-  const [expandedCustomers, setExpandedCustomers] = useState<
-    Record<string, ExpandedCustomer>
-  >({});
+  const [expandedCustomers, setExpandedCustomers] = useState<Set<string>>(
+    new Set()
+  );
   const [selectedCustomers, setSelectedCustomers] = useState<Set<string>>(
     new Set()
   );
@@ -115,33 +110,20 @@ export default function AdminCustomers() {
     return colors[index];
   };
 
-  const toggleCustomerExpansion = async (customerId: string) => {
-    if (expandedCustomers[customerId]) {
-      const newExpanded = { ...expandedCustomers };
-      delete newExpanded[customerId];
-      setExpandedCustomers(newExpanded);
+  const toggleCustomerExpansion = (customerId: string) => {
+    const newExpanded = new Set(expandedCustomers);
+    if (newExpanded.has(customerId)) {
+      newExpanded.delete(customerId);
     } else {
-      // In a real app, fetch recent orders for this customer
-      const mockOrders = [
-        {
-          id: `#RE-${Math.floor(Math.random() * 10000)}`,
-          date: new Date().toISOString(),
-          total: 42.0,
-          status: "Delivered",
-        },
-        {
-          id: `#RE-${Math.floor(Math.random() * 10000)}`,
-          date: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
-          total: 28.0,
-          status: "Delivered",
-        },
-      ];
-
-      setExpandedCustomers({
-        ...expandedCustomers,
-        [customerId]: { recentOrders: mockOrders },
-      });
+      newExpanded.add(customerId);
     }
+    setExpandedCustomers(newExpanded);
+  };
+
+  const setCustomerTags = (customerId: string, tags: string[]) => {
+    setCustomers((prev) =>
+      prev.map((c) => (c.id === customerId ? { ...c, tags } : c))
+    );
   };
 
   const toggleCustomerSelection = (customerId: string) => {
@@ -163,9 +145,11 @@ export default function AdminCustomers() {
   };
 
   const filteredCustomers = customers.filter((customer) => {
+    const query = searchQuery.toLowerCase();
     const matchesSearch =
-      customer.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      customer.email.toLowerCase().includes(searchQuery.toLowerCase());
+      customer.name.toLowerCase().includes(query) ||
+      customer.email.toLowerCase().includes(query) ||
+      customer.tags.some((tag) => tag.includes(query));
 
     const matchesTab = activeTab === "all" || customer.status === activeTab;
 
@@ -242,7 +226,7 @@ export default function AdminCustomers() {
           </span>
           <input
             type="text"
-            placeholder="Search customers by name or email..."
+            placeholder="Search customers by name, email or tag..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="w-full bg-white dark:bg-[#1b0d0e] border border-[#e7cfd0] dark:border-[#3d2122] rounded-lg pl-10 pr-4 py-3 text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary"
@@ -378,12 +362,35 @@ export default function AdminCustomers() {
                           {getInitials(customer.name)}
                         </div>
                         <div>
-                          <p className="text-sm font-bold">{customer.name}</p>
+                          <p className="text-sm font-bold">
+                            {customer.name}
+                            <span
+                              className={`ml-2 text-[10px] font-bold uppercase ${
+                                customer.registered
+                                  ? "text-primary"
+                                  : "text-[#9a4c50]"
+                              }`}
+                            >
+                              {customer.registered ? "Account" : "Guest"}
+                            </span>
+                          </p>
                           {customer.phone && (
                             <p className="text-xs text-[#9a4c50]">
                               {customer.phone}
                             </p>
                           )}
+                          {customer.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {customer.tags.map((tag) => (
+                                <span
+                                  key={tag}
+                                  className="px-1.5 rounded text-[10px] font-bold bg-primary/10 text-primary"
+                                >
+                                  {tag}
+                                </span>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       </div>
                     </td>
@@ -415,110 +422,18 @@ export default function AdminCustomers() {
                   </tr>
 
                   {/* Expanded Content */}
-                  {expandedCustomers[customer.id] && (
+                  {expandedCustomers.has(customer.id) && (
                     <tr className="bg-[#fcf8f8] dark:bg-[#221011]">
                       <td
                         colSpan={8}
                         className="px-10 py-6 border-b border-[#e7cfd0] dark:border-[#3d2122]"
                       >
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-                          {/* Customer Details */}
-                          <div>
-                            <h4 className="text-xs font-bold text-[#9a4c50] uppercase mb-4">
-                              Customer Information
-                            </h4>
-                            <div className="space-y-3">
-                              <div>
-                                <p className="text-xs text-[#9a4c50] mb-1">
-                                  Full Name
-                                </p>
-                                <p className="text-sm font-bold">
-                                  {customer.name}
-                                </p>
-                              </div>
-                              <div>
-                                <p className="text-xs text-[#9a4c50] mb-1">
-                                  Email Address
-                                </p>
-                                <p className="text-sm">{customer.email}</p>
-                              </div>
-                              {customer.phone && (
-                                <div>
-                                  <p className="text-xs text-[#9a4c50] mb-1">
-                                    Phone Number
-                                  </p>
-                                  <p className="text-sm">{customer.phone}</p>
-                                </div>
-                              )}
-                              {customer.address && (
-                                <div>
-                                  <p className="text-xs text-[#9a4c50] mb-1">
-                                    Address
-                                  </p>
-                                  <p className="text-sm">
-                                    {customer.address.street}
-                                    <br />
-                                    {customer.address.city},{" "}
-                                    {customer.address.state}{" "}
-                                    {customer.address.zipCode}
-                                    <br />
-                                    {customer.address.country}
-                                  </p>
-                                </div>
-                              )}
-                              <div>
-                                <p className="text-xs text-[#9a4c50] mb-1">
-                                  Customer Since
-                                </p>
-                                <p className="text-sm">
-                                  {formatDate(customer.createdAt)}
-                                </p>
-                              </div>
-                            </div>
-                          </div>
-
-                          {/* Recent Orders */}
-                          <div>
-                            <h4 className="text-xs font-bold text-[#9a4c50] uppercase mb-4">
-                              Recent Orders
-                            </h4>
-                            <div className="space-y-3">
-                              {expandedCustomers[customer.id].recentOrders.map(
-                                (order) => (
-                                  <div
-                                    key={order.id}
-                                    className="flex items-center justify-between p-3 bg-white dark:bg-[#1b0d0e] rounded-lg border border-[#e7cfd0] dark:border-[#3d2122]"
-                                  >
-                                    <div>
-                                      <p className="text-sm font-bold">
-                                        {order.id}
-                                      </p>
-                                      <p className="text-xs text-[#9a4c50]">
-                                        {formatDate(order.date)}
-                                      </p>
-                                    </div>
-                                    <div className="text-right">
-                                      <p className="text-sm font-bold">
-                                        {formatMoney(order.total)}
-                                      </p>
-                                      <p className="text-xs text-green-600">
-                                        {order.status}
-                                      </p>
-                                    </div>
-                                  </div>
-                                )
-                              )}
-                            </div>
-                            <div className="pt-4 flex gap-3">
-                              <button className="px-4 py-2 bg-[#1b0d0e] dark:bg-white dark:text-[#1b0d0e] text-white text-xs font-bold rounded-lg hover:opacity-90">
-                                View All Orders
-                              </button>
-                              <button className="px-4 py-2 border border-[#e7cfd0] dark:border-[#3d2122] text-xs font-bold rounded-lg hover:bg-white dark:hover:bg-[#1b0d0e]">
-                                Send Email
-                              </button>
-                            </div>
-                          </div>
-                        </div>
+                        <CustomerDetail
+                          customerId={customer.id}
+                          onTagsChange={(tags) =>
+                            setCustomerTags(customer.id, tags)
+                          }
+                        />
                       </td>
                     </tr>
                   )}
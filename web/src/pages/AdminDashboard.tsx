@@ -1,8 +1,9 @@
 import { useEffect, useMemo, useState } from "react";
 import { Link } from "react-router-dom";
-import { adminOrders, adminProducts } from "../lib/api";
+import { adminAllOrders, adminProducts } from "../lib/api";
 import { useAdminAuth } from "../context/AdminAuthContext";
-import { Product } from "../types";
+import AdminAlerts from "../components/AdminAlerts";
+import { OrderItem, Product } from "../types";
 
 interface KPIs {
   currency: string;
@@ -42,13 +43,7 @@ interface OrderResponse {
   currency: string;
   email: string | null;
   createdAt: string;
-  itemsJson: string;
-}
-
-interface ItemFromJson {
-  description?: string;
-  quantity?: number;
-  amountTotal?: number;
+  items: OrderItem[];
 }
 
 function formatMoney(cents: number, currency: string = "usd"): string {
@@ -108,7 +103,7 @@ function downloadCsv(
 }
 
 export default function AdminDashboard() {
-  const { isAuthed } = useAdminAuth();
+  const { isAuthed, can } = useAdminAuth();
 
   const [orders, setOrders] = useState<OrderResponse[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
@@ -120,7 +115,7 @@ export default function AdminDashboard() {
     setError("");
     setLoading(true);
     try {
-      const [o, p] = await Promise.all([adminOrders(), adminProducts()]);
+      const [o, p] = await Promise.all([adminAllOrders(), adminProducts()]);
       setOrders(Array.isArray(o) ? o : []);
       setProducts(Array.isArray(p) ? p : []);
     } catch (e) {
@@ -207,29 +202,24 @@ export default function AdminDashboard() {
       currentOrders.find((o) => o.currency)?.currency || "usd"
     ).toLowerCase();
 
-    // Aggregate items from itemsJson (description + qty + total)
+    // Aggregate order line items by product (qty + total)
     const itemAgg = new Map<
       string,
       { name: string; qty: number; total: number; currency: string }
     >();
     for (const o of currentOrders) {
-      try {
-        const items = JSON.parse(o.itemsJson || "[]");
-        if (!Array.isArray(items)) continue;
-        for (const it of items as ItemFromJson[]) {
-          const key = String(it?.description || "Unknown item");
-          const prev = itemAgg.get(key) || {
-            name: key,
-            qty: 0,
-            total: 0,
-            currency,
-          };
-          prev.qty += Number(it?.quantity) || 0;
-          prev.total += Number(it?.amountTotal) || 0;
-          itemAgg.set(key, prev);
-        }
-      } catch {
-        // ignore
+      for (const it of Array.isArray(o.items) ? o.items : []) {
+        const name = String(it?.productName || "Unknown item");
+        const key = it?.productId || name;
+        const prev = itemAgg.get(key) || {
+          name,
+          qty: 0,
+          total: 0,
+          currency,
+        };
+        prev.qty += Number(it?.quantity) || 0;
+        prev.total += Number(it?.totalCents) || 0;
+        itemAgg.set(key, prev);
       }
     }
 
@@ -247,14 +237,7 @@ export default function AdminDashboard() {
     const activity: Activity[] = [];
     const latestOrder = parsedOrders[0];
     if (latestOrder) {
-      let itemSummary = "New order";
-      try {
-        const items = JSON.parse(latestOrder.itemsJson || "[]");
-        if (Array.isArray(items) && (items[0] as ItemFromJson)?.description)
-          itemSummary = (items[0] as ItemFromJson).description!;
-      } catch {
-        // ignore
-      }
+      const itemSummary = latestOrder.items?.[0]?.productName || "New order";
       activity.push({
         kind: "order",
         title: `New Order #${latestOrder.id}`,
@@ -411,6 +394,8 @@ export default function AdminDashboard() {
         </div>
       )}
 
+      {can("alerts:manage") && <AdminAlerts />}
+
       {!isAuthed && (
         <div className="mb-6 bg-white dark:bg-white/5 border border-gray-200 dark:border-white/10 rounded-xl p-4">
           <p className="text-sm text-gray-600 dark:text-gray-300">
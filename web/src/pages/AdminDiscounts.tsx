@@ -0,0 +1,633 @@
+import { useEffect, useState } from "react";
+import {
+  adminCategories,
+  adminCreateDiscount,
+  adminDeleteDiscount,
+  adminDiscounts,
+  adminInventory,
+  adminUpdateDiscount,
+} from "../lib/api";
+import { Discount, DiscountType } from "../types";
+
+type DiscountDraft = Omit<Discount, "id" | "usageCount" | "redeemedCents"> & {
+  id?: string;
+};
+
+const EMPTY_DISCOUNT: DiscountDraft = {
+  code: "",
+  name: "",
+  type: "percentage",
+  automatic: false,
+  value: 10,
+  buyQuantity: null,
+  getQuantity: null,
+  minSubtotalCents: null,
+  productIds: [],
+  categoryIds: [],
+  usageLimit: null,
+  perCustomerLimit: null,
+  startsAt: null,
+  endsAt: null,
+  active: true,
+};
+
+const TYPE_LABELS: Record<DiscountType, string> = {
+  percentage: "Percentage off",
+  fixed_amount: "Fixed amount off",
+  free_shipping: "Free shipping",
+  buy_x_get_y: "Buy X get Y",
+};
+
+interface ScopeOption {
+  id: string;
+  name: string;
+}
+
+function formatMoney(cents: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format((Number(cents) || 0) / 100);
+}
+
+function describeDiscount(d: Discount): string {
+  switch (d.type) {
+    case "percentage":
+      return `${d.value}% off`;
+    case "fixed_amount":
+      return `${formatMoney(d.value)} off`;
+    case "free_shipping":
+      return "Free shipping";
+    case "buy_x_get_y":
+      return `Buy ${d.buyQuantity} get ${d.getQuantity} ${
+        d.value === 100 ? "free" : `${d.value}% off`
+      }`;
+  }
+}
+
+// <input type="datetime-local"> works in local time without a zone.
+function toLocalInput(value: string | null): string {
+  if (!value) return "";
+  const d = new Date(value);
+  const offset = d.getTimezoneOffset() * 60000;
+  return new Date(d.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function optionalNumber(value: string): number | null {
+  if (value.trim() === "") return null;
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) ? n : null;
+}
+
+function discountStatus(d: Discount): { label: string; className: string } {
+  const now = Date.now();
+  if (!d.active)
+    return { label: "Inactive", className: "bg-slate-100 text-slate-600" };
+  if (d.endsAt && new Date(d.endsAt).getTime() <= now)
+    return { label: "Expired", className: "bg-slate-100 text-slate-600" };
+  if (d.startsAt && new Date(d.startsAt).getTime() > now)
+    return { label: "Scheduled", className: "bg-blue-100 text-blue-700" };
+  if (d.usageLimit !== null && d.usageCount >= d.usageLimit)
+    return { label: "Used up", className: "bg-amber-100 text-amber-700" };
+  return { label: "Active", className: "bg-green-100 text-green-700" };
+}
+
+export default function AdminDiscounts() {
+  const [discounts, setDiscounts] = useState<Discount[]>([]);
+  const [products, setProducts] = useState<ScopeOption[]>([]);
+  const [categories, setCategories] = useState<ScopeOption[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>("");
+  const [draft, setDraft] = useState<DiscountDraft | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  async function loadDiscounts(): Promise<void> {
+    setLoading(true);
+    try {
+      setDiscounts(await adminDiscounts());
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadDiscounts();
+    (async () => {
+      try {
+        const [inventory, cats] = await Promise.all([
+          adminInventory(),
+          adminCategories(),
+        ]);
+        setProducts(
+          (Array.isArray(inventory) ? inventory : []).map((p: any) => ({
+            id: p.productId,
+            name: p.variantName ? `${p.name} (${p.variantName})` : p.name,
+          }))
+        );
+        setCategories(
+          (Array.isArray(cats) ? cats : []).map((c: any) => ({
+            id: c.id,
+            name: c.name,
+          }))
+        );
+      } catch (e) {
+        console.error("Failed to load discount scope options:", e);
+      }
+    })();
+  }, []);
+
+  async function saveDraft(): Promise<void> {
+    if (!draft) return;
+    setError("");
+    setSaving(true);
+    try {
+      const { id, ...payload } = draft;
+      if (id) {
+        await adminUpdateDiscount(id, payload);
+      } else {
+        await adminCreateDiscount(payload);
+      }
+      setDraft(null);
+      await loadDiscounts();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function removeDiscount(discount: Discount): Promise<void> {
+    if (!window.confirm(`Delete the ${discount.name} discount?`)) return;
+    setError("");
+    try {
+      await adminDeleteDiscount(discount.id);
+      await loadDiscounts();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  function toggleScope(
+    key: "productIds" | "categoryIds",
+    id: string,
+    checked: boolean
+  ): void {
+    if (!draft) return;
+    const current = draft[key];
+    setDraft({
+      ...draft,
+      [key]: checked ? [...current, id] : current.filter((x) => x !== id),
+    });
+  }
+
+  const inputClass =
+    "w-full bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-md px-3 py-2 text-sm";
+  const labelClass =
+    "block text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1";
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 py-6 sm:py-8">
+      <div className="mb-6 sm:mb-8 flex flex-col sm:flex-row sm:justify-between sm:items-end gap-4">
+        <div>
+          <h2 className="text-3xl sm:text-4xl font-black tracking-tight text-[#1b0d0e] dark:text-white">
+            Discounts
+          </h2>
+          <p className="text-[#9a4c50] text-sm mt-1">
+            Discount codes customers enter in the cart, and automatic
+            promotions. One discount applies per order: an entered code, or
+            otherwise the automatic promotion saving the most.
+          </p>
+        </div>
+        {!draft && (
+          <button
+            type="button"
+            onClick={() => setDraft({ ...EMPTY_DISCOUNT })}
+            className="inline-flex items-center gap-1 px-4 py-2 bg-primary text-white text-sm font-bold rounded-lg"
+          >
+            <span className="material-symbols-outlined text-lg">add</span>
+            New Discount
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 rounded-lg border border-red-200 dark:border-red-900/40 bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {draft && (
+        <section className="mb-6 p-6 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Name</label>
+              <input
+                className={inputClass}
+                placeholder="Summer sale"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Code</label>
+              <input
+                className={`${inputClass} uppercase disabled:opacity-50`}
+                placeholder="SUMMER10"
+                disabled={draft.automatic}
+                value={draft.code || ""}
+                onChange={(e) =>
+                  setDraft({ ...draft, code: e.target.value.toUpperCase() })
+                }
+              />
+              <label className="mt-2 flex items-center gap-2 text-xs">
+                <input
+                  type="checkbox"
+                  className="rounded border-slate-300 text-primary focus:ring-primary"
+                  checked={draft.automatic}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      automatic: e.target.checked,
+                      code: e.target.checked ? null : "",
+                    })
+                  }
+                />
+                Automatic promotion (no code needed)
+              </label>
+            </div>
+            <div>
+              <label className={labelClass}>Type</label>
+              <select
+                className={inputClass}
+                value={draft.type}
+                onChange={(e) => {
+                  const type = e.target.value as DiscountType;
+                  setDraft({
+                    ...draft,
+                    type,
+                    value:
+                      type === "fixed_amount"
+                        ? 500
+                        : type === "buy_x_get_y"
+                        ? 100
+                        : type === "free_shipping"
+                        ? 0
+                        : 10,
+                    buyQuantity: type === "buy_x_get_y" ? 2 : null,
+                    getQuantity: type === "buy_x_get_y" ? 1 : null,
+                  });
+                }}
+              >
+                {(Object.keys(TYPE_LABELS) as DiscountType[]).map((t) => (
+                  <option key={t} value={t}>
+                    {TYPE_LABELS[t]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {draft.type === "percentage" && (
+              <div>
+                <label className={labelClass}>Percent off</label>
+                <input
+                  className={inputClass}
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={draft.value}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      value: parseInt(e.target.value, 10) || 0,
+                    })
+                  }
+                />
+              </div>
+            )}
+            {draft.type === "fixed_amount" && (
+              <div>
+                <label className={labelClass}>Amount off ($)</label>
+                <input
+                  className={inputClass}
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={draft.value / 100}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      value: Math.round(
+                        (parseFloat(e.target.value) || 0) * 100
+                      ),
+                    })
+                  }
+                />
+              </div>
+            )}
+            {draft.type === "buy_x_get_y" && (
+              <>
+                <div>
+                  <label className={labelClass}>Buy</label>
+                  <input
+                    className={inputClass}
+                    type="number"
+                    min={1}
+                    value={draft.buyQuantity ?? ""}
+                    onChange={(e) =>
+                      setDraft({
+                        ...draft,
+                        buyQuantity: optionalNumber(e.target.value),
+                      })
+                    }
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Get</label>
+                  <input
+                    className={inputClass}
+                    type="number"
+                    min={1}
+                    value={draft.getQuantity ?? ""}
+                    onChange={(e) =>
+                      setDraft({
+                        ...draft,
+                        getQuantity: optionalNumber(e.target.value),
+                      })
+                    }
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>
+                    Percent off the cheaper items
+                  </label>
+                  <input
+                    className={inputClass}
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={draft.value}
+                    onChange={(e) =>
+                      setDraft({
+                        ...draft,
+                        value: parseInt(e.target.value, 10) || 0,
+                      })
+                    }
+                  />
+                </div>
+              </>
+            )}
+            <div>
+              <label className={labelClass}>Minimum subtotal ($)</label>
+              <input
+                className={inputClass}
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="None"
+                value={
+                  draft.minSubtotalCents === null
+                    ? ""
+                    : draft.minSubtotalCents / 100
+                }
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    minSubtotalCents:
+                      e.target.value === ""
+                        ? null
+                        : Math.round((parseFloat(e.target.value) || 0) * 100),
+                  })
+                }
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label className={labelClass}>Total uses</label>
+              <input
+                className={inputClass}
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                value={draft.usageLimit ?? ""}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    usageLimit: optionalNumber(e.target.value),
+                  })
+                }
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Uses per customer</label>
+              <input
+                className={inputClass}
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                value={draft.perCustomerLimit ?? ""}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    perCustomerLimit: optionalNumber(e.target.value),
+                  })
+                }
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Starts</label>
+              <input
+                className={inputClass}
+                type="datetime-local"
+                value={toLocalInput(draft.startsAt)}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    startsAt: fromLocalInput(e.target.value),
+                  })
+                }
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Ends</label>
+              <input
+                className={inputClass}
+                type="datetime-local"
+                value={toLocalInput(draft.endsAt)}
+                onChange={(e) =>
+                  setDraft({ ...draft, endsAt: fromLocalInput(e.target.value) })
+                }
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {(
+              [
+                ["productIds", "Products", products],
+                ["categoryIds", "Categories", categories],
+              ] as const
+            ).map(([key, label, options]) => (
+              <div key={key}>
+                <label className={labelClass}>
+                  {label}{" "}
+                  <span className="font-normal">
+                    (leave both empty to apply to the whole cart)
+                  </span>
+                </label>
+                <div className="max-h-40 overflow-y-auto rounded-md border border-slate-200 dark:border-slate-700 p-2 space-y-1">
+                  {options.length === 0 && (
+                    <p className="text-xs text-slate-500">None</p>
+                  )}
+                  {options.map((o) => (
+                    <label
+                      key={o.id}
+                      className="flex items-center gap-2 text-sm"
+                    >
+                      <input
+                        type="checkbox"
+                        className="rounded border-slate-300 text-primary focus:ring-primary"
+                        checked={draft[key].includes(o.id)}
+                        onChange={(e) =>
+                          toggleScope(key, o.id, e.target.checked)
+                        }
+                      />
+                      {o.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="rounded border-slate-300 text-primary focus:ring-primary"
+                checked={draft.active}
+                onChange={(e) =>
+                  setDraft({ ...draft, active: e.target.checked })
+                }
+              />
+              Active
+            </label>
+            <div className="flex gap-2 ml-auto">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-400"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={saveDraft}
+                disabled={saving}
+                className="px-4 py-2 bg-primary text-white text-sm font-medium rounded-lg disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save Discount"}
+              </button>
+            </div>
+          </div>
+        </section>
+      )}
+
+      <section className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 overflow-x-auto">
+        {loading ? (
+          <p className="p-6 text-sm text-slate-500">Loading discounts...</p>
+        ) : discounts.length === 0 ? (
+          <p className="p-6 text-sm text-slate-500">No discounts yet.</p>
+        ) : (
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="text-xs uppercase text-slate-500 border-b border-slate-200 dark:border-slate-800">
+                <th className="px-4 py-3 font-semibold">Discount</th>
+                <th className="px-4 py-3 font-semibold">Offer</th>
+                <th className="px-4 py-3 font-semibold">Used</th>
+                <th className="px-4 py-3 font-semibold">Saved</th>
+                <th className="px-4 py-3 font-semibold">Status</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {discounts.map((d) => {
+                const status = discountStatus(d);
+                return (
+                  <tr
+                    key={d.id}
+                    className="border-b border-slate-100 dark:border-slate-800"
+                  >
+                    <td className="px-4 py-3">
+                      <div className="font-bold font-mono">
+                        {d.code || "Automatic"}
+                      </div>
+                      <div className="text-xs text-slate-500">{d.name}</div>
+                    </td>
+                    <td className="px-4 py-3">
+                      {describeDiscount(d)}
+                      {d.minSubtotalCents ? (
+                        <div className="text-xs text-slate-500">
+                          Min. {formatMoney(d.minSubtotalCents)}
+                        </div>
+                      ) : null}
+                      {d.productIds.length + d.categoryIds.length > 0 && (
+                        <div className="text-xs text-slate-500">
+                          Selected products only
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {d.usageCount}
+                      {d.usageLimit !== null ? ` / ${d.usageLimit}` : ""}
+                    </td>
+                    <td className="px-4 py-3">
+                      {formatMoney(d.redeemedCents || 0)}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${status.className}`}
+                      >
+                        {status.label}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => setDraft({ ...d })}
+                        className="text-slate-500 hover:text-primary"
+                      >
+                        <span className="material-symbols-outlined text-lg">
+                          edit
+                        </span>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeDiscount(d)}
+                        className="ml-2 text-slate-500 hover:text-red-600"
+                      >
+                        <span className="material-symbols-outlined text-lg">
+                          delete
+                        </span>
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  adminEmail,
+  adminEmailPreview,
+  adminEmails,
+  adminRetryEmail,
+} from "../lib/api";
+import { EmailMessage, EmailPreview } from "../types";
+
+interface EmailTemplateOption {
+  key: string;
+  label: string;
+}
+
+const STATUS_STYLES: Record<EmailMessage["status"], string> = {
+  pending:
+    "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300",
+  sent: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
+  failed: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+};
+
+function formatDateTime(value: string | null): string {
+  if (!value) return "—";
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function AdminEmails() {
+  const [templates, setTemplates] = useState<EmailTemplateOption[]>([]);
+  const [emails, setEmails] = useState<EmailMessage[]>([]);
+  const [smtpConfigured, setSmtpConfigured] = useState<boolean>(true);
+  const [statusFilter, setStatusFilter] = useState<string>("");
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>("");
+
+  const [template, setTemplate] = useState<string>("");
+  const [orderId, setOrderId] = useState<string>("");
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string>("");
+
+  // A queued message opened from the log, shown instead of the template.
+  const [viewing, setViewing] = useState<EmailMessage | null>(null);
+
+  async function loadEmails(): Promise<void> {
+    try {
+      setError("");
+      const data = await adminEmails(statusFilter || undefined);
+      setEmails(data.emails || []);
+      setTemplates(data.templates || []);
+      setSmtpConfigured(Boolean(data.smtpConfigured));
+      if (!template && data.templates?.length) {
+        setTemplate(data.templates[0].key);
+      }
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadPreview(): Promise<void> {
+    if (!template) return;
+    try {
+      setPreviewError("");
+      setPreview(
+        await adminEmailPreview(template, orderId.trim() || undefined)
+      );
+    } catch (e) {
+      setPreview(null);
+      setPreviewError((e as Error).message);
+    }
+  }
+
+  useEffect(() => {
+    loadEmails();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadPreview();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [template]);
+
+  async function openEmail(id: string): Promise<void> {
+    try {
+      setViewing(await adminEmail(id));
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function retry(id: string): Promise<void> {
+    try {
+      await adminRetryEmail(id);
+      await loadEmails();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  const shown = viewing
+    ? { subject: viewing.subject, html: viewing.html || "" }
+    : preview;
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 py-6 sm:py-8">
+      <div className="mb-6 sm:mb-8">
+        <h2 className="text-3xl sm:text-4xl font-black tracking-tight text-[#1b0d0e] dark:text-white">
+          Emails
+        </h2>
+        <p className="text-[#9a4c50] text-sm mt-1">
+          Preview transactional emails and track delivery. Templates use the
+          store name, logo and primary color from Store Settings.
+        </p>
+      </div>
+
+      {!smtpConfigured && (
+        <div className="mb-6 p-4 rounded-lg border border-amber-200 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-200">
+          SMTP is not configured. Emails are queued and will be sent once
+          SMTP_HOST is set on the server.
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 rounded-lg border border-red-200 dark:border-red-900/40 bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Preview */}
+        <section className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 overflow-hidden">
+          <div className="p-4 border-b border-slate-200 dark:border-slate-800 space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {templates.map((t) => (
+                <button
+                  key={t.key}
+                  onClick={() => {
+                    setViewing(null);
+                    setTemplate(t.key);
+                  }}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-bold ${
+                    !viewing && template === t.key
+                      ? "bg-primary text-white"
+                      : "bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300"
+                  }`}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </div>
+            {!viewing && (
+              <div className="flex gap-2">
+                <input
+                  className="flex-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-1.5 text-xs"
+                  placeholder="Order ID (defaults to the latest order)"
+                  value={orderId}
+                  onChange={(e) => setOrderId(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && loadPreview()}
+                />
+                <button
+                  onClick={loadPreview}
+                  className="px-3 py-1.5 rounded-lg text-xs font-bold border border-slate-200 dark:border-slate-700"
+                >
+                  Render
+                </button>
+              </div>
+            )}
+            {viewing && (
+              <div className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+                <span>
+                  Sent to {viewing.to} · {formatDateTime(viewing.createdAt)}
+                </span>
+                <button
+                  onClick={() => setViewing(null)}
+                  className="font-bold text-primary hover:underline"
+                >
+                  Back to templates
+                </button>
+              </div>
+            )}
+          </div>
+
+          {previewError && !viewing && (
+            <p className="p-4 text-xs text-red-600 dark:text-red-300">
+              {previewError}
+            </p>
+          )}
+          {shown && (
+            <>
+              <div className="px-4 py-2 text-sm font-semibold border-b border-slate-200 dark:border-slate-800">
+                {shown.subject}
+              </div>
+              <iframe
+                title="Email preview"
+                className="w-full h-[600px] bg-white"
+                sandbox=""
+                srcDoc={shown.html}
+              />
+            </>
+          )}
+        </section>
+
+        {/* Queue */}
+        <section className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 overflow-hidden">
+          <div className="p-4 border-b border-slate-200 dark:border-slate-800 flex items-center justify-between gap-3">
+            <h3 className="font-bold">Outbox</h3>
+            <select
+              className="bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+            >
+              <option value="">All statuses</option>
+              <option value="pending">Pending</option>
+              <option value="sent">Sent</option>
+              <option value="failed">Failed</option>
+            </select>
+          </div>
+
+          {loading ? (
+            <p className="p-4 text-sm text-slate-500">Loading emails...</p>
+          ) : emails.length === 0 ? (
+            <p className="p-4 text-sm text-slate-500">No emails yet</p>
+          ) : (
+            <ul className="divide-y divide-slate-200 dark:divide-slate-800">
+              {emails.map((email) => (
+                <li key={email.id} className="p-4 text-xs space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <button
+                      onClick={() => openEmail(email.id)}
+                      className="font-semibold text-sm text-left hover:underline"
+                    >
+                      {email.subject}
+                    </button>
+                    <span
+                      className={`px-2 py-0.5 rounded-full font-bold uppercase text-[10px] ${
+                        STATUS_STYLES[email.status]
+                      }`}
+                    >
+                      {email.status}
+                    </span>
+                  </div>
+                  <div className="text-slate-500 dark:text-slate-400">
+                    {email.to} · {formatDateTime(email.createdAt)}
+                    {email.sentAt
+                      ? ` · sent ${formatDateTime(email.sentAt)}`
+                      : ""}
+                    {email.attempts > 0 ? ` · ${email.attempts} attempts` : ""}
+                    {email.orderId && (
+                      <>
+                        {" · "}
+                        <Link
+                          className="text-primary hover:underline"
+                          to="/admin/orders"
+                        >
+                          order
+                        </Link>
+                      </>
+                    )}
+                  </div>
+                  {email.lastError && email.status !== "sent" && (
+                    <div className="text-red-600 dark:text-red-300">
+                      {email.lastError}
+                      {email.status === "pending" &&
+                        ` · next try ${formatDateTime(email.nextAttemptAt)}`}
+                    </div>
+                  )}
+                  {email.status === "failed" && (
+                    <button
+                      onClick={() => retry(email.id)}
+                      className="font-bold text-primary hover:underline"
+                    >
+                      Retry
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -10,9 +10,16 @@ import {
   adminAddProductImage,
   adminUpdateProductImage,
   adminDeleteProductImage,
+  adminProductStockHistory,
+  adminCreateStockMovement,
 } from "../lib/api";
 import { useAdminAuth } from "../context/AdminAuthContext";
-import { Product, ProductCategory } from "../types";
+import {
+  Product,
+  ProductCategory,
+  StockHistory,
+  StockMovementReason,
+} from "../types";
 import { MediaGallery } from "../components/MediaGallery";
 
 const LOW_STOCK_THRESHOLD = 10;
@@ -30,10 +37,14 @@ interface StockStatus {
   kind: "in" | "low" | "out" | "inactive";
 }
 
-function statusForStock(stock: number, active: boolean): StockStatus {
+function statusForStock(
+  stock: number,
+  active: boolean,
+  threshold: number = LOW_STOCK_THRESHOLD
+): StockStatus {
   if (!active) return { label: "Inactive", kind: "inactive" };
   if (stock === 0) return { label: "Out of Stock", kind: "out" };
-  if (stock <= LOW_STOCK_THRESHOLD) return { label: "Low Stock", kind: "low" };
+  if (stock <= threshold) return { label: "Low Stock", kind: "low" };
   return { label: "In Stock", kind: "in" };
 }
 
@@ -80,7 +91,10 @@ interface ProductFormData {
   priceCents: number | string;
   currency: string;
   stock: number | string;
+  // Blank uses the store-wide threshold.
+  lowStockThreshold: number | string;
   requiresShipping: boolean;
+  taxExempt: boolean;
   weightGrams: number | string;
   weightOz: number | string;
   weightG: number | string;
@@ -126,8 +140,10 @@ function ProductModal({
       currency: p.currency || "usd",
       stock:
         typeof p.stock === "number" && Number.isInteger(p.stock) ? p.stock : 0,
+      lowStockThreshold: p.lowStockThreshold ?? "",
       requiresShipping:
         typeof p.requiresShipping === "boolean" ? p.requiresShipping : true,
+      taxExempt: !!p.taxExempt,
       weightGrams: p.weightGrams ?? "",
       weightOz: p.weightOz ?? "",
       weightG: p.weightG ?? "",
@@ -470,10 +486,15 @@ function ProductModal({
             priceCents: Math.round(variant.price * 100),
             currency: (form.currency || "usd").trim().toLowerCase(),
             stock: variant.stock,
+            lowStockThreshold:
+              form.lowStockThreshold === ""
+                ? null
+                : parseInt(String(form.lowStockThreshold), 10),
             active: !!form.active,
             imageUrl: form.imageUrl.trim() || null,
             description: form.description || null,
             requiresShipping: !!form.requiresShipping,
+            taxExempt: !!form.taxExempt,
             weightGrams:
               form.weightGrams === ""
                 ? null
@@ -507,10 +528,15 @@ function ProductModal({
           priceCents: parseInt(String(form.priceCents), 10),
           currency: (form.currency || "usd").trim().toLowerCase(),
           stock: parseInt(String(form.stock), 10),
+          lowStockThreshold:
+            form.lowStockThreshold === ""
+              ? null
+              : parseInt(String(form.lowStockThreshold), 10),
           active: !!form.active,
           imageUrl: form.imageUrl.trim() || null,
           description: form.description || null,
           requiresShipping: !!form.requiresShipping,
+          taxExempt: !!form.taxExempt,
           weightGrams:
             form.weightGrams === ""
               ? null
@@ -1225,6 +1251,25 @@ function ProductModal({
                         disabled={saving}
                       />
                     </label>
+                    <label className="block">
+                      <span className="text-xs font-bold text-slate-500 dark:text-slate-400 mb-1 block uppercase">
+                        Low Stock Alert
+                      </span>
+                      <input
+                        className="w-full bg-white dark:bg-slate-950 border-slate-200 dark:border-slate-800 rounded-lg text-sm p-2"
+                        type="number"
+                        min="0"
+                        value={form.lowStockThreshold}
+                        onChange={(e) =>
+                          setForm((p) => ({
+                            ...p,
+                            lowStockThreshold: e.target.value,
+                          }))
+                        }
+                        placeholder="Store default"
+                        disabled={saving}
+                      />
+                    </label>
                     <label className="block">
                       <span className="text-xs font-bold text-slate-500 dark:text-slate-400 mb-1 block uppercase">
                         Size/Variant
@@ -1264,6 +1309,24 @@ function ProductModal({
                       Requires Shipping
                     </label>
                   </div>
+                  <div className="flex items-center gap-3">
+                    <input
+                      id="taxExempt"
+                      type="checkbox"
+                      checked={!!form.taxExempt}
+                      onChange={(e) =>
+                        setForm((p) => ({
+                          ...p,
+                          taxExempt: e.target.checked,
+                        }))
+                      }
+                      disabled={saving}
+                      className="rounded border-slate-300 text-primary focus:ring-primary dark:bg-slate-800 dark:border-slate-700"
+                    />
+                    <label htmlFor="taxExempt" className="text-sm font-medium">
+                      Tax Exempt
+                    </label>
+                  </div>
                   <div className="grid grid-cols-3 gap-3">
                     <div>
                       <label className="block text-xs text-slate-500 dark:text-slate-400 mb-1">
@@ -1557,6 +1620,298 @@ function ProductModal({
   );
 }
 
+const MOVEMENT_REASON_LABELS: Record<StockMovementReason, string> = {
+  sale: "Sale",
+  adjustment: "Adjustment",
+  restock: "Restock",
+  return: "Return",
+  damage: "Damage",
+  count: "Count",
+};
+
+// Reasons an admin can book by hand; sales come from orders.
+const MANUAL_MOVEMENT_REASONS: StockMovementReason[] = [
+  "restock",
+  "return",
+  "damage",
+  "adjustment",
+  "count",
+];
+
+function monthRange(month: string): { from: string; to: string } {
+  const [y, m] = month.split("-").map((v) => parseInt(v, 10));
+  return {
+    from: new Date(y, m - 1, 1).toISOString(),
+    to: new Date(y, m, 1).toISOString(),
+  };
+}
+
+function StockHistoryPanel({
+  product,
+  onClose,
+  onChanged,
+}: {
+  product: Product;
+  onClose: () => void;
+  onChanged: () => void;
+}) {
+  const { can } = useAdminAuth();
+  const [month, setMonth] = useState<string>(() => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(
+      2,
+      "0"
+    )}`;
+  });
+  const [history, setHistory] = useState<StockHistory | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+
+  const [reason, setReason] = useState<StockMovementReason>("restock");
+  const [quantity, setQuantity] = useState<string>("");
+  const [note, setNote] = useState<string>("");
+  const [saving, setSaving] = useState<boolean>(false);
+
+  async function loadHistory(): Promise<void> {
+    setError("");
+    setLoading(true);
+    try {
+      const data = await adminProductStockHistory(
+        product.id,
+        month ? monthRange(month) : {}
+      );
+      setHistory(data);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadHistory();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [product.id, month]);
+
+  async function submit(): Promise<void> {
+    const n = parseInt(quantity, 10);
+    if (!Number.isInteger(n) || (reason !== "count" && n === 0)) {
+      setError("Enter a quantity");
+      return;
+    }
+    setError("");
+    setSaving(true);
+    try {
+      await adminCreateStockMovement(product.id, {
+        reason,
+        ...(reason === "count"
+          ? { stock: n }
+          : {
+              // Damage always removes stock; restocks and returns add it.
+              delta:
+                reason === "damage"
+                  ? -Math.abs(n)
+                  : reason === "adjustment"
+                  ? n
+                  : Math.abs(n),
+            }),
+        note: note.trim() || undefined,
+      });
+      setQuantity("");
+      setNote("");
+      await loadHistory();
+      onChanged();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const summary = history?.summary;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 p-4 overflow-y-auto">
+      <div className="w-full max-w-3xl my-8 rounded-2xl bg-white dark:bg-slate-900 shadow-2xl overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-black tracking-tight">Stock History</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {product.name} · {product.sku} ·{" "}
+              {history?.product.stock ?? product.stock} in stock
+            </p>
+          </div>
+          <button
+            type="button"
+            className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-300">{error}</p>
+          )}
+
+          {can("inventory:write") && (
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">
+                Reason
+                <select
+                  className="mt-1 block bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm normal-case font-normal"
+                  value={reason}
+                  onChange={(e) =>
+                    setReason(e.target.value as StockMovementReason)
+                  }
+                >
+                  {MANUAL_MOVEMENT_REASONS.map((r) => (
+                    <option key={r} value={r}>
+                      {MOVEMENT_REASON_LABELS[r]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">
+                {reason === "count"
+                  ? "Counted"
+                  : reason === "adjustment"
+                  ? "Change (+/-)"
+                  : "Quantity"}
+                <input
+                  className="mt-1 block w-28 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm"
+                  type="number"
+                  min={reason === "adjustment" ? undefined : 0}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                />
+              </label>
+              <label className="flex-1 min-w-[160px] text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">
+                Note
+                <input
+                  className="mt-1 block w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm normal-case font-normal"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+              </label>
+              <button
+                type="button"
+                className="px-4 py-2 bg-primary text-white text-sm font-bold rounded-lg hover:bg-primary/90 disabled:opacity-50"
+                disabled={saving || !quantity}
+                onClick={submit}
+              >
+                Record
+              </button>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <input
+              className="bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm"
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+            />
+            {summary && (
+              <p className="text-xs text-slate-600 dark:text-slate-400">
+                Opening{" "}
+                <span className="font-bold text-slate-900 dark:text-white">
+                  {summary.openingStock}
+                </span>
+                {(Object.keys(summary.byReason) as StockMovementReason[]).map(
+                  (r) => (
+                    <span key={r}>
+                      {" · "}
+                      {MOVEMENT_REASON_LABELS[r] || r}{" "}
+                      {(summary.byReason[r] || 0) > 0 ? "+" : ""}
+                      {summary.byReason[r]}
+                    </span>
+                  )
+                )}
+                {" · "}Closing{" "}
+                <span className="font-bold text-slate-900 dark:text-white">
+                  {summary.closingStock}
+                </span>
+              </p>
+            )}
+          </div>
+
+          <div className="overflow-x-auto border border-slate-200 dark:border-slate-800 rounded-lg">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-50 dark:bg-slate-800/50 text-xs uppercase text-slate-500 dark:text-slate-400">
+                <tr>
+                  <th className="px-4 py-2">Date</th>
+                  <th className="px-4 py-2">Reason</th>
+                  <th className="px-4 py-2 text-right">Change</th>
+                  <th className="px-4 py-2 text-right">Stock</th>
+                  <th className="px-4 py-2">By</th>
+                  <th className="px-4 py-2">Note</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
+                {!history || history.movements.length === 0 ? (
+                  <tr>
+                    <td
+                      className="px-4 py-6 text-center text-slate-500 dark:text-slate-400"
+                      colSpan={6}
+                    >
+                      {loading ? "Loading…" : "No stock movements this month."}
+                    </td>
+                  </tr>
+                ) : (
+                  history.movements.map((m) => (
+                    <tr key={m.id}>
+                      <td className="px-4 py-2 whitespace-nowrap text-slate-500 dark:text-slate-400">
+                        {new Date(m.createdAt).toLocaleString("en-US", {
+                          month: "short",
+                          day: "numeric",
+                          hour: "numeric",
+                          minute: "2-digit",
+                        })}
+                      </td>
+                      <td className="px-4 py-2">
+                        {MOVEMENT_REASON_LABELS[m.reason] || m.reason}
+                      </td>
+                      <td
+                        className={`px-4 py-2 text-right font-semibold ${
+                          m.delta < 0
+                            ? "text-red-600 dark:text-red-400"
+                            : "text-green-600 dark:text-green-400"
+                        }`}
+                      >
+                        {m.delta > 0 ? "+" : ""}
+                        {m.delta}
+                      </td>
+                      <td className="px-4 py-2 text-right">{m.stockAfter}</td>
+                      <td className="px-4 py-2 text-slate-500 dark:text-slate-400">
+                        {m.adminUser
+                          ? m.adminUser.name || m.adminUser.email
+                          : "System"}
+                      </td>
+                      <td className="px-4 py-2 text-slate-500 dark:text-slate-400">
+                        {[
+                          m.orderId
+                            ? `Order #${m.orderId.toUpperCase().slice(0, 8)}`
+                            : null,
+                          m.note,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 interface ModalState {
   mode: "create" | "edit";
   product?: Product;
@@ -1570,7 +1925,7 @@ interface InventoryStats {
 }
 
 export default function AdminInventory() {
-  const { isAuthed } = useAdminAuth();
+  const { isAuthed, can } = useAdminAuth();
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string>("");
 
@@ -1582,6 +1937,7 @@ export default function AdminInventory() {
   const [sort, setSort] = useState<string>("newest");
 
   const [modal, setModal] = useState<ModalState | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
 
   async function load(): Promise<void> {
     if (!isAuthed) return;
@@ -1667,7 +2023,10 @@ export default function AdminInventory() {
     const totalSkus = products.length;
     const inStockUnits = products.reduce((sum, p) => sum + (p.stock || 0), 0);
     const low = products.filter(
-      (p) => p.active && p.stock > 0 && p.stock <= LOW_STOCK_THRESHOLD
+      (p) =>
+        p.active &&
+        p.stock > 0 &&
+        p.stock <= (p.lowStockThreshold ?? LOW_STOCK_THRESHOLD)
     ).length;
     const out = products.filter((p) => p.active && p.stock === 0).length;
     return { totalSkus, inStockUnits, low, out };
@@ -1751,15 +2110,19 @@ export default function AdminInventory() {
             </span>
             Export
           </button>
-          <button
-            type="button"
-            className="inline-flex items-center px-4 py-2 bg-primary text-white text-sm font-medium rounded-md hover:bg-primary/90 shadow-md transition-all active:scale-95 disabled:opacity-60"
-            onClick={() => setModal({ mode: "create" })}
-            disabled={!isAuthed || loading}
-          >
-            <span className="material-symbols-outlined text-xl mr-2">add</span>
-            Add New Product
-          </button>
+          {can("products:write") && (
+            <button
+              type="button"
+              className="inline-flex items-center px-4 py-2 bg-primary text-white text-sm font-medium rounded-md hover:bg-primary/90 shadow-md transition-all active:scale-95 disabled:opacity-60"
+              onClick={() => setModal({ mode: "create" })}
+              disabled={!isAuthed || loading}
+            >
+              <span className="material-symbols-outlined text-xl mr-2">
+                add
+              </span>
+              Add New Product
+            </button>
+          )}
         </div>
       </div>
 
@@ -1901,7 +2264,11 @@ export default function AdminInventory() {
                 </tr>
               ) : (
                 filtered.map((p) => {
-                  const status = statusForStock(p.stock, p.active);
+                  const status = statusForStock(
+                    p.stock,
+                    p.active,
+                    p.lowStockThreshold ?? LOW_STOCK_THRESHOLD
+                  );
                   const statusClass =
                     status.kind === "in"
                       ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400"
@@ -1968,25 +2335,42 @@ export default function AdminInventory() {
                         <button
                           type="button"
                           className="text-slate-400 hover:text-primary transition-colors"
-                          onClick={() => setModal({ mode: "edit", product: p })}
+                          onClick={() => setHistoryProduct(p)}
                           disabled={loading}
-                          aria-label="Edit"
+                          aria-label="Stock history"
                         >
                           <span className="material-symbols-outlined text-lg">
-                            edit
-                          </span>
-                        </button>
-                        <button
-                          type="button"
-                          className="text-slate-400 hover:text-red-600 transition-colors"
-                          onClick={() => onDelete(p)}
-                          disabled={loading}
-                          aria-label="Delete"
-                        >
-                          <span className="material-symbols-outlined text-lg">
-                            delete
+                            history
                           </span>
                         </button>
+                        {can("products:write") && (
+                          <>
+                            <button
+                              type="button"
+                              className="text-slate-400 hover:text-primary transition-colors"
+                              onClick={() =>
+                                setModal({ mode: "edit", product: p })
+                              }
+                              disabled={loading}
+                              aria-label="Edit"
+                            >
+                              <span className="material-symbols-outlined text-lg">
+                                edit
+                              </span>
+                            </button>
+                            <button
+                              type="button"
+                              className="text-slate-400 hover:text-red-600 transition-colors"
+                              onClick={() => onDelete(p)}
+                              disabled={loading}
+                              aria-label="Delete"
+                            >
+                              <span className="material-symbols-outlined text-lg">
+                                delete
+                              </span>
+                            </button>
+                          </>
+                        )}
                       </td>
                     </tr>
                   );
@@ -2044,6 +2428,13 @@ export default function AdminInventory() {
           }}
         />
       )}
+      {historyProduct && (
+        <StockHistoryPanel
+          product={historyProduct}
+          onClose={() => setHistoryProduct(null)}
+          onChanged={load}
+        />
+      )}
     </div>
   );
 }
@@ -1,8 +1,23 @@
 import { FormEvent, useEffect, useMemo, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import { useAdminAuth } from "../context/AdminAuthContext";
 import Header from "../components/Header";
 import Brand from "../components/Brand";
+import TwoFactorSetup from "../components/TwoFactorSetup";
+import RecoveryCodes from "../components/RecoveryCodes";
+import { forgotAdminPassword } from "../lib/api";
+import type { AdminUser } from "../types";
+
+type Step = "password" | "two_factor" | "two_factor_setup" | "forgot";
+
+const STEP_INTROS: Record<Step, string> = {
+  password: "Welcome back. Please enter your credentials.",
+  two_factor:
+    "Enter the 6-digit code from your authenticator app, or a recovery code.",
+  two_factor_setup:
+    "This store requires two-factor authentication. Set it up to continue.",
+  forgot: "Enter your email and we'll send you a link to reset your password.",
+};
 
 export default function AdminLogin() {
   const [email, setEmail] = useState<string>("");
@@ -10,7 +25,16 @@ export default function AdminLogin() {
   const [showPassword, setShowPassword] = useState<boolean>(false);
   const [error, setError] = useState<string>("");
   const [loading, setLoading] = useState<boolean>(false);
-  const { login } = useAdminAuth();
+  const [step, setStep] = useState<Step>("password");
+  const [code, setCode] = useState<string>("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [enrolledUser, setEnrolledUser] = useState<AdminUser | null>(null);
+  const location = useLocation();
+  // e.g. "Password updated" after following a reset link
+  const [notice, setNotice] = useState<string>(
+    (location.state as { notice?: string } | null)?.notice ?? ""
+  );
+  const { login, verifyTwoFactor, setUser } = useAdminAuth();
   const navigate = useNavigate();
 
   // Initialize theme once
@@ -34,8 +58,9 @@ export default function AdminLogin() {
     setLoading(true);
 
     try {
-      await login(email, password);
-      navigate("/admin");
+      const next = await login(email, password);
+      if (next === "signed_in") navigate("/admin");
+      else setStep(next);
     } catch (err) {
       const errorMessage =
         err instanceof Error
@@ -47,6 +72,70 @@ export default function AdminLogin() {
     }
   };
 
+  const handleCodeSubmit = async (
+    e: FormEvent<HTMLFormElement>
+  ): Promise<void> => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    try {
+      await verifyTwoFactor(code);
+      navigate("/admin");
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Unable to verify the code.";
+      setError(errorMessage);
+      // The server drops the login after too many wrong codes.
+      if (errorMessage.includes("sign in again")) {
+        setStep("password");
+        setCode("");
+        setPassword("");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEnrolled = (codes: string[], user?: AdminUser): void => {
+    setRecoveryCodes(codes);
+    setEnrolledUser(user ?? null);
+  };
+
+  const handleRecoveryCodesSaved = (): void => {
+    setUser(enrolledUser);
+    navigate("/admin");
+  };
+
+  const startOver = (): void => {
+    setStep("password");
+    setCode("");
+    setPassword("");
+    setError("");
+  };
+
+  const handleForgotSubmit = async (
+    e: FormEvent<HTMLFormElement>
+  ): Promise<void> => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    try {
+      await forgotAdminPassword(email);
+      setStep("password");
+      setNotice(
+        "If that email belongs to an admin, a reset link is on its way."
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Unable to send a reset link."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="bg-background-light dark:bg-background-dark text-stone-800 dark:text-stone-200 font-sans transition-colors duration-300 min-h-screen">
       <Header
@@ -67,7 +156,7 @@ export default function AdminLogin() {
               Admin Sign In
             </h1>
             <p className="text-[#9a4c50] dark:text-[#c08d90] mt-2 text-sm">
-              Welcome back. Please enter your credentials.
+              {recoveryCodes ? "Two-factor is on." : STEP_INTROS[step]}
             </p>
           </div>
 
@@ -78,58 +167,162 @@ export default function AdminLogin() {
               </div>
             )}
 
-            <form onSubmit={handleSubmit} className="space-y-4">
-              {/* Email Field */}
-              <div className="flex flex-col w-full">
-                <label className="text-[#1b0d0e] dark:text-white text-sm font-semibold leading-normal pb-2">
-                  Email Address
-                </label>
-                <input
-                  className="form-input flex w-full min-w-0 resize-none overflow-hidden rounded-lg text-[#1b0d0e] dark:text-white focus:outline-0 focus:ring-2 focus:ring-primary/50 border border-[#e7cfd0] dark:border-[#3d2426] bg-background-light dark:bg-[#221011] h-12 placeholder:text-[#9a4c50] p-[15px] text-base font-normal leading-normal"
-                  placeholder="Enter your email"
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
+            {notice && !error && (
+              <div className="mb-4 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 text-sm">
+                {notice}
+              </div>
+            )}
+
+            {step === "forgot" && (
+              <form onSubmit={handleForgotSubmit} className="space-y-4">
+                <div className="flex flex-col w-full">
+                  <label className="text-[#1b0d0e] dark:text-white text-sm font-semibold leading-normal pb-2">
+                    Email Address
+                  </label>
+                  <input
+                    className="form-input flex w-full min-w-0 resize-none overflow-hidden rounded-lg text-[#1b0d0e] dark:text-white focus:outline-0 focus:ring-2 focus:ring-primary/50 border border-[#e7cfd0] dark:border-[#3d2426] bg-background-light dark:bg-[#221011] h-12 placeholder:text-[#9a4c50] p-[15px] text-base font-normal leading-normal"
+                    placeholder="Enter your email"
+                    type="email"
+                    autoFocus
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    disabled={loading}
+                  />
+                </div>
+
+                <button
+                  className="w-full flex items-center justify-center rounded-lg h-12 px-4 bg-primary text-white text-base font-bold leading-normal tracking-[0.015em] hover:bg-red-700 transition-colors shadow-md mt-6 disabled:opacity-60 disabled:cursor-not-allowed"
+                  type="submit"
                   disabled={loading}
+                >
+                  {loading ? "Sending..." : "Send Reset Link"}
+                </button>
+                <button
+                  type="button"
+                  onClick={startOver}
+                  className="w-full text-sm text-[#9a4c50] dark:text-[#c08d90] hover:text-primary"
+                >
+                  Back to sign in
+                </button>
+              </form>
+            )}
+
+            {step === "two_factor_setup" &&
+              (recoveryCodes ? (
+                <RecoveryCodes
+                  codes={recoveryCodes}
+                  onDone={handleRecoveryCodesSaved}
                 />
-              </div>
+              ) : (
+                <TwoFactorSetup
+                  onEnabled={handleEnrolled}
+                  onCancel={startOver}
+                />
+              ))}
 
-              {/* Password Field */}
-              <div className="flex flex-col w-full">
-                <label className="text-[#1b0d0e] dark:text-white text-sm font-semibold leading-normal pb-2">
-                  Password
-                </label>
-                <div className="flex w-full items-stretch rounded-lg group">
+            {step === "two_factor" && (
+              <form onSubmit={handleCodeSubmit} className="space-y-4">
+                <div className="flex flex-col w-full">
+                  <label className="text-[#1b0d0e] dark:text-white text-sm font-semibold leading-normal pb-2">
+                    Authentication Code
+                  </label>
                   <input
-                    className="form-input flex w-full min-w-0 flex-1 resize-none overflow-hidden rounded-lg rounded-r-none border-r-0 text-[#1b0d0e] dark:text-white focus:outline-0 focus:ring-0 border border-[#e7cfd0] dark:border-[#3d2426] bg-background-light dark:bg-[#221011] h-12 placeholder:text-[#9a4c50] p-[15px] text-base font-normal leading-normal"
-                    placeholder="Enter your password"
-                    type={showPassword ? "text" : "password"}
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
+                    className="form-input flex w-full min-w-0 resize-none overflow-hidden rounded-lg text-[#1b0d0e] dark:text-white focus:outline-0 focus:ring-2 focus:ring-primary/50 border border-[#e7cfd0] dark:border-[#3d2426] bg-background-light dark:bg-[#221011] h-12 placeholder:text-[#9a4c50] p-[15px] text-base font-mono tracking-widest text-center leading-normal"
+                    placeholder="123456"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
                     required
                     disabled={loading}
                   />
-                  <div
-                    className="text-[#9a4c50] flex border border-[#e7cfd0] dark:border-[#3d2426] bg-background-light dark:bg-[#221011] items-center justify-center pr-[15px] rounded-r-lg border-l-0 cursor-pointer hover:text-primary transition-colors"
-                    onClick={() => setShowPassword(!showPassword)}
-                  >
-                    <span className="material-symbols-outlined text-[24px]">
-                      {showPassword ? "visibility_off" : "visibility"}
-                    </span>
+                </div>
+
+                <button
+                  className="w-full flex items-center justify-center rounded-lg h-12 px-4 bg-primary text-white text-base font-bold leading-normal tracking-[0.015em] hover:bg-red-700 transition-colors shadow-md mt-6 disabled:opacity-60 disabled:cursor-not-allowed"
+                  type="submit"
+                  disabled={loading}
+                >
+                  {loading ? "Verifying..." : "Verify"}
+                </button>
+                <button
+                  type="button"
+                  onClick={startOver}
+                  className="w-full text-sm text-[#9a4c50] dark:text-[#c08d90] hover:text-primary"
+                >
+                  Use a different account
+                </button>
+              </form>
+            )}
+
+            {step === "password" && (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {/* Email Field */}
+                <div className="flex flex-col w-full">
+                  <label className="text-[#1b0d0e] dark:text-white text-sm font-semibold leading-normal pb-2">
+                    Email Address
+                  </label>
+                  <input
+                    className="form-input flex w-full min-w-0 resize-none overflow-hidden rounded-lg text-[#1b0d0e] dark:text-white focus:outline-0 focus:ring-2 focus:ring-primary/50 border border-[#e7cfd0] dark:border-[#3d2426] bg-background-light dark:bg-[#221011] h-12 placeholder:text-[#9a4c50] p-[15px] text-base font-normal leading-normal"
+                    placeholder="Enter your email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    disabled={loading}
+                  />
+                </div>
+
+                {/* Password Field */}
+                <div className="flex flex-col w-full">
+                  <label className="text-[#1b0d0e] dark:text-white text-sm font-semibold leading-normal pb-2">
+                    Password
+                  </label>
+                  <div className="flex w-full items-stretch rounded-lg group">
+                    <input
+                      className="form-input flex w-full min-w-0 flex-1 resize-none overflow-hidden rounded-lg rounded-r-none border-r-0 text-[#1b0d0e] dark:text-white focus:outline-0 focus:ring-0 border border-[#e7cfd0] dark:border-[#3d2426] bg-background-light dark:bg-[#221011] h-12 placeholder:text-[#9a4c50] p-[15px] text-base font-normal leading-normal"
+                      placeholder="Enter your password"
+                      type={showPassword ? "text" : "password"}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                      disabled={loading}
+                    />
+                    <div
+                      className="text-[#9a4c50] flex border border-[#e7cfd0] dark:border-[#3d2426] bg-background-light dark:bg-[#221011] items-center justify-center pr-[15px] rounded-r-lg border-l-0 cursor-pointer hover:text-primary transition-colors"
+                      onClick={() => setShowPassword(!showPassword)}
+                    >
+                      <span className="material-symbols-outlined text-[24px]">
+                        {showPassword ? "visibility_off" : "visibility"}
+                      </span>
+                    </div>
                   </div>
                 </div>
-              </div>
 
-              {/* Sign In Button */}
-              <button
-                className="w-full flex items-center justify-center rounded-lg h-12 px-4 bg-primary text-white text-base font-bold leading-normal tracking-[0.015em] hover:bg-red-700 transition-colors shadow-md mt-6 disabled:opacity-60 disabled:cursor-not-allowed"
-                type="submit"
-                disabled={loading}
-              >
-                {loading ? "Signing In..." : "Sign In"}
-              </button>
-            </form>
+                {/* Sign In Button */}
+                <button
+                  className="w-full flex items-center justify-center rounded-lg h-12 px-4 bg-primary text-white text-base font-bold leading-normal tracking-[0.015em] hover:bg-red-700 transition-colors shadow-md mt-6 disabled:opacity-60 disabled:cursor-not-allowed"
+                  type="submit"
+                  disabled={loading}
+                >
+                  {loading ? "Signing In..." : "Sign In"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setError("");
+                    setNotice("");
+                    setStep("forgot");
+                  }}
+                  className="w-full text-sm text-[#9a4c50] dark:text-[#c08d90] hover:text-primary"
+                >
+                  Forgot your password?
+                </button>
+              </form>
+            )}
           </div>
         </div>
       </main>
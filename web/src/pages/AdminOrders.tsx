@@ -1,15 +1,120 @@
 import { Fragment, useEffect, useState } from "react";
-import { Link } from "react-router-dom";
-import { adminOrders } from "../lib/api";
+import { Link, useSearchParams } from "react-router-dom";
+import {
+  adminBulkUpdateOrderStatus,
+  adminOrderDocument,
+  adminOrderEvents,
+  adminOrders,
+  adminProducts,
+  adminUpdateOrderStatus,
+} from "../lib/api";
 import { useAdminAuth } from "../context/AdminAuthContext";
-import { Order } from "../types";
+import OrderRefunds from "../components/OrderRefunds";
+import {
+  Order,
+  OrderEvent,
+  OrderListResponse,
+  OrderStatusValue,
+  ORDER_STATUS_VALUES,
+} from "../types";
 
-type OrderStatus = "all" | "pending" | "processing" | "completed";
+type OrderStatus = "all" | OrderStatusValue;
+
+const STATUS_LABELS: Record<OrderStatusValue, string> = {
+  pending: "Pending",
+  paid: "Paid",
+  packed: "Packed",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+};
+
+// Action label shown on transition buttons.
+const STATUS_ACTIONS: Record<OrderStatusValue, string> = {
+  pending: "Mark as Pending",
+  paid: "Mark as Paid",
+  packed: "Mark as Packed",
+  shipped: "Mark as Shipped",
+  delivered: "Mark as Delivered",
+  cancelled: "Cancel Order",
+  refunded: "Mark as Refunded",
+};
+
+// Labels for history events that aren't status changes.
+const EVENT_LABELS: Record<string, string> = {
+  refund: "Refund",
+  unfulfillable: "Out of stock",
+  note: "Note",
+  payment_failed: "Payment failed",
+  tax_mismatch: "Tax mismatch",
+};
 
 interface ExpandedOrder {
   [key: string]: boolean;
 }
 
+const SORT_LABELS: Record<string, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  total_desc: "Highest total",
+  total_asc: "Lowest total",
+};
+
+// Filters behind the "Filters" button, as they appear in the URL. Totals
+// are in cents there and in dollars in the form.
+interface AdvancedFilters {
+  from: string;
+  to: string;
+  email: string;
+  productId: string;
+  country: string;
+  minTotal: string;
+  maxTotal: string;
+}
+
+const ADVANCED_FILTER_KEYS: Array<keyof AdvancedFilters> = [
+  "from",
+  "to",
+  "email",
+  "productId",
+  "country",
+  "minTotal",
+  "maxTotal",
+];
+
+function filtersFromParams(params: URLSearchParams): AdvancedFilters {
+  const dollars = (key: string): string => {
+    const cents = params.get(key);
+    return cents ? String(Number(cents) / 100) : "";
+  };
+  return {
+    from: params.get("from") || "",
+    to: params.get("to") || "",
+    email: params.get("email") || "",
+    productId: params.get("productId") || "",
+    country: params.get("country") || "",
+    minTotal: dollars("minTotal"),
+    maxTotal: dollars("maxTotal"),
+  };
+}
+
+// The API query for the page's URL. Dates are whole days in the browser's
+// time zone.
+function orderQuery(
+  params: URLSearchParams,
+  cursor?: string
+): Record<string, string | undefined> {
+  const query: Record<string, string | undefined> = Object.fromEntries(params);
+  if (query.from) {
+    query.from = new Date(`${query.from}T00:00:00`).toISOString();
+  }
+  if (query.to) {
+    query.to = new Date(`${query.to}T23:59:59.999`).toISOString();
+  }
+  return { ...query, cursor };
+}
+
 function formatMoney(cents: number, currency = "usd"): string {
   const value = (Number(cents) || 0) / 100;
   return new Intl.NumberFormat("en-US", {
@@ -26,40 +131,59 @@ function formatDate(date: string | Date): string {
   });
 }
 
+function formatDateTime(date: string | Date): string {
+  return new Date(date).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
 function getStatusBadge(status: string): {
   bg: string;
   text: string;
   border: string;
   label: string;
 } {
-  switch (status.toLowerCase()) {
+  const key = status.toLowerCase() as OrderStatusValue;
+  const label = STATUS_LABELS[key] || status;
+  switch (key) {
     case "pending":
       return {
         bg: "bg-primary/10",
         text: "text-primary",
         border: "border-primary/20",
-        label: "Pending",
+        label,
       };
-    case "processing":
+    case "paid":
+    case "packed":
       return {
         bg: "bg-amber-100 dark:bg-amber-900/20",
         text: "text-amber-700 dark:text-amber-300",
         border: "border-amber-200 dark:border-amber-800",
-        label: "Processing",
+        label,
       };
-    case "completed":
+    case "shipped":
+      return {
+        bg: "bg-blue-100 dark:bg-blue-900/20",
+        text: "text-blue-700 dark:text-blue-300",
+        border: "border-blue-200 dark:border-blue-800",
+        label,
+      };
+    case "delivered":
       return {
         bg: "bg-green-100 dark:bg-green-900/20",
         text: "text-green-700 dark:text-green-300",
         border: "border-green-200 dark:border-green-800",
-        label: "Completed",
+        label,
       };
     default:
       return {
         bg: "bg-slate-100 dark:bg-slate-800",
         text: "text-slate-700 dark:text-slate-300",
         border: "border-slate-200 dark:border-slate-700",
-        label: status,
+        label,
       };
   }
 }
@@ -75,54 +199,244 @@ function getInitials(name: string): string {
 
 export default function AdminOrders() {
   const { isAuthed } = useAdminAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [orders, setOrders] = useState<Order[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totals, setTotals] = useState<OrderListResponse["totals"] | null>(
+    null
+  );
   const [loading, setLoading] = useState<boolean>(false);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
   const [error, setError] = useState<string>("");
-  const [searchQuery, setSearchQuery] = useState<string>("");
-  const [activeTab, setActiveTab] = useState<OrderStatus>("all");
+  const [searchInput, setSearchInput] = useState<string>(
+    searchParams.get("q") || ""
+  );
+  const [showFilters, setShowFilters] = useState<boolean>(() =>
+    ADVANCED_FILTER_KEYS.some((key) => searchParams.has(key))
+  );
+  const [draftFilters, setDraftFilters] = useState<AdvancedFilters>(() =>
+    filtersFromParams(searchParams)
+  );
+  const [products, setProducts] = useState<Array<{ id: string; name: string }>>(
+    []
+  );
   const [expandedOrders, setExpandedOrders] = useState<ExpandedOrder>({});
   const [selectedOrders, setSelectedOrders] = useState<Set<string>>(new Set());
+  const [orderEvents, setOrderEvents] = useState<Record<string, OrderEvent[]>>(
+    {}
+  );
+  const [tracking, setTracking] = useState<
+    Record<string, { carrier: string; number: string }>
+  >({});
+  const [updatingOrderId, setUpdatingOrderId] = useState<string>("");
+  const [bulkStatus, setBulkStatus] = useState<OrderStatusValue>("packed");
+  const [bulkUpdating, setBulkUpdating] = useState<boolean>(false);
+  const [notice, setNotice] = useState<string>("");
+
+  const activeTab = (searchParams.get("status") || "all") as OrderStatus;
+  const sort = searchParams.get("sort") || "newest";
+
+  // Filters live in the URL, so a filtered view can be linked to.
+  function updateParams(changes: Record<string, string>): void {
+    setSearchParams(
+      (current) => {
+        const next = new URLSearchParams(current);
+        for (const [key, value] of Object.entries(changes)) {
+          if (value) {
+            next.set(key, value);
+          } else {
+            next.delete(key);
+          }
+        }
+        return next;
+      },
+      { replace: true }
+    );
+  }
 
   async function loadOrders(): Promise<void> {
     if (!isAuthed) return;
     setError("");
     setLoading(true);
     try {
-      const data = await adminOrders();
-      setOrders(Array.isArray(data) ? data : []);
+      const data: OrderListResponse = await adminOrders(
+        orderQuery(searchParams)
+      );
+      setOrders(data.orders);
+      setNextCursor(data.nextCursor);
+      setTotals(data.totals);
+      setSelectedOrders(new Set());
     } catch (e) {
       setError((e as Error).message);
       setOrders([]);
+      setNextCursor(null);
+      setTotals(null);
     } finally {
       setLoading(false);
     }
   }
 
+  async function loadMore(): Promise<void> {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const data: OrderListResponse = await adminOrders(
+        orderQuery(searchParams, nextCursor)
+      );
+      setOrders((prev) => [...prev, ...data.orders]);
+      setNextCursor(data.nextCursor);
+      setTotals(data.totals);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
   useEffect(() => {
     loadOrders();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isAuthed]);
+  }, [isAuthed, searchParams.toString()]);
+
+  // Keep the form in step with the URL, e.g. after going back.
+  useEffect(() => {
+    const q = searchParams.get("q") || "";
+    setSearchInput((prev) => (prev.trim() === q ? prev : q));
+    setDraftFilters(filtersFromParams(searchParams));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchParams.toString()]);
 
-  const filteredOrders = orders.filter((order) => {
-    const matchesSearch =
-      searchQuery === "" ||
-      order.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      order.customerName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      order.customerEmail?.toLowerCase().includes(searchQuery.toLowerCase());
+  // Search as the admin types, once they pause.
+  useEffect(() => {
+    const q = searchInput.trim();
+    if (q === (searchParams.get("q") || "")) return;
+    const timer = setTimeout(() => updateParams({ q }), 300);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchInput]);
 
-    const matchesTab =
-      activeTab === "all" || order.status.toLowerCase() === activeTab;
+  useEffect(() => {
+    if (!isAuthed || !showFilters || products.length > 0) return;
+    adminProducts()
+      .then((data) => setProducts(Array.isArray(data) ? data : []))
+      .catch(() => setProducts([]));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthed, showFilters]);
 
-    return matchesSearch && matchesTab;
-  });
+  function applyFilters(): void {
+    const cents = (dollars: string): string =>
+      dollars.trim() ? String(Math.round(Number(dollars) * 100)) : "";
+    updateParams({
+      from: draftFilters.from,
+      to: draftFilters.to,
+      email: draftFilters.email.trim(),
+      productId: draftFilters.productId,
+      country: draftFilters.country.trim().toUpperCase(),
+      minTotal: cents(draftFilters.minTotal),
+      maxTotal: cents(draftFilters.maxTotal),
+    });
+  }
+
+  function clearFilters(): void {
+    setSearchInput("");
+    setSearchParams(sort === "newest" ? {} : { sort }, { replace: true });
+  }
+
+  function setDraft(key: keyof AdvancedFilters, value: string): void {
+    setDraftFilters((prev) => ({ ...prev, [key]: value }));
+  }
+
+  async function loadOrderEvents(orderId: string): Promise<void> {
+    try {
+      const events = await adminOrderEvents(orderId);
+      setOrderEvents((prev) => ({
+        ...prev,
+        [orderId]: Array.isArray(events) ? events : [],
+      }));
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
 
   const toggleOrderExpand = (orderId: string): void => {
+    const willExpand = !expandedOrders[orderId];
     setExpandedOrders((prev) => ({
       ...prev,
       [orderId]: !prev[orderId],
     }));
+    if (willExpand) loadOrderEvents(orderId);
   };
 
+  async function changeStatus(
+    order: Order,
+    status: OrderStatusValue
+  ): Promise<void> {
+    setError("");
+    setNotice("");
+    setUpdatingOrderId(order.id);
+    try {
+      const t = tracking[order.id];
+      const updated: Order = await adminUpdateOrderStatus(order.id, {
+        status,
+        ...(status === "shipped" && t
+          ? { trackingCarrier: t.carrier, trackingNumber: t.number }
+          : {}),
+      });
+      setOrders((prev) => prev.map((o) => (o.id === order.id ? updated : o)));
+      await loadOrderEvents(order.id);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setUpdatingOrderId("");
+    }
+  }
+
+  async function applyBulkStatus(): Promise<void> {
+    setError("");
+    setNotice("");
+    setBulkUpdating(true);
+    try {
+      const result = await adminBulkUpdateOrderStatus(
+        Array.from(selectedOrders),
+        bulkStatus
+      );
+      const failed = (result?.results || []).filter((r: any) => !r.ok);
+      setNotice(
+        `Updated ${result?.updated || 0} order${
+          result?.updated === 1 ? "" : "s"
+        } to ${STATUS_LABELS[bulkStatus]}` +
+          (failed.length > 0 ? ` (${failed.length} skipped)` : "")
+      );
+      setSelectedOrders(new Set());
+      await loadOrders();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBulkUpdating(false);
+    }
+  }
+
+  // The tab is opened before the PDF loads so popup blockers allow it.
+  async function openDocument(
+    kind: "packing-slip" | "invoice",
+    orderIds: string[]
+  ): Promise<void> {
+    setError("");
+    const tab = window.open("", "_blank");
+    try {
+      const blob = await adminOrderDocument(kind, orderIds);
+      const url = URL.createObjectURL(blob);
+      if (tab) {
+        tab.location.href = url;
+      } else {
+        window.location.href = url;
+      }
+    } catch (e) {
+      tab?.close();
+      setError((e as Error).message);
+    }
+  }
+
   const toggleOrderSelect = (orderId: string): void => {
     setSelectedOrders((prev) => {
       const next = new Set(prev);
@@ -135,11 +449,14 @@ export default function AdminOrders() {
     });
   };
 
+  const filterInputClass =
+    "bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm font-normal";
+
   const toggleSelectAll = (): void => {
-    if (selectedOrders.size === filteredOrders.length) {
+    if (selectedOrders.size === orders.length) {
       setSelectedOrders(new Set());
     } else {
-      setSelectedOrders(new Set(filteredOrders.map((o) => o.id)));
+      setSelectedOrders(new Set(orders.map((o) => o.id)));
     }
   };
 
@@ -175,6 +492,12 @@ export default function AdminOrders() {
         </div>
       </div>
 
+      {notice && (
+        <div className="mb-6 bg-green-50 dark:bg-green-950/30 border border-green-200 dark:border-green-900/40 rounded-lg px-4 py-3">
+          <p className="text-sm text-green-700 dark:text-green-200">{notice}</p>
+        </div>
+      )}
+
       {error && (
         <div className="mb-6 bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-900/40 rounded-lg px-4 py-3">
           <p className="text-sm text-red-700 dark:text-red-200">{error}</p>
@@ -184,64 +507,162 @@ export default function AdminOrders() {
       {/* Tabs & Filters */}
       <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 overflow-hidden">
         <div className="flex flex-col sm:flex-row items-center justify-between px-6 border-b border-slate-200 dark:border-slate-800">
-          <div className="flex gap-8">
-            <button
-              onClick={() => setActiveTab("all")}
-              className={`border-b-2 py-4 text-sm font-bold transition-colors ${
-                activeTab === "all"
-                  ? "border-primary text-primary"
-                  : "border-transparent text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white"
-              }`}
-            >
-              All Orders
-            </button>
-            <button
-              onClick={() => setActiveTab("pending")}
-              className={`border-b-2 py-4 text-sm font-bold transition-colors ${
-                activeTab === "pending"
-                  ? "border-primary text-primary"
-                  : "border-transparent text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white"
-              }`}
-            >
-              Pending
-            </button>
-            <button
-              onClick={() => setActiveTab("processing")}
-              className={`border-b-2 py-4 text-sm font-bold transition-colors ${
-                activeTab === "processing"
-                  ? "border-primary text-primary"
-                  : "border-transparent text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white"
-              }`}
+          <div className="flex gap-6 overflow-x-auto">
+            {(["all", ...ORDER_STATUS_VALUES] as OrderStatus[]).map((tab) => (
+              <button
+                key={tab}
+                onClick={() =>
+                  updateParams({ status: tab === "all" ? "" : tab })
+                }
+                className={`border-b-2 py-4 text-sm font-bold whitespace-nowrap transition-colors ${
+                  activeTab === tab
+                    ? "border-primary text-primary"
+                    : "border-transparent text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white"
+                }`}
+              >
+                {tab === "all" ? "All Orders" : STATUS_LABELS[tab]}
+              </button>
+            ))}
+          </div>
+          <div className="py-4 flex items-center gap-2">
+            <select
+              className="bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm"
+              value={sort}
+              onChange={(e) =>
+                updateParams({
+                  sort: e.target.value === "newest" ? "" : e.target.value,
+                })
+              }
             >
-              Processing
-            </button>
+              {Object.entries(SORT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
             <button
-              onClick={() => setActiveTab("completed")}
-              className={`border-b-2 py-4 text-sm font-bold transition-colors ${
-                activeTab === "completed"
+              onClick={() => setShowFilters((prev) => !prev)}
+              className={`flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-bold border ${
+                showFilters
                   ? "border-primary text-primary"
-                  : "border-transparent text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white"
+                  : "border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-400"
               }`}
             >
-              Completed
+              <span className="material-symbols-outlined text-lg">
+                filter_list
+              </span>
+              Filters
             </button>
-          </div>
-          <div className="py-4">
             <div className="relative w-64">
               <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 dark:text-slate-400 text-lg">
                 search
               </span>
               <input
                 className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg pl-10 pr-4 py-2 text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary"
-                placeholder="Search orders..."
+                placeholder="Search email, name or order ID..."
                 type="text"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
               />
             </div>
           </div>
         </div>
 
+        {showFilters && (
+          <div className="px-6 py-4 flex flex-wrap items-end gap-3 border-b border-slate-200 dark:border-slate-800">
+            <label className="flex flex-col gap-1 text-xs font-bold text-slate-600 dark:text-slate-400">
+              From
+              <input
+                type="date"
+                className={filterInputClass}
+                value={draftFilters.from}
+                onChange={(e) => setDraft("from", e.target.value)}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-bold text-slate-600 dark:text-slate-400">
+              To
+              <input
+                type="date"
+                className={filterInputClass}
+                value={draftFilters.to}
+                onChange={(e) => setDraft("to", e.target.value)}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-bold text-slate-600 dark:text-slate-400">
+              Customer email
+              <input
+                type="text"
+                className={filterInputClass}
+                placeholder="Any"
+                value={draftFilters.email}
+                onChange={(e) => setDraft("email", e.target.value)}
+              />
+            </label>
+            {products.length > 0 && (
+              <label className="flex flex-col gap-1 text-xs font-bold text-slate-600 dark:text-slate-400">
+                Product
+                <select
+                  className={filterInputClass}
+                  value={draftFilters.productId}
+                  onChange={(e) => setDraft("productId", e.target.value)}
+                >
+                  <option value="">Any</option>
+                  {products.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="flex flex-col gap-1 text-xs font-bold text-slate-600 dark:text-slate-400">
+              Country
+              <input
+                type="text"
+                maxLength={2}
+                className={`${filterInputClass} w-20`}
+                placeholder="US"
+                value={draftFilters.country}
+                onChange={(e) => setDraft("country", e.target.value)}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-bold text-slate-600 dark:text-slate-400">
+              Min total ($)
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                className={`${filterInputClass} w-28`}
+                value={draftFilters.minTotal}
+                onChange={(e) => setDraft("minTotal", e.target.value)}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-bold text-slate-600 dark:text-slate-400">
+              Max total ($)
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                className={`${filterInputClass} w-28`}
+                value={draftFilters.maxTotal}
+                onChange={(e) => setDraft("maxTotal", e.target.value)}
+              />
+            </label>
+            <button
+              onClick={applyFilters}
+              className="px-4 py-2 bg-primary text-white rounded-lg text-sm font-bold hover:opacity-90"
+            >
+              Apply
+            </button>
+            <button
+              onClick={clearFilters}
+              className="px-4 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-sm font-bold hover:bg-slate-50 dark:hover:bg-slate-800"
+            >
+              Clear
+            </button>
+          </div>
+        )}
+
         {/* Table Section */}
         <div className="overflow-x-auto">
           <table className="w-full text-left border-collapse">
@@ -252,8 +673,7 @@ export default function AdminOrders() {
                     className="rounded border-slate-300 dark:border-slate-700 text-primary focus:ring-primary"
                     type="checkbox"
                     checked={
-                      filteredOrders.length > 0 &&
-                      selectedOrders.size === filteredOrders.length
+                      orders.length > 0 && selectedOrders.size === orders.length
                     }
                     onChange={toggleSelectAll}
                   />
@@ -287,7 +707,7 @@ export default function AdminOrders() {
                     </span>
                   </td>
                 </tr>
-              ) : filteredOrders.length === 0 ? (
+              ) : orders.length === 0 ? (
                 <tr>
                   <td colSpan={7} className="px-6 py-12 text-center">
                     <span className="text-slate-500 dark:text-slate-400">
@@ -296,7 +716,7 @@ export default function AdminOrders() {
                   </td>
                 </tr>
               ) : (
-                filteredOrders.map((order) => {
+                orders.map((order) => {
                   const status = getStatusBadge(order.status);
                   const isExpanded = expandedOrders[order.id];
                   const isSelected = selectedOrders.has(order.id);
@@ -342,6 +762,14 @@ export default function AdminOrders() {
                           >
                             {status.label}
                           </span>
+                          {order.unfulfillable && (
+                            <span
+                              className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-bold bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300 border border-red-200 dark:border-red-800"
+                              title="Paid, but stock ran out before it could be allocated"
+                            >
+                              Unfulfillable
+                            </span>
+                          )}
                         </td>
                         <td className="px-6 py-4 text-sm font-bold">
                           {formatMoney(order.totalCents, order.currency)}
@@ -387,7 +815,7 @@ export default function AdminOrders() {
                                             {item.productName}
                                           </p>
                                           <p className="text-xs text-slate-500 dark:text-slate-400">
-                                            SKU: {item.productId}
+                                            SKU: {item.sku}
                                           </p>
                                         </div>
                                       </div>
@@ -401,6 +829,13 @@ export default function AdminOrders() {
                                     </div>
                                   ))}
                                 </div>
+                                <OrderRefunds
+                                  order={order}
+                                  onRefunded={() => {
+                                    loadOrders();
+                                    loadOrderEvents(order.id);
+                                  }}
+                                />
                               </div>
                               <div>
                                 <h4 className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase mb-4">
@@ -413,12 +848,204 @@ export default function AdminOrders() {
                                   <p className="text-slate-600 dark:text-slate-400">
                                     {order.customerEmail}
                                   </p>
-                                  <div className="pt-4 flex gap-3">
-                                    <button className="px-4 py-2 bg-slate-900 dark:bg-white dark:text-slate-900 text-white text-xs font-bold rounded-lg hover:opacity-90">
-                                      View Details
+                                  {order.shipping?.method && (
+                                    <p className="text-slate-600 dark:text-slate-400">
+                                      Shipping: {order.shipping.method}
+                                      {order.shipping.cents !== null
+                                        ? ` (${formatMoney(
+                                            order.shipping.cents,
+                                            order.currency
+                                          )})`
+                                        : ""}
+                                    </p>
+                                  )}
+                                  {!!order.discountCents && (
+                                    <p className="text-slate-600 dark:text-slate-400">
+                                      Discount
+                                      {order.discountCode
+                                        ? ` (${order.discountCode})`
+                                        : ""}
+                                      : -
+                                      {formatMoney(
+                                        order.discountCents,
+                                        order.currency
+                                      )}
+                                    </p>
+                                  )}
+                                  {!!order.taxCents && (
+                                    <p className="text-slate-600 dark:text-slate-400">
+                                      Tax:{" "}
+                                      {formatMoney(
+                                        order.taxCents,
+                                        order.currency
+                                      )}
+                                    </p>
+                                  )}
+                                  {order.fulfillment?.trackingNumber && (
+                                    <p className="text-slate-600 dark:text-slate-400">
+                                      Tracking:{" "}
+                                      {order.fulfillment.trackingCarrier
+                                        ? `${order.fulfillment.trackingCarrier} `
+                                        : ""}
+                                      {order.fulfillment.trackingNumber}
+                                    </p>
+                                  )}
+                                </div>
+
+                                {order.nextStatuses?.length > 0 && (
+                                  <div className="pt-6">
+                                    <h4 className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase mb-3">
+                                      Fulfillment
+                                    </h4>
+                                    {order.nextStatuses.includes("shipped") && (
+                                      <div className="flex gap-2 mb-3">
+                                        <input
+                                          className="w-32 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-xs"
+                                          placeholder="Carrier"
+                                          value={
+                                            tracking[order.id]?.carrier || ""
+                                          }
+                                          onChange={(e) =>
+                                            setTracking((prev) => ({
+                                              ...prev,
+                                              [order.id]: {
+                                                carrier: e.target.value,
+                                                number:
+                                                  prev[order.id]?.number || "",
+                                              },
+                                            }))
+                                          }
+                                        />
+                                        <input
+                                          className="flex-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-xs"
+                                          placeholder="Tracking number"
+                                          value={
+                                            tracking[order.id]?.number || ""
+                                          }
+                                          onChange={(e) =>
+                                            setTracking((prev) => ({
+                                              ...prev,
+                                              [order.id]: {
+                                                carrier:
+                                                  prev[order.id]?.carrier || "",
+                                                number: e.target.value,
+                                              },
+                                            }))
+                                          }
+                                        />
+                                      </div>
+                                    )}
+                                    <div className="flex flex-wrap gap-2">
+                                      {order.nextStatuses.map((next) => (
+                                        <button
+                                          key={next}
+                                          disabled={
+                                            updatingOrderId === order.id
+                                          }
+                                          onClick={() =>
+                                            changeStatus(order, next)
+                                          }
+                                          className={`px-4 py-2 text-xs font-bold rounded-lg hover:opacity-90 disabled:opacity-50 ${
+                                            next === "cancelled" ||
+                                            next === "refunded"
+                                              ? "border border-red-200 dark:border-red-900/40 text-red-600 dark:text-red-300"
+                                              : "bg-slate-900 dark:bg-white dark:text-slate-900 text-white"
+                                          }`}
+                                        >
+                                          {STATUS_ACTIONS[next]}
+                                        </button>
+                                      ))}
+                                    </div>
+                                  </div>
+                                )}
+
+                                <div className="pt-6">
+                                  <h4 className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase mb-3">
+                                    Documents
+                                  </h4>
+                                  <div className="flex flex-wrap gap-2">
+                                    <button
+                                      onClick={() =>
+                                        openDocument("packing-slip", [order.id])
+                                      }
+                                      className="px-4 py-2 text-xs font-bold rounded-lg border border-slate-200 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 flex items-center gap-1"
+                                    >
+                                      <span className="material-symbols-outlined text-sm">
+                                        inventory_2
+                                      </span>
+                                      Packing Slip
+                                    </button>
+                                    <button
+                                      disabled={
+                                        order.status === "pending" ||
+                                        order.status === "cancelled"
+                                      }
+                                      title={
+                                        order.status === "pending" ||
+                                        order.status === "cancelled"
+                                          ? "Only paid orders can be invoiced"
+                                          : undefined
+                                      }
+                                      onClick={() =>
+                                        openDocument("invoice", [order.id])
+                                      }
+                                      className="px-4 py-2 text-xs font-bold rounded-lg border border-slate-200 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50 flex items-center gap-1"
+                                    >
+                                      <span className="material-symbols-outlined text-sm">
+                                        receipt_long
+                                      </span>
+                                      Invoice
                                     </button>
                                   </div>
                                 </div>
+
+                                <div className="pt-6">
+                                  <h4 className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase mb-3">
+                                    History
+                                  </h4>
+                                  {(orderEvents[order.id] || []).length ===
+                                  0 ? (
+                                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                                      No history yet
+                                    </p>
+                                  ) : (
+                                    <ol className="space-y-2">
+                                      {orderEvents[order.id].map((ev) => (
+                                        <li
+                                          key={ev.id}
+                                          className="text-xs text-slate-600 dark:text-slate-400"
+                                        >
+                                          <span className="font-bold text-slate-900 dark:text-white">
+                                            {ev.type === "created"
+                                              ? `Created as ${
+                                                  getStatusBadge(
+                                                    ev.toStatus || ""
+                                                  ).label
+                                                }`
+                                              : ev.toStatus
+                                              ? `${
+                                                  getStatusBadge(
+                                                    ev.fromStatus || ""
+                                                  ).label
+                                                } → ${
+                                                  getStatusBadge(ev.toStatus)
+                                                    .label
+                                                }`
+                                              : EVENT_LABELS[ev.type] ||
+                                                ev.type}
+                                          </span>{" "}
+                                          · {formatDateTime(ev.createdAt)}
+                                          {" · "}
+                                          {ev.adminUser
+                                            ? ev.adminUser.name ||
+                                              ev.adminUser.email
+                                            : "System"}
+                                          {ev.note ? ` · ${ev.note}` : ""}
+                                        </li>
+                                      ))}
+                                    </ol>
+                                  )}
+                                </div>
                               </div>
                             </div>
                           </td>
@@ -435,23 +1062,21 @@ export default function AdminOrders() {
         {/* Pagination */}
         <div className="px-6 py-4 bg-slate-50 dark:bg-slate-900 flex items-center justify-between border-t border-slate-200 dark:border-slate-800">
           <p className="text-xs font-bold text-slate-600 dark:text-slate-400">
-            Showing 1-{filteredOrders.length} of {filteredOrders.length} orders
+            {totals
+              ? `Showing ${orders.length} of ${totals.count} order${
+                  totals.count === 1 ? "" : "s"
+                } · ${formatMoney(totals.totalCents)} total`
+              : ""}
           </p>
-          <div className="flex gap-2">
-            <button className="size-8 flex items-center justify-center rounded border border-slate-200 dark:border-slate-700 hover:bg-white dark:hover:bg-slate-800 transition-colors">
-              <span className="material-symbols-outlined text-sm">
-                chevron_left
-              </span>
-            </button>
-            <button className="size-8 flex items-center justify-center rounded bg-primary text-white text-xs font-bold">
-              1
-            </button>
-            <button className="size-8 flex items-center justify-center rounded border border-slate-200 dark:border-slate-700 hover:bg-white dark:hover:bg-slate-800 transition-colors">
-              <span className="material-symbols-outlined text-sm">
-                chevron_right
-              </span>
+          {nextCursor && (
+            <button
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="px-4 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-xs font-bold hover:bg-white dark:hover:bg-slate-800 transition-colors disabled:opacity-50"
+            >
+              {loadingMore ? "Loading..." : "Load More"}
             </button>
-          </div>
+          )}
         </div>
       </div>
 
@@ -465,11 +1090,50 @@ export default function AdminOrders() {
             </p>
             <div className="h-4 w-px bg-white/20 dark:bg-slate-900/20"></div>
             <div className="flex gap-4">
-              <button className="text-sm font-bold flex items-center gap-1 hover:text-primary transition-colors">
+              <select
+                className="bg-transparent border border-white/20 dark:border-slate-900/20 rounded-lg px-2 py-1 text-sm font-bold"
+                value={bulkStatus}
+                onChange={(e) =>
+                  setBulkStatus(e.target.value as OrderStatusValue)
+                }
+              >
+                {ORDER_STATUS_VALUES.filter((s) => s !== "pending").map((s) => (
+                  <option key={s} value={s} className="text-slate-900">
+                    {STATUS_ACTIONS[s]}
+                  </option>
+                ))}
+              </select>
+              <button
+                className="text-sm font-bold flex items-center gap-1 hover:text-primary transition-colors disabled:opacity-50"
+                disabled={bulkUpdating}
+                onClick={applyBulkStatus}
+              >
                 <span className="material-symbols-outlined text-lg">
                   local_shipping
                 </span>
-                Mark as Processing
+                {bulkUpdating ? "Applying..." : "Apply"}
+              </button>
+              <button
+                className="text-sm font-bold flex items-center gap-1 hover:text-primary transition-colors"
+                onClick={() =>
+                  openDocument("packing-slip", Array.from(selectedOrders))
+                }
+              >
+                <span className="material-symbols-outlined text-lg">
+                  inventory_2
+                </span>
+                Packing Slips
+              </button>
+              <button
+                className="text-sm font-bold flex items-center gap-1 hover:text-primary transition-colors"
+                onClick={() =>
+                  openDocument("invoice", Array.from(selectedOrders))
+                }
+              >
+                <span className="material-symbols-outlined text-lg">
+                  receipt_long
+                </span>
+                Invoices
               </button>
               <button
                 className="text-sm font-bold flex items-center gap-1 text-red-500 hover:text-red-400 transition-colors"
@@ -0,0 +1,200 @@
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import Header from "../components/Header";
+import Brand from "../components/Brand";
+import { checkPasswordToken, resetAdminPassword } from "../lib/api";
+import { MIN_PASSWORD_LENGTH, PASSWORD_HINT } from "../lib/passwordPolicy";
+
+interface PasswordToken {
+  purpose: "invite" | "password_reset";
+  email: string;
+  name: string | null;
+}
+
+/**
+ * Landing page for the links in admin invitation and password reset emails.
+ */
+export default function AdminResetPassword() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const [link, setLink] = useState<PasswordToken | null>(null);
+  const [checking, setChecking] = useState<boolean>(true);
+  const [password, setPassword] = useState<string>("");
+  const [confirm, setConfirm] = useState<string>("");
+  const [error, setError] = useState<string>("");
+  const [loading, setLoading] = useState<boolean>(false);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const html = document.documentElement;
+    const prefersDark = window.matchMedia?.(
+      "(prefers-color-scheme: dark)"
+    )?.matches;
+    if (prefersDark) html.classList.add("dark");
+  }, []);
+
+  const onToggleTheme = useMemo(() => {
+    return () => {
+      document.documentElement.classList.toggle("dark");
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!token) {
+      setError("This link is invalid or has expired");
+      setChecking(false);
+      return;
+    }
+    checkPasswordToken(token)
+      .then(setLink)
+      .catch((err) =>
+        setError(
+          err instanceof Error
+            ? err.message
+            : "This link is invalid or has expired"
+        )
+      )
+      .finally(() => setChecking(false));
+  }, [token]);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+    setError("");
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirm) {
+      setError("Passwords don't match");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await resetAdminPassword(token, password);
+      navigate("/admin/login", {
+        replace: true,
+        state: {
+          notice:
+            link?.purpose === "invite"
+              ? "Your account is ready. Sign in with your new password."
+              : "Password updated. Sign in with your new password.",
+        },
+      });
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Unable to set your password."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass =
+    "form-input flex w-full min-w-0 resize-none overflow-hidden rounded-lg text-[#1b0d0e] dark:text-white focus:outline-0 focus:ring-2 focus:ring-primary/50 border border-[#e7cfd0] dark:border-[#3d2426] bg-background-light dark:bg-[#221011] h-12 placeholder:text-[#9a4c50] p-[15px] text-base font-normal leading-normal";
+
+  return (
+    <div className="bg-background-light dark:bg-background-dark text-stone-800 dark:text-stone-200 font-sans transition-colors duration-300 min-h-screen">
+      <Header
+        cartCount={0}
+        onCheckout={null}
+        checkoutDisabled={true}
+        onToggleTheme={onToggleTheme}
+      />
+
+      <main className="flex-1 flex items-center justify-center p-4 sm:p-6 lg:p-8">
+        <div className="w-full max-w-[480px] bg-white dark:bg-[#2d1a1b] rounded-xl shadow-xl border border-[#e7cfd0] dark:border-[#3d2426] overflow-hidden mt-8">
+          <div className="p-8 pb-0 text-center flex flex-col items-center">
+            <div className="mb-4">
+              <Brand size="xl" />
+            </div>
+            <h1 className="text-[#1b0d0e] dark:text-white tracking-tight text-3xl font-extrabold leading-tight">
+              {link?.purpose === "invite"
+                ? "Set Up Your Account"
+                : "Reset Password"}
+            </h1>
+            {link && (
+              <p className="text-[#9a4c50] dark:text-[#c08d90] mt-2 text-sm">
+                Choose a password for {link.email}.
+              </p>
+            )}
+          </div>
+
+          <div className="p-8">
+            {error && (
+              <div className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 text-sm">
+                {error}
+              </div>
+            )}
+
+            {checking ? (
+              <p className="text-center text-sm text-[#9a4c50]">Loading...</p>
+            ) : link ? (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="flex flex-col w-full">
+                  <label className="text-[#1b0d0e] dark:text-white text-sm font-semibold leading-normal pb-2">
+                    New Password
+                  </label>
+                  <input
+                    className={inputClass}
+                    type="password"
+                    autoComplete="new-password"
+                    autoFocus
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    disabled={loading}
+                  />
+                  <p className="text-xs text-[#9a4c50] dark:text-[#c08d90] mt-2">
+                    {PASSWORD_HINT}
+                  </p>
+                </div>
+
+                <div className="flex flex-col w-full">
+                  <label className="text-[#1b0d0e] dark:text-white text-sm font-semibold leading-normal pb-2">
+                    Confirm Password
+                  </label>
+                  <input
+                    className={inputClass}
+                    type="password"
+                    autoComplete="new-password"
+                    value={confirm}
+                    onChange={(e) => setConfirm(e.target.value)}
+                    required
+                    disabled={loading}
+                  />
+                </div>
+
+                <button
+                  className="w-full flex items-center justify-center rounded-lg h-12 px-4 bg-primary text-white text-base font-bold leading-normal tracking-[0.015em] hover:bg-red-700 transition-colors shadow-md mt-6 disabled:opacity-60 disabled:cursor-not-allowed"
+                  type="submit"
+                  disabled={loading}
+                >
+                  {loading ? "Saving..." : "Set Password"}
+                </button>
+              </form>
+            ) : (
+              <p className="text-center text-sm text-[#9a4c50] dark:text-[#c08d90]">
+                Ask an owner for a new invitation, or{" "}
+                <Link
+                  to="/admin/login"
+                  className="font-semibold hover:text-primary"
+                >
+                  request a new reset link
+                </Link>
+                .
+              </p>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <footer className="py-10 text-center px-6">
+        <p className="text-[#9a4c50] dark:text-[#c08d90] text-xs font-medium uppercase tracking-widest">
+          Hand-Crafted Heat • Since 2023
+        </p>
+      </footer>
+    </div>
+  );
+}
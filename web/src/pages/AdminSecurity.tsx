@@ -0,0 +1,211 @@
+import { FormEvent, useEffect, useState } from "react";
+import {
+  adminDisableTwoFactor,
+  adminRegenerateRecoveryCodes,
+  adminTwoFactorStatus,
+} from "../lib/api";
+import { useAdminAuth } from "../context/AdminAuthContext";
+import TwoFactorSetup from "../components/TwoFactorSetup";
+import RecoveryCodes from "../components/RecoveryCodes";
+import type { TwoFactorStatus } from "../types";
+
+export default function AdminSecurity() {
+  const { user, setUser } = useAdminAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [settingUp, setSettingUp] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [regenerateCode, setRegenerateCode] = useState("");
+  const [disablePassword, setDisablePassword] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  async function loadStatus(): Promise<void> {
+    setLoading(true);
+    setError("");
+    try {
+      setStatus(await adminTwoFactorStatus());
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  function handleEnabled(codes: string[]): void {
+    setSettingUp(false);
+    setRecoveryCodes(codes);
+    if (user) setUser({ ...user, twoFactorEnabled: true });
+    loadStatus();
+  }
+
+  async function handleRegenerate(
+    e: FormEvent<HTMLFormElement>
+  ): Promise<void> {
+    e.preventDefault();
+    setBusy(true);
+    setError("");
+    try {
+      const result = await adminRegenerateRecoveryCodes(regenerateCode);
+      setRegenerateCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      await loadStatus();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleDisable(e: FormEvent<HTMLFormElement>): Promise<void> {
+    e.preventDefault();
+    setBusy(true);
+    setError("");
+    try {
+      await adminDisableTwoFactor(disablePassword);
+      setDisablePassword("");
+      if (user) setUser({ ...user, twoFactorEnabled: false });
+      await loadStatus();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="p-8 max-w-2xl">
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold font-display mb-2">Security</h2>
+        <p className="text-slate-600 dark:text-slate-400">
+          Two-factor authentication for {user?.email}
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-900/40 rounded-lg px-4 py-3">
+          <p className="text-sm text-red-700 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-6">
+        {loading && !status ? (
+          <div className="text-center py-12 text-slate-500">Loading...</div>
+        ) : recoveryCodes ? (
+          <RecoveryCodes
+            codes={recoveryCodes}
+            onDone={() => setRecoveryCodes(null)}
+          />
+        ) : settingUp ? (
+          <TwoFactorSetup
+            onEnabled={handleEnabled}
+            onCancel={() => setSettingUp(false)}
+          />
+        ) : status?.enabled ? (
+          <div className="space-y-6">
+            <div className="flex items-center gap-3">
+              <span className="material-symbols-outlined text-3xl text-green-600">
+                verified_user
+              </span>
+              <div>
+                <p className="font-semibold">Two-factor is on</p>
+                <p className="text-sm text-slate-500">
+                  Since{" "}
+                  {status.enabledAt
+                    ? new Date(status.enabledAt).toLocaleDateString()
+                    : "—"}{" "}
+                  · {status.recoveryCodesRemaining} recovery codes left
+                </p>
+              </div>
+            </div>
+
+            <form
+              onSubmit={handleRegenerate}
+              className="border-t border-slate-200 dark:border-slate-800 pt-6 space-y-3"
+            >
+              <p className="font-semibold text-sm">New recovery codes</p>
+              <p className="text-sm text-slate-500">
+                Replaces all of your current recovery codes.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={regenerateCode}
+                  onChange={(e) => setRegenerateCode(e.target.value)}
+                  placeholder="Authenticator code"
+                  className="flex-1 bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-md px-4 py-2 text-sm"
+                  required
+                />
+                <button
+                  type="submit"
+                  disabled={busy}
+                  className="px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50"
+                >
+                  Generate
+                </button>
+              </div>
+            </form>
+
+            <form
+              onSubmit={handleDisable}
+              className="border-t border-slate-200 dark:border-slate-800 pt-6 space-y-3"
+            >
+              <p className="font-semibold text-sm">Turn off two-factor</p>
+              {status.required ? (
+                <p className="text-sm text-slate-500">
+                  This store requires two-factor for every admin.
+                </p>
+              ) : (
+                <div className="flex gap-2">
+                  <input
+                    type="password"
+                    autoComplete="current-password"
+                    value={disablePassword}
+                    onChange={(e) => setDisablePassword(e.target.value)}
+                    placeholder="Your password"
+                    className="flex-1 bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-md px-4 py-2 text-sm"
+                    required
+                  />
+                  <button
+                    type="submit"
+                    disabled={busy}
+                    className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+                  >
+                    Turn Off
+                  </button>
+                </div>
+              )}
+            </form>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <span className="material-symbols-outlined text-3xl text-slate-400">
+                shield
+              </span>
+              <div>
+                <p className="font-semibold">Two-factor is off</p>
+                <p className="text-sm text-slate-500">
+                  Ask for a code from your phone as well as your password.
+                </p>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => setSettingUp(true)}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-primary hover:bg-red-700 text-white font-medium rounded-lg transition-colors"
+            >
+              Set Up
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
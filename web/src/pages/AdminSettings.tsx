@@ -1,10 +1,12 @@
 import { useEffect, useState } from "react";
 import {
   adminGetSettings,
+  adminTestAlert,
   adminUpdateSettings,
   adminUploadImage,
 } from "../lib/api";
 import { useSettings } from "../context/SettingsContext";
+import TaxRegions from "../components/TaxRegions";
 
 interface Settings {
   storeName: string;
@@ -18,6 +20,10 @@ interface Settings {
   lowStockThreshold: number;
   enableLowStockAlerts: boolean;
   enableOrderNotifications: boolean;
+  enableRecoveryEmails: boolean;
+  requireAdminTwoFactor: boolean;
+  alertEmail: string;
+  alertWebhookUrl: string;
   termsOfService: string;
   privacyPolicy: string;
   returnPolicy: string;
@@ -38,6 +44,10 @@ const DEFAULT_SETTINGS: Settings = {
   lowStockThreshold: 10,
   enableLowStockAlerts: true,
   enableOrderNotifications: true,
+  enableRecoveryEmails: false,
+  requireAdminTwoFactor: false,
+  alertEmail: "",
+  alertWebhookUrl: "",
   termsOfService: "",
   privacyPolicy: "",
   returnPolicy: "",
@@ -55,8 +65,10 @@ export default function AdminSettings() {
   const [error, setError] = useState("");
   const [success, setSuccess] = useState(false);
   const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [testingAlert, setTestingAlert] = useState(false);
+  const [alertTestResult, setAlertTestResult] = useState("");
   const [activeTab, setActiveTab] = useState<
-    "general" | "appearance" | "notifications" | "policies"
+    "general" | "appearance" | "notifications" | "tax" | "policies" | "security"
   >("general");
 
   useEffect(() => {
@@ -92,6 +104,27 @@ export default function AdminSettings() {
     }
   }
 
+  // Uses the saved settings, so save before testing changes.
+  async function handleTestAlert(): Promise<void> {
+    setTestingAlert(true);
+    setAlertTestResult("");
+    try {
+      const data = await adminTestAlert();
+      setAlertTestResult(
+        (data.results || [])
+          .map(
+            (r: { channel: string; ok: boolean; error?: string }) =>
+              `${r.channel}: ${r.ok ? "sent" : `failed (${r.error})`}`
+          )
+          .join(", ")
+      );
+    } catch (err: any) {
+      setAlertTestResult(err.message);
+    } finally {
+      setTestingAlert(false);
+    }
+  }
+
   function updateSetting<K extends keyof Settings>(
     key: K,
     value: Settings[K]
@@ -139,7 +172,9 @@ export default function AdminSettings() {
     { id: "general", label: "General", icon: "settings" },
     { id: "appearance", label: "Appearance", icon: "palette" },
     { id: "notifications", label: "Notifications", icon: "notifications" },
+    { id: "tax", label: "Tax", icon: "percent" },
     { id: "policies", label: "Policies", icon: "description" },
+    { id: "security", label: "Security", icon: "shield_lock" },
   ] as const;
 
   return (
@@ -275,27 +310,6 @@ export default function AdminSettings() {
                       </select>
                     </div>
 
-                    <div>
-                      <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
-                        Tax Rate (%)
-                      </label>
-                      <input
-                        type="number"
-                        step="0.01"
-                        min="0"
-                        max="100"
-                        value={settings.taxRate}
-                        onChange={(e) =>
-                          updateSetting(
-                            "taxRate",
-                            parseFloat(e.target.value) || 0
-                          )
-                        }
-                        className="w-full bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-md px-4 py-3 text-sm"
-                        placeholder="0.00"
-                      />
-                    </div>
-
                     <div>
                       <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
                         Free Shipping Threshold (cents)
@@ -509,7 +523,7 @@ export default function AdminSettings() {
                         Order Notifications
                       </p>
                       <p className="text-sm text-slate-600 dark:text-slate-400">
-                        Receive email alerts for new orders
+                        Email the alert address when a new order is placed
                       </p>
                     </div>
                     <input
@@ -525,6 +539,26 @@ export default function AdminSettings() {
                     />
                   </div>
 
+                  <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800 rounded-lg">
+                    <div>
+                      <p className="font-semibold text-slate-900 dark:text-white">
+                        Abandoned Checkout Emails
+                      </p>
+                      <p className="text-sm text-slate-600 dark:text-slate-400">
+                        Email customers a link back to their cart when a
+                        checkout expires unpaid
+                      </p>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={settings.enableRecoveryEmails}
+                      onChange={(e) =>
+                        updateSetting("enableRecoveryEmails", e.target.checked)
+                      }
+                      className="rounded border-slate-300 text-primary focus:ring-primary w-5 h-5"
+                    />
+                  </div>
+
                   <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800 rounded-lg">
                     <div>
                       <p className="font-semibold text-slate-900 dark:text-white">
@@ -543,6 +577,90 @@ export default function AdminSettings() {
                       className="rounded border-slate-300 text-primary focus:ring-primary w-5 h-5"
                     />
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                      Alert Email
+                    </label>
+                    <input
+                      type="text"
+                      value={settings.alertEmail}
+                      onChange={(e) =>
+                        updateSetting("alertEmail", e.target.value)
+                      }
+                      className="w-full bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-md px-4 py-3 text-sm"
+                      placeholder={settings.supportEmail}
+                    />
+                    <p className="text-xs text-slate-500 mt-1">
+                      Comma-separated. Defaults to the support email. Requires
+                      SMTP to be configured on the server.
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                      Alert Webhook URL
+                    </label>
+                    <input
+                      type="url"
+                      value={settings.alertWebhookUrl}
+                      onChange={(e) =>
+                        updateSetting("alertWebhookUrl", e.target.value)
+                      }
+                      className="w-full bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-md px-4 py-3 text-sm"
+                      placeholder="https://hooks.example.com/alerts"
+                    />
+                    <p className="text-xs text-slate-500 mt-1">
+                      Alerts are POSTed here as JSON.
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-3">
+                    <button
+                      type="button"
+                      onClick={handleTestAlert}
+                      disabled={testingAlert}
+                      className="px-4 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-sm font-bold hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50"
+                    >
+                      {testingAlert ? "Sending..." : "Send Test Alert"}
+                    </button>
+                    {alertTestResult && (
+                      <p className="text-sm text-slate-600 dark:text-slate-400">
+                        {alertTestResult}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {activeTab === "tax" && (
+                <div className="space-y-8">
+                  <div className="max-w-xs">
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                      Default Tax Rate (%)
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="100"
+                      value={settings.taxRate}
+                      onChange={(e) =>
+                        updateSetting(
+                          "taxRate",
+                          parseFloat(e.target.value) || 0
+                        )
+                      }
+                      className="w-full bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-md px-4 py-3 text-sm"
+                      placeholder="0.00"
+                    />
+                    <p className="text-xs text-slate-500 mt-1">
+                      Applied where no tax region below matches. Saved with Save
+                      Changes.
+                    </p>
+                  </div>
+
+                  <TaxRegions />
                 </div>
               )}
 
@@ -594,6 +712,32 @@ export default function AdminSettings() {
                   </div>
                 </div>
               )}
+
+              {activeTab === "security" && (
+                <div className="space-y-6">
+                  <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800 rounded-lg">
+                    <div>
+                      <p className="font-semibold text-slate-900 dark:text-white">
+                        Require Two-Factor Authentication
+                      </p>
+                      <p className="text-sm text-slate-600 dark:text-slate-400">
+                        Every admin must use an authenticator app. Admins
+                        without one are signed out and set it up at their next
+                        sign in. Turn it on for your own account first, under
+                        Security.
+                      </p>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={settings.requireAdminTwoFactor}
+                      onChange={(e) =>
+                        updateSetting("requireAdminTwoFactor", e.target.checked)
+                      }
+                      className="rounded border-slate-300 text-primary focus:ring-primary w-5 h-5"
+                    />
+                  </div>
+                </div>
+              )}
             </>
           )}
         </div>
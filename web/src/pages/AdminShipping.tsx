@@ -8,13 +8,22 @@ interface WeightTier {
   rateCents: number;
 }
 
+interface ShippingMethod {
+  id?: string;
+  name: string;
+  minDays: number | null;
+  maxDays: number | null;
+  freeShippingMin: number | null;
+  enabled: boolean;
+  weightTiers: WeightTier[];
+}
+
 interface ShippingZone {
   id: string;
   name: string;
   countries: string[];
   enabled: boolean;
-  freeShippingMin: number | null;
-  weightTiers: WeightTier[];
+  methods: ShippingMethod[];
 }
 
 interface CarrierIntegration {
@@ -86,8 +95,7 @@ export default function AdminShipping() {
         name: selectedZone.name,
         countries: selectedZone.countries,
         enabled: selectedZone.enabled,
-        freeShippingMin: selectedZone.freeShippingMin,
-        weightTiers: selectedZone.weightTiers,
+        methods: selectedZone.methods,
       });
       await loadShippingConfig();
     } catch (err: any) {
@@ -97,11 +105,86 @@ export default function AdminShipping() {
     }
   };
 
-  const formatMoney = (cents: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(cents / 100);
+  const updateMethod = (index: number, patch: Partial<ShippingMethod>) => {
+    if (!selectedZone) return;
+    setSelectedZone({
+      ...selectedZone,
+      methods: selectedZone.methods.map((m, i) =>
+        i === index ? { ...m, ...patch } : m
+      ),
+    });
+  };
+
+  const updateTier = (
+    methodIndex: number,
+    tierIndex: number,
+    patch: Partial<WeightTier>
+  ) => {
+    const method = selectedZone?.methods[methodIndex];
+    if (!method) return;
+    updateMethod(methodIndex, {
+      weightTiers: method.weightTiers.map((t, i) =>
+        i === tierIndex ? { ...t, ...patch } : t
+      ),
+    });
+  };
+
+  const addTier = (methodIndex: number) => {
+    const method = selectedZone?.methods[methodIndex];
+    if (!method) return;
+    const last = method.weightTiers[method.weightTiers.length - 1];
+    const minWeightG = last ? last.maxWeightG + 1 : 0;
+    updateMethod(methodIndex, {
+      weightTiers: [
+        ...method.weightTiers,
+        {
+          minWeightG,
+          maxWeightG: minWeightG + 499,
+          rateCents: last?.rateCents ?? 0,
+        },
+      ],
+    });
+  };
+
+  const removeTier = (methodIndex: number, tierIndex: number) => {
+    const method = selectedZone?.methods[methodIndex];
+    if (!method) return;
+    updateMethod(methodIndex, {
+      weightTiers: method.weightTiers.filter((_, i) => i !== tierIndex),
+    });
+  };
+
+  const addMethod = () => {
+    if (!selectedZone) return;
+    setSelectedZone({
+      ...selectedZone,
+      methods: [
+        ...selectedZone.methods,
+        {
+          name: "Express",
+          minDays: 2,
+          maxDays: 3,
+          freeShippingMin: null,
+          enabled: true,
+          weightTiers: [{ minWeightG: 0, maxWeightG: 10000, rateCents: 0 }],
+        },
+      ],
+    });
+  };
+
+  const removeMethod = (index: number) => {
+    if (!selectedZone) return;
+    if (!window.confirm("Remove this shipping method?")) return;
+    setSelectedZone({
+      ...selectedZone,
+      methods: selectedZone.methods.filter((_, i) => i !== index),
+    });
+  };
+
+  const parseDays = (value: string): number | null => {
+    if (value.trim() === "") return null;
+    const n = parseInt(value, 10);
+    return Number.isFinite(n) && n >= 0 ? n : null;
   };
 
   const formatWeight = (grams: number) => {
@@ -133,8 +216,8 @@ export default function AdminShipping() {
               Shipping Configuration
             </h2>
             <p className="text-[#9a4c50] text-sm mt-1">
-              Manage shipping zones, weight-based rates, and carrier
-              integrations.
+              Manage shipping zones, shipping methods, weight-based rates, and
+              carrier integrations.
             </p>
           </div>
           <div className="flex gap-3">
@@ -230,165 +313,304 @@ export default function AdminShipping() {
             </div>
 
             <div className="space-y-6">
-              {/* Weight-Based Rates Card */}
-              <div className="bg-white dark:bg-[#1b0d0e] border border-[#e7cfd0] dark:border-[#3d2122] rounded-xl overflow-hidden">
-                <div className="p-4 sm:p-6 border-b border-[#e7cfd0] dark:border-[#3d2122] flex flex-col sm:flex-row sm:justify-between sm:items-start gap-4">
-                  <div className="flex gap-3 sm:gap-4">
-                    <div className="size-10 sm:size-12 flex-shrink-0 rounded-lg bg-primary/10 flex items-center justify-center text-primary">
-                      <span className="material-symbols-outlined">
-                        monitor_weight
-                      </span>
-                    </div>
-                    <div>
-                      <h4 className="text-base sm:text-lg font-bold">
-                        Weight-Based Rates
-                      </h4>
-                      <p className="text-xs sm:text-sm text-[#9a4c50] mt-0.5">
-                        Optimized for 50ml and 70ml glass bottle shipments.
-                      </p>
-                    </div>
+              {/* Zone Card */}
+              <div className="bg-white dark:bg-[#1b0d0e] border border-[#e7cfd0] dark:border-[#3d2122] rounded-xl p-4 sm:p-6 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+                <div className="flex gap-3 sm:gap-4 items-center">
+                  <div className="size-10 flex-shrink-0 rounded-lg bg-[#f3e7e8] dark:bg-[#3d2122] flex items-center justify-center">
+                    <span className="material-symbols-outlined">public</span>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <span className="text-xs font-bold text-[#9a4c50]">
-                      {selectedZone.enabled ? "ENABLED" : "DISABLED"}
-                    </span>
-                    <button
-                      onClick={() =>
-                        setSelectedZone({
-                          ...selectedZone,
-                          enabled: !selectedZone.enabled,
-                        })
-                      }
-                      className={`w-10 h-5 rounded-full relative transition-colors ${
-                        selectedZone.enabled
-                          ? "bg-primary"
-                          : "bg-gray-300 dark:bg-gray-600"
-                      }`}
-                    >
-                      <div
-                        className={`absolute top-1 size-3 bg-white rounded-full transition-all ${
-                          selectedZone.enabled ? "right-1" : "left-1"
-                        }`}
-                      ></div>
-                    </button>
+                  <div>
+                    <h4 className="text-base font-bold">Countries</h4>
+                    <p className="text-xs sm:text-sm text-[#9a4c50] mt-0.5">
+                      {selectedZone.countries.join(", ") || "None"}
+                    </p>
                   </div>
                 </div>
-
-                <div className="p-4 sm:p-6 overflow-x-auto">
-                  <table className="w-full text-left min-w-[500px]">
-                    <thead>
-                      <tr className="text-[#9a4c50] text-xs uppercase tracking-wider border-b border-[#f3e7e8] dark:border-[#3d2122]">
-                        <th className="pb-3 font-bold">Weight Range</th>
-                        <th className="pb-3 font-bold">Rate</th>
-                        <th className="pb-3"></th>
-                      </tr>
-                    </thead>
-                    <tbody className="text-sm">
-                      {selectedZone.weightTiers.map((tier, index) => (
-                        <tr
-                          key={tier.id || index}
-                          className={
-                            index < selectedZone.weightTiers.length - 1
-                              ? "border-b border-[#f8f6f6] dark:border-[#2a1617]"
-                              : ""
-                          }
-                        >
-                          <td className="py-4 font-medium">
-                            {formatWeight(tier.minWeightG)} -{" "}
-                            {formatWeight(tier.maxWeightG)}
-                          </td>
-                          <td className="py-4 text-[#9a4c50]">
-                            {formatMoney(tier.rateCents)}
-                          </td>
-                          <td className="py-4 text-right">
-                            <button className="text-[#9a4c50] hover:text-primary transition-colors">
-                              <span className="material-symbols-outlined text-lg">
-                                edit
-                              </span>
-                            </button>
-                          </td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                  <button className="mt-4 flex items-center gap-2 text-primary text-sm font-bold hover:underline">
-                    <span className="material-symbols-outlined text-lg">
-                      add_circle
-                    </span>
-                    Add Weight Tier
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-bold text-[#9a4c50]">
+                    {selectedZone.enabled ? "ENABLED" : "DISABLED"}
+                  </span>
+                  <button
+                    onClick={() =>
+                      setSelectedZone({
+                        ...selectedZone,
+                        enabled: !selectedZone.enabled,
+                      })
+                    }
+                    className={`w-10 h-5 rounded-full relative transition-colors ${
+                      selectedZone.enabled
+                        ? "bg-primary"
+                        : "bg-gray-300 dark:bg-gray-600"
+                    }`}
+                  >
+                    <div
+                      className={`absolute top-1 size-3 bg-white rounded-full transition-all ${
+                        selectedZone.enabled ? "right-1" : "left-1"
+                      }`}
+                    ></div>
                   </button>
                 </div>
               </div>
 
-              {/* Free Shipping Threshold */}
-              <div className="bg-white dark:bg-[#1b0d0e] border border-[#e7cfd0] dark:border-[#3d2122] rounded-xl p-4 sm:p-6">
-                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-                  <div className="flex gap-3 sm:gap-4 items-start sm:items-center">
-                    <div className="size-10 flex-shrink-0 rounded-lg bg-[#f3e7e8] dark:bg-[#3d2122] flex items-center justify-center">
-                      <span className="material-symbols-outlined">
-                        celebration
-                      </span>
-                    </div>
-                    <div>
-                      <h4 className="text-base font-bold">
-                        Free Shipping Promotion
-                      </h4>
-                      <p className="text-xs sm:text-sm text-[#9a4c50] mt-0.5">
-                        Offer free shipping once a subtotal threshold is
-                        reached.
-                      </p>
+              {/* Shipping Method Cards */}
+              {selectedZone.methods.map((method, methodIndex) => (
+                <div
+                  key={method.id || methodIndex}
+                  className="bg-white dark:bg-[#1b0d0e] border border-[#e7cfd0] dark:border-[#3d2122] rounded-xl overflow-hidden"
+                >
+                  <div className="p-4 sm:p-6 border-b border-[#e7cfd0] dark:border-[#3d2122] flex flex-col sm:flex-row sm:justify-between sm:items-start gap-4">
+                    <div className="flex gap-3 sm:gap-4">
+                      <div className="size-10 sm:size-12 flex-shrink-0 rounded-lg bg-primary/10 flex items-center justify-center text-primary">
+                        <span className="material-symbols-outlined">
+                          local_shipping
+                        </span>
+                      </div>
+                      <div className="space-y-2">
+                        <input
+                          value={method.name}
+                          onChange={(e) =>
+                            updateMethod(methodIndex, { name: e.target.value })
+                          }
+                          className="text-base sm:text-lg font-bold bg-transparent border-b border-transparent hover:border-[#e7cfd0] focus:border-primary focus:outline-none"
+                          placeholder="Method name"
+                        />
+                        <div className="flex items-center gap-2 text-xs sm:text-sm text-[#9a4c50]">
+                          <input
+                            type="number"
+                            min={0}
+                            value={method.minDays ?? ""}
+                            onChange={(e) =>
+                              updateMethod(methodIndex, {
+                                minDays: parseDays(e.target.value),
+                              })
+                            }
+                            className="w-14 px-2 py-1 bg-[#f8f6f6] dark:bg-[#2a1617] border border-[#e7cfd0] dark:border-[#3d2122] rounded text-sm"
+                          />
+                          <span>to</span>
+                          <input
+                            type="number"
+                            min={0}
+                            value={method.maxDays ?? ""}
+                            onChange={(e) =>
+                              updateMethod(methodIndex, {
+                                maxDays: parseDays(e.target.value),
+                              })
+                            }
+                            className="w-14 px-2 py-1 bg-[#f8f6f6] dark:bg-[#2a1617] border border-[#e7cfd0] dark:border-[#3d2122] rounded text-sm"
+                          />
+                          <span>business days</span>
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                  <div className="flex items-center gap-3 sm:gap-4">
-                    <div className="flex items-center border border-[#e7cfd0] dark:border-[#3d2122] rounded-lg overflow-hidden">
-                      <span className="px-3 py-2 bg-[#f8f6f6] dark:bg-[#2a1617] text-[#9a4c50] text-sm border-r border-[#e7cfd0] dark:border-[#3d2122]">
-                        $
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-bold text-[#9a4c50]">
+                        {method.enabled ? "ENABLED" : "DISABLED"}
                       </span>
-                      <input
-                        type="number"
-                        step="0.01"
-                        value={
-                          selectedZone.freeShippingMin
-                            ? (selectedZone.freeShippingMin / 100).toFixed(2)
-                            : "75.00"
-                        }
-                        onChange={(e) =>
-                          setSelectedZone({
-                            ...selectedZone,
-                            freeShippingMin: Math.round(
-                              parseFloat(e.target.value) * 100
-                            ),
+                      <button
+                        onClick={() =>
+                          updateMethod(methodIndex, {
+                            enabled: !method.enabled,
                           })
                         }
-                        className="w-20 px-3 py-2 bg-white dark:bg-[#1b0d0e] text-sm"
-                        disabled={saving || !selectedZone.freeShippingMin}
-                      />
+                        className={`w-10 h-5 rounded-full relative transition-colors ${
+                          method.enabled
+                            ? "bg-primary"
+                            : "bg-gray-300 dark:bg-gray-600"
+                        }`}
+                      >
+                        <div
+                          className={`absolute top-1 size-3 bg-white rounded-full transition-all ${
+                            method.enabled ? "right-1" : "left-1"
+                          }`}
+                        ></div>
+                      </button>
+                      <button
+                        onClick={() => removeMethod(methodIndex)}
+                        className="ml-2 text-[#9a4c50] hover:text-primary transition-colors"
+                        title="Remove method"
+                      >
+                        <span className="material-symbols-outlined text-lg">
+                          delete
+                        </span>
+                      </button>
                     </div>
+                  </div>
+
+                  <div className="p-4 sm:p-6 overflow-x-auto">
+                    <table className="w-full text-left min-w-[500px]">
+                      <thead>
+                        <tr className="text-[#9a4c50] text-xs uppercase tracking-wider border-b border-[#f3e7e8] dark:border-[#3d2122]">
+                          <th className="pb-3 font-bold">Weight Range (g)</th>
+                          <th className="pb-3 font-bold">Rate</th>
+                          <th className="pb-3"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="text-sm">
+                        {method.weightTiers.map((tier, tierIndex) => (
+                          <tr
+                            key={tier.id || tierIndex}
+                            className={
+                              tierIndex < method.weightTiers.length - 1
+                                ? "border-b border-[#f8f6f6] dark:border-[#2a1617]"
+                                : ""
+                            }
+                          >
+                            <td className="py-3 font-medium">
+                              <div className="flex items-center gap-2">
+                                <input
+                                  type="number"
+                                  min={0}
+                                  value={tier.minWeightG}
+                                  onChange={(e) =>
+                                    updateTier(methodIndex, tierIndex, {
+                                      minWeightG:
+                                        parseInt(e.target.value, 10) || 0,
+                                    })
+                                  }
+                                  className="w-20 px-2 py-1 bg-[#f8f6f6] dark:bg-[#2a1617] border border-[#e7cfd0] dark:border-[#3d2122] rounded text-sm"
+                                />
+                                <span className="text-[#9a4c50]">-</span>
+                                <input
+                                  type="number"
+                                  min={0}
+                                  value={tier.maxWeightG}
+                                  onChange={(e) =>
+                                    updateTier(methodIndex, tierIndex, {
+                                      maxWeightG:
+                                        parseInt(e.target.value, 10) || 0,
+                                    })
+                                  }
+                                  className="w-20 px-2 py-1 bg-[#f8f6f6] dark:bg-[#2a1617] border border-[#e7cfd0] dark:border-[#3d2122] rounded text-sm"
+                                />
+                                <span className="text-xs text-[#9a4c50]">
+                                  ({formatWeight(tier.minWeightG)} -{" "}
+                                  {formatWeight(tier.maxWeightG)})
+                                </span>
+                              </div>
+                            </td>
+                            <td className="py-3 text-[#9a4c50]">
+                              <div className="flex items-center gap-1">
+                                <span>$</span>
+                                <input
+                                  type="number"
+                                  step="0.01"
+                                  min={0}
+                                  value={(tier.rateCents / 100).toFixed(2)}
+                                  onChange={(e) =>
+                                    updateTier(methodIndex, tierIndex, {
+                                      rateCents: Math.round(
+                                        (parseFloat(e.target.value) || 0) * 100
+                                      ),
+                                    })
+                                  }
+                                  className="w-20 px-2 py-1 bg-[#f8f6f6] dark:bg-[#2a1617] border border-[#e7cfd0] dark:border-[#3d2122] rounded text-sm"
+                                />
+                              </div>
+                            </td>
+                            <td className="py-3 text-right">
+                              <button
+                                onClick={() =>
+                                  removeTier(methodIndex, tierIndex)
+                                }
+                                className="text-[#9a4c50] hover:text-primary transition-colors"
+                              >
+                                <span className="material-symbols-outlined text-lg">
+                                  close
+                                </span>
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
                     <button
-                      onClick={() =>
-                        setSelectedZone({
-                          ...selectedZone,
-                          freeShippingMin: selectedZone.freeShippingMin
-                            ? null
-                            : 7500,
-                        })
-                      }
-                      disabled={saving}
-                      className={`w-10 h-5 rounded-full relative transition-colors ${
-                        selectedZone.freeShippingMin
-                          ? "bg-primary"
-                          : "bg-gray-300 dark:bg-gray-600"
-                      }`}
+                      onClick={() => addTier(methodIndex)}
+                      className="mt-4 flex items-center gap-2 text-primary text-sm font-bold hover:underline"
                     >
-                      <div
-                        className={`absolute top-1 size-3 bg-white rounded-full transition-all ${
-                          selectedZone.freeShippingMin ? "right-1" : "left-1"
-                        }`}
-                      ></div>
+                      <span className="material-symbols-outlined text-lg">
+                        add_circle
+                      </span>
+                      Add Weight Tier
                     </button>
                   </div>
+
+                  {/* Free Shipping Threshold */}
+                  <div className="p-4 sm:p-6 border-t border-[#e7cfd0] dark:border-[#3d2122] flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                    <div className="flex gap-3 sm:gap-4 items-start sm:items-center">
+                      <div className="size-10 flex-shrink-0 rounded-lg bg-[#f3e7e8] dark:bg-[#3d2122] flex items-center justify-center">
+                        <span className="material-symbols-outlined">
+                          celebration
+                        </span>
+                      </div>
+                      <div>
+                        <h4 className="text-base font-bold">
+                          Free Shipping Promotion
+                        </h4>
+                        <p className="text-xs sm:text-sm text-[#9a4c50] mt-0.5">
+                          Make this method free once a subtotal threshold is
+                          reached.
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 sm:gap-4">
+                      <div className="flex items-center border border-[#e7cfd0] dark:border-[#3d2122] rounded-lg overflow-hidden">
+                        <span className="px-3 py-2 bg-[#f8f6f6] dark:bg-[#2a1617] text-[#9a4c50] text-sm border-r border-[#e7cfd0] dark:border-[#3d2122]">
+                          $
+                        </span>
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={
+                            method.freeShippingMin
+                              ? (method.freeShippingMin / 100).toFixed(2)
+                              : "75.00"
+                          }
+                          onChange={(e) =>
+                            updateMethod(methodIndex, {
+                              freeShippingMin: Math.round(
+                                parseFloat(e.target.value) * 100
+                              ),
+                            })
+                          }
+                          className="w-20 px-3 py-2 bg-white dark:bg-[#1b0d0e] text-sm"
+                          disabled={saving || !method.freeShippingMin}
+                        />
+                      </div>
+                      <button
+                        onClick={() =>
+                          updateMethod(methodIndex, {
+                            freeShippingMin: method.freeShippingMin
+                              ? null
+                              : 7500,
+                          })
+                        }
+                        disabled={saving}
+                        className={`w-10 h-5 rounded-full relative transition-colors ${
+                          method.freeShippingMin
+                            ? "bg-primary"
+                            : "bg-gray-300 dark:bg-gray-600"
+                        }`}
+                      >
+                        <div
+                          className={`absolute top-1 size-3 bg-white rounded-full transition-all ${
+                            method.freeShippingMin ? "right-1" : "left-1"
+                          }`}
+                        ></div>
+                      </button>
+                    </div>
+                  </div>
                 </div>
-              </div>
+              ))}
+
+              <button
+                onClick={addMethod}
+                className="w-full border-2 border-dashed border-[#e7cfd0] dark:border-[#3d2122] rounded-xl p-4 flex items-center justify-center gap-2 text-primary text-sm font-bold hover:bg-white dark:hover:bg-[#1b0d0e] transition-colors"
+              >
+                <span className="material-symbols-outlined text-lg">
+                  add_circle
+                </span>
+                Add Shipping Method
+              </button>
             </div>
           </section>
 
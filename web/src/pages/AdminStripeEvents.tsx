@@ -0,0 +1,381 @@
+import { Fragment, useEffect, useState } from "react";
+import {
+  adminReconcileOrders,
+  adminReplayStripeEvent,
+  adminStripeEvent,
+  adminStripeEvents,
+} from "../lib/api";
+import { ReconcileReport, StripeEvent } from "../types";
+
+const STATUSES: Array<{ value: StripeEvent["status"]; label: string }> = [
+  { value: "failed", label: "Failed" },
+  { value: "pending", label: "Pending" },
+  { value: "processing", label: "Processing" },
+  { value: "processed", label: "Processed" },
+  { value: "ignored", label: "Ignored" },
+];
+
+const STATUS_STYLES: Record<StripeEvent["status"], string> = {
+  pending:
+    "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300",
+  processing:
+    "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
+  processed:
+    "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  ignored: "bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+};
+
+function formatMoney(cents: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format((Number(cents) || 0) / 100);
+}
+
+function ReconcilePanel() {
+  const [days, setDays] = useState("7");
+  const [dryRun, setDryRun] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [report, setReport] = useState<ReconcileReport | null>(null);
+  const [error, setError] = useState("");
+
+  async function run(): Promise<void> {
+    setRunning(true);
+    setError("");
+    try {
+      setReport(await adminReconcileOrders(Number(days), dryRun));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  const entries = report
+    ? [
+        ...report.created.map((e) => ({
+          ...e,
+          kind: report.dryRun ? "Would create" : "Created",
+        })),
+        ...report.repaired.map((e) => ({
+          ...e,
+          kind: report.dryRun ? "Would repair" : "Repaired",
+        })),
+        ...report.mismatches.map((m) => ({
+          sessionId: m.sessionId,
+          orderId: m.orderId,
+          kind: "Mismatch",
+          detail: `Stripe ${formatMoney(m.stripeCents)}, order ${formatMoney(
+            m.orderCents
+          )}${
+            m.itemsCents === null ? "" : `, items ${formatMoney(m.itemsCents)}`
+          }`,
+        })),
+        ...report.errors.map((e) => ({ ...e, kind: "Error" })),
+      ]
+    : [];
+
+  return (
+    <div className="mb-8 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-6">
+      <h3 className="font-bold mb-1">Reconcile Orders</h3>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+        Check recent Stripe checkouts against orders: create missing orders,
+        restore missing line items and list totals that don't match
+      </p>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm">
+          Last
+          <input
+            type="number"
+            min={1}
+            max={90}
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+            className="w-20 bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-md px-3 py-2 text-sm"
+          />
+          days
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={dryRun}
+            onChange={(e) => setDryRun(e.target.checked)}
+          />
+          Dry run
+        </label>
+        <button
+          type="button"
+          onClick={run}
+          disabled={running}
+          className="px-4 py-2 bg-primary text-white rounded-lg text-sm font-bold disabled:opacity-50"
+        >
+          {running ? "Checking..." : "Run"}
+        </button>
+      </div>
+
+      {error && (
+        <p className="mt-4 text-sm text-red-700 dark:text-red-300">{error}</p>
+      )}
+      {report && (
+        <div className="mt-4 text-sm">
+          <p className="text-slate-600 dark:text-slate-400">
+            {report.scanned} checkouts since{" "}
+            {new Date(report.since).toLocaleDateString()}:{" "}
+            {report.created.length} missing, {report.repaired.length} truncated,{" "}
+            {report.mismatches.length} mismatched, {report.errors.length} errors
+            {report.dryRun && " (dry run, nothing changed)"}
+          </p>
+          {entries.length > 0 && (
+            <ul className="mt-3 divide-y divide-slate-200 dark:divide-slate-800">
+              {entries.map((entry, idx) => (
+                <li key={idx} className="py-2 flex flex-wrap gap-x-3">
+                  <span className="font-semibold">{entry.kind}</span>
+                  <span className="font-mono text-xs text-slate-500">
+                    {entry.sessionId}
+                    {entry.orderId && ` → ${entry.orderId}`}
+                  </span>
+                  <span>{entry.detail}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function AdminStripeEvents() {
+  const [status, setStatus] = useState<string>("failed");
+  const [type, setType] = useState("");
+  const [events, setEvents] = useState<StripeEvent[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [expanded, setExpanded] = useState<StripeEvent | null>(null);
+  const [replaying, setReplaying] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  async function loadEvents(): Promise<void> {
+    setLoading(true);
+    setError("");
+    try {
+      const data = await adminStripeEvents({ status, type });
+      setEvents(data.events);
+      setCounts(data.counts);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadEvents();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status, type]);
+
+  async function toggle(id: string): Promise<void> {
+    if (expanded?.id === id) {
+      setExpanded(null);
+      return;
+    }
+    try {
+      setExpanded(await adminStripeEvent(id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  async function replay(id: string): Promise<void> {
+    setReplaying(id);
+    setError("");
+    setNotice("");
+    try {
+      const result = await adminReplayStripeEvent(id);
+      if (result.ok) {
+        setNotice(`Replayed ${id}`);
+      } else {
+        setError(`Replay failed: ${result.error}`);
+      }
+      if (expanded?.id === id) setExpanded(result.event);
+      await loadEvents();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setReplaying(null);
+    }
+  }
+
+  const inputClass =
+    "bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-md px-3 py-2 text-sm";
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold font-display mb-2">Stripe Events</h2>
+        <p className="text-slate-600 dark:text-slate-400">
+          Webhook events received from Stripe and how they were handled
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-900/40 rounded-lg px-4 py-3">
+          <p className="text-sm text-red-700 dark:text-red-200">{error}</p>
+        </div>
+      )}
+      {notice && (
+        <div className="mb-6 bg-green-50 dark:bg-green-950/30 border border-green-200 dark:border-green-900/40 rounded-lg px-4 py-3">
+          <p className="text-sm text-green-700 dark:text-green-200">{notice}</p>
+        </div>
+      )}
+
+      <ReconcilePanel />
+
+      <div className="mb-6 flex flex-wrap items-end gap-3">
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => setStatus("")}
+            className={`px-3 py-1.5 rounded-lg text-xs font-bold ${
+              status === ""
+                ? "bg-primary text-white"
+                : "bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300"
+            }`}
+          >
+            All
+          </button>
+          {STATUSES.map((s) => (
+            <button
+              key={s.value}
+              type="button"
+              onClick={() => setStatus(s.value)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold ${
+                status === s.value
+                  ? "bg-primary text-white"
+                  : "bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300"
+              }`}
+            >
+              {s.label} ({counts[s.value] ?? 0})
+            </button>
+          ))}
+        </div>
+        <label className="flex flex-col gap-1 text-xs font-semibold text-slate-600 dark:text-slate-400">
+          Type
+          <input
+            type="text"
+            value={type}
+            onChange={(e) => setType(e.target.value.trim())}
+            placeholder="e.g. checkout.session.completed"
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12 text-slate-500">Loading...</div>
+      ) : events.length === 0 ? (
+        <div className="text-center py-12 text-slate-500">No events</div>
+      ) : (
+        <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
+                  Received
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
+                  Type
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
+                  Attempts
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
+                  Error
+                </th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
+              {events.map((event) => (
+                <Fragment key={event.id}>
+                  <tr
+                    onClick={() => toggle(event.id)}
+                    className="cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/50"
+                  >
+                    <td className="px-6 py-3 text-slate-500 whitespace-nowrap">
+                      {new Date(event.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-3">
+                      <div className="font-medium">{event.type}</div>
+                      <div className="font-mono text-xs text-slate-500">
+                        {event.id}
+                        {!event.livemode && " · test"}
+                      </div>
+                    </td>
+                    <td className="px-6 py-3">
+                      <span
+                        className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          STATUS_STYLES[event.status]
+                        }`}
+                      >
+                        {event.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-3 text-slate-500">
+                      {event.attempts}
+                    </td>
+                    <td className="px-6 py-3 text-xs text-red-700 dark:text-red-300 max-w-sm truncate">
+                      {event.error || ""}
+                    </td>
+                    <td className="px-6 py-3 text-right">
+                      {event.status === "failed" && (
+                        <button
+                          type="button"
+                          disabled={replaying === event.id}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            replay(event.id);
+                          }}
+                          className="px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg text-xs font-bold hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50"
+                        >
+                          {replaying === event.id ? "Replaying..." : "Replay"}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {expanded?.id === event.id && (
+                    <tr className="bg-slate-50 dark:bg-slate-800/30">
+                      <td colSpan={6} className="px-6 py-4 space-y-2">
+                        {expanded.error && (
+                          <p className="text-xs text-red-700 dark:text-red-300 whitespace-pre-wrap">
+                            {expanded.error}
+                          </p>
+                        )}
+                        <p className="text-xs text-slate-500">
+                          Created in Stripe{" "}
+                          {new Date(expanded.stripeCreatedAt).toLocaleString()}
+                          {expanded.processedAt &&
+                            ` · handled ${new Date(
+                              expanded.processedAt
+                            ).toLocaleString()}`}
+                        </p>
+                        <pre className="text-xs font-mono bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg p-3 overflow-auto max-h-96">
+                          {JSON.stringify(expanded.payload, null, 2)}
+                        </pre>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
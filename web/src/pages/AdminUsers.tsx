@@ -5,14 +5,29 @@ import {
   adminUpdateUser,
   adminDeleteUser,
   adminChangePassword,
+  adminResetUserTwoFactor,
+  adminUnlockUser,
+  adminLoginAttempts,
+  adminInviteUser,
+  adminResendInvite,
+  adminSessions,
+  adminRevokeSession,
+  adminRevokeUserSessions,
 } from "../lib/api";
+import { MIN_PASSWORD_LENGTH, PASSWORD_HINT } from "../lib/passwordPolicy";
 import ConfirmModal from "../components/ConfirmModal";
+import { AdminRole, AdminSession, LoginAttempt } from "../types";
 
 interface AdminUser {
   id: string;
   email: string;
   name: string | null;
+  role: AdminRole;
   active: boolean;
+  totpEnabledAt: string | null;
+  failedLoginCount: number;
+  lockedUntil: string | null;
+  invitedAt: string | null;
   createdAt: string;
 }
 
@@ -20,11 +35,53 @@ interface UserFormData {
   email: string;
   name: string;
   password: string;
+  role: AdminRole;
   active: boolean;
 }
 
+const ROLES: Array<{ value: AdminRole; label: string; description: string }> = [
+  {
+    value: "owner",
+    label: "Owner",
+    description: "Everything, including admin users and store settings",
+  },
+  {
+    value: "manager",
+    label: "Manager",
+    description: "Orders, refunds, catalog, customers, discounts, shipping",
+  },
+  {
+    value: "fulfillment",
+    label: "Fulfillment",
+    description: "Orders and inventory only",
+  },
+  {
+    value: "content_editor",
+    label: "Content Editor",
+    description: "Products, categories and media, without stock",
+  },
+];
+
+const ATTEMPT_REASONS: Record<string, string> = {
+  invalid_password: "Wrong password",
+  unknown_user: "Unknown email",
+  inactive: "Inactive user",
+  locked: "Account locked",
+  throttled: "Throttled",
+  invalid_code: "Wrong 2FA code",
+};
+
+function isLocked(user: AdminUser): boolean {
+  return Boolean(user.lockedUntil && new Date(user.lockedUntil) > new Date());
+}
+
+function roleLabel(role: AdminRole): string {
+  return ROLES.find((r) => r.value === role)?.label || role;
+}
+
 interface UserModalProps {
-  mode: "create" | "edit";
+  // "invite" emails a link to set a password instead of taking one.
+  mode: "create" | "edit" | "invite";
   initial: AdminUser | null;
   onClose: () => void;
   onSaved: () => void;
@@ -37,6 +94,7 @@ function UserModal({ mode, initial, onClose, onSaved }: UserModalProps) {
     email: initial?.email || "",
     name: initial?.name || "",
     password: "",
+    role: initial?.role || "fulfillment",
     active: initial?.active ?? true,
   }));
 
@@ -53,17 +111,25 @@ function UserModal({ mode, initial, onClose, onSaved }: UserModalProps) {
       return;
     }
 
+    if (mode === "create" && form.password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+
     setSaving(true);
     try {
       const payload: any = {
         email: form.email.trim(),
         name: form.name.trim() || null,
+        role: form.role,
         active: form.active,
       };
 
       if (mode === "create") {
         payload.password = form.password;
         await adminCreateUser(payload);
+      } else if (mode === "invite") {
+        await adminInviteUser(payload);
       } else {
         await adminUpdateUser(initial!.id, payload);
       }
@@ -75,7 +141,12 @@ function UserModal({ mode, initial, onClose, onSaved }: UserModalProps) {
     }
   }
 
-  const title = mode === "create" ? "Add New User" : "Edit User";
+  const title =
+    mode === "create"
+      ? "Add New User"
+      : mode === "invite"
+      ? "Invite User"
+      : "Edit User";
 
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 p-4">
@@ -128,6 +199,29 @@ function UserModal({ mode, initial, onClose, onSaved }: UserModalProps) {
             />
           </div>
 
+          <div>
+            <label className="block text-xs font-semibold text-slate-600 dark:text-slate-300 mb-2">
+              Role
+            </label>
+            <select
+              className="w-full bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-md px-3 py-2 text-sm"
+              value={form.role}
+              onChange={(e) =>
+                setForm((p) => ({ ...p, role: e.target.value as AdminRole }))
+              }
+              disabled={saving}
+            >
+              {ROLES.map((r) => (
+                <option key={r.value} value={r.value}>
+                  {r.label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-slate-500">
+              {ROLES.find((r) => r.value === form.role)?.description}
+            </p>
+          </div>
+
           {mode === "create" && (
             <div>
               <label className="block text-xs font-semibold text-slate-600 dark:text-slate-300 mb-2">
@@ -143,24 +237,34 @@ function UserModal({ mode, initial, onClose, onSaved }: UserModalProps) {
                 disabled={saving}
                 placeholder="••••••••"
               />
+              <p className="text-xs text-slate-500 mt-1">{PASSWORD_HINT}</p>
             </div>
           )}
 
-          <div className="flex items-center gap-3">
-            <input
-              id="active"
-              type="checkbox"
-              checked={form.active}
-              onChange={(e) =>
-                setForm((p) => ({ ...p, active: e.target.checked }))
-              }
-              disabled={saving}
-              className="rounded border-slate-300 text-primary focus:ring-primary"
-            />
-            <label htmlFor="active" className="text-sm">
-              Active
-            </label>
-          </div>
+          {mode === "invite" && (
+            <p className="text-xs text-slate-500">
+              They'll get an email with a link to choose their own password. The
+              link works once and expires in 7 days.
+            </p>
+          )}
+
+          {mode !== "invite" && (
+            <div className="flex items-center gap-3">
+              <input
+                id="active"
+                type="checkbox"
+                checked={form.active}
+                onChange={(e) =>
+                  setForm((p) => ({ ...p, active: e.target.checked }))
+                }
+                disabled={saving}
+                className="rounded border-slate-300 text-primary focus:ring-primary"
+              />
+              <label htmlFor="active" className="text-sm">
+                Active
+              </label>
+            </div>
+          )}
         </div>
 
         <div className="p-5 border-t border-slate-200 dark:border-slate-800 flex gap-3 justify-end">
@@ -178,7 +282,13 @@ function UserModal({ mode, initial, onClose, onSaved }: UserModalProps) {
             className="px-4 py-2 text-sm font-medium bg-primary hover:bg-red-700 text-white rounded-md disabled:opacity-50"
             disabled={saving}
           >
-            {saving ? "Saving..." : mode === "create" ? "Create" : "Save"}
+            {saving
+              ? "Saving..."
+              : mode === "create"
+              ? "Create"
+              : mode === "invite"
+              ? "Send Invitation"
+              : "Save"}
           </button>
         </div>
       </div>
@@ -211,8 +321,8 @@ function PasswordModal({ user, onClose, onSaved }: PasswordModalProps) {
       return;
     }
 
-    if (password.length < 6) {
-      setError("Password must be at least 6 characters");
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
       return;
     }
 
@@ -266,6 +376,7 @@ function PasswordModal({ user, onClose, onSaved }: PasswordModalProps) {
               disabled={saving}
               placeholder="••••••••"
             />
+            <p className="text-xs text-slate-500 mt-1">{PASSWORD_HINT}</p>
           </div>
 
           <div>
@@ -311,10 +422,16 @@ export default function AdminUsers() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const [showModal, setShowModal] = useState<
-    "create" | "edit" | "password" | null
+    "create" | "invite" | "edit" | "password" | null
   >(null);
   const [selectedUser, setSelectedUser] = useState<AdminUser | null>(null);
   const [confirmDelete, setConfirmDelete] = useState<AdminUser | null>(null);
+  const [confirmResetTwoFactor, setConfirmResetTwoFactor] =
+    useState<AdminUser | null>(null);
+  const [attempts, setAttempts] = useState<LoginAttempt[]>([]);
+  const [failedAttemptsOnly, setFailedAttemptsOnly] = useState(false);
+  const [sessions, setSessions] = useState<AdminSession[]>([]);
+  const [confirmSignOut, setConfirmSignOut] = useState<AdminUser | null>(null);
 
   async function loadUsers(): Promise<void> {
     setLoading(true);
@@ -333,6 +450,69 @@ export default function AdminUsers() {
     loadUsers();
   }, []);
 
+  async function loadAttempts(): Promise<void> {
+    try {
+      setAttempts(await adminLoginAttempts({ failed: failedAttemptsOnly }));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  useEffect(() => {
+    loadAttempts();
+  }, [failedAttemptsOnly]);
+
+  async function loadSessions(): Promise<void> {
+    try {
+      setSessions(await adminSessions());
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  async function handleRevokeSession(session: AdminSession): Promise<void> {
+    try {
+      await adminRevokeSession(session.id);
+      await loadSessions();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  async function signOutEverywhere(): Promise<void> {
+    if (!confirmSignOut) return;
+    const user = confirmSignOut;
+    setConfirmSignOut(null);
+    try {
+      await adminRevokeUserSessions(user.id);
+      await loadSessions();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  async function handleResendInvite(user: AdminUser): Promise<void> {
+    try {
+      await adminResendInvite(user.id);
+      await loadUsers();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  async function handleUnlock(user: AdminUser): Promise<void> {
+    try {
+      await adminUnlockUser(user.id);
+      await loadUsers();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
   async function handleDeleteClick(user: AdminUser): Promise<void> {
     setConfirmDelete(user);
   }
@@ -343,6 +523,18 @@ export default function AdminUsers() {
     setConfirmDelete(null);
     try {
       await adminDeleteUser(userToDelete.id);
+      await Promise.all([loadUsers(), loadSessions()]);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }
+
+  async function resetTwoFactor(): Promise<void> {
+    if (!confirmResetTwoFactor) return;
+    const user = confirmResetTwoFactor;
+    setConfirmResetTwoFactor(null);
+    try {
+      await adminResetUserTwoFactor(user.id);
       await loadUsers();
     } catch (err: any) {
       setError(err.message);
@@ -365,7 +557,8 @@ export default function AdminUsers() {
   }
 
   async function handleSaved(): Promise<void> {
-    await loadUsers();
+    // Deactivating a user or changing a password ends sessions too.
+    await Promise.all([loadUsers(), loadSessions()]);
     closeModal();
   }
 
@@ -378,14 +571,24 @@ export default function AdminUsers() {
             Manage admin user accounts and permissions
           </p>
         </div>
-        <button
-          type="button"
-          onClick={() => setShowModal("create")}
-          className="inline-flex items-center gap-2 px-4 py-2 bg-primary hover:bg-red-700 text-white font-medium rounded-lg transition-colors"
-        >
-          <span className="material-symbols-outlined text-xl">add</span>
-          Add User
-        </button>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setShowModal("create")}
+            className="inline-flex items-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-700 font-medium rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
+          >
+            <span className="material-symbols-outlined text-xl">add</span>
+            Add User
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowModal("invite")}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-primary hover:bg-red-700 text-white font-medium rounded-lg transition-colors"
+          >
+            <span className="material-symbols-outlined text-xl">mail</span>
+            Invite User
+          </button>
+        </div>
       </div>
 
       {error && (
@@ -409,9 +612,15 @@ export default function AdminUsers() {
                 <th className="px-6 py-3 text-left text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
                   Name
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
+                  Role
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
                   Status
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
+                  Two-Factor
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
                   Created
                 </th>
@@ -432,16 +641,54 @@ export default function AdminUsers() {
                   <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">
                     {user.name || "—"}
                   </td>
+                  <td className="px-6 py-4 text-sm">{roleLabel(user.role)}</td>
                   <td className="px-6 py-4">
                     <span
                       className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                        user.active
+                        user.invitedAt
+                          ? "bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300"
+                          : user.active
                           ? "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300"
                           : "bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400"
                       }`}
                     >
-                      {user.active ? "Active" : "Inactive"}
+                      {user.invitedAt
+                        ? "Invited"
+                        : user.active
+                        ? "Active"
+                        : "Inactive"}
                     </span>
+                    {isLocked(user) && (
+                      <span
+                        className="ml-2 inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300"
+                        title={`Until ${new Date(
+                          user.lockedUntil!
+                        ).toLocaleString()}`}
+                      >
+                        <span className="material-symbols-outlined text-sm">
+                          lock
+                        </span>
+                        Locked
+                      </span>
+                    )}
+                    {!isLocked(user) && user.failedLoginCount > 0 && (
+                      <div className="text-xs text-slate-500 mt-1">
+                        {user.failedLoginCount} failed sign in
+                        {user.failedLoginCount === 1 ? "" : "s"}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">
+                    {user.totpEnabledAt ? (
+                      <span className="inline-flex items-center gap-1 text-green-700 dark:text-green-300">
+                        <span className="material-symbols-outlined text-base">
+                          verified_user
+                        </span>
+                        On
+                      </span>
+                    ) : (
+                      "Off"
+                    )}
                   </td>
                   <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">
                     {new Date(user.createdAt).toLocaleDateString()}
@@ -461,6 +708,44 @@ export default function AdminUsers() {
                     >
                       Password
                     </button>
+                    {user.invitedAt && (
+                      <button
+                        type="button"
+                        onClick={() => handleResendInvite(user)}
+                        className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
+                      >
+                        Resend Invite
+                      </button>
+                    )}
+                    {(isLocked(user) || user.failedLoginCount > 0) && (
+                      <button
+                        type="button"
+                        onClick={() => handleUnlock(user)}
+                        className="text-green-600 dark:text-green-400 hover:text-green-700 dark:hover:text-green-300 font-medium"
+                      >
+                        Unlock
+                      </button>
+                    )}
+                    {sessions.some(
+                      (session) => session.adminUserId === user.id
+                    ) && (
+                      <button
+                        type="button"
+                        onClick={() => setConfirmSignOut(user)}
+                        className="text-slate-600 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200 font-medium"
+                      >
+                        Sign Out
+                      </button>
+                    )}
+                    {user.totpEnabledAt && (
+                      <button
+                        type="button"
+                        onClick={() => setConfirmResetTwoFactor(user)}
+                        className="text-slate-600 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200 font-medium"
+                      >
+                        Reset 2FA
+                      </button>
+                    )}
                     <button
                       type="button"
                       onClick={() => handleDeleteClick(user)}
@@ -476,6 +761,129 @@ export default function AdminUsers() {
         </div>
       )}
 
+      <div className="mt-8 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h3 className="font-bold">Active Sessions</h3>
+        </div>
+        {sessions.length === 0 ? (
+          <div className="text-center py-8 text-sm text-slate-500">
+            No one is signed in
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
+              {sessions.map((session) => (
+                <tr key={session.id}>
+                  <td className="px-6 py-3 font-medium">
+                    {session.adminUser?.email || "—"}
+                    {session.current && (
+                      <span className="ml-2 text-xs font-normal text-green-700 dark:text-green-300">
+                        This session
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 text-slate-500 whitespace-nowrap">
+                    {session.lastSeenAt
+                      ? `Last seen ${new Date(
+                          session.lastSeenAt
+                        ).toLocaleString()}`
+                      : "—"}
+                    {session.signedInAt && (
+                      <div className="text-xs">
+                        Signed in{" "}
+                        {new Date(session.signedInAt).toLocaleString()}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 font-mono text-xs text-slate-500">
+                    {session.ip || "—"}
+                  </td>
+                  <td
+                    className="px-6 py-3 text-xs text-slate-500 max-w-xs truncate"
+                    title={session.userAgent || ""}
+                  >
+                    {session.userAgent || "—"}
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    {!session.current && (
+                      <button
+                        type="button"
+                        onClick={() => handleRevokeSession(session)}
+                        className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 font-medium"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="mt-8 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 flex items-center justify-between">
+          <h3 className="font-bold">Recent Sign In Attempts</h3>
+          <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+            <input
+              type="checkbox"
+              checked={failedAttemptsOnly}
+              onChange={(e) => setFailedAttemptsOnly(e.target.checked)}
+              className="rounded border-slate-300 text-primary focus:ring-primary"
+            />
+            Failed only
+          </label>
+        </div>
+        {attempts.length === 0 ? (
+          <div className="text-center py-8 text-sm text-slate-500">
+            No sign in attempts yet
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
+              {attempts.map((attempt) => (
+                <tr key={attempt.id}>
+                  <td className="px-6 py-3 text-slate-500 whitespace-nowrap">
+                    {new Date(attempt.createdAt).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-3 font-medium">{attempt.email}</td>
+                  <td className="px-6 py-3">
+                    {attempt.success ? (
+                      <span className="text-green-700 dark:text-green-300">
+                        Signed in
+                      </span>
+                    ) : (
+                      <span className="text-red-700 dark:text-red-300">
+                        {ATTEMPT_REASONS[attempt.reason || ""] || "Failed"}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 font-mono text-xs text-slate-500">
+                    {attempt.ip}
+                  </td>
+                  <td
+                    className="px-6 py-3 text-xs text-slate-500 max-w-xs truncate"
+                    title={attempt.userAgent || ""}
+                  >
+                    {attempt.userAgent || "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showModal === "invite" && (
+        <UserModal
+          mode="invite"
+          initial={null}
+          onClose={closeModal}
+          onSaved={handleSaved}
+        />
+      )}
+
       {showModal === "create" && (
         <UserModal
           mode="create"
@@ -513,6 +921,30 @@ export default function AdminUsers() {
           onCancel={() => setConfirmDelete(null)}
         />
       )}
+
+      {confirmSignOut && (
+        <ConfirmModal
+          title="Sign Out Everywhere"
+          message={`Sign "${confirmSignOut.email}" out of every session? They'll have to sign in again.`}
+          confirmText="Sign Out"
+          cancelText="Cancel"
+          variant="danger"
+          onConfirm={signOutEverywhere}
+          onCancel={() => setConfirmSignOut(null)}
+        />
+      )}
+
+      {confirmResetTwoFactor && (
+        <ConfirmModal
+          title="Reset Two-Factor"
+          message={`Turn off two-factor for "${confirmResetTwoFactor.email}" and sign them out? Use this when they've lost their authenticator and recovery codes.`}
+          confirmText="Reset"
+          cancelText="Cancel"
+          variant="danger"
+          onConfirm={resetTwoFactor}
+          onCancel={() => setConfirmResetTwoFactor(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,9 +1,15 @@
 import { useEffect, useMemo, useState } from "react";
-import { Link, useOutletContext } from "react-router-dom";
+import { Link, useOutletContext, useSearchParams } from "react-router-dom";
 import { useCart } from "../cart/CartContext";
 import * as api from "../lib/api";
 import { LayoutOutletContext } from "../components/Layout";
-import { Product } from "../types";
+import {
+  CartDiscount,
+  Product,
+  ShippingOption,
+  ShippingQuote,
+  TaxQuote,
+} from "../types";
 
 const FALLBACK_IMAGES: Record<string, string> = {
   "red-ember-spice":
@@ -36,20 +42,44 @@ function formatMoney(cents: number, currency: string = "usd"): string {
   }).format(value);
 }
 
+function deliveryEstimate(option: ShippingOption): string | null {
+  const { minDays, maxDays } = option;
+  if (minDays === null && maxDays === null) return null;
+  const min = minDays ?? maxDays;
+  const max = maxDays ?? minDays;
+  const range = min === max ? `${min}` : `${min}-${max}`;
+  return `${range} business day${max === 1 ? "" : "s"}`;
+}
+
+// Set when the cart was rebuilt from an abandoned checkout's recovery link.
+const RECOVERY_TOKEN_KEY = "redember_recovery_token";
+
 export default function Cart() {
   const { setHeaderState } = useOutletContext<LayoutOutletContext>();
   const cart = useCart();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const sharedCartId = searchParams.get("share");
+  const recoveryToken = searchParams.get("recover");
+  const [shareCopied, setShareCopied] = useState<boolean>(false);
 
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string>("");
-  const [shippingInfo, setShippingInfo] = useState<{
-    shippingCents: number;
-    totalWeightG: number;
-    freeShippingMin: number | null;
-    zone: string;
-  } | null>(null);
+  const [shippingInfo, setShippingInfo] = useState<ShippingQuote | null>(null);
+  const [shippingMethodId, setShippingMethodId] = useState<string | null>(null);
   const [loadingShipping, setLoadingShipping] = useState<boolean>(false);
+  const [shippingError, setShippingError] = useState<string>("");
+  const [countries, setCountries] = useState<string[]>([]);
+  const [country, setCountry] = useState<string>("US");
+  const [region, setRegion] = useState<string>("");
+  const [postalCode, setPostalCode] = useState<string>("");
+  const [taxInfo, setTaxInfo] = useState<TaxQuote | null>(null);
+  const [discountInput, setDiscountInput] = useState<string>("");
+  const [discountCode, setDiscountCode] = useState<string>("");
+  const [discount, setDiscount] = useState<CartDiscount | null>(null);
+  const [discountError, setDiscountError] = useState<string>("");
+  const [email, setEmail] = useState<string>("");
+  const [emailRequired, setEmailRequired] = useState<boolean>(false);
 
   useEffect(() => {
     setHeaderState({ cartCount: 0, onCheckout: null, checkoutDisabled: true });
@@ -74,6 +104,59 @@ export default function Cart() {
     };
   }, []);
 
+  // Opened from a shared cart link or a recovery email: add its items to
+  // this cart. The recovery token is sent with checkout so a paid order
+  // counts as recovered.
+  useEffect(() => {
+    if (!sharedCartId && !recoveryToken) return;
+    if (recoveryToken) {
+      sessionStorage.setItem(RECOVERY_TOKEN_KEY, recoveryToken);
+    }
+    cart
+      .mergeCart(
+        sharedCartId
+          ? { cartId: sharedCartId }
+          : { recoveryToken: recoveryToken! }
+      )
+      .catch((e) => setError((e as Error).message))
+      .finally(() => setSearchParams({}, { replace: true }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sharedCartId, recoveryToken]);
+
+  async function copyShareLink(): Promise<void> {
+    if (!cart.cartId) return;
+    const url = `${window.location.origin}/cart?share=${encodeURIComponent(
+      cart.cartId
+    )}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareCopied(true);
+      setTimeout(() => setShareCopied(false), 2000);
+    } catch {
+      setError(`Copy this link to share your cart: ${url}`);
+    }
+  }
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const list = await api.getShippingCountries();
+        if (cancelled) return;
+        setCountries(list);
+        setCountry((prev) =>
+          list.length === 0 || list.includes(prev) ? prev : list[0]
+        );
+      } catch (e) {
+        console.error("Failed to load shipping countries:", e);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   const productById = useMemo(() => {
     const map = new Map<string, Product>();
     products.forEach((p) => map.set(p.id, p));
@@ -134,18 +217,14 @@ export default function Cart() {
     (async () => {
       try {
         setLoadingShipping(true);
-        const result = await api.calculateShipping(cart.items, "US");
+        setShippingError("");
+        const result = await api.calculateShipping(cart.items, country);
         if (!cancelled) setShippingInfo(result);
       } catch (e) {
         console.error("Failed to calculate shipping:", e);
-        // Fallback to default if API fails
         if (!cancelled) {
-          setShippingInfo({
-            shippingCents: subtotalCents >= 5000 ? 0 : 599,
-            totalWeightG: 0,
-            freeShippingMin: 5000,
-            zone: "Default",
-          });
+          setShippingInfo(null);
+          setShippingError((e as Error).message);
         }
       } finally {
         if (!cancelled) setLoadingShipping(false);
@@ -155,28 +234,101 @@ export default function Cart() {
     return () => {
       cancelled = true;
     };
-  }, [cart.items, subtotalCents]);
+  }, [cart.items, country]);
+
+  // The customer can still switch methods in Stripe Checkout; this one is
+  // preselected there.
+  const selectedShipping = useMemo(() => {
+    const options = shippingInfo?.options || [];
+    return (
+      options.find((o) => o.methodId === shippingMethodId) || options[0] || null
+    );
+  }, [shippingInfo, shippingMethodId]);
+
+  // The entered code, or the automatic promotion the cart qualifies for,
+  // re-checked as the cart changes.
+  useEffect(() => {
+    if (cart.items.length === 0) {
+      setDiscount(null);
+      return;
+    }
 
-  const shippingCents = useMemo(() => {
-    if (!shippingInfo) return 0;
+    let cancelled = false;
+    const handle = window.setTimeout(async () => {
+      try {
+        const result = await api.validateDiscount(
+          cart.items,
+          discountCode || undefined,
+          email || undefined
+        );
+        if (cancelled) return;
+        setDiscount(result.discount || null);
+        setDiscountError("");
+      } catch (e) {
+        if (cancelled) return;
+        setDiscount(null);
+        setDiscountError((e as Error).message);
+        if ((e as { emailRequired?: boolean }).emailRequired) {
+          setEmailRequired(true);
+        }
+      }
+    }, 300);
 
-    // Apply free shipping if threshold is met
-    if (
-      shippingInfo.freeShippingMin &&
-      subtotalCents >= shippingInfo.freeShippingMin
-    ) {
-      return 0;
+    return () => {
+      cancelled = true;
+      window.clearTimeout(handle);
+    };
+  }, [cart.items, discountCode, email]);
+
+  const discountCents = discount?.amountCents ?? 0;
+
+  const shippingCents = discount?.freeShipping
+    ? 0
+    : selectedShipping?.shippingCents ?? 0;
+
+  // Tax for the destination, recalculated as the address or shipping changes
+  useEffect(() => {
+    if (cart.items.length === 0) {
+      setTaxInfo(null);
+      return;
     }
 
-    return shippingInfo.shippingCents;
-  }, [shippingInfo, subtotalCents]);
+    let cancelled = false;
+    const handle = window.setTimeout(async () => {
+      try {
+        const result = await api.calculateTax(
+          cart.items,
+          { country, state: region, postalCode },
+          shippingCents,
+          {
+            discountCode: discountCode || undefined,
+            email: email || undefined,
+          }
+        );
+        if (!cancelled) setTaxInfo(result);
+      } catch (e) {
+        console.error("Failed to calculate tax:", e);
+        if (!cancelled) setTaxInfo(null);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(handle);
+    };
+  }, [
+    cart.items,
+    country,
+    region,
+    postalCode,
+    shippingCents,
+    discountCode,
+    email,
+  ]);
 
-  const taxCents = useMemo(() => {
-    // Simple estimate (8%)
-    return Math.round(subtotalCents * 0.08);
-  }, [subtotalCents]);
+  const taxCents = taxInfo?.taxCents ?? 0;
 
-  const totalCents = subtotalCents + shippingCents + taxCents;
+  const totalCents = subtotalCents - discountCents + shippingCents + taxCents;
 
   const itemCount = lineItems.reduce((sum, li) => sum + li.quantity, 0);
 
@@ -185,7 +337,17 @@ export default function Cart() {
     if (cart.items.length === 0) return;
     setLoading(true);
     try {
-      const { url } = await api.createCartCheckout(cart.items);
+      const { url } = await api.createCartCheckout(
+        cart.items,
+        { country, state: region, postalCode },
+        selectedShipping?.methodId,
+        {
+          discountCode: discountCode || undefined,
+          email: email || undefined,
+          recoveryToken:
+            sessionStorage.getItem(RECOVERY_TOKEN_KEY) || undefined,
+        }
+      );
       window.location.href = url;
     } catch (e) {
       setError((e as Error).message);
@@ -201,9 +363,20 @@ export default function Cart() {
             <h1 className="font-display text-3xl font-bold tracking-tight">
               Shopping Cart
             </h1>
-            <span className="text-stone-500 dark:text-stone-400">
-              {itemCount} {itemCount === 1 ? "Item" : "Items"}
-            </span>
+            <div className="flex items-center gap-4">
+              {cart.cartId && cart.items.length > 0 && (
+                <button
+                  type="button"
+                  onClick={copyShareLink}
+                  className="text-sm font-semibold text-primary hover:underline underline-offset-4"
+                >
+                  {shareCopied ? "Link copied" : "Share cart"}
+                </button>
+              )}
+              <span className="text-stone-500 dark:text-stone-400">
+                {itemCount} {itemCount === 1 ? "Item" : "Items"}
+              </span>
+            </div>
           </div>
 
           {error && (
@@ -352,6 +525,44 @@ export default function Cart() {
                 </span>
               </div>
 
+              <div className="flex justify-between items-center">
+                <label
+                  className="text-slate-600 dark:text-slate-400"
+                  htmlFor="ship-country"
+                >
+                  Ship to
+                </label>
+                <select
+                  id="ship-country"
+                  className="bg-stone-50 dark:bg-stone-800 border-stone-200 dark:border-stone-700 rounded-lg px-3 py-1 text-sm focus:ring-primary focus:border-primary"
+                  value={country}
+                  onChange={(e) => setCountry(e.target.value)}
+                >
+                  {(countries.length > 0 ? countries : [country]).map((c) => (
+                    <option key={c} value={c}>
+                      {c}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  className="bg-stone-50 dark:bg-stone-800 border-stone-200 dark:border-stone-700 rounded-lg px-3 py-1 text-sm focus:ring-primary focus:border-primary"
+                  placeholder="State / Province"
+                  aria-label="State or province"
+                  value={region}
+                  onChange={(e) => setRegion(e.target.value.toUpperCase())}
+                />
+                <input
+                  className="bg-stone-50 dark:bg-stone-800 border-stone-200 dark:border-stone-700 rounded-lg px-3 py-1 text-sm focus:ring-primary focus:border-primary"
+                  placeholder="Postal code"
+                  aria-label="Postal code"
+                  value={postalCode}
+                  onChange={(e) => setPostalCode(e.target.value)}
+                />
+              </div>
+
               <div className="flex justify-between items-start">
                 <div className="flex items-center gap-2">
                   <span>Estimated Shipping</span>
@@ -363,7 +574,11 @@ export default function Cart() {
                 </div>
                 <div className="text-right">
                   <span className="font-medium text-stone-900 dark:text-white">
-                    {shippingCents === 0 ? (
+                    {shippingError ? (
+                      <span className="text-red-600 dark:text-red-400">
+                        Unavailable
+                      </span>
+                    ) : shippingCents === 0 ? (
                       <span className="text-green-600 dark:text-green-400 font-semibold">
                         FREE
                       </span>
@@ -379,15 +594,54 @@ export default function Cart() {
                   )}
                 </div>
               </div>
-              {shippingInfo?.freeShippingMin &&
-                subtotalCents < shippingInfo.freeShippingMin && (
+              {shippingError && (
+                <p className="text-xs text-red-600 dark:text-red-400">
+                  {shippingError}
+                </p>
+              )}
+              {shippingInfo && shippingInfo.options.length > 1 && (
+                <div className="space-y-2">
+                  {shippingInfo.options.map((option) => (
+                    <label
+                      key={option.methodId || option.name}
+                      className="flex items-center justify-between gap-3 text-sm cursor-pointer"
+                    >
+                      <span className="flex items-center gap-2">
+                        <input
+                          type="radio"
+                          name="shipping-method"
+                          className="text-primary focus:ring-primary"
+                          checked={selectedShipping === option}
+                          onChange={() => setShippingMethodId(option.methodId)}
+                        />
+                        <span>
+                          {option.name}
+                          {deliveryEstimate(option) && (
+                            <span className="block text-xs text-stone-400">
+                              {deliveryEstimate(option)}
+                            </span>
+                          )}
+                        </span>
+                      </span>
+                      <span className="font-medium">
+                        {option.shippingCents === 0
+                          ? "FREE"
+                          : formatMoney(option.shippingCents, currency)}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+              {selectedShipping?.freeShippingMin &&
+                subtotalCents < selectedShipping.freeShippingMin && (
                   <div className="text-xs text-stone-500 dark:text-stone-400 bg-stone-50 dark:bg-stone-800/50 rounded-lg px-3 py-2">
                     Add{" "}
                     {formatMoney(
-                      shippingInfo.freeShippingMin - subtotalCents,
+                      selectedShipping.freeShippingMin - subtotalCents,
                       currency
                     )}{" "}
-                    more for free shipping!
+                    more for free {selectedShipping.name.toLowerCase()}{" "}
+                    shipping!
                   </div>
                 )}
             </div>
@@ -407,22 +661,67 @@ export default function Cart() {
               >
                 Discount Code
               </label>
-              <div className="flex gap-2">
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  setDiscountError("");
+                  setDiscountCode(discountInput.trim().toUpperCase());
+                }}
+              >
                 <input
-                  className="flex-grow bg-stone-50 dark:bg-stone-800 border-stone-200 dark:border-stone-700 rounded-lg px-4 py-2 focus:ring-primary focus:border-primary"
+                  className="flex-grow bg-stone-50 dark:bg-stone-800 border-stone-200 dark:border-stone-700 rounded-lg px-4 py-2 uppercase focus:ring-primary focus:border-primary"
                   id="promo"
                   placeholder="Enter code"
                   type="text"
-                  disabled
+                  value={discountInput}
+                  onChange={(e) => setDiscountInput(e.target.value)}
                 />
                 <button
-                  type="button"
-                  disabled
-                  className="px-4 py-2 bg-stone-900 dark:bg-white text-white dark:text-stone-900 text-sm font-bold rounded-lg opacity-60 cursor-not-allowed"
+                  type="submit"
+                  disabled={!discountInput.trim() || cart.items.length === 0}
+                  className="px-4 py-2 bg-stone-900 dark:bg-white text-white dark:text-stone-900 text-sm font-bold rounded-lg disabled:opacity-60 disabled:cursor-not-allowed"
                 >
                   Apply
                 </button>
-              </div>
+              </form>
+              {emailRequired && (
+                <input
+                  className="mt-2 w-full bg-stone-50 dark:bg-stone-800 border-stone-200 dark:border-stone-700 rounded-lg px-4 py-2 text-sm focus:ring-primary focus:border-primary"
+                  type="email"
+                  placeholder="Email for this order"
+                  aria-label="Email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value.trim())}
+                />
+              )}
+              {discountError && (
+                <p className="mt-2 text-xs text-red-600 dark:text-red-400">
+                  {discountError}
+                </p>
+              )}
+              {discount && (
+                <div className="mt-2 flex items-center justify-between text-xs text-green-700 dark:text-green-400">
+                  <span>
+                    {discount.code
+                      ? `${discount.code} applied`
+                      : `${discount.name} applied automatically`}
+                  </span>
+                  {discountCode && (
+                    <button
+                      type="button"
+                      className="font-semibold text-stone-500 hover:text-primary"
+                      onClick={() => {
+                        setDiscountCode("");
+                        setDiscountInput("");
+                        setDiscountError("");
+                      }}
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
 
             <div className="space-y-4 mb-8">
@@ -432,6 +731,14 @@ export default function Cart() {
                   {formatMoney(subtotalCents, currency)}
                 </span>
               </div>
+              {discountCents > 0 && (
+                <div className="flex justify-between text-green-700 dark:text-green-400">
+                  <span>Discount</span>
+                  <span className="font-medium">
+                    -{formatMoney(discountCents, currency)}
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between text-stone-600 dark:text-stone-400">
                 <span>Estimated Shipping</span>
                 <span className="font-medium text-stone-900 dark:text-white">
@@ -439,7 +746,14 @@ export default function Cart() {
                 </span>
               </div>
               <div className="flex justify-between text-stone-600 dark:text-stone-400">
-                <span>Tax</span>
+                <span>
+                  Tax
+                  {taxInfo?.region && (
+                    <span className="block text-xs text-stone-400">
+                      {taxInfo.region}
+                    </span>
+                  )}
+                </span>
                 <span className="font-medium text-stone-900 dark:text-white">
                   {formatMoney(taxCents, currency)}
                 </span>
@@ -451,7 +765,7 @@ export default function Cart() {
                     {formatMoney(totalCents, currency)}
                   </span>
                   <span className="text-xs text-stone-400">
-                    VAT included where applicable
+                    Tax is calculated for the address entered above
                   </span>
                 </div>
               </div>
@@ -460,7 +774,7 @@ export default function Cart() {
             <button
               type="button"
               onClick={onCheckout}
-              disabled={cart.items.length === 0 || loading}
+              disabled={cart.items.length === 0 || loading || !!shippingError}
               className="w-full bg-primary text-white py-4 rounded-xl font-bold text-lg hover:bg-red-700 transform active:scale-[0.98] transition-all shadow-lg shadow-red-500/20 flex items-center justify-center gap-2 disabled:opacity-60"
             >
               {loading ? "Redirecting…" : "Proceed to Checkout"}
@@ -17,7 +17,7 @@ export default function Success() {
       <div className="bg-white/80 dark:bg-stone-950/40 border border-stone-200 dark:border-stone-800 rounded-2xl p-8 backdrop-blur">
         <h1 className="font-display text-4xl mb-4">Payment received</h1>
         <p className="text-stone-600 dark:text-stone-400">
-          Thanks for your order! You'll receive a confirmation from Stripe.
+          Thanks for your order! A confirmation email is on its way.
         </p>
         {sessionId && (
           <p className="mt-4 text-sm text-stone-500">Session: {sessionId}</p>
@@ -1,17 +1,143 @@
+export type AdminRole = "owner" | "manager" | "fulfillment" | "content_editor";
+
+export type AdminPermission =
+  | "analytics:read"
+  | "orders:read"
+  | "orders:write"
+  | "orders:refund"
+  | "payments:manage"
+  | "inventory:read"
+  | "inventory:write"
+  | "products:write"
+  | "customers:read"
+  | "customers:write"
+  | "discounts:manage"
+  | "shipping:manage"
+  | "emails:manage"
+  | "alerts:manage"
+  | "settings:manage"
+  | "users:manage"
+  | "audit:read";
+
 export interface AdminUser {
   id: string;
   email: string;
   name: string | null;
+  // Only on the signed-in user
+  role?: AdminRole;
+  permissions?: AdminPermission[];
+  twoFactorEnabled?: boolean;
 }
 
+// What the login form shows after the password was accepted.
+export type AdminLoginStep = "signed_in" | "two_factor" | "two_factor_setup";
+
 export interface AdminAuthContextType {
   user: AdminUser | null;
   isAuthed: boolean;
   loading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  can: (permission: AdminPermission) => boolean;
+  login: (email: string, password: string) => Promise<AdminLoginStep>;
+  verifyTwoFactor: (code: string) => Promise<void>;
+  setUser: (user: AdminUser | null) => void;
   logout: () => Promise<void>;
 }
 
+export interface LoginAttempt {
+  id: string;
+  email: string;
+  adminUserId: string | null;
+  ip: string;
+  userAgent: string | null;
+  success: boolean;
+  // invalid_password, unknown_user, inactive, locked, throttled, invalid_code
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface AdminSession {
+  // Opaque; the session id itself stays on the server.
+  id: string;
+  adminUserId: string;
+  adminUser: { id: string; email: string; name: string | null } | null;
+  ip: string | null;
+  userAgent: string | null;
+  signedInAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  // The session making the request
+  current: boolean;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  adminUserId: string | null;
+  actorEmail: string;
+  action: "create" | "update" | "delete";
+  // Prisma model, e.g. Product, StoreSetting
+  entityType: string;
+  entityId: string | null;
+  method: string;
+  path: string;
+  // Only the changed fields for updates
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ip: string | null;
+  createdAt: string;
+}
+
+export interface StripeEvent {
+  // Stripe's event id, evt_...
+  id: string;
+  type: string;
+  livemode: boolean;
+  status: "pending" | "processing" | "processed" | "ignored" | "failed";
+  error: string | null;
+  attempts: number;
+  stripeCreatedAt: string;
+  processedAt: string | null;
+  createdAt: string;
+  // Only returned when fetching a single event.
+  payload?: Record<string, unknown>;
+}
+
+export interface ReconcileEntry {
+  sessionId: string;
+  orderId: string | null;
+  detail: string;
+}
+
+export interface ReconcileReport {
+  since: string;
+  dryRun: boolean;
+  scanned: number;
+  created: ReconcileEntry[];
+  repaired: ReconcileEntry[];
+  mismatches: Array<{
+    sessionId: string;
+    orderId: string;
+    stripeCents: number;
+    orderCents: number;
+    itemsCents: number | null;
+  }>;
+  errors: ReconcileEntry[];
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  // Store setting: every admin must use two-factor.
+  required: boolean;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL of otpauthUrl
+  qrCode: string;
+}
+
 export interface CartItem {
   productId: string;
   quantity: number;
@@ -19,11 +145,78 @@ export interface CartItem {
 
 export interface CartContextType {
   items: CartItem[];
+  // Server cart id, used for share links; null until the cart is saved.
+  cartId: string | null;
   addToCart: (productId: string, quantity: number) => void;
   updateQuantity: (productId: string, quantity: number) => void;
   removeFromCart: (productId: string) => void;
   clearCart: () => void;
   getTotalQuantity: () => number;
+  // Add the items of a shared cart or an abandoned checkout's recovery link.
+  mergeCart: (source: {
+    cartId?: string;
+    recoveryToken?: string;
+  }) => Promise<void>;
+  reloadCart: () => Promise<void>;
+}
+
+export interface Customer {
+  id: string;
+  email: string;
+  name: string | null;
+  phone: string | null;
+  marketingConsent: boolean;
+  hasPassword: boolean;
+  emailVerified: boolean;
+  createdAt: string;
+}
+
+export interface CustomerAddress {
+  id: string;
+  name: string;
+  line1: string;
+  line2: string | null;
+  city: string;
+  state: string | null;
+  postalCode: string;
+  country: string;
+  phone: string | null;
+  isDefault: boolean;
+}
+
+export interface AccountOrder {
+  id: string;
+  status: string;
+  amountTotal: number;
+  currency: string;
+  shippingMethod: string | null;
+  trackingCarrier: string | null;
+  trackingNumber: string | null;
+  createdAt: string;
+  shippedAt: string | null;
+  deliveredAt: string | null;
+  items: Array<{
+    productId: string | null;
+    name: string;
+    quantity: number;
+    unitPriceCents: number;
+    totalCents: number;
+  }>;
+}
+
+export interface CustomerContextType {
+  customer: Customer | null;
+  loading: boolean;
+  login: (email: string, password: string) => Promise<void>;
+  signup: (payload: {
+    email: string;
+    password: string;
+    name?: string;
+    marketingConsent?: boolean;
+  }) => Promise<void>;
+  verifyLoginLink: (token: string) => Promise<void>;
+  logout: () => Promise<void>;
+  setCustomer: (customer: Customer) => void;
 }
 
 export const HEAT_PROFILE_VALUES = ["gentle", "standard", "inferno"] as const;
@@ -37,6 +230,8 @@ export interface Product {
   priceCents: number;
   currency: string;
   stock: number;
+  // Per-product override of the store's low stock threshold.
+  lowStockThreshold?: number | null;
   description: string | null;
   imageUrl: string | null;
 
@@ -47,6 +242,7 @@ export interface Product {
   categoryId: string | null;
   variantName: string | null;
   requiresShipping: boolean;
+  taxExempt?: boolean;
   weightGrams: number | null;
   weightOz: number | null;
   weightG: number | null;
@@ -100,10 +296,48 @@ export interface ProductImage {
   createdAt: string;
 }
 
+export const ORDER_STATUS_VALUES = [
+  "pending",
+  "paid",
+  "packed",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "refunded",
+] as const;
+export type OrderStatusValue = (typeof ORDER_STATUS_VALUES)[number];
+
+export interface OrderFulfillment {
+  trackingCarrier: string | null;
+  trackingNumber: string | null;
+  packedAt: string | null;
+  shippedAt: string | null;
+  deliveredAt: string | null;
+  cancelledAt: string | null;
+}
+
+export interface OrderShipping {
+  name: string | null;
+  city: string | null;
+  state: string | null;
+  postal: string | null;
+  country: string | null;
+  method: string | null;
+  cents: number | null;
+}
+
 export interface Order {
   id: string;
   stripeSessionId: string;
-  status: string;
+  status: OrderStatusValue;
+  nextStatuses: OrderStatusValue[];
+  fulfillment: OrderFulfillment;
+  shipping?: OrderShipping;
+  taxCents?: number | null;
+  discountCents?: number | null;
+  discountCode?: string | null;
+  // Paid, but stock ran out before it could be allocated.
+  unfulfillable?: boolean;
   totalCents: number;
   currency: string;
   customerName?: string | null;
@@ -112,11 +346,277 @@ export interface Order {
   items: OrderItem[];
 }
 
+// GET /api/admin/orders
+export interface OrderListResponse {
+  orders: Order[];
+  nextCursor: string | null;
+  // Every order matching the filters, not just this page
+  totals: { count: number; totalCents: number };
+}
+
+export interface OrderEvent {
+  id: string;
+  orderId: string;
+  type: string;
+  fromStatus: string | null;
+  toStatus: string | null;
+  note: string | null;
+  createdAt: string;
+  adminUser: { id: string; email: string; name: string | null } | null;
+}
+
 export interface OrderItem {
   id: string;
   orderId: string;
-  productId: string;
+  productId: string | null;
+  sku: string;
   quantity: number;
   priceCents: number;
+  taxCents: number;
+  discountCents: number;
+  totalCents: number;
   productName?: string | null;
 }
+
+export interface RefundLine {
+  id: string;
+  refundId: string;
+  orderItemId: string;
+  quantity: number;
+  amountCents: number;
+}
+
+export interface Refund {
+  id: string;
+  orderId: string;
+  stripeRefundId: string | null;
+  amountCents: number;
+  currency: string;
+  status: "pending" | "succeeded" | "failed" | "canceled";
+  source: "admin" | "stripe";
+  reason: string | null;
+  note: string | null;
+  restocked: boolean;
+  failureMessage: string | null;
+  createdAt: string;
+  lines: RefundLine[];
+  adminUser: { id: string; email: string; name: string | null } | null;
+}
+
+export type StockMovementReason =
+  | "sale"
+  | "adjustment"
+  | "restock"
+  | "return"
+  | "damage"
+  | "count";
+
+export interface InventoryMovement {
+  id: string;
+  productId: string;
+  delta: number;
+  stockAfter: number;
+  reason: StockMovementReason;
+  orderId: string | null;
+  note: string | null;
+  createdAt: string;
+  adminUser: { id: string; email: string; name: string | null } | null;
+}
+
+export interface StockHistory {
+  product: { id: string; name: string; sku: string; stock: number };
+  movements: InventoryMovement[];
+  summary: {
+    openingStock: number;
+    closingStock: number;
+    byReason: Partial<Record<StockMovementReason, number>>;
+  };
+}
+
+export interface AdminAlert {
+  id: string;
+  type:
+    | "unfulfillable_order"
+    | "tax_mismatch"
+    | "low_stock"
+    | "out_of_stock"
+    | string;
+  severity: "info" | "warning" | "critical";
+  message: string;
+  orderId: string | null;
+  productId: string | null;
+  notifiedAt: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  order: { id: string; email: string | null; status: string } | null;
+  product: { id: string; name: string; sku: string; stock: number } | null;
+}
+
+export interface EmailMessage {
+  id: string;
+  template: string;
+  to: string;
+  subject: string;
+  status: "pending" | "sent" | "failed";
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string;
+  sentAt: string | null;
+  orderId: string | null;
+  createdAt: string;
+  // Only returned when fetching a single message.
+  html?: string;
+  text?: string;
+}
+
+export interface EmailPreview {
+  subject: string;
+  html: string;
+  text: string;
+  orderId: string | null;
+}
+
+export interface ShippingOption {
+  methodId: string | null;
+  name: string;
+  minDays: number | null;
+  maxDays: number | null;
+  shippingCents: number;
+  rateCents: number;
+  freeShippingMin: number | null;
+  freeShippingApplied: boolean;
+}
+
+export interface ShippingQuote {
+  totalWeightG: number;
+  zone: string;
+  options: ShippingOption[];
+}
+
+export interface TaxQuote {
+  taxCents: number;
+  itemTaxCents: number;
+  shippingTaxCents: number;
+  rateBps: number;
+  taxShipping: boolean;
+  region: string | null;
+}
+
+export type DiscountType =
+  | "percentage"
+  | "fixed_amount"
+  | "free_shipping"
+  | "buy_x_get_y";
+
+export interface Discount {
+  id: string;
+  // Null for automatic promotions.
+  code: string | null;
+  name: string;
+  type: DiscountType;
+  automatic: boolean;
+  // Percent off, or cents off for fixed_amount.
+  value: number;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  minSubtotalCents: number | null;
+  productIds: string[];
+  categoryIds: string[];
+  usageLimit: number | null;
+  perCustomerLimit: number | null;
+  usageCount: number;
+  startsAt: string | null;
+  endsAt: string | null;
+  active: boolean;
+  redeemedCents?: number;
+}
+
+// A discount priced against the cart by the server.
+export interface CartDiscount {
+  code: string | null;
+  name: string;
+  type: DiscountType;
+  amountCents: number;
+  freeShipping: boolean;
+  lines: Array<{ productId: string; discountCents: number }>;
+}
+
+export type CheckoutStatus = "open" | "completed" | "expired";
+
+export interface AbandonedCheckout {
+  id: string;
+  stripeSessionId: string;
+  status: CheckoutStatus;
+  email: string | null;
+  items: Array<{ productId: string; quantity: number; name: string }>;
+  subtotalCents: number;
+  currency: string;
+  discountCode: string | null;
+  orderId: string | null;
+  recoveryUrl: string;
+  recoveryEmailSentAt: string | null;
+  recoveredAt: string | null;
+  recoveredOrderId: string | null;
+  expiresAt: string | null;
+  expiredAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+export interface CheckoutStats {
+  started: number;
+  completed: number;
+  abandoned: number;
+  emailed: number;
+  recovered: number;
+  recoveryRate: number;
+  recoveredRevenueCents: number;
+}
+
+export interface TaxRegion {
+  id: string;
+  name: string;
+  country: string;
+  state: string | null;
+  postalPrefix: string | null;
+  rateBps: number;
+  taxShipping: boolean;
+  enabled: boolean;
+}
+
+export interface CustomerNote {
+  id: string;
+  body: string;
+  createdAt: string;
+  adminUser: AdminUser | null;
+}
+
+export interface CustomerMetrics {
+  orderCount: number;
+  lifetimeValueCents: number;
+  averageOrderValueCents: number;
+  refundedCents: number;
+  firstOrderAt: string | null;
+  lastOrderAt: string | null;
+  favoriteProducts: Array<{
+    productId: string | null;
+    name: string;
+    quantity: number;
+    orders: number;
+  }>;
+  heatProfile: { profile: string; share: number } | null;
+  heatProfileBreakdown: Record<string, number>;
+}
+
+export interface CustomerOrderSummary {
+  id: string;
+  status: string;
+  amountTotal: number;
+  currency: string;
+  refundedCents: number;
+  itemCount: number;
+  createdAt: string;
+  shippedAt: string | null;
+  deliveredAt: string | null;
+  cancelledAt: string | null;
+}